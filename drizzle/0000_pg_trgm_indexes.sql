@@ -0,0 +1,59 @@
+-- Baseline of the schema so far, safe to apply to databases created with db:push,
+-- plus the pg_trgm extension and the trigram indexes behind fuzzy filters.
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "advocate_specialties" (
+	"advocate_id" uuid NOT NULL,
+	"specialty_id" uuid NOT NULL,
+	CONSTRAINT "advocate_specialties_advocate_id_specialty_id_pk" PRIMARY KEY("advocate_id","specialty_id")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "advocates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"first_name" varchar(100) NOT NULL,
+	"last_name" varchar(100) NOT NULL,
+	"degree" varchar(50) NOT NULL,
+	"years_of_experience" integer NOT NULL,
+	"phone_number" bigint NOT NULL,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP,
+	"updated_at" timestamp DEFAULT CURRENT_TIMESTAMP
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "locations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"advocate_id" uuid NOT NULL,
+	"city" varchar(100) NOT NULL,
+	"state" varchar(50),
+	"country" varchar(100) DEFAULT 'United States' NOT NULL,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "specialties" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"description" text,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP,
+	CONSTRAINT "specialties_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "advocate_specialties" ADD CONSTRAINT "advocate_specialties_advocate_id_advocates_id_fk" FOREIGN KEY ("advocate_id") REFERENCES "public"."advocates"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "advocate_specialties" ADD CONSTRAINT "advocate_specialties_specialty_id_specialties_id_fk" FOREIGN KEY ("specialty_id") REFERENCES "public"."specialties"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "locations" ADD CONSTRAINT "locations_advocate_id_advocates_id_fk" FOREIGN KEY ("advocate_id") REFERENCES "public"."advocates"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "advocates_first_name_trgm_idx" ON "advocates" USING gin ("first_name" gin_trgm_ops);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "advocates_last_name_trgm_idx" ON "advocates" USING gin ("last_name" gin_trgm_ops);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "locations_city_trgm_idx" ON "locations" USING gin ("city" gin_trgm_ops);
@@ -0,0 +1,4 @@
+ALTER TABLE "locations" ADD COLUMN IF NOT EXISTS "postal_code" varchar(10);--> statement-breakpoint
+ALTER TABLE "locations" ADD COLUMN IF NOT EXISTS "latitude" double precision;--> statement-breakpoint
+ALTER TABLE "locations" ADD COLUMN IF NOT EXISTS "longitude" double precision;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "locations_coordinates_idx" ON "locations" USING btree ("latitude","longitude");
\ No newline at end of file
@@ -0,0 +1,19 @@
+-- Stored full-text search documents; the application rewrites them on every write,
+-- so existing advocates are filled in here once.
+ALTER TABLE "advocates" ADD COLUMN IF NOT EXISTS "search_document" tsvector;--> statement-breakpoint
+UPDATE "advocates" SET "search_document" =
+	setweight(to_tsvector('simple', "advocates"."first_name" || ' ' || "advocates"."last_name"), 'A') ||
+	setweight(to_tsvector('simple', coalesce((
+		SELECT string_agg("specialties"."name", ' ')
+		FROM "advocate_specialties"
+		JOIN "specialties" ON "advocate_specialties"."specialty_id" = "specialties"."id"
+		WHERE "advocate_specialties"."advocate_id" = "advocates"."id"
+	), '')), 'B') ||
+	setweight(to_tsvector('simple', "advocates"."degree"), 'C') ||
+	setweight(to_tsvector('simple', coalesce((
+		SELECT string_agg("locations"."city" || ' ' || coalesce("locations"."state", ''), ' ')
+		FROM "locations"
+		WHERE "locations"."advocate_id" = "advocates"."id"
+	), '')), 'C') ||
+	setweight(to_tsvector('simple', "advocates"."phone_number"::text), 'D');--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "advocates_search_document_idx" ON "advocates" USING gin ("search_document");
@@ -0,0 +1,2 @@
+-- Soft-deleted advocates keep their row and relations so they can be restored
+ALTER TABLE "advocates" ADD COLUMN IF NOT EXISTS "deleted_at" timestamp;
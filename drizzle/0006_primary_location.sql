@@ -0,0 +1,5 @@
+-- The primary location is shown as the advocate's city, state and country.
+-- Advocates whose locations predate the flag have none flagged; the application
+-- then treats their most recent location as primary
+ALTER TABLE "locations" ADD COLUMN IF NOT EXISTS "is_primary" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "locations_one_primary_idx" ON "locations" USING btree ("advocate_id") WHERE "locations"."is_primary";
\ No newline at end of file
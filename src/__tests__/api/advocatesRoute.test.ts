@@ -0,0 +1,134 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { GET } from '../../app/api/advocates/route';
+import { advocates, advocateSpecialties, locations } from '../../db/schema';
+
+const advocateRow = {
+  id: '7b0c8f44-3a5e-4c7e-9d2a-1f6e5b4a3c21',
+  firstName: 'Jane',
+  lastName: 'Smith',
+  degree: 'MD',
+  yearsOfExperience: 12,
+  phoneNumber: 5550000001,
+  createdAt: new Date('2024-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2024-01-02T00:00:00.000Z'),
+  deletedAt: null
+};
+
+const locationRow = {
+  id: '0d8e5c1a-6b2f-4e3d-8a7c-9f1e2d3c4b5a',
+  advocateId: advocateRow.id,
+  city: 'Chicago',
+  state: 'IL',
+  country: 'United States',
+  postalCode: '60601',
+  latitude: 41.8858,
+  longitude: -87.6181,
+  isPrimary: true,
+  createdAt: new Date('2024-01-01T00:00:00.000Z')
+};
+
+const specialtyRow = {
+  advocateId: advocateRow.id,
+  id: 'c3a1b2d4-5e6f-4a7b-8c9d-0e1f2a3b4c5d',
+  name: 'Trauma & PTSD',
+  description: null
+};
+
+// Advocates matching the query, and the rows of the requested page
+let mockTotalCount = 1;
+let mockPageRows: typeof advocateRow[] = [advocateRow];
+
+// Mock the database: one advocate with one location and one specialty
+jest.mock('../../db', () => {
+  const query = (rows: unknown[]) => {
+    const chain = {
+      where: () => chain,
+      innerJoin: () => chain,
+      orderBy: () => chain,
+      limit: () => chain,
+      offset: () => chain,
+      then: (resolve: (value: unknown[]) => unknown) => resolve(rows)
+    };
+    return chain;
+  };
+
+  // The advocate is read with only the selected columns
+  const rowsFor = (selection: Record<string, any> | undefined, table: unknown): unknown[] => {
+    if (table === advocates) {
+      if (selection && 'count' in selection) return [{ count: mockTotalCount }];
+
+      return mockPageRows.map(row => ({
+        advocate: Object.fromEntries(Object.entries(row).filter(([column]) => column in selection!.advocate)),
+        cursorValues: [row.createdAt, row.id],
+        distance: null
+      }));
+    }
+    if (table === locations) return [locationRow];
+    if (table === advocateSpecialties) return [specialtyRow];
+    return [];
+  };
+
+  return {
+    __esModule: true,
+    default: {
+      select: (selection?: Record<string, any>) => ({
+        from: (table: unknown) => query(rowsFor(selection, table))
+      })
+    }
+  };
+});
+
+const createRequest = (path: string, headers: Record<string, string> = {}) =>
+  new NextRequest(`https://example.com${path}`, { headers });
+
+describe('GET /api/advocates', () => {
+  beforeEach(() => {
+    mockTotalCount = 1;
+    mockPageRows = [advocateRow];
+  });
+
+  it('should keep the original version 1 response shape by default', async () => {
+    const response = await GET(createRequest('/api/advocates?unknown=1'), undefined);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchSnapshot();
+  });
+
+  it('should return locations, deletedAt and warnings in version 1 only when requested', async () => {
+    const response = await GET(createRequest('/api/advocates?include=specialties,locations&strict=false&unknown=1'), undefined);
+    const body = await response.json();
+
+    expect(body.data[0].locations).toEqual([expect.objectContaining({ city: 'Chicago', isPrimary: true })]);
+    expect(body.data[0]).not.toHaveProperty('deletedAt');
+    expect(body.warnings).toEqual([expect.objectContaining({ parameter: 'unknown' })]);
+  });
+
+  it('should return locations, deletedAt and warnings by default in version 2', async () => {
+    const response = await GET(createRequest('/api/v2/advocates?unknown=1'), undefined);
+    const body = await response.json();
+
+    expect(body.data[0]).toHaveProperty('deletedAt', null);
+    expect(body.data[0].relations.locations).toHaveLength(1);
+    expect(body.warnings).toEqual([expect.objectContaining({ parameter: 'unknown' })]);
+  });
+
+  it('should report the real count for a page past the last one', async () => {
+    mockTotalCount = 25;
+    mockPageRows = [];
+
+    const response = await GET(createRequest('/api/advocates?page=4&limit=10'), undefined);
+    const body = await response.json();
+
+    expect(body.data).toEqual([]);
+    expect(body.pagination).toEqual(expect.objectContaining({
+      totalCount: 25,
+      totalPages: 3,
+      currentPage: 4,
+      pageSize: 10,
+      hasNextPage: false
+    }));
+  });
+});
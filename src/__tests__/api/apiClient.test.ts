@@ -1,8 +1,15 @@
 /**
  * Unit tests for the API client
  */
-import { ApiClient, ApiError } from '../../api/utils/apiClient';
+import {
+  ApiClient,
+  ApiError,
+  PreconditionFailedError,
+  ETAG_CACHE_SIZE,
+  bearerApiKey
+} from '../../api/utils/apiClient';
 import { AdvocateService } from '../../api/services/advocateService';
+import { SpecialtyService } from '../../api/services/specialtyService';
 import { buildQueryParams } from '../../api/utils/paramBuilders';
 
 // Mock fetch globally
@@ -87,6 +94,56 @@ describe('ApiClient', () => {
         data: { success: false, error: { message: 'Not found' } }
       });
     });
+
+    it('should keep the request id of failed responses', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        json: jest.fn().mockResolvedValue({ success: false, error: { message: 'Internal error' } }),
+        ok: false,
+        status: 500,
+        headers: new Headers({ 'content-type': 'application/json', 'x-request-id': 'req-123' })
+      });
+
+      await expect(apiClient.request('/api/advocates')).rejects.toMatchObject({ status: 500, requestId: 'req-123' });
+    });
+
+    it('should request the API version it was created with', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        json: jest.fn().mockResolvedValue({ data: [] }),
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'content-type': 'application/json' })
+      });
+      
+      const versionedClient = new ApiClient('', {}, { version: '2' });
+      await versionedClient.request('/api/advocates');
+      await apiClient.request('/api/advocates');
+      
+      expect(versionedClient.version).toBe('2');
+      expect((global.fetch as jest.Mock).mock.calls[0][1].headers).toMatchObject({ 'Accept-Version': '2' });
+      expect((global.fetch as jest.Mock).mock.calls[1][1].headers).not.toHaveProperty('Accept-Version');
+    });
+    
+    it('should call header providers before every request', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        json: jest.fn().mockResolvedValue({ data: [] }),
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'content-type': 'application/json' })
+      });
+      let apiKey: string | undefined = 'sk_first';
+      
+      const keyedClient = new ApiClient('', { Authorization: bearerApiKey(async () => apiKey) });
+      await keyedClient.request('/api/advocates');
+      apiKey = 'sk_second';
+      await keyedClient.request('/api/advocates');
+      apiKey = undefined;
+      await keyedClient.request('/api/advocates');
+      
+      const sentHeaders = (call: number) => (global.fetch as jest.Mock).mock.calls[call][1].headers;
+      expect(sentHeaders(0)).toMatchObject({ Authorization: 'Bearer sk_first', 'Content-Type': 'application/json' });
+      expect(sentHeaders(1)).toMatchObject({ Authorization: 'Bearer sk_second' });
+      expect(sentHeaders(2)).not.toHaveProperty('Authorization');
+    });
     
     it('should handle network errors', async () => {
       (global.fetch as jest.Mock).mockRejectedValue(new Error('Network error'));
@@ -99,6 +156,101 @@ describe('ApiClient', () => {
     });
   });
   
+  describe('ETag cache', () => {
+    const okResponse = (data: any, etag?: string) => ({
+      json: jest.fn().mockResolvedValue(data),
+      ok: true,
+      status: 200,
+      headers: new Headers({ 'content-type': 'application/json', ...(etag ? { etag } : {}) })
+    });
+    const notModified = () => ({
+      json: jest.fn(),
+      text: jest.fn().mockResolvedValue(''),
+      ok: false,
+      status: 304,
+      headers: new Headers({ etag: 'W/"v1"' })
+    });
+    const sentHeaders = (call: number) => (global.fetch as jest.Mock).mock.calls[call][1].headers;
+    
+    it('should revalidate a cached GET and return the cached body on 304', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(okResponse({ success: true, data: [1] }, 'W/"v1"'))
+        .mockResolvedValueOnce(notModified());
+      
+      await apiClient.get('/api/advocates', { page: 1 });
+      const response = await apiClient.get('/api/advocates', { page: 1 });
+      
+      expect(sentHeaders(0)['If-None-Match']).toBeUndefined();
+      expect(sentHeaders(1)['If-None-Match']).toBe('W/"v1"');
+      expect(response).toMatchObject({ status: 200, ok: true, data: { success: true, data: [1] } });
+    });
+    
+    it('should replace the cached body when the resource changed', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(okResponse({ data: 'old' }, 'W/"v1"'))
+        .mockResolvedValueOnce(okResponse({ data: 'new' }, 'W/"v2"'))
+        .mockResolvedValueOnce(notModified());
+      
+      await apiClient.get('/api/advocates');
+      await apiClient.get('/api/advocates');
+      const response = await apiClient.get('/api/advocates');
+      
+      expect(sentHeaders(2)['If-None-Match']).toBe('W/"v2"');
+      expect(response.data).toEqual({ data: 'new' });
+    });
+    
+    it('should not cache non-GET requests, no-store requests or responses without an ETag', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(okResponse({ success: true }, 'W/"v1"'));
+      
+      await apiClient.post('/api/advocates', {});
+      await apiClient.get('/api/advocates', undefined, { cache: 'no-store' });
+      await apiClient.get('/api/advocates');
+      
+      expect(sentHeaders(2)['If-None-Match']).toBeUndefined();
+    });
+    
+    it('should evict the least recently used response when full', async () => {
+      (global.fetch as jest.Mock).mockImplementation(async (url: string) => okResponse({ url }, `"${url}"`));
+      
+      for (let page = 0; page <= ETAG_CACHE_SIZE; page++) {
+        await apiClient.get('/api/advocates', { page });
+      }
+      await apiClient.get('/api/advocates', { page: 0 });
+      await apiClient.get('/api/advocates', { page: ETAG_CACHE_SIZE });
+      
+      const calls = (global.fetch as jest.Mock).mock.calls;
+      expect(calls[calls.length - 2][1].headers['If-None-Match']).toBeUndefined();
+      expect(calls[calls.length - 1][1].headers['If-None-Match']).toBeDefined();
+    });
+    
+    it('should keep responses apart by API key and API version', async () => {
+      let apiKey = 'key-a';
+      const client = new ApiClient('', { Authorization: bearerApiKey(() => apiKey) });
+      (global.fetch as jest.Mock).mockResolvedValue(okResponse({ success: true }, 'W/"v1"'));
+      
+      await client.get('/api/advocates');
+      apiKey = 'key-b';
+      await client.get('/api/advocates');
+      await client.get('/api/advocates', undefined, { headers: { 'Accept-Version': '2' } });
+      apiKey = 'key-a';
+      await client.get('/api/advocates');
+      
+      expect(sentHeaders(1)['If-None-Match']).toBeUndefined();
+      expect(sentHeaders(2)['If-None-Match']).toBeUndefined();
+      expect(sentHeaders(3)['If-None-Match']).toBe('W/"v1"');
+    });
+    
+    it('should forget cached responses on clearCache', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(okResponse({ success: true }, 'W/"v1"'));
+      
+      await apiClient.get('/api/advocates');
+      apiClient.clearCache();
+      await apiClient.get('/api/advocates');
+      
+      expect(sentHeaders(1)['If-None-Match']).toBeUndefined();
+    });
+  });
+  
   describe('HTTP methods', () => {
     it('should make a GET request', async () => {
       const mockResponse = {
@@ -139,6 +291,35 @@ describe('ApiClient', () => {
         })
       );
     });
+    
+    it('should surface 412 from a PATCH request as PreconditionFailedError', async () => {
+      const mockResponse = {
+        json: jest.fn().mockResolvedValue({
+          success: false,
+          error: { message: 'Advocate was modified', code: 'PRECONDITION_FAILED' }
+        }),
+        ok: false,
+        status: 412,
+        headers: new Headers({ 'content-type': 'application/json', etag: '"newer"' })
+      };
+      
+      (global.fetch as jest.Mock).mockResolvedValue(mockResponse);
+      
+      const request = apiClient.patch('/api/advocates/123', { degree: 'MD' }, {
+        headers: { 'If-Match': '"older"' }
+      });
+      
+      await expect(request).rejects.toBeInstanceOf(PreconditionFailedError);
+      await expect(request).rejects.toBeInstanceOf(ApiError);
+      await expect(request).rejects.toMatchObject({ status: 412, etag: '"newer"' });
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.stringContaining('/api/advocates/123'),
+        expect.objectContaining({
+          method: 'PATCH',
+          headers: expect.objectContaining({ 'If-Match': '"older"' })
+        })
+      );
+    });
   });
 });
 
@@ -208,8 +389,184 @@ describe('AdvocateService', () => {
       expect(result.data[0].firstName).toBe('John');
       expect(result.pagination.totalCount).toBe(1);
     });
+    
+    it('should request facet counts and return them', async () => {
+      const facets = { degree: [{ value: 'MD', count: 3 }] };
+      (global.fetch as jest.Mock).mockResolvedValue({
+        json: jest.fn().mockResolvedValue({
+          success: true,
+          data: [],
+          pagination: { totalCount: 0, pageSize: 10, currentPage: 1, totalPages: 0, hasNextPage: false, hasPreviousPage: false },
+          facets
+        }),
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'content-type': 'application/json' })
+      });
+      
+      const result = await advocateService.getAdvocates({ page: 1 }, undefined, undefined, ['degree', 'experience']);
+      
+      const url = new URL((global.fetch as jest.Mock).mock.calls[0][0]);
+      expect(url.searchParams.get('facets')).toBe('degree,experience');
+      expect(result.facets).toEqual(facets);
+    });
+    
+    it('should request only the selected fields and relations', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        json: jest.fn().mockResolvedValue({
+          success: true,
+          data: [{ id: '123', firstName: 'John', city: 'New York', specialties: ['Trauma'] }],
+          pagination: { totalCount: 1, pageSize: 10, currentPage: 1, totalPages: 1, hasNextPage: false, hasPreviousPage: false }
+        }),
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'content-type': 'application/json' })
+      });
+      
+      const result = await advocateService.getAdvocates(undefined, undefined, undefined, undefined, {
+        fields: ['firstName', 'city'],
+        include: ['specialties']
+      });
+      
+      const url = new URL((global.fetch as jest.Mock).mock.calls[0][0]);
+      expect(url.searchParams.get('fields')).toBe('firstName,city');
+      expect(url.searchParams.get('include')).toBe('specialties');
+      expect(result.data[0].specialties).toEqual(['Trauma']);
+      // @ts-expect-error lastName was not selected
+      expect(result.data[0].lastName).toBeUndefined();
+    });
   });
   
+  describe('getAdvocateById', () => {
+    it('should fetch a single advocate with its details', async () => {
+      const advocateId = '3f1c2a9e-4b7d-4c3e-9a61-2d5e8f0b7c14';
+      const mockResponse = {
+        json: jest.fn().mockResolvedValue({
+          success: true,
+          data: {
+            id: advocateId,
+            firstName: 'John',
+            lastName: 'Doe',
+            degree: 'MD',
+            yearsOfExperience: 10,
+            phoneNumber: 1234567890,
+            specialties: ['Trauma & PTSD'],
+            specialtyDetails: [
+              { id: 's1', name: 'Trauma & PTSD', description: 'Trauma-informed care' }
+            ],
+            city: 'New York',
+            state: 'NY',
+            country: 'United States',
+            locations: [
+              { id: 'l1', advocateId, city: 'New York', state: 'NY', country: 'United States' }
+            ]
+          }
+        }),
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'content-type': 'application/json' })
+      };
+      
+      (global.fetch as jest.Mock).mockResolvedValue(mockResponse);
+      
+      const advocate = await advocateService.getAdvocateById(advocateId);
+      
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.stringContaining(`/api/advocates/${advocateId}`),
+        expect.objectContaining({ method: 'GET' })
+      );
+      expect(advocate.specialtyDetails[0].description).toBe('Trauma-informed care');
+      expect(advocate.locations).toHaveLength(1);
+    });
+    
+    it('should reject with a 404 ApiError for unknown advocates', async () => {
+      const mockResponse = {
+        json: jest.fn().mockResolvedValue({
+          success: false,
+          error: { message: 'Advocate not-a-uuid not found', code: 'NOT_FOUND' }
+        }),
+        ok: false,
+        status: 404,
+        headers: new Headers({ 'content-type': 'application/json' })
+      };
+      
+      (global.fetch as jest.Mock).mockResolvedValue(mockResponse);
+      
+      await expect(advocateService.getAdvocateById('not-a-uuid')).rejects.toMatchObject({
+        status: 404,
+        data: { error: { code: 'NOT_FOUND' } }
+      });
+    });
+  });
+  
+  describe('deleteAdvocate and restoreAdvocate', () => {
+    it('should soft-delete and restore through the advocate endpoints', async () => {
+      const advocateId = '3f1c2a9e-4b7d-4c3e-9a61-2d5e8f0b7c14';
+      (global.fetch as jest.Mock).mockResolvedValue({
+        json: jest.fn().mockResolvedValue({ success: true, data: { id: advocateId } }),
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'content-type': 'application/json' })
+      });
+      
+      await advocateService.deleteAdvocate(advocateId);
+      await advocateService.restoreAdvocate(advocateId);
+      
+      expect(global.fetch).toHaveBeenNthCalledWith(
+        1,
+        expect.stringContaining(`/api/advocates/${advocateId}`),
+        expect.objectContaining({ method: 'DELETE' })
+      );
+      expect(global.fetch).toHaveBeenNthCalledWith(
+        2,
+        expect.stringContaining(`/api/advocates/${advocateId}/restore`),
+        expect.objectContaining({ method: 'POST' })
+      );
+    });
+  });
+
+  describe('getAdvocateHistory', () => {
+    it('should fetch a page of the advocate audit log', async () => {
+      const advocateId = '3f1c2a9e-4b7d-4c3e-9a61-2d5e8f0b7c14';
+      (global.fetch as jest.Mock).mockResolvedValue({
+        json: jest.fn().mockResolvedValue({ success: true, data: [], pagination: { total: 0 } }),
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'content-type': 'application/json' })
+      });
+
+      await advocateService.getAdvocateHistory(advocateId, { page: 2, limit: 20 });
+
+      const url = new URL((global.fetch as jest.Mock).mock.calls[0][0]);
+      expect(url.pathname).toBe(`/api/advocates/${advocateId}/history`);
+      expect(url.searchParams.get('page')).toBe('2');
+      expect(url.searchParams.get('limit')).toBe('20');
+    });
+  });
+
+  describe('getExportUrl', () => {
+    it('should build an export URL with the format, sorting and filters', () => {
+      const url = new URL(advocateService.getExportUrl(
+        'xlsx',
+        { sort: 'lastName', order: 'asc' },
+        [{ field: 'specialty', operation: 'any', value: ['Trauma', 'Anxiety'] }]
+      ));
+
+      expect(url.pathname).toBe('/api/advocates/export');
+      expect(url.searchParams.get('format')).toBe('xlsx');
+      expect(url.searchParams.get('sort')).toBe('lastName');
+      expect(url.searchParams.get('specialty[any]')).toBe('Trauma,Anxiety');
+      expect(url.searchParams.has('page')).toBe(false);
+    });
+    
+    it('should pass the search query along', () => {
+      const url = new URL(advocateService.getExportUrl('csv', undefined, undefined, 'trauma'));
+      
+      expect(url.searchParams.get('q')).toBe('trauma');
+      expect(url.searchParams.has('sort')).toBe(false);
+    });
+  });
+
   describe('searchAdvocates', () => {
     it('should search advocates by query', async () => {
       const mockResponse = {
@@ -255,6 +612,123 @@ describe('AdvocateService', () => {
       expect(result.data).toHaveLength(1);
       expect(result.data[0].firstName).toBe('John');
     });
+    
+    it('should make a single request with q and keep the server pagination', async () => {
+      const pagination = {
+        totalCount: 42,
+        pageSize: 10,
+        currentPage: 2,
+        totalPages: 5,
+        hasNextPage: true,
+        hasPreviousPage: true
+      };
+      (global.fetch as jest.Mock).mockResolvedValue({
+        json: jest.fn().mockResolvedValue({ success: true, data: [], pagination }),
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'content-type': 'application/json' })
+      });
+      
+      const result = await advocateService.searchAdvocates(' anxiety chicago ', { page: 2, limit: 10 });
+      
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      const url = new URL((global.fetch as jest.Mock).mock.calls[0][0]);
+      expect(url.searchParams.get('q')).toBe('anxiety chicago');
+      expect(url.searchParams.get('page')).toBe('2');
+      expect(url.searchParams.has('sort')).toBe(false);
+      expect(result.pagination).toEqual(pagination);
+    });
+  });
+});
+
+describe('SpecialtyService', () => {
+  let apiClient: ApiClient;
+  let specialtyService: SpecialtyService;
+  const specialtyId = '9d4e2b71-5c3a-4f8e-b6d1-0a7c2e9f4b35';
+  const targetId = '1a2b3c4d-5e6f-4a8b-9c0d-1e2f3a4b5c6d';
+  
+  const mockJsonResponse = (body: any, status: number = 200) => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      json: jest.fn().mockResolvedValue(body),
+      ok: status < 400,
+      status,
+      statusText: status === 409 ? 'Conflict' : 'OK',
+      headers: new Headers({ 'content-type': 'application/json' })
+    });
+  };
+  
+  beforeEach(() => {
+    apiClient = new ApiClient();
+    specialtyService = new SpecialtyService(apiClient);
+    jest.resetAllMocks();
+  });
+  
+  it('should list specialties with their advocate counts', async () => {
+    const specialties = [{ id: specialtyId, name: 'Bipolar', advocateCount: 3 }];
+    mockJsonResponse({ success: true, data: specialties });
+    
+    const result = await specialtyService.getSpecialties();
+    
+    expect(global.fetch).toHaveBeenCalledWith(
+      expect.stringContaining('/api/specialties'),
+      expect.objectContaining({ method: 'GET' })
+    );
+    expect(result).toEqual(specialties);
+  });
+  
+  it('should rename and describe a specialty through PATCH', async () => {
+    mockJsonResponse({ success: true, data: { id: specialtyId, name: 'PTSD', advocateCount: 0 } });
+    
+    await specialtyService.renameSpecialty(specialtyId, 'PTSD');
+    await specialtyService.updateSpecialtyDescription(specialtyId, null);
+    
+    expect(global.fetch).toHaveBeenNthCalledWith(
+      1,
+      expect.stringContaining(`/api/specialties/${specialtyId}`),
+      expect.objectContaining({ method: 'PATCH', body: JSON.stringify({ name: 'PTSD' }) })
+    );
+    expect(global.fetch).toHaveBeenNthCalledWith(
+      2,
+      expect.stringContaining(`/api/specialties/${specialtyId}`),
+      expect.objectContaining({ method: 'PATCH', body: JSON.stringify({ description: null }) })
+    );
+  });
+  
+  it('should only pass force when deleting a specialty in use on purpose', async () => {
+    mockJsonResponse({ success: true, data: { id: specialtyId, name: 'PTSD', advocateCount: 2 } });
+    
+    await specialtyService.deleteSpecialty(specialtyId);
+    await specialtyService.deleteSpecialty(specialtyId, { force: true });
+    
+    const [[firstUrl], [secondUrl]] = (global.fetch as jest.Mock).mock.calls;
+    expect(firstUrl).not.toContain('force');
+    expect(secondUrl).toContain(`/api/specialties/${specialtyId}?force=true`);
+  });
+  
+  it('should surface a 409 when deleting a specialty that is in use', async () => {
+    mockJsonResponse({
+      success: false,
+      error: { message: 'Specialty is assigned to 2 advocates', code: 'SPECIALTY_IN_USE', details: { advocateCount: 2 } }
+    }, 409);
+    
+    await expect(specialtyService.deleteSpecialty(specialtyId)).rejects.toMatchObject({ status: 409 });
+  });
+  
+  it('should merge a specialty into the target', async () => {
+    mockJsonResponse({
+      success: true,
+      data: { id: targetId, name: 'Trauma & PTSD', advocateCount: 5 },
+      movedCount: 2
+    });
+    
+    const result = await specialtyService.mergeSpecialties(specialtyId, targetId);
+    
+    expect(global.fetch).toHaveBeenCalledWith(
+      expect.stringContaining(`/api/specialties/${specialtyId}/merge`),
+      expect.objectContaining({ method: 'POST', body: JSON.stringify({ targetId }) })
+    );
+    expect(result.movedCount).toBe(2);
+    expect(result.data.advocateCount).toBe(5);
   });
 });
 
@@ -293,5 +767,25 @@ describe('paramBuilders', () => {
       
       expect(params).toEqual({});
     });
+    
+    it('should build sparse fieldset parameters', () => {
+      expect(buildQueryParams(undefined, undefined, undefined, {
+        fields: ['firstName', 'lastName'],
+        include: ['specialties', 'specialtyDetails']
+      })).toEqual({ fields: 'firstName,lastName', include: 'specialties,specialtyDetails' });
+      expect(buildQueryParams(undefined, undefined, undefined, { fields: [], include: [] })).toEqual({ include: '' });
+    });
+    
+    it('should list several sort keys in the sort parameter', () => {
+      expect(buildQueryParams(undefined, {
+        sort: 'yearsOfExperience',
+        order: 'desc',
+        sortFields: [
+          { field: 'yearsOfExperience', direction: 'desc' },
+          { field: 'lastName', direction: 'asc' },
+          { field: 'city', direction: 'asc' }
+        ]
+      })).toEqual({ sort: '-yearsOfExperience,lastName,city' });
+    });
   });
 });
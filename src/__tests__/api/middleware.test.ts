@@ -0,0 +1,118 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { middleware } from '../../middleware';
+import {
+  API_KEY_RATE_LIMIT,
+  MemoryRateLimitStore,
+  SEED_RATE_LIMIT,
+  setRateLimitStore
+} from '../../utils/rateLimit';
+
+const createRequest = (path: string, headers: Record<string, string> = {}) =>
+  new NextRequest(`https://example.com${path}`, { headers: { 'x-forwarded-for': '203.0.113.7', ...headers } });
+
+describe('middleware', () => {
+  const originalHops = process.env.TRUSTED_PROXY_HOPS;
+
+  beforeEach(() => {
+    setRateLimitStore(new MemoryRateLimitStore());
+    process.env.TRUSTED_PROXY_HOPS = '1';
+  });
+
+  afterEach(() => {
+    if (originalHops === undefined) {
+      delete process.env.TRUSTED_PROXY_HOPS;
+    } else {
+      process.env.TRUSTED_PROXY_HOPS = originalHops;
+    }
+  });
+
+  it('should let requests through with RateLimit headers', async () => {
+    const response = await middleware(createRequest('/api/advocates'));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('RateLimit-Remaining')).toBe('59');
+    expect(response.headers.has('Retry-After')).toBe(false);
+  });
+
+  it('should answer 429 in the requested API version once the bucket is empty', async () => {
+    for (let request = 0; request < SEED_RATE_LIMIT.capacity; request++) {
+      await middleware(createRequest('/api/seed'));
+    }
+    const response = await middleware(createRequest('/api/seed', { 'accept-version': '2' }));
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('300');
+    expect(await response.json()).toMatchObject({ error: { status: 429, code: 'RATE_LIMITED' } });
+    expect((await middleware(createRequest('/api/advocates'))).status).toBe(200);
+  });
+
+  it('should give each API key its own bucket', async () => {
+    const first = await middleware(createRequest('/api/advocates', { authorization: 'Bearer sk_first' }));
+    await middleware(createRequest('/api/advocates', { authorization: 'Bearer sk_first' }));
+    const second = await middleware(createRequest('/api/advocates', {
+      authorization: 'Bearer sk_second',
+      'x-forwarded-for': '198.51.100.4'
+    }));
+    const other = await middleware(createRequest('/api/advocates', { authorization: 'Bearer not-a-key' }));
+
+    expect(first.headers.get('RateLimit-Limit')).toBe(String(API_KEY_RATE_LIMIT.capacity));
+    expect(second.headers.get('RateLimit-Remaining')).toBe(String(API_KEY_RATE_LIMIT.capacity - 1));
+    expect(other.headers.get('RateLimit-Remaining')).toBe('59');
+  });
+
+  it('should limit made-up API keys from one IP address together', async () => {
+    for (let request = 0; request < API_KEY_RATE_LIMIT.capacity; request++) {
+      await middleware(createRequest('/api/advocates', { authorization: `Bearer sk_fake${request}` }));
+    }
+    const limited = await middleware(createRequest('/api/advocates', { authorization: 'Bearer sk_another' }));
+    const seeded = [];
+    for (let request = 0; request <= SEED_RATE_LIMIT.capacity; request++) {
+      seeded.push(await middleware(createRequest('/api/seed', {
+        authorization: `Bearer sk_seed${request}`,
+        'x-forwarded-for': '198.51.100.9'
+      })));
+    }
+
+    expect(limited.status).toBe(429);
+    expect(seeded.map(response => response.status)).toEqual([200, 200, 429]);
+    expect((await middleware(createRequest('/api/advocates', { 'x-forwarded-for': '198.51.100.4' }))).status).toBe(200);
+  });
+
+  it('should not reset the bucket when the caller rotates X-Forwarded-For', async () => {
+    const responses = [];
+    for (let request = 0; request <= SEED_RATE_LIMIT.capacity; request++) {
+      responses.push(await middleware(createRequest('/api/seed', {
+        'x-forwarded-for': `192.0.2.${request}, 203.0.113.7`
+      })));
+    }
+    delete process.env.TRUSTED_PROXY_HOPS;
+    const untrusted = [];
+    for (let request = 0; request <= SEED_RATE_LIMIT.capacity; request++) {
+      untrusted.push(await middleware(createRequest('/api/seed', { 'x-forwarded-for': `192.0.2.${request}` })));
+    }
+
+    expect(responses.map(response => response.status)).toEqual([200, 200, 429]);
+    expect(untrusted.map(response => response.status)).toEqual([200, 200, 429]);
+  });
+
+  it('should forward the caller\'s request id or a generated one to the route', async () => {
+    const propagated = await middleware(createRequest('/api/advocates', { 'x-request-id': 'req-123' }));
+    const generated = await middleware(createRequest('/api/advocates'));
+
+    expect(propagated.headers.get('x-middleware-request-x-request-id')).toBe('req-123');
+    expect(generated.headers.get('x-middleware-request-x-request-id')).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('should echo the request id on 429 responses', async () => {
+    for (let request = 0; request < SEED_RATE_LIMIT.capacity; request++) {
+      await middleware(createRequest('/api/seed'));
+    }
+    const response = await middleware(createRequest('/api/seed', { 'x-request-id': 'req-429' }));
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('X-Request-Id')).toBe('req-429');
+  });
+});
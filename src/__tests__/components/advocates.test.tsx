@@ -147,6 +147,23 @@ describe('AdvocateTable', () => {
     expect(screen.getByText('9876543210')).toBeInTheDocument();
   });
   
+  it('shows other locations as "+N more" with a tooltip', () => {
+    const advocate: Advocate = {
+      ...mockAdvocates[0],
+      locations: [
+        { id: 'l1', advocateId: '1', city: 'New York', state: 'NY', country: 'United States', isPrimary: true },
+        { id: 'l2', advocateId: '1', city: 'Newark', state: 'NJ', country: 'United States', isPrimary: false },
+        { id: 'l3', advocateId: '1', city: 'Hoboken', country: 'United States', isPrimary: false }
+      ]
+    };
+    
+    render(<AdvocateTable advocates={[advocate, mockAdvocates[1]]} />);
+    
+    expect(screen.getByText('New York')).toBeInTheDocument();
+    expect(screen.getByText('+2 more')).toHaveAttribute('title', 'Newark, NJ\nHoboken');
+    expect(screen.getAllByText(/more$/)).toHaveLength(1);
+  });
+  
   it('renders phone numbers as clickable links', () => {
     render(<AdvocateTable advocates={mockAdvocates} />);
     
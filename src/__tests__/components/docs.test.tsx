@@ -0,0 +1,25 @@
+/**
+ * Tests for the API docs viewer
+ */
+import { render, screen } from '@testing-library/react';
+import { ApiDocs } from '../../components/docs';
+import { buildOpenApiDocument } from '../../utils/openapi';
+
+describe('ApiDocs', () => {
+  it('renders every operation with its parameters and links to the raw document', () => {
+    render(<ApiDocs document={buildOpenApiDocument()} specUrl="/api/openapi.json" />);
+    
+    expect(screen.getByText('List advocates')).toBeInTheDocument();
+    expect(screen.getByText('Import advocates from a CSV file')).toBeInTheDocument();
+    expect(screen.getAllByText('lastName[fuzzy]')).toHaveLength(2);
+    expect(screen.getByText(/OpenAPI 3\.1\.0 document/)).toHaveAttribute('href', '/api/openapi.json');
+  });
+  
+  it('links referenced schemas to their definitions', () => {
+    const { container } = render(<ApiDocs document={buildOpenApiDocument()} />);
+    
+    expect(container.querySelector('#schema-Advocate')).not.toBeNull();
+    expect(screen.getAllByRole('link', { name: 'AdvocateListResponse' })[0])
+      .toHaveAttribute('href', '#schema-AdvocateListResponse');
+  });
+});
@@ -197,7 +197,6 @@ describe('Phone number search functionality', () => {
     // Setup the mock implementation
     (useAdvocates as jest.Mock).mockReturnValue({
       advocates: mockAdvocates,
-      filteredAdvocates: [],
       searchTerm: '',
       setSearchTerm: mockSetSearchTerm,
       resetSearch: jest.fn(),
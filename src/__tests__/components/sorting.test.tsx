@@ -132,4 +132,45 @@ describe('AdvocateTable sorting', () => {
     const firstNameHeader = screen.getByText('First Name').closest('th');
     expect(firstNameHeader).toHaveAttribute('aria-sort', 'descending');
   });
+  
+  it('adds a sort key when shift-clicking a column header', () => {
+    render(
+      <AdvocateTable 
+        advocates={mockAdvocates} 
+        sortFields={[
+          { field: 'yearsOfExperience', direction: 'desc' },
+          { field: 'lastName', direction: 'asc' }
+        ]}
+        onSortChange={mockSortChange}
+      />
+    );
+    
+    // Shift-click a new column, then one that is already sorted by
+    fireEvent.click(screen.getByText('City'), { shiftKey: true });
+    fireEvent.click(screen.getByText('Last Name'), { shiftKey: true });
+    
+    expect(mockSortChange).toHaveBeenNthCalledWith(1, 'city', 'asc', true);
+    expect(mockSortChange).toHaveBeenNthCalledWith(2, 'lastName', 'desc', true);
+  });
+  
+  it('numbers the sort indicators when sorting by several keys', () => {
+    render(
+      <AdvocateTable 
+        advocates={mockAdvocates} 
+        sortFields={[
+          { field: 'yearsOfExperience', direction: 'desc' },
+          { field: 'specialtyCount', direction: 'asc' }
+        ]}
+        onSortChange={mockSortChange}
+      />
+    );
+    
+    const experienceHeader = screen.getByText('Years of Experience').closest('th');
+    const specialtiesHeader = screen.getByText('Specialties').closest('th');
+    expect(experienceHeader).toHaveTextContent('Years of Experience↓1');
+    expect(experienceHeader).toHaveAttribute('aria-sort', 'descending');
+    expect(specialtiesHeader).toHaveTextContent('Specialties↑2');
+    expect(specialtiesHeader).not.toHaveAttribute('aria-sort');
+    expect(screen.getByText('First Name').closest('th')).toHaveTextContent(/^First Name$/);
+  });
 });
@@ -0,0 +1,82 @@
+/**
+ * @jest-environment node
+ */
+import db from '../../db';
+import { advocates } from '../../db/schema';
+import { AdvocateImportItem, planAdvocateImport } from '../../db/queries/advocates';
+
+const existingAdvocate = {
+  id: '7b0c8f44-3a5e-4c7e-9d2a-1f6e5b4a3c21',
+  firstName: 'Jane',
+  lastName: 'Smith',
+  degree: 'MD',
+  yearsOfExperience: 12,
+  phoneNumber: 5550000001,
+  createdAt: new Date('2024-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2024-01-01T00:00:00.000Z'),
+  deletedAt: null
+};
+
+// Mock the database: advocates queries return the existing advocate, relation queries nothing
+jest.mock('../../db', () => {
+  const query = (rows: unknown[]) => {
+    const chain = {
+      where: () => chain,
+      innerJoin: () => chain,
+      orderBy: () => chain,
+      then: (resolve: (value: unknown[]) => unknown) => resolve(rows)
+    };
+    return chain;
+  };
+
+  return {
+    __esModule: true,
+    default: {
+      select: () => ({
+        from: (table: unknown) => query(table === advocates ? [existingAdvocate] : [])
+      }),
+      transaction: jest.fn()
+    }
+  };
+});
+
+const createItem = (row: number, phoneNumber: number, firstName = 'John'): AdvocateImportItem => ({
+  row,
+  input: {
+    firstName,
+    lastName: 'Doe',
+    degree: 'MD',
+    yearsOfExperience: 5,
+    phoneNumber,
+    specialties: [],
+    location: { city: 'Chicago', state: 'IL' }
+  },
+  specialtyIds: []
+});
+
+describe('planAdvocateImport', () => {
+  it('should plan inserts and updates without writing', async () => {
+    const plan = await planAdvocateImport([createItem(2, 5550000001), createItem(3, 5550000002)]);
+
+    expect(plan.inserts.map(item => item.row)).toEqual([3]);
+    expect(plan.updates).toEqual([expect.objectContaining({ row: 2, id: existingAdvocate.id })]);
+    expect(plan.errors).toEqual([]);
+    expect(db.transaction).not.toHaveBeenCalled();
+  });
+
+  it('should report rows repeating the phone number of an earlier row', async () => {
+    const plan = await planAdvocateImport([
+      createItem(2, 5550000002),
+      createItem(3, 5550000001),
+      createItem(4, 5550000002, 'Johnny'),
+      createItem(5, 5550000001, 'Janet')
+    ]);
+
+    expect(plan.inserts.map(item => item.row)).toEqual([2]);
+    expect(plan.updates.map(item => item.row)).toEqual([3]);
+    expect(plan.errors).toEqual([
+      { row: 4, errors: { phone: 'phone duplicates row 2' } },
+      { row: 5, errors: { phone: 'phone duplicates row 3' } }
+    ]);
+  });
+});
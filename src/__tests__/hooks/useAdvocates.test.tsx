@@ -167,4 +167,94 @@ describe('useAdvocates hook', () => {
     expect(result.current.sortParams.sort).toBe('firstName');
     expect(result.current.sortParams.order).toBe('desc');
   }, 10000);
+  
+  it('should add sort keys and list them in the sort URL parameter', async () => {
+    // Arrange
+    const { result, rerender } = renderHook(() => useAdvocates({
+      initialSortField: 'yearsOfExperience',
+      initialSortDirection: 'desc',
+      syncWithUrl: true
+    }));
+    
+    // Act - add two keys, then flip the direction of the second
+    act(() => {
+      result.current.handleSortChange('lastName', 'asc', true);
+    });
+    rerender();
+    act(() => {
+      result.current.handleSortChange('city', 'asc', true);
+    });
+    rerender();
+    act(() => {
+      result.current.handleSortChange('lastName', 'desc', true);
+    });
+    rerender();
+    
+    // Assert - the first key is still the primary sort
+    expect(result.current.sortParams.sortFields).toEqual([
+      { field: 'yearsOfExperience', direction: 'desc' },
+      { field: 'lastName', direction: 'desc' },
+      { field: 'city', direction: 'asc' }
+    ]);
+    expect(result.current.sortParams.sort).toBe('yearsOfExperience');
+    
+    // Assert - URL lists every key and drops order
+    const url = mockRouterPush.mock.calls[mockRouterPush.mock.calls.length - 1][0] as string;
+    expect(new URLSearchParams(url.split('?')[1]).get('sort')).toBe('-yearsOfExperience,-lastName,city');
+    expect(url).not.toContain('order=');
+    
+    // Act - a plain sort change replaces every key
+    act(() => {
+      result.current.handleSortChange('firstName', 'asc');
+    });
+    rerender();
+    
+    expect(result.current.sortParams.sortFields).toEqual([{ field: 'firstName', direction: 'asc' }]);
+  }, 10000);
+
+  it('should rank searches by relevance until a sort is chosen', async () => {
+    // Arrange
+    (advocateService.searchAdvocates as jest.Mock).mockResolvedValue({
+      data: [],
+      pagination: {
+        totalCount: 0,
+        pageSize: 10,
+        currentPage: 1,
+        totalPages: 0,
+        hasNextPage: false,
+        hasPreviousPage: false,
+      },
+    });
+    const { result } = renderHook(() => useAdvocates());
+    
+    // Act - search without choosing a sort
+    act(() => {
+      result.current.setSearchTerm('cardio');
+    });
+    
+    // Assert - no sort is sent, so the server ranks by relevance
+    // The search term is debounced, so allow for a slow test run
+    await waitFor(() => expect(advocateService.searchAdvocates).toHaveBeenCalled(), { timeout: 3000 });
+    expect(advocateService.searchAdvocates).toHaveBeenLastCalledWith(
+      'cardio',
+      { page: 1, limit: 10 },
+      undefined,
+      undefined,
+      { include: ['specialties', 'locations'] }
+    );
+    
+    // Act - choose a sort while searching
+    act(() => {
+      result.current.handleSortChange('lastName', 'asc');
+    });
+    
+    // Assert - the chosen sort is sent with the search, matching the indicators and URL
+    await waitFor(() => expect(advocateService.searchAdvocates).toHaveBeenLastCalledWith(
+      'cardio',
+      { page: 1, limit: 10 },
+      expect.objectContaining({ sort: 'lastName', order: 'asc' }),
+      undefined,
+      { include: ['specialties', 'locations'] }
+    ));
+  }, 10000);
 });
@@ -0,0 +1,120 @@
+import { parseCsv } from '../../utils/csv';
+import { parseAdvocateCsv } from '../../utils/advocateCsv';
+
+const header = 'name,degree,experience,phone,city,state,specialties';
+
+describe('CSV Import Utilities', () => {
+  describe('parseCsv', () => {
+    it('should split rows and fields', () => {
+      expect(parseCsv('a,b\r\nc,d\n')).toEqual([['a', 'b'], ['c', 'd']]);
+    });
+
+    it('should handle quoted fields with commas, quotes and line breaks', () => {
+      expect(parseCsv('"Smith, Jane","say ""hi""","line\nbreak"')).toEqual([
+        ['Smith, Jane', 'say "hi"', 'line\nbreak']
+      ]);
+    });
+
+    it('should skip blank lines and a byte order mark', () => {
+      expect(parseCsv('\uFEFFa,b\n\n\nc,d')).toEqual([['a', 'b'], ['c', 'd']]);
+    });
+
+    it('should keep empty fields', () => {
+      expect(parseCsv('a,,c\n,,')).toEqual([['a', '', 'c'], ['', '', '']]);
+    });
+  });
+
+  describe('parseAdvocateCsv', () => {
+    it('should map a valid row to an advocate payload', () => {
+      const result = parseAdvocateCsv(
+        `${header}\nMary Ann Lee,MD,12,(312) 555-0199,Chicago,IL,Bipolar; Trauma & PTSD`
+      );
+
+      expect(result.errors).toEqual([]);
+      expect(result.missingColumns).toEqual([]);
+      expect(result.totalRows).toBe(1);
+      expect(result.rows).toEqual([{
+        row: 2,
+        input: {
+          firstName: 'Mary Ann',
+          lastName: 'Lee',
+          degree: 'MD',
+          yearsOfExperience: 12,
+          phoneNumber: 3125550199,
+          specialties: ['Bipolar', 'Trauma & PTSD'],
+          location: { city: 'Chicago', state: 'IL', country: undefined }
+        }
+      }]);
+    });
+
+    it('should match headers regardless of case, spacing and order', () => {
+      const result = parseAdvocateCsv(
+        'Phone Number,First Name,Last Name,Degree,Years of Experience,City\n5555550100,Jane,Smith,PhD,3,Denver'
+      );
+
+      expect(result.errors).toEqual([]);
+      expect(result.rows[0].input).toMatchObject({
+        firstName: 'Jane',
+        lastName: 'Smith',
+        yearsOfExperience: 3,
+        specialties: []
+      });
+    });
+
+    it('should read ZIP codes into the location', () => {
+      const result = parseAdvocateCsv(
+        'Name,Degree,Experience,Phone,City,State,ZIP Code\nJane Smith,PhD,3,5555550100,Chicago,IL,60614'
+      );
+
+      expect(result.rows[0].input.location).toEqual({ city: 'Chicago', state: 'IL', postalCode: '60614' });
+    });
+
+    it('should report missing required columns', () => {
+      const result = parseAdvocateCsv('name,degree\nJane Smith,MD');
+
+      expect(result.missingColumns).toEqual(['experience', 'phone', 'city']);
+      expect(result.rows).toEqual([]);
+    });
+
+    it('should report errors by row number and column', () => {
+      const result = parseAdvocateCsv([
+        header,
+        'Jane Smith,MD,5,5555550100,Chicago,IL,',
+        'Madonna,MD,ten,123,Chicago,IL,',
+        ',MD,5,5555550101,,IL,'
+      ].join('\n'));
+
+      expect(result.rows.map(row => row.row)).toEqual([2]);
+      expect(result.errors).toEqual([
+        {
+          row: 3,
+          errors: {
+            name: 'name must include a first and last name',
+            experience: 'yearsOfExperience must be a non-negative integer',
+            phone: 'phoneNumber must be a 10 digit US phone number'
+          }
+        },
+        {
+          row: 4,
+          errors: {
+            name: 'name is required',
+            city: 'location.city is required'
+          }
+        }
+      ]);
+    });
+
+    it('should reject a phone number used twice in the same file', () => {
+      const result = parseAdvocateCsv([
+        header,
+        'Jane Smith,MD,5,5555550100,Chicago,IL,',
+        'John Smith,MD,5,(555) 555-0100,Chicago,IL,'
+      ].join('\n'));
+
+      expect(result.rows).toHaveLength(1);
+      expect(result.errors).toEqual([
+        { row: 3, errors: { phone: 'phone duplicates row 2' } }
+      ]);
+    });
+  });
+});
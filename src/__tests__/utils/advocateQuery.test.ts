@@ -0,0 +1,142 @@
+import { NextRequest } from 'next/server';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { buildAdvocateQuery } from '../../utils/advocateQuery';
+import { getSortKeyExpression } from '../../utils/sorting';
+
+// Mock NextRequest
+const createMockRequest = (params: Record<string, string>) => {
+  const url = new URL('https://example.com/api/advocates');
+  Object.entries(params).forEach(([key, value]) => {
+    url.searchParams.append(key, value);
+  });
+
+  return {
+    nextUrl: url
+  } as unknown as NextRequest;
+};
+
+describe('buildAdvocateQuery', () => {
+  const dialect = new PgDialect();
+
+  it('should use the requested sort without search or fuzzy filters', () => {
+    const query = buildAdvocateQuery(createMockRequest({ sort: 'lastName', order: 'asc' }));
+
+    expect(query.sortKeys.map(key => key.field)).toEqual(['lastName', 'id']);
+    expect(query.searchTerm).toBeUndefined();
+  });
+
+  it('should order fuzzy filter results by similarity', () => {
+    const query = buildAdvocateQuery(createMockRequest({ 'lastName[fuzzy]': 'Smtih' }));
+
+    expect(query.sortKeys.map(key => [key.field, key.direction])).toEqual([
+      ['similarity', 'desc'],
+      ['id', 'desc']
+    ]);
+  });
+
+  it('should order by the similarity of fuzzy filters in the filter expression', () => {
+    const query = buildAdvocateQuery(createMockRequest({
+      'firstName[fuzzy]': 'Jnae',
+      filter: '(lastName fuzzy Smtih or city fuzzy Chicgo) and not lastName fuzzy Jones'
+    }));
+    const [similarity] = query.sortKeys;
+    const { sql, params } = dialect.sqlToQuery(getSortKeyExpression(similarity));
+
+    expect(query.sortKeys.map(key => key.field)).toEqual(['similarity', 'id']);
+    expect(sql.match(/similarity\(/g)).toHaveLength(3);
+    expect(params).toEqual(['Jnae', 'Smtih', 'Chicgo']);
+  });
+
+  it('should order by relevance before similarity when both apply', () => {
+    const query = buildAdvocateQuery(createMockRequest({ q: 'anxiety', 'city[fuzzy]': 'Chicgo' }));
+
+    expect(query.sortKeys.map(key => key.field)).toEqual(['relevance', 'similarity', 'id']);
+  });
+
+  it('should let an explicit sort override the ranking', () => {
+    const query = buildAdvocateQuery(createMockRequest({ 'lastName[fuzzy]': 'Smtih', sort: 'firstName' }));
+
+    expect(query.sortKeys.map(key => key.field)).toEqual(['firstName', 'id']);
+  });
+
+  it('should apply the fuzzy threshold to the conditions and the scope', () => {
+    const query = buildAdvocateQuery(createMockRequest({ 'lastName[fuzzy]': 'Smtih', fuzzyThreshold: '0.2' }));
+    const rendered = query.conditions.map(condition => dialect.sqlToQuery(condition));
+
+    expect(rendered.some(({ sql, params }) => sql.includes('similarity(') && params.includes(0.2))).toBe(true);
+    expect(JSON.parse(query.scope)).toMatchObject({ fuzzyThreshold: 0.2 });
+  });
+
+  it('should leave the fuzzy threshold out of the scope without fuzzy filters', () => {
+    const query = buildAdvocateQuery(createMockRequest({ fuzzyThreshold: '0.2' }));
+
+    expect(JSON.parse(query.scope).fuzzyThreshold).toBeUndefined();
+  });
+
+  it('should leave the filters on one field out of conditionsWithout', () => {
+    const query = buildAdvocateQuery(createMockRequest({ 'degree[in]': 'MD,PhD', 'experience[gte]': '5' }));
+    const render = (conditions: typeof query.conditions) =>
+      conditions.map(condition => dialect.sqlToQuery(condition).sql).join(' AND ');
+
+    expect(render(query.conditions)).toContain('"advocates"."degree" in');
+    expect(render(query.conditionsWithout('degree'))).not.toContain('"advocates"."degree"');
+    expect(render(query.conditionsWithout('degree'))).toContain('"advocates"."years_of_experience" >=');
+    expect(render(query.conditionsWithout('degree'))).toContain('"advocates"."deleted_at" is null');
+  });
+
+  it('should combine a filter expression with the other filters and keep it in conditionsWithout', () => {
+    const query = buildAdvocateQuery(createMockRequest({
+      filter: 'degree eq MD or experience gte 10',
+      'city[eq]': 'Chicago'
+    }));
+    const render = (conditions: typeof query.conditions) =>
+      conditions.map(condition => dialect.sqlToQuery(condition).sql).join(' AND ');
+
+    expect(render(query.conditions)).toContain('("advocates"."degree" = $1 or "advocates"."years_of_experience" >= $2)');
+    expect(render(query.conditionsWithout('degree'))).toContain('"advocates"."degree" =');
+    expect(JSON.parse(query.scope).filter).toMatchObject({ type: 'or' });
+  });
+
+  it('should sort by distance with a radius search', () => {
+    const query = buildAdvocateQuery(createMockRequest({ near: '41.88,-87.63', sort: 'distance', order: 'asc' }));
+
+    expect(query.distance).toBeDefined();
+    expect(query.sortKeys.map(key => [key.field, key.direction])).toEqual([
+      ['distance', 'asc'],
+      ['id', 'asc']
+    ]);
+  });
+
+  it('should sort by any number of fields, including the primary location and specialty count', () => {
+    const query = buildAdvocateQuery(createMockRequest({ sort: '-yearsOfExperience,city,-specialtyCount' }));
+    const orderBy = query.sortKeys.map(key => dialect.sqlToQuery(getSortKeyExpression(key)).sql);
+
+    expect(query.sortKeys.map(key => [key.field, key.direction])).toEqual([
+      ['yearsOfExperience', 'desc'],
+      ['city', 'asc'],
+      ['specialtyCount', 'desc'],
+      ['id', 'desc']
+    ]);
+    expect(orderBy[1]).toMatch(new RegExp('^LOWER\\(coalesce\\(\\(\\s+SELECT "locations"\\."city"'));
+    expect(orderBy[1]).toContain('ORDER BY "locations"."is_primary" DESC, "locations"."created_at" DESC');
+    expect(orderBy[2]).toContain('SELECT count(*)::int');
+  });
+
+  it('should only sort by relevance with a search query', () => {
+    const withSearch = buildAdvocateQuery(createMockRequest({ q: 'anxiety', sort: 'lastName,-relevance' }));
+    const withoutSearch = buildAdvocateQuery(createMockRequest({ sort: '-relevance,lastName' }));
+
+    expect(withSearch.sortKeys.map(key => key.field)).toEqual(['lastName', 'relevance', 'id']);
+    expect(withoutSearch.sortKeys.map(key => [key.field, key.direction])).toEqual([
+      ['lastName', 'asc'],
+      ['id', 'asc']
+    ]);
+  });
+
+  it('should ignore sort=distance without a radius search', () => {
+    const query = buildAdvocateQuery(createMockRequest({ sort: 'distance', order: 'asc' }));
+
+    expect(query.distance).toBeUndefined();
+    expect(query.sortKeys.map(key => key.field)).toEqual(['createdAt', 'id']);
+  });
+});
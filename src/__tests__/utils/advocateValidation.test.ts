@@ -0,0 +1,194 @@
+import { validateAdvocateInput, validateAdvocatePatch } from '../../utils/advocateValidation';
+import { parsePhoneNumber, isValidUuid } from '../../utils/validation';
+
+const validInput = {
+  firstName: 'Jane',
+  lastName: 'Smith',
+  degree: 'PhD',
+  yearsOfExperience: 8,
+  phoneNumber: '(555) 987-6543',
+  specialties: ['Trauma & PTSD', 'Bipolar'],
+  location: { city: 'Chicago', state: 'IL' }
+};
+
+describe('Advocate Validation', () => {
+  describe('validateAdvocateInput', () => {
+    it('should accept and normalize a valid payload', () => {
+      const { data, errors } = validateAdvocateInput({
+        ...validInput,
+        firstName: '  Jane ',
+        specialties: ['Bipolar', 'Bipolar']
+      });
+      
+      expect(errors).toEqual({});
+      expect(data).toEqual({
+        ...validInput,
+        phoneNumber: 5559876543,
+        specialties: ['Bipolar'],
+        location: { city: 'Chicago', state: 'IL', country: undefined }
+      });
+    });
+    
+    it('should report missing required fields', () => {
+      const { data, errors } = validateAdvocateInput({});
+      
+      expect(data).toBeUndefined();
+      expect(Object.keys(errors).sort()).toEqual([
+        'degree',
+        'firstName',
+        'lastName',
+        'location',
+        'phoneNumber',
+        'yearsOfExperience'
+      ]);
+    });
+    
+    it('should enforce the varchar limits from the schema', () => {
+      const { errors } = validateAdvocateInput({
+        ...validInput,
+        firstName: 'a'.repeat(101),
+        degree: 'b'.repeat(51),
+        location: { city: 'Chicago', state: 'c'.repeat(51) }
+      });
+      
+      expect(errors.firstName).toBe('firstName must be at most 100 characters');
+      expect(errors.degree).toBe('degree must be at most 50 characters');
+      expect(errors['location.state']).toBe('location.state must be at most 50 characters');
+    });
+    
+    it('should reject negative or fractional years of experience', () => {
+      expect(validateAdvocateInput({ ...validInput, yearsOfExperience: -1 }).errors)
+        .toHaveProperty('yearsOfExperience');
+      expect(validateAdvocateInput({ ...validInput, yearsOfExperience: 2.5 }).errors)
+        .toHaveProperty('yearsOfExperience');
+    });
+    
+    it('should reject malformed phone numbers', () => {
+      const { errors } = validateAdvocateInput({ ...validInput, phoneNumber: '555-1234' });
+      
+      expect(errors.phoneNumber).toBe('phoneNumber must be a 10 digit US phone number');
+    });
+    
+    it('should reject a non-object body', () => {
+      expect(validateAdvocateInput([]).errors).toEqual({ body: 'body must be a JSON object' });
+    });
+    
+    it('should accept several locations and use the primary one as location', () => {
+      const { location: _location, ...rest } = validInput;
+      const { data, errors } = validateAdvocateInput({
+        ...rest,
+        locations: [
+          { city: 'Chicago', state: 'IL' },
+          { city: 'Evanston', state: 'IL', isPrimary: true }
+        ]
+      });
+      
+      expect(errors).toEqual({});
+      expect(data?.location).toEqual({ city: 'Evanston', state: 'IL', country: undefined });
+      expect(data?.locations?.map(location => location.isPrimary)).toEqual([false, true]);
+    });
+    
+    it('should make the first location primary when none is flagged', () => {
+      const { location: _location, ...rest } = validInput;
+      const { data } = validateAdvocateInput({
+        ...rest,
+        locations: [{ city: 'Chicago' }, { city: 'Evanston' }]
+      });
+      
+      expect(data?.location.city).toBe('Chicago');
+      expect(data?.locations?.map(location => location.isPrimary)).toEqual([true, false]);
+    });
+    
+    it('should report invalid locations by index', () => {
+      const { location: _location, ...rest } = validInput;
+      const { errors } = validateAdvocateInput({
+        ...rest,
+        locations: [
+          { city: 'Chicago', isPrimary: true },
+          { state: 'IL', isPrimary: 'yes' }
+        ]
+      });
+      
+      expect(errors['locations[1].city']).toBe('locations[1].city is required');
+      expect(errors['locations[1].isPrimary']).toBe('locations[1].isPrimary must be a boolean');
+    });
+    
+    it('should accept US ZIP codes and reject anything else', () => {
+      const withZip = validateAdvocateInput({
+        ...validInput,
+        location: { city: 'Chicago', state: 'IL', postalCode: '60601-1234' }
+      });
+      const withBadZip = validateAdvocateInput({
+        ...validInput,
+        location: { city: 'Chicago', postalCode: 'SW1A 1AA' }
+      });
+      
+      expect(withZip.data?.location.postalCode).toBe('60601-1234');
+      expect(withBadZip.errors['location.postalCode'])
+        .toBe('location.postalCode must be a 5 digit ZIP code or ZIP+4');
+    });
+    
+    it('should reject more than one primary location', () => {
+      const { location: _location, ...rest } = validInput;
+      const { errors } = validateAdvocateInput({
+        ...rest,
+        locations: [
+          { city: 'Chicago', isPrimary: true },
+          { city: 'Evanston', isPrimary: true }
+        ]
+      });
+      
+      expect(errors.locations).toBe('only one location can be primary');
+    });
+    
+    it('should reject an empty locations array or both location and locations', () => {
+      const { location: _location, ...rest } = validInput;
+      
+      expect(validateAdvocateInput({ ...rest, locations: [] }).errors.locations)
+        .toBe('locations must be a non-empty array of locations');
+      expect(validateAdvocateInput({ ...validInput, locations: [{ city: 'Chicago' }] }).errors.location)
+        .toBe('give either location or locations, not both');
+    });
+  });
+  
+  describe('validateAdvocatePatch', () => {
+    it('should only validate and return the given fields', () => {
+      const { data, errors } = validateAdvocatePatch({ phoneNumber: '555-987-6543' });
+      
+      expect(errors).toEqual({});
+      expect(data).toEqual({ phoneNumber: 5559876543 });
+    });
+    
+    it('should validate given fields like a create payload', () => {
+      const { errors } = validateAdvocatePatch({ lastName: '', yearsOfExperience: -2 });
+      
+      expect(errors).toHaveProperty('lastName');
+      expect(errors).toHaveProperty('yearsOfExperience');
+    });
+    
+    it('should require at least one field', () => {
+      expect(validateAdvocatePatch({}).errors).toEqual({ body: 'at least one field must be given' });
+    });
+  });
+  
+  describe('parsePhoneNumber', () => {
+    it('should accept common US formats', () => {
+      expect(parsePhoneNumber(5551234567)).toBe(5551234567);
+      expect(parsePhoneNumber('555.123.4567')).toBe(5551234567);
+      expect(parsePhoneNumber('+1 (555) 123-4567')).toBe(5551234567);
+    });
+    
+    it('should reject numbers with the wrong length', () => {
+      expect(parsePhoneNumber('12345')).toBeUndefined();
+      expect(parsePhoneNumber('555123456789')).toBeUndefined();
+    });
+  });
+  
+  describe('isValidUuid', () => {
+    it('should only accept canonical UUIDs', () => {
+      expect(isValidUuid('3f1c2a9e-4b7d-4c3e-9a61-2d5e8f0b7c14')).toBe(true);
+      expect(isValidUuid('not-a-uuid')).toBe(false);
+      expect(isValidUuid(42)).toBe(false);
+    });
+  });
+});
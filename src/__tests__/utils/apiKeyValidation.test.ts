@@ -0,0 +1,37 @@
+import { validateApiKeyInput } from '../../utils/apiKeyValidation';
+
+describe('API Key Validation', () => {
+  const now = new Date('2026-10-19T00:00:00Z');
+
+  it('should normalize a valid payload', () => {
+    expect(validateApiKeyInput({
+      name: ' Partner directory ',
+      scopes: ['advocates:read', 'advocates:write', 'advocates:read'],
+      expiresAt: '2027-01-01T00:00:00Z'
+    }, now)).toEqual({
+      data: {
+        name: 'Partner directory',
+        scopes: ['advocates:read', 'advocates:write'],
+        expiresAt: new Date('2027-01-01T00:00:00Z')
+      },
+      errors: {}
+    });
+  });
+
+  it('should mint keys that do not expire without expiresAt', () => {
+    expect(validateApiKeyInput({ name: 'Ops', scopes: ['admin'] }, now).data?.expiresAt).toBeNull();
+  });
+
+  it('should report every invalid field', () => {
+    expect(validateApiKeyInput({ scopes: ['advocates:delete'], expiresAt: '2026-01-01' }, now).errors).toEqual({
+      name: 'name is required',
+      scopes: '"advocates:delete" must be one of advocates:read, advocates:write, admin',
+      expiresAt: 'expiresAt must be in the future'
+    });
+    expect(validateApiKeyInput({ name: 'Ops', scopes: [], expiresAt: 'soon' }, now).errors).toEqual({
+      scopes: 'scopes must be a non-empty array',
+      expiresAt: 'expiresAt must be an ISO 8601 date'
+    });
+    expect(validateApiKeyInput([], now).errors).toEqual({ body: 'body must be a JSON object' });
+  });
+});
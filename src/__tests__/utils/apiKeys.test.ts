@@ -0,0 +1,149 @@
+/**
+ * @jest-environment node
+ */
+import { createHash } from 'crypto';
+import { NextRequest } from 'next/server';
+import { createApiKey, resolveCaller, withScope } from '../../utils/apiKeys';
+import { generateApiKey, getCaller, hashApiKey } from '../../utils/auth';
+import { findActiveApiKeyByHash, insertApiKey, touchApiKey } from '../../db/queries/apiKeys';
+
+jest.mock('../../db/queries/apiKeys', () => ({
+  findActiveApiKeyByHash: jest.fn(),
+  insertApiKey: jest.fn(),
+  touchApiKey: jest.fn(),
+}));
+
+const createRequest = (authorization?: string) =>
+  new NextRequest('https://example.com/api/advocates', {
+    headers: authorization ? { authorization } : {},
+  });
+
+const storedKey = (scopes: string[]) => ({
+  id: '00000000-0000-4000-8000-000000000001',
+  name: 'Partner',
+  prefix: 'sk_abcde',
+  scopes,
+  expiresAt: null,
+  lastUsedAt: null,
+  revokedAt: null,
+  createdAt: new Date('2026-10-01T00:00:00Z'),
+});
+
+describe('API keys', () => {
+  const originalToken = process.env.ADMIN_API_TOKEN;
+
+  beforeEach(() => {
+    process.env.ADMIN_API_TOKEN = 'secret-token';
+    jest.mocked(findActiveApiKeyByHash).mockReset();
+    jest.mocked(insertApiKey).mockReset();
+    jest.mocked(touchApiKey).mockReset();
+  });
+
+  afterEach(() => {
+    if (originalToken === undefined) {
+      delete process.env.ADMIN_API_TOKEN;
+    } else {
+      process.env.ADMIN_API_TOKEN = originalToken;
+    }
+  });
+
+  describe('hashApiKey', () => {
+    it('should hash keys with SHA-256', async () => {
+      expect(await hashApiKey('sk_test')).toBe(createHash('sha256').update('sk_test').digest('hex'));
+    });
+  });
+
+  describe('generateApiKey', () => {
+    it('should generate distinct url-safe keys', () => {
+      const first = generateApiKey();
+
+      expect(first).toMatch(/^sk_[A-Za-z0-9_-]{43}$/);
+      expect(generateApiKey()).not.toBe(first);
+    });
+  });
+
+  describe('resolveCaller', () => {
+    it('should treat requests without a key as anonymous and the admin token as admin', async () => {
+      expect(await resolveCaller(createRequest())).toMatchObject({ type: 'anonymous', scopes: ['advocates:read'] });
+      expect(await resolveCaller(createRequest('Bearer secret-token'))).toMatchObject({ type: 'admin-token' });
+      expect(findActiveApiKeyByHash).not.toHaveBeenCalled();
+    });
+
+    it('should look keys up by their hash and record their use', async () => {
+      jest.mocked(findActiveApiKeyByHash).mockResolvedValue(storedKey(['advocates:write', 'retired:scope']));
+
+      const caller = await resolveCaller(createRequest('Bearer sk_partner'));
+
+      expect(findActiveApiKeyByHash).toHaveBeenCalledWith(await hashApiKey('sk_partner'));
+      expect(touchApiKey).toHaveBeenCalledWith(storedKey([]).id);
+      expect(caller).toEqual({ type: 'api-key', keyId: storedKey([]).id, scopes: ['advocates:write'] });
+    });
+
+    it('should reject unknown, revoked or expired keys', async () => {
+      jest.mocked(findActiveApiKeyByHash).mockResolvedValue(undefined);
+
+      expect(await resolveCaller(createRequest('Bearer sk_revoked'))).toBeUndefined();
+      expect(touchApiKey).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createApiKey', () => {
+    it('should store only the hash and a display prefix of the key', async () => {
+      jest.mocked(insertApiKey).mockImplementation(async input => ({ ...storedKey(input.scopes), prefix: input.prefix }));
+
+      const { apiKey, key } = await createApiKey({ name: 'Partner', scopes: ['advocates:read'] });
+      const stored = jest.mocked(insertApiKey).mock.calls[0][0];
+
+      expect(stored).toEqual({
+        name: 'Partner',
+        scopes: ['advocates:read'],
+        prefix: key.slice(0, 8),
+        keyHash: await hashApiKey(key),
+      });
+      expect(apiKey).not.toHaveProperty('keyHash');
+    });
+  });
+
+  describe('withScope', () => {
+    const handler = jest.fn(async (request: NextRequest) => Response.json({ caller: getCaller(request).type }));
+    const writeRoute = withScope('advocates:write', handler);
+
+    beforeEach(() => {
+      handler.mockClear();
+    });
+
+    it('should run the handler with the caller recorded', async () => {
+      jest.mocked(findActiveApiKeyByHash).mockResolvedValue(storedKey(['advocates:write']));
+
+      const response = await writeRoute(createRequest('Bearer sk_writer'), undefined);
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ caller: 'api-key' });
+    });
+
+    it('should answer 401 to anonymous callers and invalid keys', async () => {
+      jest.mocked(findActiveApiKeyByHash).mockResolvedValue(undefined);
+
+      const anonymous = await writeRoute(createRequest(), undefined);
+      const invalid = await writeRoute(createRequest('Bearer sk_unknown'), undefined);
+
+      expect(anonymous.status).toBe(401);
+      expect(anonymous.headers.get('WWW-Authenticate')).toBe('Bearer scope="advocates:write"');
+      expect(invalid.status).toBe(401);
+      expect(await invalid.json()).toMatchObject({ error: { code: 'INVALID_API_KEY' } });
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should answer 403 to keys without the scope', async () => {
+      jest.mocked(findActiveApiKeyByHash).mockResolvedValue(storedKey(['advocates:read']));
+
+      const response = await writeRoute(createRequest('Bearer sk_reader'), undefined);
+
+      expect(response.status).toBe(403);
+      expect(await response.json()).toMatchObject({
+        error: { code: 'FORBIDDEN', details: { requiredScope: 'advocates:write' } }
+      });
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import {
+  getApiVersion,
+  getApiVersionError,
+  getVersionedPath,
+  toV2Advocate,
+  toV2Body,
+  withApiVersion
+} from '../../utils/apiVersion';
+import { errorResponse } from '../../utils/errors';
+
+// Mock NextRequest
+const createMockRequest = (path: string, headers: Record<string, string> = {}) => {
+  return {
+    nextUrl: new URL(`https://example.com${path}`),
+    headers: new Headers(headers)
+  } as unknown as NextRequest;
+};
+
+const advocate = {
+  id: '1',
+  firstName: 'Jane',
+  specialties: ['Trauma'],
+  specialtyDetails: [{ id: 's1', name: 'Trauma', description: 'Trauma & PTSD' }],
+  locations: []
+};
+
+describe('API Version Utilities', () => {
+  describe('getApiVersion', () => {
+    it('should take the version from the path before the Accept-Version header', () => {
+      expect(getApiVersion(createMockRequest('/api/v2/advocates', { 'accept-version': '1' }))).toBe('2');
+      expect(getApiVersion(createMockRequest('/api/v1/advocates/1'))).toBe('1');
+      expect(getApiVersion(createMockRequest('/api/advocates', { 'accept-version': 'v2' }))).toBe('2');
+    });
+
+    it('should default to version 1', () => {
+      expect(getApiVersion(createMockRequest('/api/advocates'))).toBe('1');
+      expect(getApiVersion(createMockRequest('/api/advocates', { 'accept-version': '3' }))).toBe('1');
+    });
+  });
+
+  describe('getApiVersionError', () => {
+    it('should reject unsupported versions in the Accept-Version header', () => {
+      expect(getApiVersionError(createMockRequest('/api/advocates', { 'accept-version': '3' })))
+        .toBe('Unsupported API version "3"; use one of 1, 2');
+      expect(getApiVersionError(createMockRequest('/api/v2/advocates', { 'accept-version': '3' }))).toBeUndefined();
+      expect(getApiVersionError(createMockRequest('/api/advocates'))).toBeUndefined();
+    });
+  });
+
+  describe('getVersionedPath', () => {
+    it('should replace or add the version of a path', () => {
+      expect(getVersionedPath('/api/advocates/1', '2')).toBe('/api/v2/advocates/1');
+      expect(getVersionedPath('/api/v1/specialties', '2')).toBe('/api/v2/specialties');
+    });
+  });
+
+  describe('toV2Body', () => {
+    it('should drop the success flag and move the cursors out of the pagination', () => {
+      expect(toV2Body({
+        success: true,
+        data: [advocate],
+        pagination: { totalCount: 11, pageSize: 10, currentPage: 1, totalPages: 2, hasNextPage: true, hasPreviousPage: false, nextCursor: 'abc', cursorField: 'createdAt,id' },
+        facets: { degree: [] }
+      }, 200, { v2Data: toV2Advocate })).toEqual({
+        data: [{
+          id: '1',
+          firstName: 'Jane',
+          relations: { specialties: [{ id: 's1', name: 'Trauma', description: 'Trauma & PTSD' }], locations: [] }
+        }],
+        pagination: { totalCount: 11, pageSize: 10, currentPage: 1, totalPages: 2, hasNextPage: true, hasPreviousPage: false },
+        cursors: { next: 'abc', prev: null, sortKeys: ['createdAt', 'id'] },
+        facets: { degree: [] }
+      });
+    });
+
+    it('should give every error a status and code', () => {
+      expect(toV2Body({ success: false, error: { message: 'Validation failed', code: 'VALIDATION_ERROR', details: { firstName: 'is required' } } }, 400))
+        .toEqual({ error: { status: 400, code: 'VALIDATION_ERROR', message: 'Validation failed', details: { firstName: 'is required' } } });
+      expect(toV2Body({ success: false, error: 'Failed to fetch advocates', message: 'connection refused' }, 500))
+        .toEqual({ error: { status: 500, code: 'INTERNAL_ERROR', message: 'Failed to fetch advocates' } });
+    });
+
+    it('should leave bodies without an envelope alone', () => {
+      expect(toV2Body('id,firstName', 200)).toBe('id,firstName');
+    });
+  });
+
+  describe('withApiVersion', () => {
+    const handler = withApiVersion(
+      async (request: NextRequest) => request.nextUrl.searchParams.has('fail')
+        ? errorResponse(404, 'Advocate 1 not found', 'NOT_FOUND')
+        : Response.json({ success: true, data: advocate }, { headers: { ETag: '"v1"' } }),
+      { v2Data: toV2Advocate }
+    );
+
+    it('should keep version 1 bodies and announce their deprecation', async () => {
+      const response = await handler(createMockRequest('/api/advocates/1'), {});
+
+      expect(await response.json()).toEqual({ success: true, data: advocate });
+      expect(response.headers.get('API-Version')).toBe('1');
+      expect(response.headers.get('Deprecation')).toMatch(/^@\d+$/);
+      expect(response.headers.get('Sunset')).toMatch(/ GMT$/);
+      expect(response.headers.get('Link')).toBe('</api/v2/advocates/1>; rel="successor-version"');
+      expect(response.headers.get('Vary')).toBe('Accept-Version');
+    });
+
+    it('should convert version 2 bodies and keep their headers', async () => {
+      const response = await handler(createMockRequest('/api/advocates/1', { 'accept-version': '2' }), {});
+
+      expect(await response.json()).toEqual({ data: toV2Advocate(advocate) });
+      expect(response.headers.get('ETag')).toBe('"v1"');
+      expect(response.headers.get('API-Version')).toBe('2');
+      expect(response.headers.has('Deprecation')).toBe(false);
+
+      const error = await handler(createMockRequest('/api/v2/advocates/1?fail'), {});
+      expect(error.status).toBe(404);
+      expect(await error.json()).toEqual({ error: { status: 404, code: 'NOT_FOUND', message: 'Advocate 1 not found' } });
+    });
+
+    it('should reject unsupported versions', async () => {
+      const response = await handler(createMockRequest('/api/advocates/1', { 'accept-version': '3' }), {});
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({ error: { code: 'UNSUPPORTED_API_VERSION' } });
+    });
+  });
+});
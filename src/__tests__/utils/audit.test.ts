@@ -0,0 +1,100 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import {
+  diffSnapshots,
+  getAuditActor,
+  getAuditContext,
+  getAuditFilterParams
+} from '../../utils/audit';
+import { setCaller } from '../../utils/auth';
+
+// Mock NextRequest
+const createMockRequest = (query: string = '', headers: Record<string, string> = {}) => {
+  return {
+    nextUrl: new URL(`https://example.com/api/audit?${query}`),
+    headers: new Headers(headers)
+  } as unknown as NextRequest;
+};
+
+describe('Audit Utilities', () => {
+  describe('diffSnapshots', () => {
+    const advocate = {
+      firstName: 'Jane',
+      phoneNumber: 5551234567,
+      specialties: ['Bipolar', 'LGBTQ'],
+      locations: [{ city: 'Chicago', isPrimary: true }],
+      deletedAt: null
+    };
+
+    it('should keep only the changed fields', () => {
+      expect(diffSnapshots(advocate, { ...advocate, phoneNumber: 5559876543, specialties: ['Bipolar'] })).toEqual({
+        before: { phoneNumber: 5551234567, specialties: ['Bipolar', 'LGBTQ'] },
+        after: { phoneNumber: 5559876543, specialties: ['Bipolar'] }
+      });
+    });
+
+    it('should compare relations by value', () => {
+      expect(diffSnapshots(advocate, {
+        ...advocate,
+        specialties: ['Bipolar', 'LGBTQ'],
+        locations: [{ city: 'Chicago', isPrimary: true }]
+      })).toBeUndefined();
+    });
+
+    it('should record creates and removals with the whole record', () => {
+      expect(diffSnapshots(undefined, advocate)).toEqual({ before: null, after: advocate });
+      expect(diffSnapshots(advocate, undefined)).toEqual({ before: advocate, after: null });
+      expect(diffSnapshots(undefined, undefined)).toBeUndefined();
+    });
+  });
+
+  describe('getAuditContext', () => {
+    it('should name the caller and keep the request id', () => {
+      const request = createMockRequest('', { 'x-request-id': 'req-123' });
+      setCaller(request, { type: 'api-key', keyId: 'key-1', scopes: ['advocates:write'] });
+
+      expect(getAuditContext(request)).toEqual({ actor: 'api-key:key-1', requestId: 'req-123' });
+      expect(getAuditContext(createMockRequest())).toEqual({ actor: 'anonymous', requestId: expect.any(String) });
+    });
+
+    it('should name admin token callers', () => {
+      expect(getAuditActor({ type: 'admin-token', scopes: ['admin'] })).toBe('admin-token');
+    });
+  });
+
+  describe('getAuditFilterParams', () => {
+    it('should parse every filter', () => {
+      const { filters, issues } = getAuditFilterParams(createMockRequest(
+        'actor=admin-token&action=update&entityType=advocate&entityId=3f1c2a9e-4b7d-4c3e-9a61-2d5e8f0b7c14' +
+        '&requestId=req-123&from=2026-10-01&to=2026-10-19T12:00:00Z'
+      ));
+
+      expect(issues).toEqual([]);
+      expect(filters).toEqual({
+        actor: 'admin-token',
+        action: 'update',
+        entityType: 'advocate',
+        entityId: '3f1c2a9e-4b7d-4c3e-9a61-2d5e8f0b7c14',
+        requestId: 'req-123',
+        from: new Date('2026-10-01'),
+        to: new Date('2026-10-19T12:00:00Z')
+      });
+    });
+
+    it('should report invalid filters', () => {
+      const { filters, issues } = getAuditFilterParams(createMockRequest(
+        'action=rename&entityType=location&entityId=42&from=yesterday'
+      ));
+
+      expect(filters).toEqual({});
+      expect(issues).toEqual([
+        { parameter: 'action', reason: 'must be one of create, update, delete, restore, import, seed, merge' },
+        { parameter: 'entityType', reason: 'must be one of advocate, specialty' },
+        { parameter: 'entityId', reason: 'must be a UUID' },
+        { parameter: 'from', reason: 'must be an ISO 8601 date' }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { NextRequest } from 'next/server';
+import {
+  ANONYMOUS_CALLER,
+  getBearerToken,
+  getCaller,
+  hasScope,
+  isAdminRequest,
+  isApiKeyRequest,
+  setCaller
+} from '../../utils/auth';
+
+// Mock NextRequest
+const createMockRequest = (headers: Record<string, string>) => {
+  return {
+    headers: new Headers(headers)
+  } as unknown as NextRequest;
+};
+
+describe('Auth Utilities', () => {
+  const originalToken = process.env.ADMIN_API_TOKEN;
+  
+  afterEach(() => {
+    if (originalToken === undefined) {
+      delete process.env.ADMIN_API_TOKEN;
+    } else {
+      process.env.ADMIN_API_TOKEN = originalToken;
+    }
+  });
+  
+  describe('isAdminRequest', () => {
+    it('should accept the configured bearer token', () => {
+      process.env.ADMIN_API_TOKEN = 'secret-token';
+      
+      expect(isAdminRequest(createMockRequest({ authorization: 'Bearer secret-token' }))).toBe(true);
+    });
+    
+    it('should reject missing or wrong tokens', () => {
+      process.env.ADMIN_API_TOKEN = 'secret-token';
+      
+      expect(isAdminRequest(createMockRequest({}))).toBe(false);
+      expect(isAdminRequest(createMockRequest({ authorization: 'Bearer wrong-token' }))).toBe(false);
+    });
+    
+    it('should reject every request when no token is configured', () => {
+      delete process.env.ADMIN_API_TOKEN;
+      
+      expect(isAdminRequest(createMockRequest({ authorization: 'Bearer ' }))).toBe(false);
+    });
+  });
+  
+  describe('getBearerToken', () => {
+    it('should read the token of a bearer authorization header', () => {
+      expect(getBearerToken(createMockRequest({ authorization: 'Bearer sk_abc ' }))).toBe('sk_abc');
+      expect(getBearerToken(createMockRequest({ authorization: 'Basic dXNlcjpwYXNz' }))).toBeUndefined();
+      expect(getBearerToken(createMockRequest({ authorization: 'Bearer ' }))).toBeUndefined();
+    });
+  });
+  
+  describe('hasScope', () => {
+    it('should grant every scope to admins', () => {
+      const reader = { type: 'api-key' as const, keyId: 'k1', scopes: ['advocates:read' as const] };
+      const admin = { type: 'api-key' as const, keyId: 'k2', scopes: ['admin' as const] };
+      
+      expect(hasScope(reader, 'advocates:read')).toBe(true);
+      expect(hasScope(reader, 'advocates:write')).toBe(false);
+      expect(hasScope(admin, 'advocates:write')).toBe(true);
+      expect(hasScope(ANONYMOUS_CALLER, 'advocates:read')).toBe(true);
+      expect(hasScope(ANONYMOUS_CALLER, 'advocates:write')).toBe(false);
+    });
+  });
+  
+  describe('getCaller', () => {
+    it('should prefer the caller recorded for the request', () => {
+      const request = createMockRequest({ authorization: 'Bearer sk_abc' });
+      expect(getCaller(request)).toBe(ANONYMOUS_CALLER);
+      
+      setCaller(request, { type: 'api-key', keyId: 'k1', scopes: ['admin'] });
+      
+      expect(isAdminRequest(request)).toBe(true);
+      expect(isApiKeyRequest(request)).toBe(true);
+      expect(isApiKeyRequest(createMockRequest({ authorization: 'Bearer sk_abc' }))).toBe(false);
+    });
+  });
+});
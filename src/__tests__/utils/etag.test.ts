@@ -0,0 +1,83 @@
+import {
+  getVersionEtag,
+  ifMatchSatisfied,
+  getContentEtag,
+  ifNoneMatchSatisfied,
+  setRevalidationHeaders
+} from '../../utils/etag';
+
+describe('ETag Utilities', () => {
+  describe('getVersionEtag', () => {
+    it('should build a strong ETag from the update time', () => {
+      const etag = getVersionEtag(new Date('2024-01-01T00:00:00.000Z'));
+      
+      expect(etag).toMatch(/^"[0-9a-z]+"$/);
+      expect(getVersionEtag('2024-01-01T00:00:00.000Z')).toBe(etag);
+    });
+    
+    it('should change when the update time changes', () => {
+      expect(getVersionEtag(new Date('2024-01-01T00:00:00.000Z')))
+        .not.toBe(getVersionEtag(new Date('2024-01-01T00:00:00.001Z')));
+    });
+  });
+  
+  describe('ifMatchSatisfied', () => {
+    const etag = getVersionEtag(new Date('2024-01-01T00:00:00.000Z'));
+    
+    it('should match the current ETag, including within a list', () => {
+      expect(ifMatchSatisfied(etag, etag)).toBe(true);
+      expect(ifMatchSatisfied(`"other", ${etag}`, etag)).toBe(true);
+      expect(ifMatchSatisfied('*', etag)).toBe(true);
+    });
+    
+    it('should not match stale or weak ETags', () => {
+      expect(ifMatchSatisfied('"other"', etag)).toBe(false);
+      expect(ifMatchSatisfied(`W/${etag}`, etag)).toBe(false);
+    });
+  });
+  
+  describe('getContentEtag', () => {
+    const rows = [['a1', '2024-01-01T00:00:00.000Z'], ['b2', '2024-01-02T00:00:00.000Z']];
+    
+    it('should build the same weak ETag for the same content', () => {
+      const etag = getContentEtag(['{"sort":"lastName"}', 42, rows]);
+      
+      expect(etag).toMatch(/^W\/"[\w-]+"$/);
+      expect(getContentEtag(['{"sort":"lastName"}', 42, rows])).toBe(etag);
+    });
+    
+    it('should change when a row, the count or the query changes', () => {
+      const etag = getContentEtag(['{"sort":"lastName"}', 42, rows]);
+      
+      expect(getContentEtag(['{"sort":"lastName"}', 42, [rows[0], ['b2', '2024-01-03T00:00:00.000Z']]])).not.toBe(etag);
+      expect(getContentEtag(['{"sort":"lastName"}', 43, rows])).not.toBe(etag);
+      expect(getContentEtag(['{"sort":"firstName"}', 42, rows])).not.toBe(etag);
+    });
+  });
+  
+  describe('ifNoneMatchSatisfied', () => {
+    const etag = getContentEtag(['content']);
+    
+    it('should match the current ETag with weak comparison, including within a list', () => {
+      expect(ifNoneMatchSatisfied(etag, etag)).toBe(true);
+      expect(ifNoneMatchSatisfied(etag.slice(2), etag)).toBe(true);
+      expect(ifNoneMatchSatisfied(`"other", ${etag}`, etag)).toBe(true);
+      expect(ifNoneMatchSatisfied('*', etag)).toBe(true);
+    });
+    
+    it('should not match other ETags', () => {
+      expect(ifNoneMatchSatisfied('W/"other"', etag)).toBe(false);
+    });
+  });
+  
+  describe('setRevalidationHeaders', () => {
+    it('should set the ETag and require revalidation by private caches', () => {
+      const headers = new Headers();
+      setRevalidationHeaders(headers, 'W/"abc"');
+      
+      expect(headers.get('ETag')).toBe('W/"abc"');
+      expect(headers.get('Cache-Control')).toBe('private, no-cache');
+      expect(headers.get('Vary')).toBe('Authorization');
+    });
+  });
+});
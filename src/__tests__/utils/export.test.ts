@@ -0,0 +1,226 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { inflateRawSync } from 'zlib';
+import {
+  getExportFormat,
+  serializeAdvocates,
+  toExportRow
+} from '../../utils/export';
+import { formatCsvField, formatCsvRow, stripFormulaGuard } from '../../utils/csv';
+import { parseAdvocateCsv } from '../../utils/advocateCsv';
+import { XLSX_CONTENT_TYPE } from '../../utils/xlsx';
+import type { AdvocateWithRelations } from '../../db/queries/advocates';
+
+// Mock NextRequest
+const createMockRequest = (params: Record<string, string>, accept?: string) => {
+  const url = new URL('https://example.com/api/advocates/export');
+  Object.entries(params).forEach(([key, value]) => {
+    url.searchParams.append(key, value);
+  });
+
+  return {
+    nextUrl: url,
+    headers: new Headers(accept ? { accept } : {})
+  } as unknown as NextRequest;
+};
+
+const advocate: AdvocateWithRelations = {
+  id: '7b0c8f44-3a5e-4c7e-9d2a-1f6e5b4a3c21',
+  firstName: 'Jane',
+  lastName: 'Smith, Jr.',
+  degree: 'MD',
+  yearsOfExperience: 12,
+  phoneNumber: 5559876543,
+  createdAt: new Date('2024-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2024-02-01T00:00:00.000Z'),
+  deletedAt: null,
+  specialties: ['Bipolar', 'Trauma & PTSD'],
+  city: 'Austin',
+  state: 'TX',
+  country: 'United States',
+  locations: [
+    {
+      id: '0d6f3a2b-8c1e-4f5a-9b7d-2e4c6a8f1b3d',
+      advocateId: '7b0c8f44-3a5e-4c7e-9d2a-1f6e5b4a3c21',
+      city: 'Austin',
+      state: 'TX',
+      country: 'United States',
+      postalCode: '78701',
+      latitude: 30.2711,
+      longitude: -97.7437,
+      isPrimary: true,
+      createdAt: new Date('2024-01-01T00:00:00.000Z')
+    }
+  ]
+};
+
+async function* batchesOf(...batches: AdvocateWithRelations[][]) {
+  yield* batches;
+}
+
+const collect = async (chunks: AsyncIterable<Uint8Array>) => {
+  const parts: Uint8Array[] = [];
+  for await (const chunk of chunks) parts.push(chunk);
+  return Buffer.concat(parts);
+};
+
+describe('Export Utilities', () => {
+  describe('getExportFormat', () => {
+    it('should default to CSV', () => {
+      expect(getExportFormat(createMockRequest({}))).toBe('csv');
+      expect(getExportFormat(createMockRequest({}, 'text/html,*/*'))).toBe('csv');
+    });
+
+    it('should prefer the format parameter over the Accept header', () => {
+      expect(getExportFormat(createMockRequest({ format: 'XLSX' }, 'text/csv'))).toBe('xlsx');
+    });
+
+    it('should reject unsupported format parameters', () => {
+      expect(getExportFormat(createMockRequest({ format: 'pdf' }))).toBeUndefined();
+    });
+
+    it('should negotiate the Accept header by quality', () => {
+      expect(getExportFormat(createMockRequest({}, 'application/x-ndjson'))).toBe('ndjson');
+      expect(getExportFormat(
+        createMockRequest({}, `text/csv;q=0.5, ${XLSX_CONTENT_TYPE}`)
+      )).toBe('xlsx');
+      expect(getExportFormat(
+        createMockRequest({}, 'application/x-ndjson;q=0, text/csv;q=0.1')
+      )).toBe('csv');
+    });
+  });
+
+  describe('formatCsvField', () => {
+    it('should quote fields with separators, quotes and line breaks', () => {
+      expect(formatCsvField('plain')).toBe('plain');
+      expect(formatCsvField('a,b')).toBe('"a,b"');
+      expect(formatCsvField('say "hi"')).toBe('"say ""hi"""');
+      expect(formatCsvField('two\nlines')).toBe('"two\nlines"');
+    });
+
+    it('should neutralize spreadsheet formulas', () => {
+      expect(formatCsvField('=HYPERLINK("x")')).toBe('"\'=HYPERLINK(""x"")"');
+      expect(formatCsvField('@SUM(A1)')).toBe("'@SUM(A1)");
+      expect(formatCsvField(-5)).toBe('-5');
+    });
+
+    it('should remove the formula guard when reading values back', () => {
+      expect(stripFormulaGuard("'=HYPERLINK(\"x\")")).toBe('=HYPERLINK("x")');
+      expect(stripFormulaGuard("'-5")).toBe('-5');
+      expect(stripFormulaGuard("O'Brien")).toBe("O'Brien");
+      expect(stripFormulaGuard("'quoted'")).toBe("'quoted'");
+    });
+
+    it('should write empty values as empty fields', () => {
+      expect(formatCsvRow([null, undefined, 0])).toBe(',,0\r\n');
+    });
+  });
+
+  describe('toExportRow', () => {
+    it('should flatten specialties and format dates', () => {
+      expect(toExportRow(advocate)).toEqual([
+        advocate.id,
+        'Jane',
+        'Smith, Jr.',
+        'MD',
+        12,
+        5559876543,
+        'Bipolar; Trauma & PTSD',
+        'Austin',
+        'TX',
+        '78701',
+        'United States',
+        '2024-01-01T00:00:00.000Z',
+        '2024-02-01T00:00:00.000Z',
+        null
+      ]);
+    });
+  });
+
+  describe('serializeAdvocates', () => {
+    it('should write a CSV header followed by one line per advocate', async () => {
+      const csv = (await collect(
+        serializeAdvocates('csv', batchesOf([advocate], [{ ...advocate, firstName: 'John' }]))
+      )).toString('utf8');
+      const lines = csv.split('\r\n');
+
+      expect(lines[0]).toMatch(/^id,firstName,lastName,degree,yearsOfExperience,phoneNumber,specialties,/);
+      expect(lines[1]).toContain(',Jane,"Smith, Jr.",MD,12,5559876543,Bipolar; Trauma & PTSD,Austin,');
+      expect(lines[2]).toContain(',John,');
+      expect(lines).toHaveLength(4);
+    });
+
+    it('should write CSV that the import reads back unchanged', async () => {
+      const advocates: AdvocateWithRelations[] = [
+        advocate,
+        { ...advocate, firstName: 'Mary Ann', lastName: 'Van der Berg', phoneNumber: 5550000001, specialties: [] },
+        { ...advocate, firstName: "D'Arcy", lastName: '-Smythe', phoneNumber: 5550000002, degree: '@MSW' },
+        { ...advocate, firstName: 'Ana', lastName: '"Nana" Lee', phoneNumber: 5550000003, city: 'New York, NY', state: '' }
+      ];
+      const csv = (await collect(serializeAdvocates('csv', batchesOf(advocates)))).toString('utf8');
+
+      const result = parseAdvocateCsv(csv);
+
+      expect(result.errors).toEqual([]);
+      expect(result.rows.map(row => row.input)).toEqual(advocates.map(exported => ({
+        firstName: exported.firstName,
+        lastName: exported.lastName,
+        degree: exported.degree,
+        yearsOfExperience: exported.yearsOfExperience,
+        phoneNumber: exported.phoneNumber,
+        specialties: exported.specialties,
+        location: {
+          city: exported.city,
+          state: exported.state || undefined,
+          postalCode: exported.locations[0].postalCode
+        }
+      })));
+    });
+
+    it('should write one JSON object per line for NDJSON, keeping the specialties array', async () => {
+      const ndjson = (await collect(
+        serializeAdvocates('ndjson', batchesOf([advocate, advocate]))
+      )).toString('utf8');
+      const lines = ndjson.trim().split('\n');
+
+      expect(lines).toHaveLength(2);
+      expect(JSON.parse(lines[0]).specialties).toEqual(['Bipolar', 'Trauma & PTSD']);
+    });
+
+    it('should write a readable XLSX zip archive', async () => {
+      const archive = await collect(serializeAdvocates('xlsx', batchesOf([advocate])));
+
+      // Walk the local file headers; each entry is followed by a data descriptor
+      const entries: Record<string, string> = {};
+      let offset = 0;
+      while (archive.readUInt32LE(offset) === 0x04034b50) {
+        const nameLength = archive.readUInt16LE(offset + 26);
+        const name = archive.toString('utf8', offset + 30, offset + 30 + nameLength);
+        const dataStart = offset + 30 + nameLength;
+        const descriptor = archive.indexOf(Buffer.from([0x50, 0x4b, 0x07, 0x08]), dataStart);
+        const compressedSize = archive.readUInt32LE(descriptor + 8);
+
+        expect(descriptor - dataStart).toBe(compressedSize);
+        entries[name] = inflateRawSync(archive.subarray(dataStart, descriptor)).toString('utf8');
+        offset = descriptor + 16;
+      }
+
+      expect(Object.keys(entries)).toEqual([
+        '[Content_Types].xml',
+        '_rels/.rels',
+        'xl/workbook.xml',
+        'xl/_rels/workbook.xml.rels',
+        'xl/worksheets/sheet1.xml'
+      ]);
+      expect(entries['xl/workbook.xml']).toContain('<sheet name="Advocates"');
+      expect(entries['xl/worksheets/sheet1.xml']).toContain('<c><v>5559876543</v></c>');
+      expect(entries['xl/worksheets/sheet1.xml']).toContain(
+        '<t xml:space="preserve">Bipolar; Trauma &amp; PTSD</t>'
+      );
+      // The central directory follows the last entry
+      expect(archive.readUInt32LE(offset)).toBe(0x02014b50);
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { NextRequest } from 'next/server';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { advocates } from '../../db/schema';
+import {
+  getFacetsParam,
+  buildExperienceBandExpression,
+  fillExperienceBands,
+  EXPERIENCE_BANDS
+} from '../../utils/facets';
+
+// Mock NextRequest
+const createMockRequest = (params: Record<string, string>) => {
+  const url = new URL('https://example.com/api/advocates');
+  Object.entries(params).forEach(([key, value]) => {
+    url.searchParams.append(key, value);
+  });
+
+  return {
+    nextUrl: url
+  } as unknown as NextRequest;
+};
+
+describe('Facet Utilities', () => {
+  describe('getFacetsParam', () => {
+    it('should return no facets when the parameter is missing', () => {
+      expect(getFacetsParam(createMockRequest({}))).toEqual([]);
+    });
+
+    it('should parse known facets in request order without duplicates', () => {
+      const request = createMockRequest({ facets: 'city, degree,unknown,city,experience' });
+
+      expect(getFacetsParam(request)).toEqual(['city', 'degree', 'experience']);
+    });
+  });
+
+  describe('buildExperienceBandExpression', () => {
+    it('should inline the band bounds so the expression can be grouped by', () => {
+      const query = new PgDialect().sqlToQuery(buildExperienceBandExpression(advocates.yearsOfExperience));
+
+      expect(query.sql).toContain('WHEN "advocates"."years_of_experience" BETWEEN 0 AND 4 THEN \'0-4\'');
+      expect(query.sql).toContain('WHEN "advocates"."years_of_experience" >= 20 THEN \'20+\'');
+      expect(query.params).toEqual([]);
+    });
+  });
+
+  describe('fillExperienceBands', () => {
+    it('should list every band in order, with zero for empty bands', () => {
+      const counts = fillExperienceBands([
+        { value: '20+', count: 2 },
+        { value: '5-9', count: 7 }
+      ]);
+
+      expect(counts.map(count => count.value)).toEqual(EXPERIENCE_BANDS.map(band => band.label));
+      expect(counts).toContainEqual({ value: '5-9', count: 7 });
+      expect(counts).toContainEqual({ value: '20+', count: 2 });
+      expect(counts).toContainEqual({ value: '0-4', count: 0 });
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { NextRequest } from 'next/server';
+import {
+  getFieldsParam,
+  getIncludeParam,
+  needsPrimaryLocation,
+  pickAdvocateFields
+} from '../../utils/fieldSelection';
+
+// Mock NextRequest
+const createMockRequest = (params: Record<string, string>) => {
+  const url = new URL('https://example.com/api/advocates');
+  Object.entries(params).forEach(([key, value]) => {
+    url.searchParams.append(key, value);
+  });
+
+  return {
+    nextUrl: url
+  } as unknown as NextRequest;
+};
+
+describe('Field Selection Utilities', () => {
+  describe('getFieldsParam', () => {
+    it('should return undefined when no fields are selected', () => {
+      expect(getFieldsParam(createMockRequest({}))).toBeUndefined();
+      expect(getFieldsParam(createMockRequest({ fields: 'phone,rating' }))).toBeUndefined();
+    });
+
+    it('should always select id and drop unknown and repeated fields', () => {
+      expect(getFieldsParam(createMockRequest({ fields: 'firstName, lastName,rating,firstName' })))
+        .toEqual(['id', 'firstName', 'lastName']);
+      expect(getFieldsParam(createMockRequest({ fields: 'city,id' }))).toEqual(['city', 'id']);
+    });
+  });
+
+  describe('getIncludeParam', () => {
+    it('should load only specialties by default in version 1', () => {
+      expect(getIncludeParam(createMockRequest({}))).toEqual(['specialties']);
+      expect(getIncludeParam(createMockRequest({ include: 'specialties,locations' }))).toEqual(['specialties', 'locations']);
+    });
+
+    it('should load only the requested relations', () => {
+      expect(getIncludeParam(createMockRequest({ include: 'specialtyDetails,reviews' }))).toEqual(['specialtyDetails']);
+      expect(getIncludeParam(createMockRequest({ include: '' }))).toEqual([]);
+    });
+
+    it('should load specialty records for version 2', () => {
+      expect(getIncludeParam(createMockRequest({}), '2')).toEqual(['specialtyDetails', 'locations']);
+      expect(getIncludeParam(createMockRequest({ include: 'specialties,specialtyDetails' }), '2')).toEqual(['specialtyDetails']);
+    });
+  });
+
+  describe('needsPrimaryLocation', () => {
+    it('should only read the primary location for location fields', () => {
+      expect(needsPrimaryLocation(undefined)).toBe(true);
+      expect(needsPrimaryLocation(['id', 'state'])).toBe(true);
+      expect(needsPrimaryLocation(['id', 'firstName'])).toBe(false);
+    });
+  });
+
+  describe('pickAdvocateFields', () => {
+    const advocate = {
+      id: '1',
+      firstName: 'Jane',
+      lastName: 'Doe',
+      updatedAt: new Date('2024-01-01'),
+      specialties: ['Trauma'],
+      distance: 2.5
+    };
+
+    it('should return every property without a field selection', () => {
+      expect(pickAdvocateFields(advocate, undefined, [])).toBe(advocate);
+    });
+
+    it('should keep the selected fields, the loaded relations and the distance', () => {
+      expect(pickAdvocateFields(advocate, ['id', 'firstName'], ['specialties'])).toEqual({
+        id: '1',
+        firstName: 'Jane',
+        specialties: ['Trauma'],
+        distance: 2.5
+      });
+    });
+  });
+});
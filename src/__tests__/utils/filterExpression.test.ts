@@ -0,0 +1,171 @@
+import { NextRequest } from 'next/server';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import {
+  MAX_FILTER_EXPRESSION_LENGTH,
+  buildFilterExpressionCondition,
+  collectFilters,
+  getFilterExpressionError,
+  hasFuzzyFilter,
+  parseFilterExpression
+} from '../../utils/filterExpression';
+import { FilterOperation } from '../../utils/filtering';
+import { advocates, advocateSpecialties, locations, specialties } from '../../db/schema';
+
+// Mock NextRequest
+const createMockRequest = (params: Record<string, string>) => {
+  const url = new URL('https://example.com/api/advocates');
+  Object.entries(params).forEach(([key, value]) => {
+    url.searchParams.append(key, value);
+  });
+
+  return {
+    nextUrl: url
+  } as unknown as NextRequest;
+};
+
+const parse = (text: string) => {
+  const result = parseFilterExpression(text);
+  if (!result.expression) throw new Error(`${result.error.message} at column ${result.error.column}`);
+  return result.expression;
+};
+
+describe('Filter Expression Utilities', () => {
+  describe('parseFilterExpression', () => {
+    it('should parse a comparison into the filter getFilterParams would produce', () => {
+      expect(parse('experience gte 5')).toEqual({
+        type: 'filter',
+        filter: { field: 'yearsOfExperience', operation: FilterOperation.GREATER_THAN_OR_EQUAL, value: 5 }
+      });
+      expect(parse('specialty any (Trauma, "Anxiety & Stress")')).toEqual({
+        type: 'filter',
+        filter: { field: 'specialties', operation: FilterOperation.ANY, value: ['Trauma', 'Anxiety & Stress'] }
+      });
+    });
+
+    it('should bind not tighter than and, and and tighter than or', () => {
+      expect(parse('degree eq MD or not city eq Chicago and experience > 5')).toEqual({
+        type: 'or',
+        operands: [
+          { type: 'filter', filter: { field: 'degree', operation: FilterOperation.EQUALS, value: 'MD' } },
+          {
+            type: 'and',
+            operands: [
+              { type: 'not', operand: { type: 'filter', filter: { field: 'city', operation: FilterOperation.EQUALS, value: 'Chicago' } } },
+              { type: 'filter', filter: { field: 'yearsOfExperience', operation: FilterOperation.GREATER_THAN, value: 5 } }
+            ]
+          }
+        ]
+      });
+    });
+
+    it('should group with parentheses and accept keywords in any case', () => {
+      const expression = parse('(degree = MD OR degree = PhD) AND specialty all (Trauma)');
+
+      expect(expression.type).toBe('and');
+      expect(expression.type === 'and' && expression.operands[0].type).toBe('or');
+    });
+
+    it('should compile neq as the negation of eq', () => {
+      expect(parse('degree != MD')).toEqual(parse('not degree eq MD'));
+      expect(parse('firstName neq Jo')).toEqual(parse('not firstName = Jo'));
+    });
+
+    it('should parse ranges and radius searches', () => {
+      expect(parse('experience between (5, 10)')).toMatchObject({ filter: { value: [5, 10] } });
+      expect(parse('near within (zip:60601, 10km)')).toMatchObject({
+        filter: { field: 'distance', operation: FilterOperation.WITHIN, value: { radius: 10, unit: 'km' } }
+      });
+      expect(parse('near within "41.88,-87.63"')).toMatchObject({
+        filter: { value: { latitude: 41.88, longitude: -87.63, radius: 25, unit: 'mi' } }
+      });
+    });
+
+    it.each([
+      ['experiance gte 5', 1, 'Unknown field "experiance"'],
+      ['degree contains M', 8, 'degree does not support contains; use one of eq, in, neq'],
+      ['degree eq', 10, 'Expected a value but found the end of the expression'],
+      ['city eq New York', 13, 'Expected "and", "or" or the end of the expression but found "York"; quote values that contain spaces'],
+      ['experience gt five', 15, 'Expected a number but found "five"'],
+      ['experience between (5)', 20, 'Expected two bounds'],
+      ['degree eq (MD, PhD)', 11, 'eq takes a single value, not a list'],
+      ['(degree eq MD', 14, 'Expected ")" but found the end of the expression'],
+      ['degree in (MD,', 15, 'Expected a value but found the end of the expression'],
+      ['city eq "Chicago', 9, 'Unterminated string'],
+      ['degree == MD', 8, 'Unknown operator "=="'],
+      ['degree is MD', 8, 'Expected an operator after degree but found "is"'],
+      ['near within (zip:00000)', 13, 'Expected a point'],
+    ])('should reject %s at column %i', (text, column, message) => {
+      const { error } = parseFilterExpression(text);
+
+      expect(error?.column).toBe(column);
+      expect(error?.message).toContain(message);
+    });
+
+    it('should reject expressions that are too long', () => {
+      const { error } = parseFilterExpression(`degree eq ${'x'.repeat(MAX_FILTER_EXPRESSION_LENGTH)}`);
+
+      expect(error?.message).toMatch(/longer than/);
+    });
+  });
+
+  describe('getFilterExpressionError', () => {
+    it('should point at the offending column', () => {
+      const error = getFilterExpressionError(createMockRequest({ filter: 'degree eq MD and experiance gt 5' }));
+
+      expect(error?.message).toMatch(/^Invalid filter expression at column 18: Unknown field "experiance"/);
+      expect(error?.details).toEqual({
+        column: 18,
+        expression: 'degree eq MD and experiance gt 5',
+        pointer: '                 ^'
+      });
+    });
+
+    it('should accept a missing or valid expression', () => {
+      expect(getFilterExpressionError(createMockRequest({}))).toBeUndefined();
+      expect(getFilterExpressionError(createMockRequest({ filter: 'degree eq MD' }))).toBeUndefined();
+    });
+  });
+
+  describe('buildFilterExpressionCondition', () => {
+    const dialect = new PgDialect();
+    const tables = { advocates, specialties, advocateSpecialties, locations };
+
+    it('should compile through the filter condition builders', () => {
+      const expression = parse('(degree in (MD, PhD)) and specialty any (Trauma, Anxiety) and not city eq Chicago');
+      const { sql, params } = dialect.sqlToQuery(buildFilterExpressionCondition(tables, expression));
+
+      expect(sql).toMatch(new RegExp('^\\("advocates"\\."degree" in \\(\\$1, \\$2\\) and EXISTS .* and not EXISTS .*\\)$', 's'));
+      expect(params).toEqual(['MD', 'PhD', 'Trauma', 'Anxiety', 'Chicago']);
+    });
+
+    it('should join or groups with or', () => {
+      const expression = parse('lastName startsWith Sm or experience lte 2');
+      const { sql, params } = dialect.sqlToQuery(buildFilterExpressionCondition(tables, expression));
+
+      expect(sql).toBe('("advocates"."last_name" ilike $1 or "advocates"."years_of_experience" <= $2)');
+      expect(params).toEqual(['Sm%', 2]);
+    });
+
+    it('should apply the fuzzy threshold to fuzzy filters', () => {
+      const expression = parse('lastName fuzzy Smtih');
+      const { params } = dialect.sqlToQuery(buildFilterExpressionCondition(tables, expression, 0.5));
+
+      expect(hasFuzzyFilter(expression)).toBe(true);
+      expect(hasFuzzyFilter(parse('lastName eq Smith'))).toBe(false);
+      expect(params).toContain(0.5);
+    });
+  });
+
+  describe('collectFilters', () => {
+    const expression = parse('(lastName fuzzy Smtih or experience gte 5) and not city fuzzy Chicgo');
+
+    it('should collect every filter in order', () => {
+      expect(collectFilters(expression).map(filter => filter.field)).toEqual(['lastName', 'yearsOfExperience', 'city']);
+    });
+
+    it('should leave out negated filters when asked', () => {
+      expect(collectFilters(expression, { negated: false }).map(filter => filter.field))
+        .toEqual(['lastName', 'yearsOfExperience']);
+    });
+  });
+});
@@ -5,10 +5,18 @@ import {
   buildTextCondition,
   buildExactCondition,
   buildRangeCondition,
+  buildLocationCondition,
+  buildArrayCondition,
+  buildSimilarityCondition,
+  buildFuzzyRank,
+  getFuzzyThresholdParam,
+  DEFAULT_FUZZY_THRESHOLD,
   FilterOperation,
   FilterType
 } from '../../utils/filtering';
 import { sql } from 'drizzle-orm';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { advocates, locations, specialties, advocateSpecialties } from '../../db/schema';
 
 // Mock NextRequest
 const createMockRequest = (params: Record<string, string>) => {
@@ -30,7 +38,8 @@ const mockTables = {
     degree: { name: 'degree' },
     yearsOfExperience: { name: 'years_of_experience' },
     createdAt: { name: 'created_at' },
-    updatedAt: { name: 'updated_at' }
+    updatedAt: { name: 'updated_at' },
+    deletedAt: { name: 'deleted_at' }
   },
   specialties: {
     id: { name: 'id' },
@@ -97,6 +106,31 @@ describe('Filtering Utilities', () => {
       });
     });
     
+    it('should parse radius searches', () => {
+      const request = createMockRequest({
+        near: 'zip:60601',
+        radius: '10'
+      });
+      
+      expect(getFilterParams(request)).toEqual([{
+        field: 'distance',
+        operation: FilterOperation.WITHIN,
+        value: { latitude: 41.8852, longitude: -87.6215, radius: 10, unit: 'mi' }
+      }]);
+    });
+    
+    it('should parse fuzzy filters', () => {
+      const request = createMockRequest({
+        'lastName[fuzzy]': 'Smtih'
+      });
+      
+      expect(getFilterParams(request)).toEqual([{
+        field: 'lastName',
+        operation: FilterOperation.FUZZY,
+        value: 'Smtih'
+      }]);
+    });
+    
     it('should parse exact match filters', () => {
       const request = createMockRequest({
         'degree[eq]': 'MD',
@@ -259,6 +293,17 @@ describe('Filtering Utilities', () => {
       expect(condition).toBeDefined();
     });
     
+    it('should build SQL condition for FUZZY operation', () => {
+      const condition = buildTextCondition(
+        mockTables.advocates,
+        'lastName',
+        FilterOperation.FUZZY,
+        'Smtih'
+      );
+      
+      expect(condition).toBeDefined();
+    });
+    
     it('should throw error for unsupported operation', () => {
       expect(() => {
         buildTextCondition(
@@ -363,6 +408,146 @@ describe('Filtering Utilities', () => {
     });
   });
   
+  describe('buildLocationCondition', () => {
+    const dialect = new PgDialect();
+    
+    it('should match any of the advocate\'s locations', () => {
+      const query = dialect.sqlToQuery(
+        buildLocationCondition(locations, advocates, FilterOperation.EQUALS, 'Chicago')
+      );
+      
+      expect(query.sql).toContain('EXISTS');
+      expect(query.sql).toContain('"locations"."advocate_id" = "advocates"."id"');
+      expect(query.sql).toContain('"locations"."city" = $1');
+      expect(query.sql).not.toContain('is_primary');
+      expect(query.params).toEqual(['Chicago']);
+    });
+    
+    it('should match part of a city name ignoring case', () => {
+      const query = dialect.sqlToQuery(
+        buildLocationCondition(locations, advocates, FilterOperation.CONTAINS, 'new')
+      );
+      
+      expect(query.sql).toContain('"locations"."city" ilike $1');
+      expect(query.params).toEqual(['%new%']);
+    });
+    
+    it('should reject unsupported operations', () => {
+      expect(() => buildLocationCondition(locations, advocates, FilterOperation.GREATER_THAN, 'x'))
+        .toThrow('Unsupported operation');
+    });
+    
+    it('should match cities by similarity', () => {
+      const query = dialect.sqlToQuery(
+        buildLocationCondition(locations, advocates, FilterOperation.FUZZY, 'Chicgo', 0.4)
+      );
+      
+      expect(query.sql).toContain('similarity("locations"."city", $2) >= $3');
+      expect(query.params).toEqual(['Chicgo', 'Chicgo', 0.4]);
+    });
+  });
+  
+  describe('buildArrayCondition', () => {
+    const dialect = new PgDialect();
+    
+    it('should match advocates with any of the specialties', () => {
+      const query = dialect.sqlToQuery(
+        buildArrayCondition(specialties, advocateSpecialties, advocates, FilterOperation.ANY, ['Trauma', 'Anxiety'])
+      );
+      
+      expect(query.sql).toContain('EXISTS');
+      expect(query.sql).toContain('"advocate_specialties"."advocate_id" = "advocates"."id"');
+      expect(query.sql).toContain('"specialties"."name" in ($1, $2)');
+      expect(query.params).toEqual(['Trauma', 'Anxiety']);
+    });
+    
+    it('should match advocates with all of the specialties', () => {
+      const query = dialect.sqlToQuery(
+        buildArrayCondition(specialties, advocateSpecialties, advocates, FilterOperation.ALL, ['Trauma', 'Anxiety', 'Trauma'])
+      );
+      
+      expect(query.sql).toContain('COUNT(DISTINCT "specialties"."name")');
+      expect(query.params).toEqual(['Trauma', 'Anxiety', 2]);
+    });
+  });
+  
+  describe('getFuzzyThresholdParam', () => {
+    const originalThreshold = process.env.FUZZY_MATCH_THRESHOLD;
+    
+    afterEach(() => {
+      if (originalThreshold === undefined) {
+        delete process.env.FUZZY_MATCH_THRESHOLD;
+      } else {
+        process.env.FUZZY_MATCH_THRESHOLD = originalThreshold;
+      }
+    });
+    
+    it('should default to DEFAULT_FUZZY_THRESHOLD', () => {
+      delete process.env.FUZZY_MATCH_THRESHOLD;
+      expect(getFuzzyThresholdParam(createMockRequest({}))).toBe(DEFAULT_FUZZY_THRESHOLD);
+    });
+    
+    it('should read the threshold from the environment', () => {
+      process.env.FUZZY_MATCH_THRESHOLD = '0.5';
+      expect(getFuzzyThresholdParam(createMockRequest({}))).toBe(0.5);
+    });
+    
+    it('should prefer the request parameter', () => {
+      process.env.FUZZY_MATCH_THRESHOLD = '0.5';
+      expect(getFuzzyThresholdParam(createMockRequest({ fuzzyThreshold: '0.2' }))).toBe(0.2);
+    });
+    
+    it('should ignore thresholds outside (0, 1]', () => {
+      delete process.env.FUZZY_MATCH_THRESHOLD;
+      expect(getFuzzyThresholdParam(createMockRequest({ fuzzyThreshold: '0' }))).toBe(DEFAULT_FUZZY_THRESHOLD);
+      expect(getFuzzyThresholdParam(createMockRequest({ fuzzyThreshold: '1.5' }))).toBe(DEFAULT_FUZZY_THRESHOLD);
+      expect(getFuzzyThresholdParam(createMockRequest({ fuzzyThreshold: 'abc' }))).toBe(DEFAULT_FUZZY_THRESHOLD);
+    });
+  });
+  
+  describe('buildSimilarityCondition', () => {
+    const dialect = new PgDialect();
+    
+    it('should use the trigram operator when the threshold allows it', () => {
+      const query = dialect.sqlToQuery(buildSimilarityCondition(advocates.lastName, 'Smtih', 0.3));
+      
+      expect(query.sql).toBe(
+        '("advocates"."last_name" % $1 AND similarity("advocates"."last_name", $2) >= $3)'
+      );
+      expect(query.params).toEqual(['Smtih', 'Smtih', 0.3]);
+    });
+    
+    it('should only compare similarity below the trigram operator threshold', () => {
+      const query = dialect.sqlToQuery(buildSimilarityCondition(advocates.lastName, 'Smtih', 0.2));
+      
+      expect(query.sql).toBe('similarity("advocates"."last_name", $1) >= $2');
+      expect(query.params).toEqual(['Smtih', 0.2]);
+    });
+  });
+  
+  describe('buildFuzzyRank', () => {
+    const dialect = new PgDialect();
+    
+    it('should return undefined without fuzzy filters', () => {
+      expect(buildFuzzyRank({ advocates, locations }, [
+        { field: 'lastName', operation: FilterOperation.CONTAINS, value: 'Sm' }
+      ])).toBeUndefined();
+    });
+    
+    it('should add up the similarities of the fuzzy filters', () => {
+      const rank = buildFuzzyRank({ advocates, locations }, [
+        { field: 'lastName', operation: FilterOperation.FUZZY, value: 'Smtih' },
+        { field: 'city', operation: FilterOperation.FUZZY, value: 'Chicgo' }
+      ]);
+      const query = dialect.sqlToQuery(rank!);
+      
+      expect(query.sql).toContain('similarity("advocates"."last_name", $1) + coalesce(');
+      expect(query.sql).toContain('max(similarity("locations"."city", $2))');
+      expect(query.sql).toContain('"locations"."advocate_id" = "advocates"."id"');
+      expect(query.params).toEqual(['Smtih', 'Chicgo']);
+    });
+  });
+  
   describe('buildFilterConditions', () => {
     it('should build SQL conditions for multiple filters', () => {
       const filters = [
@@ -385,12 +570,19 @@ describe('Filtering Utilities', () => {
       
       const conditions = buildFilterConditions(mockTables, filters);
       
-      expect(conditions).toHaveLength(3);
+      // One condition per filter plus the soft-delete exclusion
+      expect(conditions).toHaveLength(4);
     });
     
-    it('should handle empty filters array', () => {
+    it('should only exclude soft-deleted advocates for an empty filters array', () => {
       const conditions = buildFilterConditions(mockTables, []);
       
+      expect(conditions).toHaveLength(1);
+    });
+    
+    it('should include soft-deleted advocates when requested', () => {
+      const conditions = buildFilterConditions(mockTables, [], { includeDeleted: true });
+      
       expect(conditions).toHaveLength(0);
     });
     
@@ -408,9 +600,26 @@ describe('Filtering Utilities', () => {
         }
       ];
       
-      const conditions = buildFilterConditions(mockTables, filters);
+      const conditions = buildFilterConditions(mockTables, filters, { includeDeleted: true });
       
       expect(conditions).toHaveLength(1);
     });
+    
+    it('should skip filters that fail to build, unless strict', () => {
+      const filters = [
+        {
+          field: 'firstName',
+          operation: FilterOperation.GREATER_THAN,
+          value: 'J'
+        }
+      ];
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+      
+      expect(buildFilterConditions(mockTables, filters, { includeDeleted: true })).toHaveLength(0);
+      expect(() => buildFilterConditions(mockTables, filters, { includeDeleted: true, strict: true }))
+        .toThrow('Unsupported operation gt for text field firstName');
+      
+      consoleError.mockRestore();
+    });
   });
 });
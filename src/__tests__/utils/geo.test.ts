@@ -0,0 +1,177 @@
+import { NextRequest } from 'next/server';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { advocates, locations } from '../../db/schema';
+import {
+  lookupZipCentroid,
+  geocodeLocation,
+  parseNearParam,
+  getNearParamError,
+  buildNearCondition,
+  buildAdvocateDistance,
+  roundDistance,
+  DEFAULT_RADIUS
+} from '../../utils/geo';
+
+// Mock NextRequest
+const createMockRequest = (params: Record<string, string>) => {
+  const url = new URL('https://example.com/api/advocates');
+  Object.entries(params).forEach(([key, value]) => {
+    url.searchParams.append(key, value);
+  });
+
+  return {
+    nextUrl: url
+  } as unknown as NextRequest;
+};
+
+describe('Geo Utilities', () => {
+  describe('lookupZipCentroid', () => {
+    it('should find ZIP codes in the bundled dataset', () => {
+      expect(lookupZipCentroid('60601')).toEqual({ latitude: 41.8852, longitude: -87.6215 });
+    });
+
+    it('should cover ZIP codes nationwide', () => {
+      const zips: [string, number, number][] = [
+        ['00601', 18.18, -66.75],
+        ['05401', 44.48, -73.22],
+        ['37214', 36.17, -86.66],
+        ['54301', 44.48, -88.02],
+        ['59801', 46.85, -114.01],
+        ['88001', 32.29, -106.75],
+        ['96813', 21.32, -157.85],
+        ['99501', 61.22, -149.86]
+      ];
+
+      zips.forEach(([zip, latitude, longitude]) => {
+        const point = lookupZipCentroid(zip);
+        expect(point?.latitude).toBeCloseTo(latitude, 1);
+        expect(point?.longitude).toBeCloseTo(longitude, 1);
+      });
+    });
+
+    it('should look up ZIP+4 codes by their first five digits', () => {
+      expect(lookupZipCentroid('60601-1234')).toEqual(lookupZipCentroid('60601'));
+    });
+
+    it('should return undefined for unknown ZIP codes', () => {
+      expect(lookupZipCentroid('00000')).toBeUndefined();
+    });
+  });
+
+  describe('geocodeLocation', () => {
+    it('should prefer the postal code', () => {
+      expect(geocodeLocation({ postalCode: '60614', city: 'Chicago', state: 'IL' }))
+        .toEqual(lookupZipCentroid('60614'));
+    });
+
+    it('should fall back to the city and state', () => {
+      const point = geocodeLocation({ city: 'chicago', state: 'il' });
+
+      expect(point?.latitude).toBeCloseTo(41.88, 1);
+      expect(point?.longitude).toBeCloseTo(-87.65, 1);
+    });
+
+    it('should only geocode a city without a state when its name is unique', () => {
+      expect(geocodeLocation({ city: 'Schaumburg' })).toEqual({ latitude: 42.04, longitude: -88.0881 });
+      expect(geocodeLocation({ city: 'Portland' })).toBeUndefined();
+      expect(geocodeLocation({ city: 'Portland', state: 'ME' })).toEqual({ latitude: 43.6689, longitude: -70.2665 });
+    });
+
+    it('should match city names abbreviating Saint', () => {
+      expect(geocodeLocation({ city: 'St. Louis', state: 'MO' }))
+        .toEqual(geocodeLocation({ city: 'Saint Louis', state: 'MO' }));
+    });
+
+    it('should return undefined for unknown cities', () => {
+      expect(geocodeLocation({ city: 'Atlantis', state: 'XX' })).toBeUndefined();
+    });
+  });
+
+  describe('parseNearParam', () => {
+    it('should parse coordinates with the default radius in miles', () => {
+      expect(parseNearParam('41.88, -87.63', null)).toEqual({
+        latitude: 41.88,
+        longitude: -87.63,
+        radius: DEFAULT_RADIUS,
+        unit: 'mi'
+      });
+    });
+
+    it('should resolve ZIP codes and radius units', () => {
+      expect(parseNearParam('zip:60601', '40km')).toEqual({
+        latitude: 41.8852,
+        longitude: -87.6215,
+        radius: 40,
+        unit: 'km'
+      });
+      expect(parseNearParam('zip:60601', '10mi')).toMatchObject({ radius: 10, unit: 'mi' });
+    });
+
+    it('should reject invalid points and radii', () => {
+      expect(parseNearParam(null, '10')).toBeUndefined();
+      expect(parseNearParam('91,0', '10')).toBeUndefined();
+      expect(parseNearParam('41.88', '10')).toBeUndefined();
+      expect(parseNearParam('zip:00000', '10')).toBeUndefined();
+      expect(parseNearParam('41.88,-87.63', '0')).toBeUndefined();
+      expect(parseNearParam('41.88,-87.63', '10 miles')).toBeUndefined();
+      expect(parseNearParam('41.88,-87.63', '501')).toBeUndefined();
+    });
+  });
+
+  describe('getNearParamError', () => {
+    it('should accept requests without near or with a valid near', () => {
+      expect(getNearParamError(createMockRequest({}))).toBeUndefined();
+      expect(getNearParamError(createMockRequest({ near: 'zip:60601', radius: '5' }))).toBeUndefined();
+    });
+
+    it('should explain what is wrong', () => {
+      expect(getNearParamError(createMockRequest({ near: 'zip:00000' })))
+        .toBe('ZIP code 00000 is not in the ZIP code dataset');
+      expect(getNearParamError(createMockRequest({ near: 'chicago' })))
+        .toBe('near must be "lat,lng" or "zip:<ZIP code>"');
+      expect(getNearParamError(createMockRequest({ near: 'zip:60601', radius: '-5' })))
+        .toContain('radius must be a positive number');
+    });
+  });
+
+  describe('buildNearCondition', () => {
+    const dialect = new PgDialect();
+
+    it('should match advocates with a location inside the bounding box and radius', () => {
+      const near = { latitude: 41.88, longitude: -87.63, radius: 10, unit: 'mi' as const };
+      const query = dialect.sqlToQuery(buildNearCondition(locations, advocates, near));
+
+      expect(query.sql).toContain('EXISTS');
+      expect(query.sql).toContain('"locations"."advocate_id" = "advocates"."id"');
+      expect(query.sql).toContain('"locations"."latitude" BETWEEN');
+      expect(query.sql).toContain('"locations"."longitude" BETWEEN');
+      expect(query.sql).toContain('::float8 * 2 * asin');
+      expect(query.params[0]).toBeCloseTo(41.88 - 10 / 3958.8 * 180 / Math.PI);
+      expect(query.params[query.params.length - 1]).toBe(10);
+    });
+
+    it('should not bound longitude across the antimeridian', () => {
+      const near = { latitude: 51.5, longitude: 179.9, radius: 50, unit: 'km' as const };
+      const query = dialect.sqlToQuery(buildNearCondition(locations, advocates, near));
+
+      expect(query.sql).not.toContain('"locations"."longitude" BETWEEN');
+      expect(query.params).toContain(6371);
+    });
+  });
+
+  describe('buildAdvocateDistance', () => {
+    it('should take the distance to the nearest location', () => {
+      const near = { latitude: 41.88, longitude: -87.63, radius: 10, unit: 'mi' as const };
+      const query = new PgDialect().sqlToQuery(buildAdvocateDistance({ advocates, locations }, near));
+
+      expect(query.sql).toContain('SELECT min(');
+      expect(query.sql).toContain('"locations"."advocate_id" = "advocates"."id"');
+    });
+  });
+
+  describe('roundDistance', () => {
+    it('should round to a tenth', () => {
+      expect(roundDistance(3.14159)).toBe(3.1);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { LogLevel, createLogger, getLogLevel } from '../../utils/logger';
+
+describe('Logger', () => {
+  const createTestLogger = (level: LogLevel | 'silent' = 'debug') => {
+    const lines: { level: LogLevel; entry: Record<string, unknown> }[] = [];
+    const logger = createLogger({ service: 'api' }, {
+      level,
+      write: (lineLevel, line) => lines.push({ level: lineLevel, entry: JSON.parse(line) })
+    });
+    return { logger, lines };
+  };
+
+  it('should write one JSON line with the level, message and fields', () => {
+    const { logger, lines } = createTestLogger();
+
+    logger.info('Request completed', { status: 200, durationMs: 12 });
+
+    expect(lines).toEqual([{
+      level: 'info',
+      entry: {
+        time: expect.any(String),
+        level: 'info',
+        message: 'Request completed',
+        service: 'api',
+        status: 200,
+        durationMs: 12
+      }
+    }]);
+  });
+
+  it('should add the fields of child loggers to every line', () => {
+    const { logger, lines } = createTestLogger();
+
+    logger.child({ requestId: 'req-1' }).child({ route: '/api/advocates' }).warn('Slow query');
+
+    expect(lines[0].entry).toMatchObject({ service: 'api', requestId: 'req-1', route: '/api/advocates' });
+  });
+
+  it('should drop lines below the level', () => {
+    const { logger, lines } = createTestLogger('warn');
+
+    logger.debug('debug');
+    logger.info('info');
+    logger.warn('warn');
+    logger.error('error');
+
+    expect(lines.map(line => line.level)).toEqual(['warn', 'error']);
+    createTestLogger('silent').logger.error('error');
+  });
+
+  it('should write errors with their name, message, properties and stack', () => {
+    const { logger, lines } = createTestLogger();
+    const error = Object.assign(new Error('Connection refused'), { status: 503 });
+
+    logger.error('Error fetching advocates', { error });
+
+    expect(lines[0].entry.error).toEqual({
+      name: 'Error',
+      message: 'Connection refused',
+      status: 503,
+      stack: expect.stringContaining('Connection refused')
+    });
+  });
+
+  describe('getLogLevel', () => {
+    const originalLevel = process.env.LOG_LEVEL;
+
+    afterEach(() => {
+      if (originalLevel === undefined) {
+        delete process.env.LOG_LEVEL;
+      } else {
+        process.env.LOG_LEVEL = originalLevel;
+      }
+    });
+
+    it('should read LOG_LEVEL and fall back to info', () => {
+      process.env.LOG_LEVEL = 'DEBUG';
+      expect(getLogLevel()).toBe('debug');
+      process.env.LOG_LEVEL = 'verbose';
+      expect(getLogLevel()).toBe('info');
+      delete process.env.LOG_LEVEL;
+      expect(getLogLevel()).toBe('info');
+    });
+  });
+});
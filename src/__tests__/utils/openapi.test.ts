@@ -0,0 +1,138 @@
+import { NextRequest } from 'next/server';
+import {
+  buildOpenApiDocument,
+  getFilterParameters,
+  OperationObject,
+  ParameterObject
+} from '../../utils/openapi';
+import {
+  ADVOCATE_FILTERS,
+  FilterOperation,
+  FilterType,
+  getFilterParams
+} from '../../utils/filtering';
+import { ALLOWED_ADVOCATE_SORT_FIELDS } from '../../utils/sorting';
+import { ALLOWED_PAGE_SIZES } from '../../utils/pagination';
+
+// Mock NextRequest
+const createMockRequest = (params: Record<string, string>) => {
+  const url = new URL('https://example.com/api/advocates');
+  Object.entries(params).forEach(([key, value]) => {
+    url.searchParams.append(key, value);
+  });
+
+  return {
+    nextUrl: url
+  } as unknown as NextRequest;
+};
+
+// A value each parameter's parser accepts
+const sampleValue = (parameter: ParameterObject): string => {
+  if (parameter.example) return parameter.example;
+  if (parameter.schema.pattern) return '5,10';
+  return parameter.schema.type === 'number' ? '5' : 'Chicago';
+};
+
+const document = buildOpenApiDocument();
+const listAdvocates = document.paths['/api/advocates'].get as OperationObject;
+const exportAdvocates = document.paths['/api/advocates/export'].get as OperationObject;
+
+const queryParameters = (operation: OperationObject) =>
+  (operation.parameters ?? []).filter(parameter => parameter.in === 'query');
+
+describe('OpenAPI document', () => {
+  describe('filter parameters', () => {
+    // Every operation of every registered filter must be documented
+    const registryFilters = ADVOCATE_FILTERS.flatMap(({ field, operations }) =>
+      operations.map(operation => ({ field, operation }))
+    );
+
+    it.each([
+      ['listAdvocates', listAdvocates],
+      ['exportAdvocates', exportAdvocates],
+    ])('should document every filter of the registry on %s', (_, operation) => {
+      const documented = queryParameters(operation)
+        .filter(parameter => parameter['x-filter'])
+        .map(parameter => parameter['x-filter']);
+
+      for (const filter of registryFilters) {
+        expect(documented).toContainEqual(filter);
+      }
+    });
+
+    it('should only document filters that the request parser accepts', () => {
+      for (const parameter of queryParameters(listAdvocates).filter(parameter => parameter['x-filter'])) {
+        const filters = getFilterParams(createMockRequest({ [parameter.name]: sampleValue(parameter) }));
+
+        expect({ parameter: parameter.name, filters: filters.map(({ field, operation }) => ({ field, operation })) })
+          .toEqual({ parameter: parameter.name, filters: [parameter['x-filter']] });
+      }
+    });
+
+    it('should not document any other parameter as a filter', () => {
+      for (const parameter of queryParameters(listAdvocates).filter(parameter => !parameter['x-filter'])) {
+        const filters = getFilterParams(createMockRequest({ [parameter.name]: sampleValue(parameter) }));
+
+        expect({ parameter: parameter.name, filters }).toEqual({ parameter: parameter.name, filters: [] });
+      }
+    });
+
+    it('should add the equality shorthand only for fields that support equality', () => {
+      const parameters = getFilterParameters([
+        { field: 'degree', type: FilterType.EXACT, operations: [FilterOperation.EQUALS, FilterOperation.IN] },
+        { field: 'yearsOfExperience', type: FilterType.RANGE, operations: [FilterOperation.GREATER_THAN], paramName: 'experience' },
+      ]);
+
+      expect(parameters.map(parameter => parameter.name)).toEqual([
+        'degree',
+        'degree[eq]',
+        'degree[in]',
+        'experience[gt]',
+      ]);
+      expect(parameters[3].schema).toEqual({ type: 'number' });
+    });
+
+    it('should document the radius with the location filter', () => {
+      const names = getFilterParameters().map(parameter => parameter.name);
+
+      expect(names).toContain('near');
+      expect(names[names.indexOf('near') + 1]).toBe('radius');
+    });
+  });
+
+  it('should list the allowed sort fields and page sizes', () => {
+    const parameter = (name: string) => listAdvocates.parameters?.find(p => p.name === name);
+
+    expect(parameter('sort')?.schema.items?.enum).toEqual(
+      ALLOWED_ADVOCATE_SORT_FIELDS.flatMap(field => [field, `-${field}`, `+${field}`])
+    );
+    expect(parameter('secondarySort')?.schema.enum).toEqual(ALLOWED_ADVOCATE_SORT_FIELDS);
+    expect(parameter('limit')?.schema.enum).toEqual(ALLOWED_PAGE_SIZES);
+  });
+
+  it('should not repeat a parameter within an operation', () => {
+    for (const operations of Object.values(document.paths)) {
+      for (const operation of Object.values(operations)) {
+        const keys = (operation.parameters ?? []).map(parameter => `${parameter.in}:${parameter.name}`);
+        expect(new Set(keys).size).toBe(keys.length);
+      }
+    }
+  });
+
+  it('should only reference schemas it defines', () => {
+    const refs = JSON.stringify(document).match(/#\/components\/schemas\/\w+/g) ?? [];
+
+    expect(refs.length).toBeGreaterThan(0);
+    for (const ref of refs) {
+      expect(Object.keys(document.components.schemas)).toContain(ref.split('/').pop());
+    }
+  });
+
+  it('should mark the non-optional fields of the types as required', () => {
+    const { Advocate, PaginationMeta } = document.components.schemas;
+
+    expect(Advocate.required).toEqual(expect.arrayContaining(['id', 'firstName', 'specialties']));
+    expect(Advocate.required).not.toContain('distance');
+    expect(PaginationMeta.required).toEqual(['totalCount', 'pageSize', 'hasNextPage']);
+  });
+});
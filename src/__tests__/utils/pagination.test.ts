@@ -2,10 +2,15 @@ import {
   getPaginationParams, 
   decodeCursor, 
   encodeCursor, 
+  getCursorSecret,
   getLinkHeader,
+  buildKeysetCondition,
   DEFAULT_PAGE_SIZE,
   ALLOWED_PAGE_SIZES
 } from '../../utils/pagination';
+import { getSortKeys } from '../../utils/sorting';
+import { advocates } from '../../db/schema';
+import { PgDialect } from 'drizzle-orm/pg-core';
 import { NextRequest } from 'next/server';
 
 // Mock NextRequest
@@ -71,41 +76,147 @@ describe('Pagination Utilities', () => {
   });
   
   describe('encodeCursor and decodeCursor', () => {
+    const scope = JSON.stringify({ sort: { field: 'lastName', direction: 'asc' }, filters: [] });
+    
     it('should encode and decode cursor data correctly', () => {
-      const field = 'id';
-      const value = '123';
+      const fields = ['lastName', 'id'];
+      const values = ['Smith', '123'];
       const direction = 'forward';
       
-      const encoded = encodeCursor(field, value, direction);
+      const encoded = encodeCursor(fields, values, direction, scope);
       expect(typeof encoded).toBe('string');
       
-      const decoded = decodeCursor(encoded);
+      const decoded = decodeCursor(encoded, scope);
       expect(decoded).toEqual({
-        field,
-        value,
+        fields,
+        values,
         direction
       });
     });
     
-
-    it('should handle date values in cursors', () => {
-      const field = 'createdAt';
-      const value = new Date('2023-01-01');
+    it('should keep timestamp values as strings', () => {
+      const fields = ['createdAt', 'id'];
+      const values = ['2023-01-01 10:00:00.123456', '123'];
       const direction = 'backward';
       
-      const encoded = encodeCursor(field, value, direction);
-      const decoded = decodeCursor(encoded);
+      const encoded = encodeCursor(fields, values, direction, scope);
+      const decoded = decodeCursor(encoded, scope);
       
-      expect(decoded?.field).toBe(field);
+      expect(decoded?.fields).toEqual(fields);
       expect(decoded?.direction).toBe(direction);
-      // Date will be stored as string in the cursor
-      expect(typeof decoded?.value).toBe('string');
+      expect(decoded?.values[0]).toBe('2023-01-01 10:00:00.123456');
     });
     
     it('should return undefined for invalid cursor', () => {
       const decoded = decodeCursor('invalid-cursor');
       expect(decoded).toBeUndefined();
     });
+    
+    it('should reject a cursor issued under a different scope', () => {
+      const encoded = encodeCursor(['lastName', 'id'], ['Smith', '123'], 'forward', scope);
+      const otherScope = JSON.stringify({ sort: { field: 'lastName', direction: 'desc' }, filters: [] });
+      
+      expect(decodeCursor(encoded, otherScope)).toBeUndefined();
+    });
+    
+    it('should reject a cursor whose payload was tampered with', () => {
+      const encoded = encodeCursor(['lastName', 'id'], ['Smith', '123'], 'forward', scope);
+      const [, signature] = encoded.split('.');
+      const forgedPayload = Buffer.from(JSON.stringify({
+        fields: ['lastName', 'id'],
+        values: ['Adams', '1'],
+        direction: 'forward'
+      })).toString('base64url');
+      
+      expect(decodeCursor(`${forgedPayload}.${signature}`, scope)).toBeUndefined();
+    });
+  });
+  
+  describe('getCursorSecret', () => {
+    const originalEnv = process.env;
+    
+    afterEach(() => {
+      process.env = originalEnv;
+    });
+    
+    it('should use CURSOR_SECRET when it is set', () => {
+      process.env = { ...originalEnv, NODE_ENV: 'production', CURSOR_SECRET: 'secret' };
+      
+      expect(getCursorSecret()).toBe('secret');
+    });
+    
+    it('should fall back to the development secret outside production', () => {
+      process.env = { ...originalEnv, NODE_ENV: 'development', CURSOR_SECRET: '' };
+      
+      expect(getCursorSecret()).toBe('development-cursor-secret');
+    });
+    
+    it('should refuse to sign or verify cursors in production without CURSOR_SECRET', () => {
+      process.env = { ...originalEnv, NODE_ENV: 'production', CURSOR_SECRET: '' };
+      
+      expect(() => getCursorSecret()).toThrow('CURSOR_SECRET must be set in production');
+      expect(() => encodeCursor(['id'], ['123'], 'forward')).toThrow('CURSOR_SECRET');
+      expect(() => decodeCursor('payload.signature')).toThrow('CURSOR_SECRET');
+    });
+  });
+  
+  describe('buildKeysetCondition', () => {
+    const dialect = new PgDialect();
+    
+    it('should build a row comparison when all keys share a direction', () => {
+      const keys = getSortKeys(
+        advocates,
+        { fields: [{ field: 'lastName', direction: 'asc' }] },
+        ['lastName'],
+        'id'
+      );
+      
+      const query = dialect.sqlToQuery(buildKeysetCondition(keys, ['Smith', '123'], 'forward'));
+      
+      expect(query.sql).toBe(
+        '(LOWER("advocates"."last_name"), "advocates"."id") > (LOWER($1::text), $2)'
+      );
+      expect(query.params).toEqual(['Smith', '123']);
+    });
+    
+    it('should flip the comparison when seeking backward', () => {
+      const keys = getSortKeys(
+        advocates,
+        { fields: [{ field: 'createdAt', direction: 'desc' }] },
+        [],
+        'id'
+      );
+      
+      const query = dialect.sqlToQuery(
+        buildKeysetCondition(keys, ['2023-01-01 10:00:00.123456', '123'], 'backward')
+      );
+      
+      expect(query.sql).toBe('("advocates"."created_at", "advocates"."id") > ($1, $2)');
+    });
+    
+    it('should expand mixed directions into prefix comparisons', () => {
+      const keys = getSortKeys(
+        advocates,
+        {
+          fields: [
+            { field: 'yearsOfExperience', direction: 'desc' },
+            { field: 'lastName', direction: 'asc' }
+          ]
+        },
+        ['lastName'],
+        'id'
+      );
+      
+      const query = dialect.sqlToQuery(buildKeysetCondition(keys, ['5', 'Smith', '123'], 'forward'));
+      
+      expect(keys.map(key => key.direction)).toEqual(['desc', 'asc', 'desc']);
+      expect(query.sql).toBe(
+        '(("advocates"."years_of_experience" < $1)' +
+        ' OR ("advocates"."years_of_experience" = $2 AND LOWER("advocates"."last_name") > LOWER($3::text))' +
+        ' OR ("advocates"."years_of_experience" = $4 AND LOWER("advocates"."last_name") = LOWER($5::text)' +
+        ' AND "advocates"."id" < $6))'
+      );
+    });
   });
   
   describe('getLinkHeader', () => {
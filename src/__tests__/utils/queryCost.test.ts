@@ -0,0 +1,56 @@
+import { NextRequest } from 'next/server';
+import {
+  MAX_FILTER_CONDITIONS,
+  MAX_FILTER_LIST_LENGTH,
+  estimateQueryCost,
+  getQueryCostError
+} from '../../utils/queryCost';
+import { FilterOperation } from '../../utils/filtering';
+
+// Mock NextRequest
+const createMockRequest = (params: Record<string, string>) => {
+  const url = new URL('https://example.com/api/advocates');
+  Object.entries(params).forEach(([key, value]) => {
+    url.searchParams.append(key, value);
+  });
+
+  return {
+    nextUrl: url
+  } as unknown as NextRequest;
+};
+
+const values = (count: number) => Array.from({ length: count }, (_, index) => `value${index}`).join(',');
+
+describe('Query Cost Utilities', () => {
+  describe('estimateQueryCost', () => {
+    it('should count conditions and find the longest list', () => {
+      expect(estimateQueryCost([
+        { field: 'degree', operation: FilterOperation.IN, value: ['MD', 'PhD'] },
+        { field: 'specialties', operation: FilterOperation.ANY, value: ['Trauma', 'Anxiety', 'Grief'] },
+        { field: 'yearsOfExperience', operation: FilterOperation.BETWEEN, value: [5, 10] }
+      ])).toEqual({ conditions: 3, longestList: { filter: 'specialty[any]', length: 3 } });
+      expect(estimateQueryCost([])).toEqual({ conditions: 0, longestList: undefined });
+    });
+  });
+
+  describe('getQueryCostError', () => {
+    it('should accept requests within the budgets', () => {
+      expect(getQueryCostError(createMockRequest({ 'degree[in]': values(MAX_FILTER_LIST_LENGTH) }))).toBeUndefined();
+    });
+
+    it('should reject lists longer than the budget', () => {
+      const error = getQueryCostError(createMockRequest({ 'specialty[all]': values(MAX_FILTER_LIST_LENGTH + 1) }));
+
+      expect(error?.message).toBe(`specialty[all] lists ${MAX_FILTER_LIST_LENGTH + 1} values; at most ${MAX_FILTER_LIST_LENGTH} are allowed`);
+      expect(error?.details).toMatchObject({ maxListLength: MAX_FILTER_LIST_LENGTH, maxConditions: MAX_FILTER_CONDITIONS });
+    });
+
+    it('should count the filters of the filter expression with the query parameters', () => {
+      const expression = Array.from({ length: MAX_FILTER_CONDITIONS }, (_, index) => `firstName eq Name${index}`).join(' or ');
+
+      expect(getQueryCostError(createMockRequest({ filter: expression }))).toBeUndefined();
+      expect(getQueryCostError(createMockRequest({ filter: expression, degree: 'MD' }))?.message)
+        .toBe(`The request combines ${MAX_FILTER_CONDITIONS + 1} filters; at most ${MAX_FILTER_CONDITIONS} are allowed`);
+    });
+  });
+});
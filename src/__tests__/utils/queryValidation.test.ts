@@ -0,0 +1,139 @@
+import { NextRequest } from 'next/server';
+import {
+  getStrictParam,
+  validateAdvocateQuery,
+  validateQueryParams
+} from '../../utils/queryValidation';
+import { getOpenApiOperation } from '../../utils/openapi';
+
+// Mock NextRequest
+const createMockRequest = (query: string, headers: Record<string, string> = {}) => {
+  return {
+    nextUrl: new URL(`https://example.com/api/advocates?${query}`),
+    headers: new Headers(headers)
+  } as unknown as NextRequest;
+};
+
+const listIssues = (query: string) => validateAdvocateQuery(createMockRequest(query), 'listAdvocates');
+
+describe('Query Validation Utilities', () => {
+  describe('getStrictParam', () => {
+    const originalToken = process.env.ADMIN_API_TOKEN;
+
+    beforeEach(() => {
+      process.env.ADMIN_API_TOKEN = 'secret-token';
+    });
+
+    afterEach(() => {
+      if (originalToken === undefined) {
+        delete process.env.ADMIN_API_TOKEN;
+      } else {
+        process.env.ADMIN_API_TOKEN = originalToken;
+      }
+    });
+
+    it('should be opt-in for anonymous callers', () => {
+      expect(getStrictParam(createMockRequest(''))).toBe(false);
+      expect(getStrictParam(createMockRequest('strict=true'))).toBe(true);
+    });
+
+    it('should default to strict for API key callers, who can opt out', () => {
+      const headers = { authorization: 'Bearer secret-token' };
+
+      expect(getStrictParam(createMockRequest('', headers))).toBe(true);
+      expect(getStrictParam(createMockRequest('strict=false', headers))).toBe(false);
+      expect(getStrictParam(createMockRequest('', { authorization: 'Bearer wrong-token' }))).toBe(false);
+    });
+  });
+
+  describe('validateAdvocateQuery', () => {
+    it('should accept every documented parameter with a valid value', () => {
+      expect(listIssues(
+        'q=anxiety&firstName[contains]=Jo&experience[between]=5,10&degree[in]=MD,PhD&specialty[all]=Trauma' +
+        '&near=zip:60601&radius=40km&sort=distance&order=asc&page=2&limit=25&facets=degree,city&strict=false'
+      )).toEqual([]);
+    });
+
+    it('should suggest the parameter a typo was meant to be', () => {
+      expect(listIssues('experiance[gte]=5')).toEqual([
+        { parameter: 'experiance[gte]', reason: 'is not a known parameter; did you mean experience[gte]?' }
+      ]);
+      expect(listIssues('phoneNumber=5551234567')).toEqual([
+        { parameter: 'phoneNumber', reason: 'is not a known parameter' }
+      ]);
+    });
+
+    it('should list the operations a filter supports', () => {
+      expect(listIssues('firstName[gt]=J&specialty=Trauma')).toEqual([
+        {
+          parameter: 'firstName[gt]',
+          reason: 'firstName does not support the operation "gt"; use one of eq, contains, startsWith, endsWith, fuzzy'
+        },
+        { parameter: 'specialty', reason: 'specialty needs an operation, e.g. specialty[any]' }
+      ]);
+    });
+
+    it('should reject values the parsers would drop or replace', () => {
+      expect(listIssues(
+        'experience[gte]=five&experience[between]=5&limit=20&page=0&order=up&fuzzyThreshold=0&facets=degree,rating&includeDeleted=yes&q='
+      )).toEqual([
+        { parameter: 'experience[gte]', reason: 'must be a number' },
+        { parameter: 'experience[between]', reason: 'must be formatted like 5,10' },
+        { parameter: 'limit', reason: 'must be one of 5, 10, 25, 50' },
+        { parameter: 'page', reason: 'must be at least 1' },
+        { parameter: 'order', reason: 'must be one of asc, desc' },
+        { parameter: 'fuzzyThreshold', reason: 'must be greater than 0' },
+        { parameter: 'facets', reason: '"rating" must be one of degree, specialty, city, experience' },
+        { parameter: 'includeDeleted', reason: 'must be true or false' },
+        { parameter: 'q', reason: 'is empty' }
+      ]);
+    });
+
+    it('should report repeated parameters and filters overridden by the shorthand', () => {
+      expect(listIssues('degree=MD&degree=PhD&degree[in]=DO')).toEqual([
+        { parameter: 'degree', reason: 'is given more than once; only the first value is used' },
+        { parameter: 'degree[in]', reason: 'is ignored because degree is given' }
+      ]);
+    });
+
+    it('should accept an empty include but check the selected fields', () => {
+      expect(listIssues('include=&fields=firstName,phone')).toEqual([
+        { parameter: 'fields', reason: '"phone" must be one of id, firstName, lastName, degree, yearsOfExperience, phoneNumber, city, state, country, createdAt, updatedAt' }
+      ]);
+    });
+
+    it('should report radius search parameters given without near', () => {
+      expect(listIssues('radius=10&sort=distance')).toEqual([
+        { parameter: 'radius', reason: 'is ignored without near' },
+        { parameter: 'sort', reason: 'distance is only available with near' }
+      ]);
+    });
+
+    it('should check each sort field and the parameters it needs', () => {
+      expect(listIssues('sort=-yearsOfExperience,city,-specialtyCount')).toEqual([]);
+      expect(listIssues('sort=lastName,-rating')).toEqual([
+        { parameter: 'sort', reason: expect.stringMatching(/^"-rating" must be one of firstName, -firstName,/) }
+      ]);
+      expect(listIssues('sort=-relevance,lastName')).toEqual([
+        { parameter: 'sort', reason: 'relevance is only available with q' }
+      ]);
+      expect(listIssues('sort=-relevance,lastName&q=anxiety')).toEqual([]);
+    });
+
+    it('should only accept the parameters of the operation', () => {
+      const request = createMockRequest('facets=degree&format=csv');
+
+      expect(validateAdvocateQuery(request, 'exportAdvocates').map(issue => issue.parameter)).toEqual(['facets']);
+      expect(validateAdvocateQuery(request, 'listAdvocates').map(issue => issue.parameter)).toEqual(['format']);
+    });
+  });
+
+  describe('validateQueryParams', () => {
+    it('should ignore path and header parameters', () => {
+      const parameters = getOpenApiOperation('getAdvocate')?.parameters ?? [];
+
+      expect(validateQueryParams(createMockRequest('id=1&If-None-Match=x'), parameters)).toHaveLength(2);
+      expect(validateQueryParams(createMockRequest('includeDeleted=true'), parameters)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { NextRequest } from 'next/server';
+import {
+  ANONYMOUS_RATE_LIMIT,
+  API_KEY_RATE_LIMIT,
+  MemoryRateLimitStore,
+  SEED_RATE_LIMIT,
+  getClientIp,
+  getRateLimit,
+  setRateLimitHeaders,
+  takeToken,
+  takeTokens
+} from '../../utils/rateLimit';
+
+// Mock NextRequest
+const createMockRequest = (path: string, headers: Record<string, string> = {}) => {
+  return {
+    nextUrl: new URL(`https://example.com${path}`),
+    headers: new Headers(headers)
+  } as unknown as NextRequest;
+};
+
+const policy = { name: 'test', capacity: 2, refillPerSecond: 0.5 };
+
+describe('Rate Limit Utilities', () => {
+  describe('takeToken', () => {
+    it('should start full and refuse requests once the bucket is empty', () => {
+      const first = takeToken(undefined, policy, 0);
+      const second = takeToken(first.bucket, policy, 0);
+      const third = takeToken(second.bucket, policy, 0);
+
+      expect(first.result).toEqual({ allowed: true, limit: 2, remaining: 1, resetSeconds: 2 });
+      expect(second.result).toEqual({ allowed: true, limit: 2, remaining: 0, resetSeconds: 4 });
+      expect(third.result).toEqual({ allowed: false, limit: 2, remaining: 0, resetSeconds: 4, retryAfterSeconds: 2 });
+    });
+
+    it('should refill continuously up to the capacity', () => {
+      const empty = { tokens: 0, updatedAt: 0 };
+
+      expect(takeToken(empty, policy, 1000).result).toMatchObject({ allowed: false, retryAfterSeconds: 1 });
+      expect(takeToken(empty, policy, 2000).result).toMatchObject({ allowed: true, remaining: 0 });
+      expect(takeToken(empty, policy, 60000).bucket).toEqual({ tokens: 1, updatedAt: 60000 });
+    });
+  });
+
+  describe('MemoryRateLimitStore', () => {
+    it('should keep a bucket per key', async () => {
+      const store = new MemoryRateLimitStore();
+
+      await store.take('a', policy, 0);
+      await store.take('a', policy, 0);
+
+      expect((await store.take('a', policy, 0)).allowed).toBe(false);
+      expect((await store.take('b', policy, 0)).allowed).toBe(true);
+    });
+
+    it('should drop full buckets beyond maxKeys', async () => {
+      const store = new MemoryRateLimitStore(2);
+
+      await store.take('refilled', policy, 0);
+      await store.take('a', policy, 0);
+      await store.take('a', policy, 0);
+      await store.take('b', policy, 3000);
+
+      // refilled was full again at 2000 and dropped; a kept its 1.5 refilled tokens
+      expect((await store.take('a', policy, 3000)).allowed).toBe(true);
+      expect((await store.take('a', policy, 3000)).allowed).toBe(false);
+    });
+
+    it('should drop the least recently used buckets when none are full', async () => {
+      const store = new MemoryRateLimitStore(1);
+
+      await store.take('a', policy, 0);
+      await store.take('a', policy, 0);
+      await store.take('b', policy, 0);
+
+      // a was dropped, so it starts over with a full bucket
+      expect((await store.take('a', policy, 0)).remaining).toBe(1);
+    });
+  });
+
+  describe('getClientIp', () => {
+    const originalHops = process.env.TRUSTED_PROXY_HOPS;
+
+    afterEach(() => {
+      if (originalHops === undefined) {
+        delete process.env.TRUSTED_PROXY_HOPS;
+      } else {
+        process.env.TRUSTED_PROXY_HOPS = originalHops;
+      }
+    });
+
+    it('should ignore forwarding headers without a trusted proxy', () => {
+      delete process.env.TRUSTED_PROXY_HOPS;
+
+      expect(getClientIp(createMockRequest('/api/advocates', { 'x-forwarded-for': '203.0.113.7' }))).toBe('unknown');
+      expect(getClientIp(createMockRequest('/api/advocates', { 'x-real-ip': '203.0.113.7' }))).toBe('unknown');
+    });
+
+    it('should use the entry appended by the outermost trusted proxy', () => {
+      process.env.TRUSTED_PROXY_HOPS = '2';
+
+      expect(getClientIp(createMockRequest('/api/advocates', { 'x-forwarded-for': '192.0.2.1, 203.0.113.7, 10.0.0.1' })))
+        .toBe('203.0.113.7');
+      expect(getClientIp(createMockRequest('/api/advocates', { 'x-forwarded-for': '10.0.0.1', 'x-real-ip': '203.0.113.7' })))
+        .toBe('203.0.113.7');
+      expect(getClientIp(createMockRequest('/api/advocates', { 'x-forwarded-for': '10.0.0.1' }))).toBe('unknown');
+    });
+
+    it('should prefer the address the platform provides', () => {
+      process.env.TRUSTED_PROXY_HOPS = '1';
+      const request = { ...createMockRequest('/api/advocates', { 'x-forwarded-for': '192.0.2.1' }), ip: '203.0.113.7' };
+
+      expect(getClientIp(request as NextRequest)).toBe('203.0.113.7');
+    });
+  });
+
+  describe('getRateLimit', () => {
+    beforeEach(() => {
+      process.env.TRUSTED_PROXY_HOPS = '1';
+    });
+
+    afterEach(() => {
+      delete process.env.TRUSTED_PROXY_HOPS;
+    });
+
+    it('should key anonymous callers by IP address and API key callers by key', () => {
+      expect(getRateLimit(createMockRequest('/api/advocates', { 'x-forwarded-for': '198.51.100.1, 203.0.113.7' })))
+        .toEqual({ policy: ANONYMOUS_RATE_LIMIT, keys: ['anonymous:ip:203.0.113.7'] });
+      expect(getRateLimit(createMockRequest('/api/advocates', { 'x-forwarded-for': '203.0.113.7' }), { id: 'admin', verified: true }))
+        .toEqual({ policy: API_KEY_RATE_LIMIT, keys: ['api-key:key:admin'] });
+    });
+
+    it('should also key unverified API keys by IP address', () => {
+      expect(getRateLimit(createMockRequest('/api/advocates', { 'x-forwarded-for': '203.0.113.7' }), { id: 'abc', verified: false }))
+        .toEqual({ policy: API_KEY_RATE_LIMIT, keys: ['api-key:ip:203.0.113.7', 'api-key:key:abc'] });
+    });
+
+    it('should limit the seeder separately', () => {
+      expect(getRateLimit(createMockRequest('/api/seed'), { id: 'admin', verified: true }))
+        .toEqual({ policy: SEED_RATE_LIMIT, keys: ['seed:key:admin'] });
+    });
+  });
+
+  describe('takeTokens', () => {
+    it('should take from every bucket and report the tightest one', async () => {
+      const store = new MemoryRateLimitStore();
+      await store.take('a', policy, 0);
+
+      expect(await takeTokens(store, ['a', 'b'], policy, 0)).toMatchObject({ allowed: true, remaining: 0 });
+      expect(await takeTokens(store, ['b', 'a'], policy, 0)).toMatchObject({ allowed: false });
+      expect((await store.take('b', policy, 0)).allowed).toBe(false);
+    });
+  });
+
+  describe('setRateLimitHeaders', () => {
+    it('should set the RateLimit headers, and Retry-After for limited requests', () => {
+      const headers = new Headers();
+      setRateLimitHeaders(headers, policy, { allowed: false, limit: 2, remaining: 0, resetSeconds: 4, retryAfterSeconds: 2 });
+
+      expect(Object.fromEntries(headers.entries())).toEqual({
+        'ratelimit-limit': '2',
+        'ratelimit-remaining': '0',
+        'ratelimit-reset': '4',
+        'ratelimit-policy': '2;w=4',
+        'retry-after': '2'
+      });
+    });
+  });
+});
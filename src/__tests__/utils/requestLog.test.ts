@@ -0,0 +1,83 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { addRequestLogFields, getRequestId, getRoutePattern, withRequestLog } from '../../utils/requestLog';
+
+const createRequest = (path: string, headers: Record<string, string> = {}) =>
+  new NextRequest(`https://example.com${path}`, { headers });
+
+describe('Request logging', () => {
+  let consoleInfo: jest.SpyInstance;
+  let consoleError: jest.SpyInstance;
+
+  const loggedLines = (spy: jest.SpyInstance) => spy.mock.calls.map(([line]) => JSON.parse(line));
+
+  beforeEach(() => {
+    consoleInfo = jest.spyOn(console, 'info').mockImplementation(() => {});
+    consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleInfo.mockRestore();
+    consoleError.mockRestore();
+  });
+
+  describe('getRequestId', () => {
+    it('should keep valid request ids and generate one otherwise', () => {
+      expect(getRequestId(createRequest('/api/advocates', { 'x-request-id': 'trace:42.a-b_c' }))).toBe('trace:42.a-b_c');
+
+      const request = createRequest('/api/advocates', { 'x-request-id': 'x'.repeat(101) });
+      const requestId = getRequestId(request);
+      expect(requestId).toMatch(/^[0-9a-f-]{36}$/);
+      expect(getRequestId(request)).toBe(requestId);
+    });
+  });
+
+  describe('getRoutePattern', () => {
+    it('should drop the version prefix and replace record IDs', () => {
+      expect(getRoutePattern('/api/v2/advocates/3f1c2a9e-4b7d-4c3e-9a61-2d5e8f0b7c14/history'))
+        .toBe('/api/advocates/[id]/history');
+      expect(getRoutePattern('/api/advocates/export')).toBe('/api/advocates/export');
+    });
+  });
+
+  describe('withRequestLog', () => {
+    it('should log the route, status, duration and added fields and echo the request id', async () => {
+      const route = withRequestLog(async (request: NextRequest) => {
+        addRequestLogFields(request, { rowCount: 2, totalCount: 14 });
+        return Response.json({ success: true });
+      });
+
+      const response = await route(createRequest('/api/v1/advocates?page=2', { 'x-request-id': 'req-123' }), undefined);
+
+      expect(response.headers.get('X-Request-Id')).toBe('req-123');
+      expect(loggedLines(consoleInfo)).toEqual([expect.objectContaining({
+        level: 'info',
+        message: 'Request completed',
+        requestId: 'req-123',
+        method: 'GET',
+        route: '/api/advocates',
+        status: 200,
+        durationMs: expect.any(Number),
+        rowCount: 2,
+        totalCount: 14
+      })]);
+    });
+
+    it('should log server errors and thrown errors at error level', async () => {
+      const failing = withRequestLog(async () => Response.json({ success: false }, { status: 500 }));
+      const throwing = withRequestLog(async () => {
+        throw new Error('Connection refused');
+      });
+
+      await failing(createRequest('/api/specialties'), undefined);
+      await expect(throwing(createRequest('/api/specialties'), undefined)).rejects.toThrow('Connection refused');
+
+      expect(loggedLines(consoleError)).toEqual([
+        expect.objectContaining({ message: 'Request completed', status: 500 }),
+        expect.objectContaining({ message: 'Request failed', error: expect.objectContaining({ message: 'Connection refused' }) })
+      ]);
+    });
+  });
+});
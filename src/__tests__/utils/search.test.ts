@@ -0,0 +1,123 @@
+import { NextRequest } from 'next/server';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import {
+  MAX_SEARCH_TERMS,
+  buildSearchClause,
+  buildSearchVector,
+  getRelevanceSortKeys,
+  getSearchParam,
+  toPrefixTsQuery
+} from '../../utils/search';
+import { buildKeysetCondition, selectCursorValues } from '../../utils/pagination';
+import { getSortKeyOrderBy } from '../../utils/sorting';
+import { advocates, advocateSpecialties, locations, specialties } from '../../db/schema';
+
+// Mock NextRequest
+const createMockRequest = (params: Record<string, string>) => {
+  const url = new URL('https://example.com/api/advocates');
+  Object.entries(params).forEach(([key, value]) => {
+    url.searchParams.append(key, value);
+  });
+  
+  return {
+    nextUrl: url
+  } as unknown as NextRequest;
+};
+
+const tables = { advocates, specialties, advocateSpecialties, locations };
+const dialect = new PgDialect();
+
+describe('Search Utilities', () => {
+  describe('getSearchParam', () => {
+    it('should return the trimmed query', () => {
+      expect(getSearchParam(createMockRequest({ q: '  anxiety ' }))).toBe('anxiety');
+    });
+    
+    it('should ignore a missing or blank query', () => {
+      expect(getSearchParam(createMockRequest({}))).toBeUndefined();
+      expect(getSearchParam(createMockRequest({ q: '   ' }))).toBeUndefined();
+    });
+  });
+  
+  describe('toPrefixTsQuery', () => {
+    it('should require every word as a prefix', () => {
+      expect(toPrefixTsQuery('Jane Smi')).toBe('jane:* & smi:*');
+    });
+    
+    it('should drop tsquery syntax and punctuation', () => {
+      expect(toPrefixTsQuery("O'Brien & !(x | y)")).toBe('o:* & brien:* & x:* & y:*');
+      expect(toPrefixTsQuery('&|!:*')).toBeUndefined();
+    });
+    
+    it('should keep letters outside ASCII', () => {
+      expect(toPrefixTsQuery('José Peña')).toBe('josé:* & peña:*');
+    });
+    
+    it('should match a formatted phone number as one run of digits', () => {
+      expect(toPrefixTsQuery('(555) 987-65')).toBe('55598765:*');
+    });
+    
+    it('should limit the number of words', () => {
+      const words = Array.from({ length: MAX_SEARCH_TERMS + 5 }, (_, index) => `w${index}`);
+      
+      expect(toPrefixTsQuery(words.join(' '))?.split(' & ')).toHaveLength(MAX_SEARCH_TERMS);
+    });
+  });
+  
+  describe('buildSearchVector', () => {
+    it('should build the document from names, specialties, degree, locations and phone number', () => {
+      const query = dialect.sqlToQuery(buildSearchVector(tables));
+      
+      expect(query.sql).toContain('"advocates"."first_name"');
+      expect(query.sql).toContain('"specialties"."name"');
+      expect(query.sql).toContain('"locations"."city"');
+      expect(query.sql).toContain('"locations"."state"');
+      expect(query.sql).toContain('"advocates"."degree"');
+      expect(query.sql).toContain('"advocates"."phone_number"');
+    });
+  });
+  
+  describe('buildSearchClause', () => {
+    it('should match the stored search document against the query as a parameter', () => {
+      const search = buildSearchClause(advocates, 'trauma chicago');
+      const query = dialect.sqlToQuery(search!.condition);
+      
+      expect(query.sql).toBe(`"advocates"."search_document" @@ to_tsquery('simple', $1)`);
+      expect(query.params).toEqual(['trauma:* & chicago:*']);
+    });
+    
+    it('should rank the stored search document with ts_rank', () => {
+      const search = buildSearchClause(advocates, 'trauma');
+      
+      expect(dialect.sqlToQuery(search!.rank).sql).toBe(`ts_rank("advocates"."search_document", to_tsquery('simple', $1))`);
+    });
+    
+    it('should return undefined when the query has no words', () => {
+      expect(buildSearchClause(advocates, '?!')).toBeUndefined();
+    });
+  });
+  
+  describe('getRelevanceSortKeys', () => {
+    const search = buildSearchClause(advocates, 'trauma')!;
+    const keys = getRelevanceSortKeys(advocates, search.rank);
+    
+    it('should order by relevance, best first, with id as the tiebreaker', () => {
+      expect(keys.map(key => [key.field, key.direction])).toEqual([
+        ['relevance', 'desc'],
+        ['id', 'desc']
+      ]);
+      
+      const query = dialect.sqlToQuery(getSortKeyOrderBy(keys)[0]);
+      expect(query.sql).toMatch(/^ts_rank\([\s\S]*\) desc$/);
+    });
+    
+    it('should work with keyset pagination', () => {
+      const cursorValues = dialect.sqlToQuery(selectCursorValues(keys));
+      const condition = dialect.sqlToQuery(buildKeysetCondition(keys, ['0.5', 'abc'], 'forward'));
+      
+      expect(cursorValues.sql).toMatch(/^array\[ts_rank\([\s\S]*\)::text, "advocates"\."id"::text\]$/);
+      expect(condition.sql).toMatch(/^\(ts_rank\([\s\S]*\), "advocates"\."id"\) < \(\$\d+, \$\d+\)$/);
+      expect(condition.params.slice(-2)).toEqual(['0.5', 'abc']);
+    });
+  });
+});
@@ -1,9 +1,15 @@
 import { NextRequest } from 'next/server';
 import { 
   getSortParams, 
+  formatSortParam,
   getSortExpressions,
   getSortExpressionsWithCaseInsensitive,
   getCaseInsensitiveSort,
+  getSortKeys,
+  reverseSortParams,
+  reverseSortKeys,
+  getRankSortKeys,
+  getSortKeyOrderBy,
   ALLOWED_ADVOCATE_SORT_FIELDS,
   SortDirection
 } from '../../utils/sorting';
@@ -37,10 +43,10 @@ describe('Sorting Utilities', () => {
       const request = createMockRequest({});
       const sortParams = getSortParams(request);
       
-      expect(sortParams.field).toBe('createdAt');
-      expect(sortParams.direction).toBe('desc');
-      expect(sortParams.secondaryField).toBeUndefined();
-      expect(sortParams.secondaryDirection).toBeUndefined();
+      expect(sortParams.fields[0].field).toBe('createdAt');
+      expect(sortParams.fields[0].direction).toBe('desc');
+      expect(sortParams.fields[1]?.field).toBeUndefined();
+      expect(sortParams.fields[1]?.direction).toBeUndefined();
     });
     
     it('should parse sort field and direction from request', () => {
@@ -50,8 +56,8 @@ describe('Sorting Utilities', () => {
       });
       const sortParams = getSortParams(request);
       
-      expect(sortParams.field).toBe('firstName');
-      expect(sortParams.direction).toBe('asc');
+      expect(sortParams.fields[0].field).toBe('firstName');
+      expect(sortParams.fields[0].direction).toBe('asc');
     });
     
     it('should parse secondary sort field and direction from request', () => {
@@ -63,10 +69,50 @@ describe('Sorting Utilities', () => {
       });
       const sortParams = getSortParams(request);
       
-      expect(sortParams.field).toBe('yearsOfExperience');
-      expect(sortParams.direction).toBe('desc');
-      expect(sortParams.secondaryField).toBe('lastName');
-      expect(sortParams.secondaryDirection).toBe('asc');
+      expect(sortParams.fields[0].field).toBe('yearsOfExperience');
+      expect(sortParams.fields[0].direction).toBe('desc');
+      expect(sortParams.fields[1].field).toBe('lastName');
+      expect(sortParams.fields[1].direction).toBe('asc');
+    });
+    
+    it('should keep the default descending direction for a single field without order', () => {
+      expect(getSortParams(createMockRequest({ sort: 'lastName' })).fields)
+        .toEqual([{ field: 'lastName', direction: 'desc' }]);
+      expect(getSortParams(createMockRequest({ sort: '+lastName' })).fields)
+        .toEqual([{ field: 'lastName', direction: 'asc' }]);
+      expect(getSortParams(createMockRequest({ sort: 'lastName,city' })).fields)
+        .toEqual([{ field: 'lastName', direction: 'asc' }, { field: 'city', direction: 'asc' }]);
+    });
+    
+    it('should read an encoded + prefix as ascending and an unencoded one as whitespace', () => {
+      const request = (query: string) => ({ nextUrl: new URL(`https://example.com/api/advocates?${query}`) } as unknown as NextRequest);
+      
+      expect(getSortParams(request('sort=%2BlastName')).fields).toEqual([{ field: 'lastName', direction: 'asc' }]);
+      expect(getSortParams(request('sort=+lastName')).fields).toEqual([{ field: 'lastName', direction: 'desc' }]);
+      expect(getSortParams(request('sort=-yearsOfExperience,+lastName')).fields)
+        .toEqual([{ field: 'yearsOfExperience', direction: 'desc' }, { field: 'lastName', direction: 'asc' }]);
+    });
+    
+    it('should parse any number of comma-separated fields, descending with a - prefix', () => {
+      const request = createMockRequest({ sort: '-yearsOfExperience,lastName, city,-specialtyCount' });
+      const sortParams = getSortParams(request);
+      
+      expect(sortParams.fields).toEqual([
+        { field: 'yearsOfExperience', direction: 'desc' },
+        { field: 'lastName', direction: 'asc' },
+        { field: 'city', direction: 'asc' },
+        { field: 'specialtyCount', direction: 'desc' }
+      ]);
+    });
+    
+    it('should ignore unknown and repeated fields', () => {
+      const request = createMockRequest({ sort: 'lastName,-rating,-lastName,state', secondarySort: 'state' });
+      const sortParams = getSortParams(request);
+      
+      expect(sortParams.fields).toEqual([
+        { field: 'lastName', direction: 'asc' },
+        { field: 'state', direction: 'asc' }
+      ]);
     });
     
     it('should use default values for invalid sort fields', () => {
@@ -76,8 +122,8 @@ describe('Sorting Utilities', () => {
       });
       const sortParams = getSortParams(request);
       
-      expect(sortParams.field).toBe('createdAt');
-      expect(sortParams.direction).toBe('desc');
+      expect(sortParams.fields[0].field).toBe('createdAt');
+      expect(sortParams.fields[0].direction).toBe('desc');
     });
     
     it('should validate secondary sort field and direction', () => {
@@ -89,18 +135,32 @@ describe('Sorting Utilities', () => {
       });
       const sortParams = getSortParams(request);
       
-      expect(sortParams.field).toBe('firstName');
-      expect(sortParams.direction).toBe('asc');
-      expect(sortParams.secondaryField).toBeUndefined();
-      expect(sortParams.secondaryDirection).toBeUndefined();
+      expect(sortParams.fields[0].field).toBe('firstName');
+      expect(sortParams.fields[0].direction).toBe('asc');
+      expect(sortParams.fields[1]?.field).toBeUndefined();
+      expect(sortParams.fields[1]?.direction).toBeUndefined();
+    });
+  });
+  
+  describe('formatSortParam', () => {
+    it('should format fields in the sort parameter syntax', () => {
+      expect(formatSortParam({
+        fields: [
+          { field: 'yearsOfExperience', direction: 'desc' },
+          { field: 'lastName', direction: 'asc' }
+        ]
+      })).toBe('-yearsOfExperience,lastName');
+    });
+    
+    it('should prefix a single ascending field with +', () => {
+      expect(formatSortParam({ fields: [{ field: 'lastName', direction: 'asc' }] })).toBe('+lastName');
     });
   });
   
   describe('getSortExpressions', () => {
     it('should generate sort expressions for primary field', () => {
       const sortParams = {
-        field: 'firstName' as typeof ALLOWED_ADVOCATE_SORT_FIELDS[number],
-        direction: 'asc' as SortDirection
+        fields: [{ field: 'firstName' as typeof ALLOWED_ADVOCATE_SORT_FIELDS[number], direction: 'asc' as SortDirection }]
       };
       
       const expressions = getSortExpressions(mockTable, sortParams);
@@ -112,10 +172,10 @@ describe('Sorting Utilities', () => {
     
     it('should generate sort expressions for primary and secondary fields', () => {
       const sortParams = {
-        field: 'yearsOfExperience' as typeof ALLOWED_ADVOCATE_SORT_FIELDS[number],
-        direction: 'desc' as SortDirection,
-        secondaryField: 'lastName' as typeof ALLOWED_ADVOCATE_SORT_FIELDS[number],
-        secondaryDirection: 'asc' as SortDirection
+        fields: [
+          { field: 'yearsOfExperience' as typeof ALLOWED_ADVOCATE_SORT_FIELDS[number], direction: 'desc' as SortDirection },
+          { field: 'lastName' as typeof ALLOWED_ADVOCATE_SORT_FIELDS[number], direction: 'asc' as SortDirection }
+        ]
       };
       
       const expressions = getSortExpressions(mockTable, sortParams);
@@ -144,8 +204,7 @@ describe('Sorting Utilities', () => {
   describe('getSortExpressionsWithCaseInsensitive', () => {
     it('should use case-insensitive sorting for text fields', () => {
       const sortParams = {
-        field: 'firstName' as typeof ALLOWED_ADVOCATE_SORT_FIELDS[number],
-        direction: 'asc' as SortDirection
+        fields: [{ field: 'firstName' as typeof ALLOWED_ADVOCATE_SORT_FIELDS[number], direction: 'asc' as SortDirection }]
       };
       
       const textFields = ['firstName', 'lastName', 'degree'];
@@ -162,8 +221,7 @@ describe('Sorting Utilities', () => {
     
     it('should use regular sorting for non-text fields', () => {
       const sortParams = {
-        field: 'yearsOfExperience' as typeof ALLOWED_ADVOCATE_SORT_FIELDS[number],
-        direction: 'desc' as SortDirection
+        fields: [{ field: 'yearsOfExperience' as typeof ALLOWED_ADVOCATE_SORT_FIELDS[number], direction: 'desc' as SortDirection }]
       };
       
       const textFields = ['firstName', 'lastName', 'degree'];
@@ -180,10 +238,10 @@ describe('Sorting Utilities', () => {
     
     it('should handle both text and non-text fields in primary and secondary sort', () => {
       const sortParams = {
-        field: 'yearsOfExperience' as typeof ALLOWED_ADVOCATE_SORT_FIELDS[number],
-        direction: 'desc' as SortDirection,
-        secondaryField: 'lastName' as typeof ALLOWED_ADVOCATE_SORT_FIELDS[number],
-        secondaryDirection: 'asc' as SortDirection
+        fields: [
+          { field: 'yearsOfExperience' as typeof ALLOWED_ADVOCATE_SORT_FIELDS[number], direction: 'desc' as SortDirection },
+          { field: 'lastName' as typeof ALLOWED_ADVOCATE_SORT_FIELDS[number], direction: 'asc' as SortDirection }
+        ]
       };
       
       const textFields = ['firstName', 'lastName', 'degree'];
@@ -199,4 +257,82 @@ describe('Sorting Utilities', () => {
       expect(expressions[1]).toBeDefined();
     });
   });
+  
+  describe('getSortKeys', () => {
+    it('should append the tiebreaker in the primary direction', () => {
+      const keys = getSortKeys(
+        { ...mockTable, id: { name: 'id' } },
+        { fields: [{ field: 'lastName', direction: 'desc' }, { field: 'yearsOfExperience', direction: 'asc' }] },
+        ['lastName'],
+        'id'
+      );
+      
+      expect(keys.map(key => [key.field, key.direction, key.caseInsensitive])).toEqual([
+        ['lastName', 'desc', true],
+        ['yearsOfExperience', 'asc', false],
+        ['id', 'desc', false]
+      ]);
+    });
+  });
+  
+  describe('reverseSortParams', () => {
+    it('should flip the direction of every field', () => {
+      const reversed = reverseSortParams({
+        fields: [
+          { field: 'lastName', direction: 'asc' },
+          { field: 'createdAt', direction: 'desc' },
+          { field: 'city', direction: 'asc' }
+        ]
+      });
+      
+      expect(reversed).toEqual({
+        fields: [
+          { field: 'lastName', direction: 'desc' },
+          { field: 'createdAt', direction: 'asc' },
+          { field: 'city', direction: 'desc' }
+        ]
+      });
+    });
+  });
+  
+  describe('reverseSortKeys', () => {
+    it('should flip every key and keep the order', () => {
+      const keys = getSortKeys(
+        { ...mockTable, id: { name: 'id' } },
+        { fields: [{ field: 'lastName', direction: 'asc' }, { field: 'createdAt', direction: 'desc' }] },
+        ['lastName'],
+        'id'
+      );
+      
+      const reversed = reverseSortKeys(keys);
+      
+      expect(reversed.map(key => [key.field, key.direction])).toEqual([
+        ['lastName', 'desc'],
+        ['createdAt', 'asc'],
+        ['id', 'desc']
+      ]);
+      expect(getSortKeyOrderBy(reversed)).toHaveLength(3);
+    });
+  });
+  
+  describe('getRankSortKeys', () => {
+    it('should order by each rank, best first, then by the tiebreaker', () => {
+      const table = { ...mockTable, id: { name: 'id' } };
+      const relevance = sql`ts_rank(doc, query)`;
+      const similarity = sql`similarity(last_name, 'x')`;
+      
+      const keys = getRankSortKeys(table, [
+        { field: 'relevance', rank: relevance },
+        { field: 'similarity', rank: similarity }
+      ], 'id');
+      
+      expect(keys.map(key => [key.field, key.direction])).toEqual([
+        ['relevance', 'desc'],
+        ['similarity', 'desc'],
+        ['id', 'desc']
+      ]);
+      expect(keys[0].column).toBe(relevance);
+      expect(keys[2].column).toBe(table.id);
+    });
+  });
 });
@@ -0,0 +1,72 @@
+import {
+  validateSpecialtyInput,
+  validateSpecialtyMerge,
+  validateSpecialtyPatch
+} from '../../utils/specialtyValidation';
+
+const sourceId = '9d4e2b71-5c3a-4f8e-b6d1-0a7c2e9f4b35';
+const targetId = '1a2b3c4d-5e6f-4a8b-9c0d-1e2f3a4b5c6d';
+
+describe('Specialty Validation', () => {
+  describe('validateSpecialtyInput', () => {
+    it('should accept and trim a valid payload', () => {
+      const { data, errors } = validateSpecialtyInput({
+        name: '  Eating Disorders ',
+        description: 'Anorexia and bulimia'
+      });
+      
+      expect(errors).toEqual({});
+      expect(data).toEqual({ name: 'Eating Disorders', description: 'Anorexia and bulimia' });
+    });
+    
+    it('should default a missing description to null', () => {
+      expect(validateSpecialtyInput({ name: 'Bipolar' }).data).toEqual({
+        name: 'Bipolar',
+        description: null
+      });
+    });
+    
+    it('should enforce the name length from the schema', () => {
+      const { data, errors } = validateSpecialtyInput({ name: 'x'.repeat(101) });
+      
+      expect(data).toBeUndefined();
+      expect(errors.name).toMatch(/100/);
+    });
+    
+    it('should require a name', () => {
+      expect(validateSpecialtyInput({ description: 'No name' }).errors).toEqual({
+        name: 'name is required'
+      });
+    });
+  });
+  
+  describe('validateSpecialtyPatch', () => {
+    it('should only return the given fields', () => {
+      expect(validateSpecialtyPatch({ name: 'PTSD' }).data).toEqual({ name: 'PTSD' });
+    });
+    
+    it('should clear the description when it is null', () => {
+      expect(validateSpecialtyPatch({ description: null }).data).toEqual({ description: null });
+    });
+    
+    it('should require at least one field', () => {
+      expect(validateSpecialtyPatch({}).errors).toEqual({
+        body: 'at least one of name or description must be given'
+      });
+    });
+  });
+  
+  describe('validateSpecialtyMerge', () => {
+    it('should accept a different specialty as the target', () => {
+      expect(validateSpecialtyMerge({ targetId }, sourceId).data).toEqual({ targetId });
+    });
+    
+    it('should reject missing, malformed and self targets', () => {
+      expect(validateSpecialtyMerge({}, sourceId).errors.targetId).toBe('targetId is required');
+      expect(validateSpecialtyMerge({ targetId: 'abc' }, sourceId).errors.targetId)
+        .toBe('targetId must be a specialty ID');
+      expect(validateSpecialtyMerge({ targetId: sourceId.toUpperCase() }, sourceId).errors.targetId)
+        .toBe('a specialty cannot be merged into itself');
+    });
+  });
+});
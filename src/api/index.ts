@@ -4,14 +4,26 @@
 
 // Export types
 export * from './types/advocate';
+export * from './types/specialty';
+export * from './types/audit';
 export * from './types/params';
 
 // Export utilities
-export { ApiClient, ApiError, type ApiResponse } from './utils/apiClient';
+export {
+  ApiClient,
+  ApiError,
+  PreconditionFailedError,
+  bearerApiKey,
+  type ApiClientOptions,
+  type ApiResponse,
+  type ApiVersion,
+  type HeaderValue
+} from './utils/apiClient';
 export * from './utils/paramBuilders';
 
 // Export services
 export { AdvocateService } from './services/advocateService';
+export { SpecialtyService } from './services/specialtyService';
 
 // Create and export a default API client instance
 import { ApiClient } from './utils/apiClient';
@@ -27,3 +39,10 @@ import { AdvocateService } from './services/advocateService';
 const advocateService = new AdvocateService(apiClient);
 
 export { advocateService };
+
+// Create and export a default specialty service instance
+import { SpecialtyService } from './services/specialtyService';
+
+const specialtyService = new SpecialtyService(apiClient);
+
+export { specialtyService };
@@ -5,13 +5,25 @@ import { ApiClient } from '../utils/apiClient';
 import { buildQueryParams } from '../utils/paramBuilders';
 import { 
   Advocate, 
+  AdvocateDetail,
+  AdvocateDetailResponse,
+  AdvocateFacetName,
+  AdvocateFacets,
+  AdvocateField,
+  AdvocateInclude,
+  AdvocateInput,
   AdvocateResponse, 
-  PaginationMeta 
+  DefaultAdvocateInclude,
+  ExportFormat,
+  PaginationMeta,
+  SparseAdvocate
 } from '../types/advocate';
+import { AuditEntry, AuditLogResponse } from '../types/audit';
 import {
   PaginationParams,
   SortParams,
-  Filter
+  Filter,
+  FieldSelectionParams
 } from '../types/params';
 
 /**
@@ -36,23 +48,36 @@ export class AdvocateService {
    * @param pagination Pagination parameters
    * @param sorting Sorting parameters
    * @param filters Array of filter objects
-   * @returns Promise resolving to advocate data and pagination metadata
+   * @param facets Facets to count for the filtered advocates
+   * @param fieldSelection Fields to return and relations to load; the advocates are
+   * typed with only the selected fields and relations
+   * @returns Promise resolving to advocate data and pagination metadata, plus the
+   * facet counts when facets were requested
    */
-  async getAdvocates(
+  async getAdvocates<
+    F extends AdvocateField = AdvocateField,
+    I extends AdvocateInclude = DefaultAdvocateInclude
+  >(
     pagination?: PaginationParams,
     sorting?: SortParams,
-    filters?: Filter[]
-  ): Promise<{ data: Advocate[], pagination: PaginationMeta }> {
-    const params = buildQueryParams(pagination, sorting, filters);
+    filters?: Filter[],
+    facets?: AdvocateFacetName[],
+    fieldSelection?: FieldSelectionParams<F, I>
+  ): Promise<{ data: SparseAdvocate<F, I>[], pagination: PaginationMeta, facets?: AdvocateFacets }> {
+    const params = buildQueryParams(pagination, sorting, filters, fieldSelection);
+    if (facets && facets.length > 0) {
+      params.facets = facets.join(',');
+    }
     
-    const response = await this.apiClient.get<AdvocateResponse>(
+    const response = await this.apiClient.get<AdvocateResponse<SparseAdvocate<F, I>>>(
       this.baseEndpoint,
       params
     );
     
     return {
       data: response.data.data,
-      pagination: response.data.pagination
+      pagination: response.data.pagination,
+      facets: response.data.facets
     };
   }
 
@@ -63,6 +88,7 @@ export class AdvocateService {
    * @param limit Number of items per page
    * @param sorting Sorting parameters
    * @param filters Array of filter objects
+   * @param fieldSelection Fields to return and relations to load
    * @returns Promise resolving to advocate data and pagination metadata
    */
   async getAdvocatesByCursor(
@@ -70,7 +96,8 @@ export class AdvocateService {
     direction: 'next' | 'prev' = 'next',
     limit: number = 10,
     sorting?: SortParams,
-    filters?: Filter[]
+    filters?: Filter[],
+    fieldSelection?: FieldSelectionParams
   ): Promise<{ data: Advocate[], pagination: PaginationMeta }> {
     const pagination: PaginationParams = {
       cursor,
@@ -78,115 +105,180 @@ export class AdvocateService {
       limit
     };
     
-    return this.getAdvocates(pagination, sorting, filters);
+    return this.getAdvocates(pagination, sorting, filters, undefined, fieldSelection);
   }
 
   /**
-   * Get a single advocate by ID
+   * Get a single advocate by ID, with specialty descriptions and all locations
    * @param id Advocate ID
    * @returns Promise resolving to advocate data
+   * @throws ApiError with status 404 if the advocate does not exist
+   */
+  async getAdvocateById(id: string): Promise<AdvocateDetail> {
+    const response = await this.apiClient.get<AdvocateDetailResponse>(
+      `${this.baseEndpoint}/${encodeURIComponent(id)}`
+    );
+    
+    return response.data.data;
+  }
+
+  /**
+   * Get a single advocate together with the ETag needed to update it
+   * @param id Advocate ID
+   * @returns Promise resolving to advocate data and its current ETag
+   */
+  async getAdvocateWithEtag(id: string): Promise<{ data: AdvocateDetail, etag: string }> {
+    const response = await this.apiClient.get<AdvocateDetailResponse>(
+      `${this.baseEndpoint}/${encodeURIComponent(id)}`
+    );
+    
+    return {
+      data: response.data.data,
+      etag: response.headers.get('etag') || ''
+    };
+  }
+
+  /**
+   * Create a new advocate
+   * @param input Advocate fields, specialty names and location
+   * @returns Promise resolving to the created advocate
+   * @throws ApiError with status 400 and per-field errors in data.error.details if validation fails
+   */
+  async createAdvocate(input: AdvocateInput): Promise<AdvocateDetail> {
+    const response = await this.apiClient.post<AdvocateDetailResponse>(
+      this.baseEndpoint,
+      input
+    );
+    
+    return response.data.data;
+  }
+
+  /**
+   * Partially update an advocate
+   * @param id Advocate ID
+   * @param changes Fields to change; specialties replace the whole set
+   * @param etag ETag of the version being edited, from getAdvocateWithEtag
+   * @returns Promise resolving to the updated advocate and its new ETag
+   * @throws PreconditionFailedError if the advocate was changed by someone else in the meantime
+   */
+  async updateAdvocate(
+    id: string,
+    changes: Partial<AdvocateInput>,
+    etag: string
+  ): Promise<{ data: AdvocateDetail, etag: string }> {
+    const response = await this.apiClient.patch<AdvocateDetailResponse>(
+      `${this.baseEndpoint}/${encodeURIComponent(id)}`,
+      changes,
+      { headers: { 'If-Match': etag } }
+    );
+    
+    return {
+      data: response.data.data,
+      etag: response.headers.get('etag') || ''
+    };
+  }
+
+  /**
+   * Soft-delete an advocate
+   * @param id Advocate ID
+   * @returns Promise resolving to the deleted advocate's ID and deletion time
    */
-  async getAdvocateById(id: string): Promise<Advocate> {
-    const response = await this.apiClient.get<{ success: boolean, data: Advocate }>(
-      `${this.baseEndpoint}/${id}`
+  async deleteAdvocate(id: string): Promise<{ id: string, deletedAt: string }> {
+    const response = await this.apiClient.delete<{ success: boolean, data: { id: string, deletedAt: string } }>(
+      `${this.baseEndpoint}/${encodeURIComponent(id)}`
     );
     
     return response.data.data;
   }
 
   /**
-   * Search advocates by query string
+   * Restore a soft-deleted advocate
+   * @param id Advocate ID
+   * @returns Promise resolving to the restored advocate
+   */
+  async restoreAdvocate(id: string): Promise<AdvocateDetail> {
+    const response = await this.apiClient.post<AdvocateDetailResponse>(
+      `${this.baseEndpoint}/${encodeURIComponent(id)}/restore`
+    );
+    
+    return response.data.data;
+  }
+
+  /**
+   * Get the audit log of an advocate, newest first
+   * @param id Advocate ID
+   * @param pagination Page and page size
+   * @returns Promise resolving to the entries and pagination metadata
+   */
+  async getAdvocateHistory(
+    id: string,
+    pagination?: PaginationParams
+  ): Promise<{ data: AuditEntry[], pagination: PaginationMeta }> {
+    const response = await this.apiClient.get<AuditLogResponse>(
+      `${this.baseEndpoint}/${encodeURIComponent(id)}/history`,
+      buildQueryParams(pagination)
+    );
+    
+    return {
+      data: response.data.data,
+      pagination: response.data.pagination
+    };
+  }
+
+  /**
+   * Get the download URL for an export of every advocate matching the filters
+   * @param format File format of the export
+   * @param sorting Sorting parameters
+   * @param filters Array of filter objects
+   * @param query Search query, as passed to searchAdvocates
+   * @returns URL of the export endpoint
+   */
+  getExportUrl(
+    format: ExportFormat = 'csv',
+    sorting?: SortParams,
+    filters?: Filter[],
+    query?: string
+  ): string {
+    const q = query?.trim();
+    
+    return this.apiClient.buildUrl(`${this.baseEndpoint}/export`, {
+      ...buildQueryParams(undefined, sorting, filters),
+      ...(q ? { q } : {}),
+      format
+    });
+  }
+
+  /**
+   * Search advocates by name, degree, city, state, specialty or phone number
+   * Every word of the query must match; partially typed words match as prefixes
    * @param query Search query
    * @param pagination Pagination parameters
+   * @param sorting Sorting parameters; without them results are ordered by relevance
+   * @param filters Array of filter objects
+   * @param fieldSelection Fields to return and relations to load
    * @returns Promise resolving to advocate data and pagination metadata
    */
   async searchAdvocates(
     query: string,
-    pagination?: PaginationParams
+    pagination?: PaginationParams,
+    sorting?: SortParams,
+    filters?: Filter[],
+    fieldSelection?: FieldSelectionParams
   ): Promise<{ data: Advocate[], pagination: PaginationMeta }> {
-    try {
-      // If query is empty, just return all advocates
-      if (!query || query.trim() === '') {
-        return this.getAdvocates(pagination);
-      }
-
-      // Create an array to store all search promises
-      const searchPromises = [];
-      
-      // Search by first name with contains (supported operation)
-      const firstNameParams: Record<string, any> = { ...pagination };
-      firstNameParams['firstName[contains]'] = query;
-      searchPromises.push(
-        this.apiClient.get<AdvocateResponse>(
-          this.baseEndpoint,
-          firstNameParams
-        )
-      );
-      
-      // Search by last name with contains (supported operation)
-      const lastNameParams: Record<string, any> = { ...pagination };
-      lastNameParams['lastName[contains]'] = query;
-      searchPromises.push(
-        this.apiClient.get<AdvocateResponse>(
-          this.baseEndpoint,
-          lastNameParams
-        )
-      );
-      
-      // Try to search by phone number (if query is numeric)
-      if (/^\d+$/.test(query)) {
-        const phoneParams: Record<string, any> = { ...pagination };
-        phoneParams['phoneNumber'] = parseInt(query, 10); // Phone is likely a number
-        searchPromises.push(
-          this.apiClient.get<AdvocateResponse>(
-            this.baseEndpoint,
-            phoneParams
-          )
-        );
+    const q = query.trim();
+    
+    const response = await this.apiClient.get<AdvocateResponse>(
+      this.baseEndpoint,
+      {
+        ...buildQueryParams(pagination, sorting, filters, fieldSelection),
+        ...(q ? { q } : {})
       }
-      
-      // Wait for all search requests to complete, handling any errors
-      const results = await Promise.allSettled(searchPromises);
-      
-      // Combine all successful results
-      const allAdvocates: Advocate[] = [];
-      
-      results.forEach(result => {
-        if (result.status === 'fulfilled' && result.value?.data?.data) {
-          allAdvocates.push(...result.value.data.data);
-        }
-      });
-      
-      // Remove duplicates by ID
-      const uniqueAdvocates = Array.from(
-        new Map(allAdvocates.map(advocate => [advocate.id, advocate])).values()
-      );
-      
-      // Apply pagination to the combined results
-      const pageSize = pagination?.limit || 10;
-      const currentPage = pagination?.page || 1;
-      const totalCount = uniqueAdvocates.length;
-      const totalPages = Math.ceil(totalCount / pageSize);
-      
-      const startIndex = (currentPage - 1) * pageSize;
-      const endIndex = Math.min(startIndex + pageSize, totalCount);
-      const paginatedData = uniqueAdvocates.slice(startIndex, endIndex);
-      
-      return {
-        data: paginatedData,
-        pagination: {
-          totalCount,
-          pageSize,
-          currentPage,
-          totalPages,
-          hasNextPage: currentPage < totalPages,
-          hasPreviousPage: currentPage > 1
-        }
-      };
-    } catch (error) {
-      console.error('Error in searchAdvocates:', error);
-      throw error;
-    }
+    );
+    
+    return {
+      data: response.data.data,
+      pagination: response.data.pagination
+    };
   }
 
   /**
@@ -0,0 +1,147 @@
+/**
+ * Specialty API service
+ */
+import { ApiClient } from '../utils/apiClient';
+import {
+  SpecialtyInput,
+  SpecialtyListResponse,
+  SpecialtyMergeResponse,
+  SpecialtyResponse,
+  SpecialtyWithCount
+} from '../types/specialty';
+
+/**
+ * Service for interacting with the Specialties API
+ */
+export class SpecialtyService {
+  private apiClient: ApiClient;
+  private baseEndpoint: string;
+
+  /**
+   * Create a new SpecialtyService
+   * @param apiClient API client instance
+   * @param baseEndpoint Base endpoint for specialty API
+   */
+  constructor(apiClient: ApiClient, baseEndpoint: string = '/api/specialties') {
+    this.apiClient = apiClient;
+    this.baseEndpoint = baseEndpoint;
+  }
+
+  /**
+   * Get every specialty with its advocate count, ordered by name
+   * @returns Promise resolving to the specialties
+   */
+  async getSpecialties(): Promise<SpecialtyWithCount[]> {
+    const response = await this.apiClient.get<SpecialtyListResponse>(this.baseEndpoint);
+    
+    return response.data.data;
+  }
+
+  /**
+   * Get a single specialty by ID
+   * @param id Specialty ID
+   * @returns Promise resolving to the specialty
+   * @throws ApiError with status 404 if the specialty does not exist
+   */
+  async getSpecialtyById(id: string): Promise<SpecialtyWithCount> {
+    const response = await this.apiClient.get<SpecialtyResponse>(
+      `${this.baseEndpoint}/${encodeURIComponent(id)}`
+    );
+    
+    return response.data.data;
+  }
+
+  /**
+   * Create a new specialty
+   * @param input Name and optional description
+   * @returns Promise resolving to the created specialty
+   * @throws ApiError with status 409 if a specialty with the same name exists
+   */
+  async createSpecialty(input: SpecialtyInput): Promise<SpecialtyWithCount> {
+    const response = await this.apiClient.post<SpecialtyResponse>(this.baseEndpoint, input);
+    
+    return response.data.data;
+  }
+
+  /**
+   * Rename a specialty; advocates keep it under the new name
+   * @param id Specialty ID
+   * @param name New name
+   * @returns Promise resolving to the updated specialty
+   * @throws ApiError with status 409 if another specialty already has the name
+   */
+  async renameSpecialty(id: string, name: string): Promise<SpecialtyWithCount> {
+    return this.updateSpecialty(id, { name });
+  }
+
+  /**
+   * Change the description of a specialty
+   * @param id Specialty ID
+   * @param description New description, or null to clear it
+   * @returns Promise resolving to the updated specialty
+   */
+  async updateSpecialtyDescription(
+    id: string,
+    description: string | null
+  ): Promise<SpecialtyWithCount> {
+    return this.updateSpecialty(id, { description });
+  }
+
+  /**
+   * Partially update a specialty
+   * @param id Specialty ID
+   * @param changes Name and/or description
+   * @returns Promise resolving to the updated specialty
+   */
+  async updateSpecialty(
+    id: string,
+    changes: Partial<SpecialtyInput>
+  ): Promise<SpecialtyWithCount> {
+    const response = await this.apiClient.patch<SpecialtyResponse>(
+      `${this.baseEndpoint}/${encodeURIComponent(id)}`,
+      changes
+    );
+    
+    return response.data.data;
+  }
+
+  /**
+   * Delete a specialty
+   * @param id Specialty ID
+   * @param options.force Delete even if advocates still have the specialty
+   * @returns Promise resolving to the deleted specialty
+   * @throws ApiError with status 409 if the specialty is in use and force is not set
+   */
+  async deleteSpecialty(
+    id: string,
+    { force = false }: { force?: boolean } = {}
+  ): Promise<SpecialtyWithCount> {
+    const path = `${this.baseEndpoint}/${encodeURIComponent(id)}`;
+    const response = await this.apiClient.delete<SpecialtyResponse>(
+      force ? this.apiClient.buildUrl(path, { force: true }) : path
+    );
+    
+    return response.data.data;
+  }
+
+  /**
+   * Merge a specialty into another one; the source specialty is deleted
+   * @param sourceId Specialty to merge away
+   * @param targetId Specialty its advocates are moved to
+   * @returns Promise resolving to the target specialty and the number of advocates moved
+   */
+  async mergeSpecialties(
+    sourceId: string,
+    targetId: string
+  ): Promise<{ data: SpecialtyWithCount, movedCount: number }> {
+    const response = await this.apiClient.post<SpecialtyMergeResponse>(
+      `${this.baseEndpoint}/${encodeURIComponent(sourceId)}/merge`,
+      { targetId }
+    );
+    
+    return {
+      data: response.data.data,
+      movedCount: response.data.movedCount
+    };
+  }
+}
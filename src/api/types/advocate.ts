@@ -13,13 +13,56 @@ export interface Advocate {
   yearsOfExperience: number;
   phoneNumber: number;
   specialties: string[];
+  /** Specialties with their descriptions; only loaded with include=specialtyDetails */
+  specialtyDetails?: Specialty[];
+  /** City, state and country of the primary location */
   city: string;
   state?: string;
   country: string;
+  /** Every location of the advocate, primary first; only loaded with include=locations */
+  locations?: Location[];
+  /** Distance to the nearest location, in the radius unit; only set for radius searches */
+  distance?: number;
   createdAt?: string;
   updatedAt?: string;
+  /** When the advocate was soft-deleted; only returned with includeDeleted=true */
+  deletedAt?: string | null;
 }
 
+/**
+ * Advocate fields that can be selected with the fields parameter; id is always returned
+ */
+export type AdvocateField =
+  | 'firstName'
+  | 'lastName'
+  | 'degree'
+  | 'yearsOfExperience'
+  | 'phoneNumber'
+  | 'city'
+  | 'state'
+  | 'country'
+  | 'createdAt'
+  | 'updatedAt';
+
+/**
+ * Relations that can be loaded with the include parameter
+ */
+export type AdvocateInclude = 'specialties' | 'locations' | 'specialtyDetails';
+
+/**
+ * Relations loaded when the include parameter is not given
+ */
+export type DefaultAdvocateInclude = 'specialties';
+
+/**
+ * Advocate narrowed to the selected fields and loaded relations
+ * With the defaults it has every field of Advocate
+ */
+export type SparseAdvocate<
+  F extends AdvocateField = AdvocateField,
+  I extends AdvocateInclude = DefaultAdvocateInclude
+> = Pick<Advocate, 'id' | 'distance' | F> & Required<Pick<Advocate, I>>;
+
 /**
  * Specialty interface
  */
@@ -38,8 +81,58 @@ export interface Location {
   city: string;
   state?: string;
   country: string;
+  postalCode?: string | null;
+  /** Coordinates geocoded from the postal code or city; null when unknown */
+  latitude?: number | null;
+  longitude?: number | null;
+  /** Whether this is the advocate's primary location */
+  isPrimary: boolean;
+}
+
+/**
+ * Location given when creating or updating an advocate
+ */
+export interface LocationInput {
+  city: string;
+  state?: string;
+  country?: string;
+  /** US ZIP code, used to place the location for radius searches */
+  postalCode?: string;
+  /** At most one location may be primary; without a flag the first one is */
+  isPrimary?: boolean;
 }
 
+/**
+ * Advocate with all of its specialty and location records
+ */
+export interface AdvocateDetail extends Advocate {
+  specialtyDetails: Specialty[];
+  locations: Location[];
+}
+
+/**
+ * Payload for creating an advocate
+ */
+export interface AdvocateInput {
+  firstName: string;
+  lastName: string;
+  degree: string;
+  yearsOfExperience: number;
+  /** Ten digit US phone number; formatting characters are ignored */
+  phoneNumber: number | string;
+  /** Names of existing specialties */
+  specialties: string[];
+  /** Single location of the advocate; give either location or locations */
+  location?: Omit<LocationInput, 'isPrimary'>;
+  /** Every location of the advocate, for advocates who practice in several cities */
+  locations?: LocationInput[];
+}
+
+/**
+ * File formats offered by the advocate export
+ */
+export type ExportFormat = 'csv' | 'ndjson' | 'xlsx';
+
 /**
  * Pagination metadata interface
  */
@@ -54,13 +147,105 @@ export interface PaginationMeta {
   prevCursor?: string;
 }
 
+/**
+ * Facets the advocate list can count
+ */
+export type AdvocateFacetName = 'degree' | 'specialty' | 'city' | 'experience';
+
+/**
+ * Number of matching advocates with a facet value
+ */
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+/**
+ * Facet counts, keyed by facet name
+ */
+export type AdvocateFacets = Partial<Record<AdvocateFacetName, FacetCount[]>>;
+
+/**
+ * Query parameter that was rejected, or ignored in lenient mode, and why
+ */
+export interface QueryParamIssue {
+  parameter: string;
+  reason: string;
+}
+
 /**
  * API Response interface for Advocates
+ * Requests with fields or include parameters get SparseAdvocate items
  */
-export interface AdvocateResponse {
+export interface AdvocateResponse<T = Advocate> {
   success: boolean;
-  data: Advocate[];
+  data: T[];
   pagination: PaginationMeta;
+  /** Only present when facets were requested */
+  facets?: AdvocateFacets;
+  /** Query parameters that were ignored; only present when there are any and strict=false was given */
+  warnings?: QueryParamIssue[];
+}
+
+/**
+ * API Response interface for a single advocate
+ */
+export interface AdvocateDetailResponse {
+  success: boolean;
+  data: AdvocateDetail;
+}
+
+/**
+ * Advocate in version 2 of the API
+ * Loaded relations are grouped under relations, and specialties are specialty records
+ */
+export interface AdvocateV2 extends Omit<Advocate, 'specialties' | 'specialtyDetails' | 'locations'> {
+  relations: {
+    specialties?: Specialty[];
+    locations?: Location[];
+  };
+}
+
+/**
+ * Cursors of a version 2 list response
+ */
+export interface CursorMeta {
+  /** Cursor of the next page, or null on the last page */
+  next: string | null;
+  /** Cursor of the previous page, or null on the first page */
+  prev: string | null;
+  /** Sort keys the cursors are built from */
+  sortKeys: string[];
+}
+
+/**
+ * Version 2 API Response interface for Advocates
+ */
+export interface AdvocateResponseV2 {
+  data: AdvocateV2[];
+  pagination: Omit<PaginationMeta, 'nextCursor' | 'prevCursor'>;
+  cursors: CursorMeta;
+  facets?: AdvocateFacets;
+  warnings?: QueryParamIssue[];
+}
+
+/**
+ * Version 2 API Response interface for a single advocate
+ */
+export interface AdvocateDetailResponseV2 {
+  data: AdvocateV2;
+}
+
+/**
+ * Version 2 API Error Response interface; every error has a status and code
+ */
+export interface ApiErrorResponseV2 {
+  error: {
+    status: number;
+    code: string;
+    message: string;
+    details?: any;
+  };
 }
 
 /**
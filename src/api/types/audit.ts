@@ -0,0 +1,44 @@
+/**
+ * TypeScript interfaces for Audit log API models
+ */
+import { PaginationMeta } from './advocate';
+
+/**
+ * What a write did
+ * import and seed create or update advocates in bulk; merge moves the advocates
+ * of one specialty to another
+ */
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'import' | 'seed' | 'merge';
+
+/**
+ * Kind of record a write changed
+ */
+export type AuditEntityType = 'advocate' | 'specialty';
+
+/**
+ * Audit log entry for one write to one record
+ */
+export interface AuditEntry {
+  id: string;
+  /** anonymous, admin-token, api-key:<key id> or seed */
+  actor: string;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  /** Changed fields before the write; null for creates */
+  before: Record<string, unknown> | null;
+  /** Changed fields after the write */
+  after: Record<string, unknown> | null;
+  /** X-Request-Id of the request that made the write, if it had one */
+  requestId: string | null;
+  createdAt: string;
+}
+
+/**
+ * API Response interface for a page of audit log entries, newest first
+ */
+export interface AuditLogResponse {
+  success: boolean;
+  data: AuditEntry[];
+  pagination: PaginationMeta;
+}
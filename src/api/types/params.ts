@@ -1,6 +1,7 @@
 /**
  * API parameter interfaces for pagination, sorting, and filtering
  */
+import { AdvocateField, AdvocateInclude } from './advocate';
 
 /**
  * Pagination parameters for API requests
@@ -24,6 +25,8 @@ export type SortDirection = 'asc' | 'desc';
 
 /**
  * Allowed advocate sort fields
+ * city and state are those of the primary location; distance only applies to
+ * radius searches and relevance to full-text searches
  */
 export type AdvocateSortField = 
   | 'firstName'
@@ -31,22 +34,51 @@ export type AdvocateSortField =
   | 'degree'
   | 'yearsOfExperience'
   | 'createdAt'
-  | 'updatedAt';
+  | 'updatedAt'
+  | 'city'
+  | 'state'
+  | 'specialtyCount'
+  | 'distance'
+  | 'relevance';
+
+/**
+ * A field to sort by, with its direction
+ */
+export interface SortField {
+  field: AdvocateSortField;
+  direction: SortDirection;
+}
 
 /**
  * Sorting parameters
+ * sortFields sorts by any number of fields and takes precedence over the others
  */
 export interface SortParams {
   sort?: AdvocateSortField;
   order?: SortDirection;
   secondarySort?: AdvocateSortField;
   secondaryOrder?: SortDirection;
+  /** Fields to sort by, most significant first */
+  sortFields?: SortField[];
+}
+
+/**
+ * Sparse fieldset parameters
+ * Without fields every field is returned; without include only specialties are
+ * loaded, and an empty include loads no relations
+ */
+export interface FieldSelectionParams<
+  F extends AdvocateField = AdvocateField,
+  I extends AdvocateInclude = AdvocateInclude
+> {
+  fields?: F[];
+  include?: I[];
 }
 
 /**
  * Filter operation types
  */
-export type TextFilterOperation = 'contains' | 'startsWith' | 'endsWith' | 'eq';
+export type TextFilterOperation = 'contains' | 'startsWith' | 'endsWith' | 'eq' | 'fuzzy';
 export type NumberFilterOperation = 'eq' | 'gt' | 'gte' | 'lt' | 'lte' | 'between';
 export type ArrayFilterOperation = 'any' | 'all';
 
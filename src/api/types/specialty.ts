@@ -0,0 +1,44 @@
+/**
+ * TypeScript interfaces for Specialty API models
+ */
+import { Specialty } from './advocate';
+
+/**
+ * Specialty with the number of advocates that have it
+ */
+export interface SpecialtyWithCount extends Specialty {
+  advocateCount: number;
+  createdAt?: string;
+}
+
+/**
+ * Payload for creating a specialty
+ */
+export interface SpecialtyInput {
+  name: string;
+  description?: string | null;
+}
+
+/**
+ * API Response interface for the specialty list
+ */
+export interface SpecialtyListResponse {
+  success: boolean;
+  data: SpecialtyWithCount[];
+}
+
+/**
+ * API Response interface for a single specialty
+ */
+export interface SpecialtyResponse {
+  success: boolean;
+  data: SpecialtyWithCount;
+}
+
+/**
+ * API Response interface for a specialty merge
+ */
+export interface SpecialtyMergeResponse extends SpecialtyResponse {
+  /** Number of advocates that gained the target specialty */
+  movedCount: number;
+}
@@ -7,6 +7,42 @@
  */
 export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
 
+/**
+ * API versions the client can request
+ */
+export type ApiVersion = '1' | '2';
+
+/**
+ * Value of a default header: a string, or a provider called before every request,
+ * e.g. to read an API key that can change while the client is in use.
+ * Headers whose provider returns undefined are left out
+ */
+export type HeaderValue = string | (() => string | undefined | Promise<string | undefined>);
+
+/**
+ * Build an Authorization header value that sends an API key as a bearer token
+ *
+ * @param getApiKey Key provider; the header is left out while it returns undefined
+ * @returns Header provider for defaultHeaders
+ */
+export function bearerApiKey(getApiKey: () => string | undefined | Promise<string | undefined>): HeaderValue {
+  return async () => {
+    const apiKey = await getApiKey();
+    return apiKey ? `Bearer ${apiKey}` : undefined;
+  };
+}
+
+/**
+ * Options for the API client
+ */
+export interface ApiClientOptions {
+  /**
+   * API version to request with the Accept-Version header; without one the server
+   * answers with version 1. The bundled services read version 1 responses
+   */
+  version?: ApiVersion;
+}
+
 /**
  * Request options for the API client
  */
@@ -34,34 +70,82 @@ export interface ApiResponse<T> {
 export class ApiError extends Error {
   status: number;
   data: any;
+  /** X-Request-Id of the failed response, to find the request in the server logs */
+  requestId?: string;
 
-  constructor(message: string, status: number, data?: any) {
+  constructor(message: string, status: number, data?: any, requestId?: string) {
     super(message);
     this.name = 'ApiError';
     this.status = status;
     this.data = data;
+    this.requestId = requestId;
   }
 }
 
+/**
+ * Error thrown when a conditional request fails with 412 Precondition Failed,
+ * i.e. the resource changed since the ETag sent in If-Match was read
+ */
+export class PreconditionFailedError extends ApiError {
+  /** Current ETag of the resource, if the server sent one */
+  etag?: string;
+
+  constructor(message: string, data?: any, etag?: string, requestId?: string) {
+    super(message, 412, data, requestId);
+    this.name = 'PreconditionFailedError';
+    this.etag = etag;
+  }
+}
+
+/**
+ * Maximum number of GET responses the client keeps for revalidation
+ */
+export const ETAG_CACHE_SIZE = 50;
+
+/**
+ * Request headers the server varies its responses on (lower case); a response is
+ * only reused for requests with the same values
+ */
+const VARY_HEADERS = ['authorization', 'accept-version'];
+
+/**
+ * GET response kept with its ETag, returned again when the server answers 304
+ */
+interface CachedResponse {
+  etag: string;
+  data: unknown;
+  status: number;
+  headers: Headers;
+}
+
 /**
  * Base API client class
  */
 export class ApiClient {
   private baseUrl: string;
-  private defaultHeaders: Record<string, string>;
+  private defaultHeaders: Record<string, HeaderValue>;
+  /** API version requested by every request, if one was chosen */
+  readonly version?: ApiVersion;
+  /** Keyed by URL and varying headers; most recently used last, so the first entry is evicted when the cache is full */
+  private etagCache = new Map<string, CachedResponse>();
 
   /**
    * Create a new API client
    * @param baseUrl Base URL for API requests
-   * @param defaultHeaders Default headers to include with every request
+   * @param defaultHeaders Default headers to include with every request; values may be providers,
+   *   e.g. { Authorization: bearerApiKey(() => getApiKey()) }
+   * @param options Client options, e.g. the API version
    */
   constructor(
     baseUrl: string = '',
-    defaultHeaders: Record<string, string> = {}
+    defaultHeaders: Record<string, HeaderValue> = {},
+    options: ApiClientOptions = {}
   ) {
     this.baseUrl = baseUrl;
+    this.version = options.version;
     this.defaultHeaders = {
       'Content-Type': 'application/json',
+      ...(options.version ? { 'Accept-Version': options.version } : {}),
       ...defaultHeaders,
     };
   }
@@ -101,8 +185,33 @@ export class ApiClient {
     return url.toString();
   }
 
+  /**
+   * Resolve the default headers, calling their providers
+   * @returns Default headers with a value
+   */
+  private async resolveDefaultHeaders(): Promise<Record<string, string>> {
+    const entries = await Promise.all(
+      Object.entries(this.defaultHeaders).map(async ([name, value]) =>
+        [name, typeof value === 'function' ? await value() : value] as const
+      )
+    );
+
+    return Object.fromEntries(entries.filter((entry): entry is readonly [string, string] => entry[1] !== undefined));
+  }
+
+  /**
+   * Forget every cached GET response
+   */
+  clearCache(): void {
+    this.etagCache.clear();
+  }
+
   /**
    * Make an HTTP request
+   * GET responses that carry an ETag are cached; repeating the request with the same
+   * Authorization and Accept-Version headers sends the ETag in If-None-Match and a 304
+   * answer returns the cached response, so revalidating an unchanged resource costs no
+   * body transfer
    * @param path API endpoint path
    * @param options Request options
    * @returns Promise resolving to the API response
@@ -110,11 +219,20 @@ export class ApiClient {
    */
   async request<T>(path: string, options: RequestOptions = {}): Promise<ApiResponse<T>> {
     const { method = 'GET', headers = {}, body, ...restOptions } = options;
+    const url = this.buildUrl(path);
+    
+    const defaultHeaders = await this.resolveDefaultHeaders();
+    
+    // Revalidate a cached response unless the caller opted out of caching
+    const useCache = method === 'GET' && options.cache !== 'no-store';
+    const cacheKey = this.getCacheKey(url, { ...defaultHeaders, ...headers });
+    const cached = useCache ? this.etagCache.get(cacheKey) : undefined;
     
     const requestOptions: RequestInit = {
       method,
       headers: {
-        ...this.defaultHeaders,
+        ...defaultHeaders,
+        ...(cached ? { 'If-None-Match': cached.etag } : {}),
         ...headers,
       },
       ...restOptions,
@@ -126,7 +244,18 @@ export class ApiClient {
     }
 
     try {
-      const response = await fetch(this.buildUrl(path), requestOptions);
+      const response = await fetch(url, requestOptions);
+      
+      if (response.status === 304 && cached) {
+        this.etagCache.delete(cacheKey);
+        this.etagCache.set(cacheKey, cached);
+        return {
+          data: cached.data as T,
+          status: cached.status,
+          headers: cached.headers,
+          ok: true,
+        };
+      }
       
       // Parse the response body
       let data: T;
@@ -139,13 +268,29 @@ export class ApiClient {
       }
 
       // Handle error responses
+      const requestId = response.headers.get('x-request-id') || undefined;
+      if (response.status === 412) {
+        throw new PreconditionFailedError(
+          'Resource was modified since it was last fetched',
+          data,
+          response.headers.get('etag') || undefined,
+          requestId
+        );
+      }
+      
       if (!response.ok) {
         throw new ApiError(
           `API request failed with status ${response.status}`,
           response.status,
-          data
+          data,
+          requestId
         );
       }
+      
+      const etag = useCache ? response.headers.get('etag') : null;
+      if (etag) {
+        this.cacheResponse(cacheKey, { etag, data, status: response.status, headers: response.headers });
+      }
 
       return {
         data,
@@ -166,6 +311,35 @@ export class ApiClient {
     }
   }
 
+  /**
+   * Key of a GET response in the cache
+   * The server's responses vary by caller and API version, so the values of the
+   * varying request headers are part of the key
+   * @param url Full request URL
+   * @param headers Request headers
+   * @returns Cache key
+   */
+  private getCacheKey(url: string, headers: Record<string, string>): string {
+    const values = new Map(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+    return JSON.stringify([url, ...VARY_HEADERS.map(name => values.get(name) ?? null)]);
+  }
+
+  /**
+   * Keep a GET response for revalidation, evicting the least recently used one when full
+   * @param key Key from getCacheKey
+   * @param entry Response with its ETag
+   */
+  private cacheResponse(key: string, entry: CachedResponse): void {
+    this.etagCache.delete(key);
+    this.etagCache.set(key, entry);
+    if (this.etagCache.size > ETAG_CACHE_SIZE) {
+      const oldest = this.etagCache.keys().next().value;
+      if (oldest !== undefined) {
+        this.etagCache.delete(oldest);
+      }
+    }
+  }
+
   /**
    * Make a GET request
    * @param path API endpoint path
@@ -240,10 +414,12 @@ export class ApiClient {
 
   /**
    * Make a PATCH request
+   * Pass the resource's ETag as an If-Match header in options.headers for optimistic concurrency
    * @param path API endpoint path
    * @param body Request body
    * @param options Additional request options
    * @returns Promise resolving to the API response
+   * @throws PreconditionFailedError if the resource changed since the ETag was read
    */
   async patch<T>(
     path: string,
@@ -4,6 +4,10 @@
 import { 
   PaginationParams, 
   SortParams, 
+  SortField,
+  SortDirection,
+  AdvocateSortField,
+  FieldSelectionParams,
   Filter, 
   TextFilter, 
   NumberFilter, 
@@ -38,15 +42,51 @@ export function buildPaginationParams(params: PaginationParams): Record<string,
   return result;
 }
 
+/**
+ * Format sort fields in the sort parameter syntax
+ * @param fields Sort fields, most significant first
+ * A single ascending field is prefixed with +, since on its own the server sorts it descending
+ * @returns Comma-separated fields, e.g. -yearsOfExperience,lastName
+ */
+export function formatSortFields(fields: SortField[]): string {
+  return fields
+    .map(({ field, direction }) => direction === 'desc' ? `-${field}` : fields.length === 1 ? `+${field}` : field)
+    .join(',');
+}
+
+/**
+ * Parse the sort parameter syntax into sort fields
+ * @param param Comma-separated fields; a leading - sorts a field descending and + ascending
+ * @param defaultDirection Direction of fields without a prefix
+ * @returns Sort fields, most significant first
+ */
+export function parseSortFields(param: string, defaultDirection: SortDirection = 'asc'): SortField[] {
+  return param
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean)
+    .map(item => item.startsWith('-')
+      ? { field: item.slice(1) as AdvocateSortField, direction: 'desc' as const }
+      : item.startsWith('+')
+        ? { field: item.slice(1) as AdvocateSortField, direction: 'asc' as const }
+        : { field: item as AdvocateSortField, direction: defaultDirection });
+}
+
 /**
  * Build sorting parameters for API requests
  * @param params Sorting parameters
  * @returns Object with sorting parameters for the API
  */
 export function buildSortParams(params: SortParams): Record<string, any> {
-  const { sort, order, secondarySort, secondaryOrder } = params;
+  const { sort, order, secondarySort, secondaryOrder, sortFields } = params;
   const result: Record<string, any> = {};
 
+  // Several fields are sent as one comma-separated list, descending ones prefixed with -
+  if (sortFields && sortFields.length > 0) {
+    result.sort = formatSortFields(sortFields);
+    return result;
+  }
+
   if (sort) {
     result.sort = sort;
   }
@@ -105,22 +145,46 @@ export function buildFilterParams(filters: Filter[]): Record<string, any> {
   return result;
 }
 
+/**
+ * Build sparse fieldset parameters for API requests
+ * @param params Fields to return and relations to load
+ * @returns Object with fields and include parameters for the API
+ */
+export function buildFieldSelectionParams(params: FieldSelectionParams): Record<string, any> {
+  const { fields, include } = params;
+  const result: Record<string, any> = {};
+
+  if (fields && fields.length > 0) {
+    result.fields = fields.join(',');
+  }
+
+  // An empty list is sent as include= so that no relations are loaded
+  if (include) {
+    result.include = include.join(',');
+  }
+
+  return result;
+}
+
 /**
  * Build combined query parameters for API requests
  * @param pagination Pagination parameters
  * @param sorting Sorting parameters
  * @param filters Array of filter objects
+ * @param fieldSelection Fields to return and relations to load
  * @returns Combined object with all parameters for the API
  */
 export function buildQueryParams(
   pagination?: PaginationParams,
   sorting?: SortParams,
-  filters?: Filter[]
+  filters?: Filter[],
+  fieldSelection?: FieldSelectionParams
 ): Record<string, any> {
   return {
     ...(pagination ? buildPaginationParams(pagination) : {}),
     ...(sorting ? buildSortParams(sorting) : {}),
     ...(filters && filters.length > 0 ? buildFilterParams(filters) : {}),
+    ...(fieldSelection ? buildFieldSelectionParams(fieldSelection) : {}),
   };
 }
 
@@ -128,7 +192,7 @@ export function buildQueryParams(
  * Type guards for filter types
  */
 function isTextFilter(filter: Filter): filter is TextFilter {
-  return ['contains', 'startsWith', 'endsWith', 'eq'].includes(filter.operation);
+  return ['contains', 'startsWith', 'endsWith', 'eq', 'fuzzy'].includes(filter.operation);
 }
 
 function isNumberFilter(filter: Filter): filter is NumberFilter {
@@ -0,0 +1,62 @@
+import { NextRequest } from "next/server";
+import { getAdvocateDetail } from "../../../../../db/queries/advocates";
+import { listAuditEntries } from "../../../../../db/queries/audit";
+import { errorResponse } from "../../../../../utils/errors";
+import { withApiVersion } from "../../../../../utils/apiVersion";
+import { withScope } from "../../../../../utils/apiKeys";
+import { addRequestLogFields, getRequestLogger, withRequestLog } from "../../../../../utils/requestLog";
+import { isValidUuid } from "../../../../../utils/validation";
+import {
+  applyPagination,
+  getLinkHeader,
+  getPaginationMeta,
+  getPaginationParams
+} from "../../../../../utils/pagination";
+
+/**
+ * GET /api/advocates/[id]/history
+ * Lists the audit log entries of an advocate, newest first: who created, changed,
+ * deleted or restored it, when, and the changed fields before and after
+ * 
+ * Paginated with page and limit like GET /api/advocates. Soft-deleted advocates keep
+ * their history; responds with 404 if no advocate has this ID and none ever had
+ * 
+ * Example usage:
+ * - /api/advocates/3f1c2a9e-4b7d-4c3e-9a61-2d5e8f0b7c14/history?page=2&limit=25
+ */
+export const GET = withRequestLog(withApiVersion(withScope("advocates:write", async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const { id } = params;
+  
+  if (!isValidUuid(id)) {
+    return errorResponse(404, `Advocate ${id} not found`, "NOT_FOUND");
+  }
+  
+  try {
+    const paginationParams = { ...getPaginationParams(request), cursor: undefined };
+    const { entries, totalCount } = await listAuditEntries(
+      { entityType: "advocate", entityId: id },
+      applyPagination(paginationParams)
+    );
+    addRequestLogFields(request, { rowCount: entries.length, totalCount });
+    
+    if (totalCount === 0 && !(await getAdvocateDetail(id, { includeDeleted: true }))) {
+      return errorResponse(404, `Advocate ${id} not found`, "NOT_FOUND");
+    }
+    
+    const { cursorField: _cursorField, ...pagination } = getPaginationMeta(totalCount, paginationParams, entries);
+    
+    const response = Response.json({ success: true, data: entries, pagination });
+    response.headers.set("Link", getLinkHeader(request, pagination));
+    return response;
+  } catch (error) {
+    getRequestLogger(request).error("Error fetching advocate history", { error });
+    return errorResponse(
+      500,
+      error instanceof Error ? error.message : "Failed to fetch advocate history",
+      "INTERNAL_ERROR"
+    );
+  }
+})));
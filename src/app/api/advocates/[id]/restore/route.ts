@@ -0,0 +1,51 @@
+import { NextRequest } from "next/server";
+import { getAdvocateDetail, restoreAdvocate } from "../../../../../db/queries/advocates";
+import { errorResponse } from "../../../../../utils/errors";
+import { toV2Advocate, withApiVersion } from "../../../../../utils/apiVersion";
+import { withScope } from "../../../../../utils/apiKeys";
+import { getRequestLogger, withRequestLog } from "../../../../../utils/requestLog";
+import { getAuditContext } from "../../../../../utils/audit";
+import { isValidUuid } from "../../../../../utils/validation";
+import { getVersionEtag } from "../../../../../utils/etag";
+
+/**
+ * POST /api/advocates/[id]/restore
+ * Restores a soft-deleted advocate together with its specialties and locations
+ * 
+ * Responds with 404 if no advocate has this ID and with 409 if the advocate is not deleted
+ */
+export const POST = withRequestLog(withApiVersion(withScope("advocates:write", async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const { id } = params;
+  
+  if (!isValidUuid(id)) {
+    return errorResponse(404, `Advocate ${id} not found`, "NOT_FOUND");
+  }
+  
+  try {
+    const restored = await restoreAdvocate(id, getAuditContext(request));
+    
+    if (!restored) {
+      // Tell apart an active advocate from one that does not exist at all
+      const active = await getAdvocateDetail(id);
+      return active
+        ? errorResponse(409, `Advocate ${id} is not deleted`, "NOT_DELETED")
+        : errorResponse(404, `Advocate ${id} not found`, "NOT_FOUND");
+    }
+    
+    const advocate = await getAdvocateDetail(id);
+    
+    const response = Response.json({ success: true, data: advocate });
+    response.headers.set("ETag", getVersionEtag(restored.updatedAt));
+    return response;
+  } catch (error) {
+    getRequestLogger(request).error("Error restoring advocate", { error });
+    return errorResponse(
+      500,
+      error instanceof Error ? error.message : "Failed to restore advocate",
+      "INTERNAL_ERROR"
+    );
+  }
+}), { v2Data: toV2Advocate }));
@@ -0,0 +1,218 @@
+import { NextRequest } from "next/server";
+import {
+  findSpecialtyIdsByName,
+  getAdvocateDetail,
+  softDeleteAdvocate,
+  updateAdvocate
+} from "../../../../db/queries/advocates";
+import { errorResponse } from "../../../../utils/errors";
+import { toV2Advocate, withApiVersion } from "../../../../utils/apiVersion";
+import { withScope } from "../../../../utils/apiKeys";
+import { getRequestLogger, withRequestLog } from "../../../../utils/requestLog";
+import { getAuditContext } from "../../../../utils/audit";
+import { isAdminRequest } from "../../../../utils/auth";
+import { getIncludeDeletedParam } from "../../../../utils/filtering";
+import { isValidUuid } from "../../../../utils/validation";
+import { validateAdvocatePatch } from "../../../../utils/advocateValidation";
+import {
+  getVersionEtag,
+  ifMatchSatisfied,
+  ifNoneMatchSatisfied,
+  notModifiedResponse,
+  setRevalidationHeaders
+} from "../../../../utils/etag";
+
+/**
+ * GET /api/advocates/[id]
+ * Retrieves a single advocate with all of its specialties (including descriptions)
+ * and all of its locations
+ * 
+ * Responds with 404 for unknown IDs, for IDs that are not valid UUIDs and for
+ * soft-deleted advocates (admins may pass includeDeleted=true to see those)
+ * The ETag header carries the advocate's version, to be sent back in If-Match when patching
+ * or in If-None-Match to get a 304 Not Modified while the advocate is unchanged
+ * 
+ * Example usage:
+ * - /api/advocates/3f1c2a9e-4b7d-4c3e-9a61-2d5e8f0b7c14
+ */
+export const GET = withRequestLog(withApiVersion(withScope("advocates:read", async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const { id } = params;
+  
+  // Malformed IDs can never match a row, so answer them the same way as unknown ones
+  if (!isValidUuid(id)) {
+    return errorResponse(404, `Advocate ${id} not found`, "NOT_FOUND");
+  }
+  
+  const includeDeleted = getIncludeDeletedParam(request);
+  if (includeDeleted && !isAdminRequest(request)) {
+    return errorResponse(403, "includeDeleted requires admin access", "FORBIDDEN");
+  }
+  
+  try {
+    const advocate = await getAdvocateDetail(id, { includeDeleted });
+    
+    if (!advocate) {
+      return errorResponse(404, `Advocate ${id} not found`, "NOT_FOUND");
+    }
+    
+    const etag = getVersionEtag(advocate.updatedAt);
+    const ifNoneMatch = request.headers.get("if-none-match");
+    if (ifNoneMatch && ifNoneMatchSatisfied(ifNoneMatch, etag)) {
+      return notModifiedResponse(etag);
+    }
+    
+    const response = Response.json({
+      success: true,
+      data: advocate,
+    });
+    setRevalidationHeaders(response.headers, etag);
+    return response;
+  } catch (error) {
+    getRequestLogger(request).error("Error fetching advocate", { error });
+    return errorResponse(
+      500,
+      error instanceof Error ? error.message : "Failed to fetch advocate",
+      "INTERNAL_ERROR"
+    );
+  }
+}), { v2Data: toV2Advocate }));
+
+/**
+ * PATCH /api/advocates/[id]
+ * Partially updates an advocate's fields, specialties and locations
+ * 
+ * Requires an If-Match header with the ETag from a previous GET. The update is
+ * rejected with 412 if the advocate changed since then, and with 428 if the header
+ * is missing. updatedAt is set by the server; given specialties replace the whole set.
+ * A given location edits the primary location in place, while a given locations
+ * array replaces every location of the advocate.
+ * 
+ * Request body: any subset of the POST /api/advocates fields, e.g.
+ * { "phoneNumber": "555-987-6543", "specialties": ["Bipolar"] }
+ */
+export const PATCH = withRequestLog(withApiVersion(withScope("advocates:write", async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const { id } = params;
+  
+  if (!isValidUuid(id)) {
+    return errorResponse(404, `Advocate ${id} not found`, "NOT_FOUND");
+  }
+  
+  const ifMatch = request.headers.get("If-Match");
+  if (!ifMatch) {
+    return errorResponse(
+      428,
+      "If-Match header with the advocate's ETag is required",
+      "PRECONDITION_REQUIRED"
+    );
+  }
+  
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, "Request body must be valid JSON", "INVALID_JSON");
+  }
+  
+  const { data: changes, errors } = validateAdvocatePatch(body);
+  if (!changes) {
+    return errorResponse(400, "Validation failed", "VALIDATION_ERROR", errors);
+  }
+  
+  try {
+    // Resolve replacement specialties up front and reject any that do not exist
+    let specialtyIds: string[] | undefined;
+    if (changes.specialties) {
+      const specialtyIdsByName = await findSpecialtyIdsByName(changes.specialties);
+      const unknownSpecialties = changes.specialties.filter(
+        name => !specialtyIdsByName.has(name.toLowerCase())
+      );
+      
+      if (unknownSpecialties.length > 0) {
+        return errorResponse(400, "Validation failed", "VALIDATION_ERROR", {
+          specialties: `Unknown specialties: ${unknownSpecialties.join(", ")}`,
+        });
+      }
+      
+      specialtyIds = Array.from(new Set(specialtyIdsByName.values()));
+    }
+    
+    const result = await updateAdvocate(
+      id,
+      changes,
+      specialtyIds,
+      current => ifMatchSatisfied(ifMatch, getVersionEtag(current.updatedAt)),
+      getAuditContext(request)
+    );
+    
+    if (result.status === "not_found") {
+      return errorResponse(404, `Advocate ${id} not found`, "NOT_FOUND");
+    }
+    
+    if (result.status === "version_mismatch") {
+      const response = errorResponse(
+        412,
+        "Advocate was modified by someone else; reload it and try again",
+        "PRECONDITION_FAILED"
+      );
+      response.headers.set("ETag", getVersionEtag(result.advocate.updatedAt));
+      return response;
+    }
+    
+    const updated = await getAdvocateDetail(id);
+    
+    const response = Response.json({ success: true, data: updated });
+    response.headers.set("ETag", getVersionEtag(result.advocate.updatedAt));
+    return response;
+  } catch (error) {
+    getRequestLogger(request).error("Error updating advocate", { error });
+    return errorResponse(
+      500,
+      error instanceof Error ? error.message : "Failed to update advocate",
+      "INTERNAL_ERROR"
+    );
+  }
+}), { v2Data: toV2Advocate }));
+
+/**
+ * DELETE /api/advocates/[id]
+ * Soft-deletes an advocate by setting deletedAt
+ * 
+ * The advocate disappears from every read but keeps its specialties and locations,
+ * so it can be brought back with POST /api/advocates/[id]/restore
+ */
+export const DELETE = withRequestLog(withApiVersion(withScope("advocates:write", async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const { id } = params;
+  
+  if (!isValidUuid(id)) {
+    return errorResponse(404, `Advocate ${id} not found`, "NOT_FOUND");
+  }
+  
+  try {
+    const advocate = await softDeleteAdvocate(id, getAuditContext(request));
+    
+    if (!advocate) {
+      return errorResponse(404, `Advocate ${id} not found`, "NOT_FOUND");
+    }
+    
+    return Response.json({
+      success: true,
+      data: { id: advocate.id, deletedAt: advocate.deletedAt },
+    });
+  } catch (error) {
+    getRequestLogger(request).error("Error deleting advocate", { error });
+    return errorResponse(
+      500,
+      error instanceof Error ? error.message : "Failed to delete advocate",
+      "INTERNAL_ERROR"
+    );
+  }
+})));
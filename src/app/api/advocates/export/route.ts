@@ -0,0 +1,146 @@
+import { NextRequest } from "next/server";
+import { and } from "drizzle-orm";
+import { AdvocateWithRelations, streamAdvocates } from "../../../../db/queries/advocates";
+import { getSortKeyOrderBy } from "../../../../utils/sorting";
+import { getIncludeDeletedParam } from "../../../../utils/filtering";
+import { buildAdvocateQuery } from "../../../../utils/advocateQuery";
+import { errorResponse } from "../../../../utils/errors";
+import { withApiVersion } from "../../../../utils/apiVersion";
+import { withScope } from "../../../../utils/apiKeys";
+import { addRequestLogFields, getRequestLogger, withRequestLog } from "../../../../utils/requestLog";
+import { isAdminRequest } from "../../../../utils/auth";
+import { getNearParamError } from "../../../../utils/geo";
+import { getStrictParam, validateAdvocateQuery } from "../../../../utils/queryValidation";
+import { getFilterExpressionError } from "../../../../utils/filterExpression";
+import { getQueryCostError } from "../../../../utils/queryCost";
+import {
+  EXPORT_FORMATS,
+  getExportFormat,
+  serializeAdvocates,
+  toReadableStream
+} from "../../../../utils/export";
+
+/**
+ * GET /api/advocates/export
+ * Streams every advocate matching the filters as a file download
+ *
+ * Accepts the same search, filter and sort query parameters as GET /api/advocates, but
+ * is not paginated. With strict=true, or by default for API key callers, unknown or malformed
+ * query parameters are rejected with 400 INVALID_QUERY; otherwise they are ignored.
+ * The format is taken from the format parameter or, if it is
+ * missing, the Accept header:
+ * - format=csv or Accept: text/csv (default)
+ * - format=ndjson or Accept: application/x-ndjson
+ * - format=xlsx or Accept: application/vnd.openxmlformats-officedocument.spreadsheetml.sheet
+ *
+ * Example usage:
+ * - /api/advocates/export?specialty[any]=Trauma&sort=lastName&order=asc
+ * - /api/advocates/export?format=xlsx&experience[gte]=10
+ */
+export const GET = withRequestLog(withApiVersion(withScope("advocates:read", async (request: NextRequest) => {
+  const format = getExportFormat(request);
+  if (!format) {
+    return errorResponse(
+      400,
+      `Unsupported export format; use one of: ${Object.keys(EXPORT_FORMATS).join(", ")}`,
+      "UNSUPPORTED_FORMAT"
+    );
+  }
+
+  // Soft-deleted advocates are only visible to admins
+  const includeDeleted = getIncludeDeletedParam(request);
+  if (includeDeleted && !isAdminRequest(request)) {
+    return errorResponse(403, "includeDeleted requires admin access", "FORBIDDEN");
+  }
+
+  const nearError = getNearParamError(request);
+  if (nearError) {
+    return errorResponse(400, nearError, "INVALID_NEAR");
+  }
+
+  const filterError = getFilterExpressionError(request);
+  if (filterError) {
+    return errorResponse(400, filterError.message, "INVALID_FILTER", filterError.details);
+  }
+
+  // Long value lists and many combined filters make queries expensive, so they are capped
+  const costError = getQueryCostError(request);
+  if (costError) {
+    return errorResponse(400, costError.message, "QUERY_TOO_COMPLEX", costError.details);
+  }
+
+  const strict = getStrictParam(request);
+  const queryIssues = strict ? validateAdvocateQuery(request, "exportAdvocates") : [];
+  if (queryIssues.length > 0) {
+    return errorResponse(400, "Invalid query parameters", "INVALID_QUERY", queryIssues);
+  }
+
+  // Filter and sort the same way as the list endpoint, with id as the unique tiebreaker
+  const {
+    sortParams,
+    filterParams,
+    filterExpression,
+    searchTerm,
+    conditions,
+    sortKeys
+  } = buildAdvocateQuery(request, { includeDeleted, strict });
+  addRequestLogFields(request, {
+    format,
+    filters: { q: searchTerm, filters: filterParams, filter: filterExpression, sort: sortParams, includeDeleted },
+  });
+  const orderBy = getSortKeyOrderBy(sortKeys);
+  const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+  const batches = streamAdvocates({ where, sortKeys, orderBy });
+
+  // Read the first batch up front so a failing query still gets an error status
+  let firstBatch: IteratorResult<AdvocateWithRelations[]>;
+  try {
+    firstBatch = await batches.next();
+  } catch (error) {
+    getRequestLogger(request).error("Error exporting advocates", { error });
+    return errorResponse(
+      500,
+      error instanceof Error ? error.message : "Failed to export advocates",
+      "INTERNAL_ERROR"
+    );
+  }
+
+  // The request is logged once the headers are ready, so the rows are counted
+  // and logged when the download ends
+  const startedAt = performance.now();
+  async function* allBatches() {
+    let rowCount = 0;
+    try {
+      if (!firstBatch.done) {
+        rowCount += firstBatch.value.length;
+        yield firstBatch.value;
+        for await (const batch of batches) {
+          rowCount += batch.length;
+          yield batch;
+        }
+      }
+    } catch (error) {
+      // Headers are already sent, so the only option left is to abort the download
+      getRequestLogger(request).error("Error exporting advocates", { error, rowCount });
+      throw error;
+    }
+    getRequestLogger(request).info("Export completed", {
+      format,
+      rowCount,
+      durationMs: Math.round(performance.now() - startedAt),
+    });
+  }
+
+  const { contentType, extension } = EXPORT_FORMATS[format];
+  const filename = `advocates-${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+  return new Response(toReadableStream(serializeAdvocates(format, allBatches())), {
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "no-store",
+      "Vary": "Accept",
+    },
+  });
+})));
@@ -0,0 +1,131 @@
+import { NextRequest } from "next/server";
+import {
+  applyAdvocateImport,
+  findSpecialtyIdsByName,
+  planAdvocateImport
+} from "../../../../db/queries/advocates";
+import { errorResponse } from "../../../../utils/errors";
+import { withApiVersion } from "../../../../utils/apiVersion";
+import { withScope } from "../../../../utils/apiKeys";
+import { addRequestLogFields, getRequestLogger, withRequestLog } from "../../../../utils/requestLog";
+import { getAuditContext } from "../../../../utils/audit";
+import {
+  AdvocateCsvRowError,
+  MAX_IMPORT_ROWS,
+  parseAdvocateCsv
+} from "../../../../utils/advocateCsv";
+
+/**
+ * Read the CSV text from the request
+ * Accepts a raw text/csv body or a multipart form with a "file" field
+ */
+async function readCsvBody(request: NextRequest): Promise<string> {
+  const contentType = request.headers.get("content-type") || "";
+
+  if (contentType.startsWith("multipart/form-data")) {
+    const file = (await request.formData()).get("file");
+    return typeof file === "string" ? file : (await file?.text()) ?? "";
+  }
+
+  return request.text();
+}
+
+/**
+ * POST /api/advocates/import
+ * Imports advocates from a CSV file with the columns name, degree, experience,
+ * phone, city, state and specialties (separated by semicolons)
+ *
+ * Advocates are matched on phone number: new ones are inserted and existing ones
+ * updated, in batches inside a single transaction. Rows that fail validation or
+ * match an existing advocate exactly are skipped. Errors are reported per row,
+ * where the header is row 1
+ *
+ * With ?dryRun=true every row is validated and the counts are worked out,
+ * but nothing is written
+ */
+export const POST = withRequestLog(withApiVersion(withScope("advocates:write", async (request: NextRequest) => {
+  const dryRun = request.nextUrl.searchParams.get("dryRun") === "true";
+
+  let text: string;
+  try {
+    text = await readCsvBody(request);
+  } catch {
+    return errorResponse(400, "Request body must be a CSV file", "INVALID_CSV");
+  }
+
+  const { rows, errors, totalRows, missingColumns } = parseAdvocateCsv(text);
+
+  if (missingColumns.length > 0) {
+    return errorResponse(400, "CSV is missing required columns", "INVALID_CSV", {
+      missingColumns,
+    });
+  }
+  if (totalRows === 0) {
+    return errorResponse(400, "CSV contains no rows", "INVALID_CSV");
+  }
+  if (totalRows > MAX_IMPORT_ROWS) {
+    return errorResponse(
+      413,
+      `CSV contains ${totalRows} rows; at most ${MAX_IMPORT_ROWS} can be imported at once`,
+      "PAYLOAD_TOO_LARGE"
+    );
+  }
+
+  try {
+    // Resolve every specialty name in one query, then flag rows naming unknown ones
+    const specialtyIds = await findSpecialtyIdsByName(
+      Array.from(new Set(rows.flatMap(({ input }) => input.specialties)))
+    );
+
+    const rowErrors: AdvocateCsvRowError[] = [...errors];
+    const items = [];
+    for (const { row, input } of rows) {
+      const unknownSpecialties = input.specialties.filter(
+        name => !specialtyIds.has(name.toLowerCase())
+      );
+
+      if (unknownSpecialties.length > 0) {
+        rowErrors.push({
+          row,
+          errors: { specialties: `Unknown specialties: ${unknownSpecialties.join(", ")}` },
+        });
+      } else {
+        items.push({
+          row,
+          input,
+          specialtyIds: Array.from(
+            new Set(input.specialties.map(name => specialtyIds.get(name.toLowerCase()) as string))
+          ),
+        });
+      }
+    }
+
+    const plan = await planAdvocateImport(items);
+    rowErrors.push(...plan.errors);
+    rowErrors.sort((a, b) => a.row - b.row);
+
+    if (!dryRun) {
+      await applyAdvocateImport(plan, getAuditContext(request));
+    }
+
+    const counts = {
+      totalRows,
+      inserted: plan.inserts.length,
+      updated: plan.updates.length,
+      skipped: plan.unchanged + rowErrors.length,
+    };
+    addRequestLogFields(request, { dryRun, ...counts });
+
+    return Response.json({
+      success: true,
+      data: { dryRun, ...counts, errors: rowErrors },
+    });
+  } catch (error) {
+    getRequestLogger(request).error("Error importing advocates", { error });
+    return errorResponse(
+      500,
+      error instanceof Error ? error.message : "Failed to import advocates",
+      "INTERNAL_ERROR"
+    );
+  }
+})));
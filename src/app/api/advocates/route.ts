@@ -1,38 +1,83 @@
 import db from "../../../db";
-import { advocates, specialties, advocateSpecialties, locations } from "../../../db/schema";
-import { eq, sql, desc, asc, and } from "drizzle-orm";
+import { advocates } from "../../../db/schema";
+import {
+  attachAdvocateRelations,
+  findSpecialtyIdsByName,
+  getAdvocateColumns,
+  getAdvocateDetail,
+  insertAdvocate
+} from "../../../db/queries/advocates";
+import { countAdvocateFacets } from "../../../db/queries/facets";
+import { sql, and } from "drizzle-orm";
 import { NextRequest } from "next/server";
 import { 
   getPaginationParams, 
   getLinkHeader,
   DEFAULT_PAGE_SIZE,
   decodeCursor,
-  encodeCursor
+  encodeCursor,
+  getOffset,
+  buildKeysetCondition,
+  selectCursorValues
 } from "../../../utils/pagination";
+import { getSortKeyOrderBy, reverseSortKeys } from "../../../utils/sorting";
+import { getIncludeDeletedParam } from "../../../utils/filtering";
+import { buildAdvocateQuery } from "../../../utils/advocateQuery";
+import { getFacetsParam } from "../../../utils/facets";
 import {
-  getSortParams,
-  getSortExpressionsWithCaseInsensitive,
-  ALLOWED_ADVOCATE_SORT_FIELDS
-} from "../../../utils/sorting";
+  getFieldsParam,
+  getIncludeParam,
+  needsPrimaryLocation,
+  pickAdvocateFields
+} from "../../../utils/fieldSelection";
+import { getNearParamError, roundDistance } from "../../../utils/geo";
+import { getStrictParam, validateAdvocateQuery } from "../../../utils/queryValidation";
+import { getFilterExpressionError } from "../../../utils/filterExpression";
+import { getQueryCostError } from "../../../utils/queryCost";
 import {
-  getFilterParams,
-  buildFilterConditions
-} from "../../../utils/filtering";
+  getContentEtag,
+  ifNoneMatchSatisfied,
+  notModifiedResponse,
+  setRevalidationHeaders
+} from "../../../utils/etag";
+import { errorResponse } from "../../../utils/errors";
+import { getApiVersion, toV2Advocate, withApiVersion } from "../../../utils/apiVersion";
+import { withScope } from "../../../utils/apiKeys";
+import { addRequestLogFields, getRequestLogger, withRequestLog } from "../../../utils/requestLog";
+import { getAuditContext } from "../../../utils/audit";
+import { isAdminRequest } from "../../../utils/auth";
+import { validateAdvocateInput } from "../../../utils/advocateValidation";
 
 /**
  * GET /api/advocates
  * Retrieves a list of advocates with their specialties and location information
  * 
+ * The complete parameter reference is generated from the filter registry and served
+ * at /api/openapi.json (readable at /docs); unknown parameters are ignored
+ * 
+ * Served as version 1 here and at /api/v1/advocates, and as version 2 at
+ * /api/v2/advocates or with an Accept-Version: 2 header (see utils/apiVersion)
+ * 
  * Supports pagination with the following query parameters:
  * - page: Page number (default: 1)
- * - limit: Items per page (default: 10, allowed values: 10, 25, 50)
- * - cursor: Cursor for cursor-based pagination
- * - cursorField: Field to use for cursor-based pagination (default: id)
+ * - limit: Items per page (default: 10, allowed values: 5, 10, 25, 50)
+ * - cursor: Signed keyset cursor taken from nextCursor/prevCursor of a previous response.
+ *   It carries the active sort key values plus the id, and is rejected with 400 when
+ *   the sort or filter parameters differ from the request it was issued for
+ * 
+ * Supports full-text search with the following query parameter:
+ * - q: Words to look for in the advocate's name, degree, cities, states and
+ *   specialty names. Every word must match, and partially typed words match as
+ *   prefixes. A phone number matches regardless of its formatting. Without an
+ *   explicit sort parameter the results are ordered by relevance
  * 
  * Supports sorting with the following query parameters:
- * - sort: Field to sort by (default: createdAt)
- *   Allowed values: firstName, lastName, degree, yearsOfExperience, createdAt, updatedAt
- * - order: Sort direction (default: desc)
+ * - sort: Comma-separated fields to sort by, most significant first (default: -createdAt)
+ *   A leading - sorts a field descending, e.g. sort=-yearsOfExperience,lastName,city
+ *   Allowed values: firstName, lastName, degree, yearsOfExperience, createdAt, updatedAt,
+ *   city and state (primary location), specialtyCount, distance with a radius search
+ *   and relevance with q
+ * - order: Direction of fields without a - prefix (default: asc)
  *   Allowed values: asc, desc
  * - secondarySort: Secondary field to sort by (optional)
  * - secondaryOrder: Secondary sort direction (default: asc)
@@ -55,214 +100,271 @@ import {
  * - Array filters: field[operation]=value
  *   - specialty[any]=Trauma,Anxiety (Has any of these specialties)
  *   - specialty[all]=Trauma,Anxiety (Has all of these specialties)
- * - Location filters:
+ * - Location filters (match any of an advocate's locations, not only the primary one):
  *   - city[contains]=New (Cities containing "New")
  *   - city[eq]=New York (Exact city match)
+ * - Fuzzy filters tolerate typos by comparing trigram similarity:
+ *   - lastName[fuzzy]=Jonhson, firstName[fuzzy]=..., city[fuzzy]=Chicgo
+ *   - fuzzyThreshold=0.4 (Minimum similarity between 0 and 1, default 0.3 or
+ *     the FUZZY_MATCH_THRESHOLD environment variable)
+ *   Without an explicit sort parameter the results are ordered by similarity
+ * - Radius search (matches any of an advocate's locations within the radius):
+ *   - near=41.88,-87.63 or near=zip:60601 (Point to search around, by coordinates or
+ *     by ZIP code from the bundled ZIP code dataset)
+ *   - radius=25 (Miles, default 25; suffix with km for kilometers, e.g. radius=40km)
+ *   Each advocate then has a distance to their nearest location, in the radius unit
+ * - Filter expressions combine filters with and, or, not and parentheses:
+ *   - filter=degree in (MD, PhD) and specialty any (Trauma, Anxiety) and not city eq Chicago
+ *   Fields are the parameter names above and operators the filter operations, or
+ *   =, !=, >, >=, < and <=. Quote values that contain spaces, e.g. city eq "New York".
+ *   The expression is combined with the other filters by and; a malformed expression
+ *   is rejected with 400 INVALID_FILTER, pointing at the offending column
+ * - Soft-deleted advocates are excluded; admins may pass includeDeleted=true
+ *   with an API key that has the admin scope to include them. Version 1 only
+ *   returns the deletedAt field of advocates with includeDeleted=true
+ * 
+ * Supports facet counts with the following query parameter:
+ * - facets: Comma-separated facets to count, any of degree, specialty, city, experience
+ *   The response then includes a facets object with, per facet, the number of matching
+ *   advocates for each value, e.g. { "degree": [{ "value": "MD", "count": 12 }] }.
+ *   Each facet is counted with the filters on its own field left out, so
+ *   degree[in]=MD still returns the counts of the other degrees. Experience is
+ *   counted in the bands 0-4, 5-9, 10-14, 15-19 and 20+ years
+ * 
+ * Supports sparse fieldsets with the following query parameters:
+ * - fields: Comma-separated advocate fields to return, e.g. firstName,lastName,city.
+ *   id is always returned, and only the selected columns are read
+ * - include: Comma-separated relations to load, any of specialties, locations and
+ *   specialtyDetails (default: specialties in version 1, specialties,locations in
+ *   version 2). Relations that are left out are not queried; an empty value loads none
+ * 
+ * Supports strict query validation:
+ * - strict=true: Unknown parameters, unsupported filter operations and malformed values
+ *   are rejected with 400 INVALID_QUERY, listing every rejected parameter and the reason
+ *   in error.details. Strict mode is on by default for API key callers (strict=false
+ *   turns it off). In lenient mode these parameters are ignored and reported in a
+ *   warnings array of the response; version 1 only reports them with strict=false
+ * 
+ * Version 1 responses keep their original shape by default: success, data and
+ * pagination, with facets, warnings, locations and deletedAt only when requested
+ * 
+ * Supports conditional requests:
+ * - The ETag header is computed from the ids and updatedAt values of the returned
+ *   rows, the total count, the facet counts and the normalized query. Send it back
+ *   in If-None-Match to get a 304 Not Modified while the result is unchanged
  * 
  * Example usage:
  * - /api/advocates?page=1&limit=10 (Get first page with 10 items)
+ * - /api/advocates?q=anxiety chicago (Best matches for both words first)
  * - /api/advocates?page=2&limit=25 (Get second page with 25 items)
  * - /api/advocates?cursor=<cursor_value> (Get next page using cursor)
  * - /api/advocates?sort=lastName&order=asc (Sort by last name ascending)
- * - /api/advocates?sort=yearsOfExperience&order=desc&secondarySort=lastName&secondaryOrder=asc 
- *   (Sort by years of experience descending, then by last name ascending)
+ * - /api/advocates?sort=-yearsOfExperience,lastName,city
+ *   (Sort by years of experience descending, then by last name and primary city ascending)
  * - /api/advocates?firstName[contains]=John&experience[gte]=5 (Filter by name containing "John" and 5+ years experience)
  * - /api/advocates?specialty[any]=Trauma,Anxiety&city=New York (Filter by specialties and city)
+ * - /api/advocates?near=zip:60601&radius=10&sort=distance&order=asc (Nearest advocates within 10 miles)
+ * - /api/advocates?degree[in]=MD&facets=degree,specialty (Filter by degree, with degree and specialty counts)
+ * - /api/advocates?fields=firstName,lastName,city&include=specialties (Names, city and specialty names only)
  */
-export async function GET(request: NextRequest) {
+export const GET = withRequestLog(withApiVersion(withScope("advocates:read", async (request: NextRequest) => {
   try {
     // Get pagination parameters from request
     const paginationParams = getPaginationParams(request);
     // Ensure we're using the limit from the request parameters
     const { page = 1, limit = DEFAULT_PAGE_SIZE, cursor } = paginationParams;
     
-    // Log pagination parameters for debugging
-
-    
-    // Get sort parameters from request
-    const sortParams = getSortParams(request);
-    
-    // Get filter parameters from request
-    const filterParams = getFilterParams(request);
-    
-    // Get the text fields that should use case-insensitive sorting
-    const textFields = ['firstName', 'lastName', 'degree'];
-    
-    // Generate sort expressions with case-insensitive sorting for text fields
-    const sortExpressions = getSortExpressionsWithCaseInsensitive(
-      advocates, 
-      sortParams,
-      textFields
-    );
-    
-    // Build filter conditions
-    const filterConditions = buildFilterConditions(
-      { advocates, specialties, advocateSpecialties, locations },
-      filterParams
-    );
-    
-    // Start building the query
-    const baseQuery = db.select().from(advocates);
+    // Soft-deleted advocates are only visible to admins
+    const includeDeleted = getIncludeDeletedParam(request);
+    if (includeDeleted && !isAdminRequest(request)) {
+      return errorResponse(403, "includeDeleted requires admin access", "FORBIDDEN");
+    }
     
-    // Apply filters if we have any
-    const filteredQuery = filterConditions.length > 0
-      ? baseQuery.where(and(...filterConditions))
-      : baseQuery;
+    const nearError = getNearParamError(request);
+    if (nearError) {
+      return errorResponse(400, nearError, "INVALID_NEAR");
+    }
     
-    // Apply sorting if we have sort expressions
-    const sortedQuery = sortExpressions.length > 0
-      ? filteredQuery.orderBy(...sortExpressions)
-      : filteredQuery;
+    const filterError = getFilterExpressionError(request);
+    if (filterError) {
+      return errorResponse(400, filterError.message, "INVALID_FILTER", filterError.details);
+    }
     
-    const allAdvocates = await sortedQuery;
+    // Long value lists and many combined filters make queries expensive, so they are capped
+    const costError = getQueryCostError(request);
+    if (costError) {
+      return errorResponse(400, costError.message, "QUERY_TOO_COMPLEX", costError.details);
+    }
     
-    // Get total count from the fetched data
-    const totalCount = allAdvocates.length;
+    // Unknown and malformed parameters are rejected in strict mode and reported otherwise
+    const strict = getStrictParam(request);
+    const queryIssues = validateAdvocateQuery(request, "listAdvocates");
+    if (strict && queryIssues.length > 0) {
+      return errorResponse(400, "Invalid query parameters", "INVALID_QUERY", queryIssues);
+    }
+    // Version 1 only reports them to callers that ask for lenient mode with strict=false
+    const version = getApiVersion(request);
+    const reportWarnings = version !== "1" || request.nextUrl.searchParams.get("strict") === "false";
+    const warnings = reportWarnings && queryIssues.length > 0 ? queryIssues : undefined;
     
-    let advocatesList;
+    // Resolve search, filter and sort parameters into conditions and sort keys,
+    // with id as the unique tiebreaker
+    const {
+      sortParams,
+      filterParams,
+      filterExpression,
+      searchTerm,
+      distance,
+      conditions: filterConditions,
+      conditionsWithout,
+      sortKeys,
+      scope: cursorScope
+    } = buildAdvocateQuery(request, { includeDeleted, strict });
+    addRequestLogFields(request, {
+      filters: { q: searchTerm, filters: filterParams, filter: filterExpression, sort: sortParams, includeDeleted },
+    });
+    const cursorFields = sortKeys.map(key => key.field);
+    const facetNames = getFacetsParam(request);
+    const fields = getFieldsParam(request);
+    const include = getIncludeParam(request, version);
     
-    if (cursor) {
-      // Cursor-based pagination
-      const cursorData = decodeCursor(cursor);
-
-      
-      if (cursorData) {
-        // Find the index of the item with the cursor ID
-        const cursorItemIndex = allAdvocates.findIndex((advocate: any) => 
-          advocate.id === cursorData.value);
-        
-
-        
-        if (cursorItemIndex !== -1) {
-          // If cursor direction is forward, get items after the cursor
-          // If cursor direction is backward, get items before the cursor
-          if (cursorData.direction === 'forward') {
-            advocatesList = allAdvocates.slice(cursorItemIndex + 1, cursorItemIndex + 1 + limit);
-
-          } else {
-            // For backward pagination, get the previous page
-            const startIndex = Math.max(0, cursorItemIndex - limit);
-            advocatesList = allAdvocates.slice(startIndex, cursorItemIndex);
-
-          }
-        } else {
-          // Cursor item not found, fall back to first page
-          advocatesList = allAdvocates.slice(0, limit);
-
-        }
-      } else {
-        // Invalid cursor, fall back to first page
-        advocatesList = allAdvocates.slice(0, limit);
-
-      }
-    } else {
-      // Offset-based pagination
-      const offset = (page - 1) * limit;
-      const end = offset + limit;
-
-      advocatesList = allAdvocates.slice(offset, end);
-    }
+    // Only rows matching the filters are counted and paged
+    const whereClause = filterConditions.length > 0
+      ? and(...filterConditions)
+      : undefined;
     
-    // Create a map to store the complete advocate data
-    const advocatesMap = new Map();
+    // Decode and verify the cursor, if one was given
+    const cursorData = cursor ? decodeCursor(cursor, cursorScope) : undefined;
     
-    // Initialize the map with advocate data
-    for (const advocate of advocatesList) {
-      advocatesMap.set(advocate.id, {
-        ...advocate,
-        specialties: [],
-        city: "",
-        state: "",
-        country: "",
-      });
+    if (cursor && (!cursorData || cursorData.fields.join(',') !== cursorFields.join(','))) {
+      return errorResponse(
+        400,
+        'Invalid cursor for the current sort and filter parameters',
+        'INVALID_CURSOR'
+      );
     }
     
-    // 2. Get all locations
-    const locationsList = await db
-      .select()
-      .from(locations);
+    // Walking backwards from a cursor reads the result set in reverse order
+    const isBackward = cursorData?.direction === 'backward';
+    const sortExpressions = getSortKeyOrderBy(isBackward ? reverseSortKeys(sortKeys) : sortKeys);
     
-    // Add location data to advocates
-    for (const location of locationsList) {
-      const advocate = advocatesMap.get(location.advocateId);
-      if (advocate) {
-        advocate.city = location.city;
-        advocate.state = location.state || "";
-        advocate.country = location.country;
-      }
-    }
+    // Cursor-based pagination seeks past the cursor row; offset-based skips whole pages
+    const pageConditions = cursorData
+      ? [whereClause, buildKeysetCondition(sortKeys, cursorData.values, cursorData.direction)]
+      : [whereClause];
     
-    // 3. Get all advocate-specialty relationships with specialties
-    // We'll use a simpler approach to avoid TypeScript errors
-    const advocateSpecialtiesRaw = await db.select().from(advocateSpecialties);
-    const specialtiesList = await db.select().from(specialties);
+    // Count, page and facet queries are independent, so run them side by side
+    // In cursor mode one extra row is read to tell whether another page follows
+    const [countResult, pageRows, facets] = await Promise.all([
+      db
+        .select({ count: sql<number>`count(*)`.mapWith(Number) })
+        .from(advocates)
+        .where(whereClause),
+      db
+        .select({
+          // Version 1 only returns deletedAt to admins who asked for deleted advocates
+          advocate: getAdvocateColumns(fields, { deletedAt: version !== "1" || includeDeleted }),
+          cursorValues: selectCursorValues(sortKeys),
+          distance: distance ? distance.mapWith(Number) : sql<null>`null`,
+        })
+        .from(advocates)
+        .where(and(...pageConditions))
+        .orderBy(...sortExpressions)
+        .limit(cursorData ? limit + 1 : limit)
+        .offset(cursorData ? 0 : getOffset(page, limit)),
+      facetNames.length > 0
+        ? countAdvocateFacets(facetNames, conditionsWithout)
+        : undefined,
+    ]);
     
-    // Create a map of specialties by ID for easy lookup
-    const specialtiesMap = new Map();
-    for (const specialty of specialtiesList) {
-      specialtiesMap.set(specialty.id, specialty);
+    const totalCount = countResult[0]?.count ?? 0;
+    const hasMoreRows = pageRows.length > limit;
+    const currentRows = pageRows.slice(0, limit);
+    if (isBackward) {
+      currentRows.reverse();
     }
+    const advocatesList = currentRows.map(row => row.advocate);
+    addRequestLogFields(request, { rowCount: advocatesList.length, totalCount });
     
-    // Combine the data manually
-    const advocateSpecialtiesList = advocateSpecialtiesRaw.map(relation => ({
-      advocate_specialties: relation,
-      specialties: specialtiesMap.get(relation.specialtyId)
-    }));
-    
-    // Add specialty data to advocates
-    for (const relation of advocateSpecialtiesList) {
-      if (!relation.advocate_specialties || !relation.specialties) continue;
-      
-      const advocateId = relation.advocate_specialties.advocateId;
-      const advocate = advocatesMap.get(advocateId);
-      if (advocate && relation.specialties.name) {
-        advocate.specialties.push(relation.specialties.name);
-      }
+    // The body is built from these rows, the count and the facets under the normalized
+    // query, so a client holding the same tag already has this response
+    const etag = getContentEtag([
+      cursorScope,
+      cursor ? cursor : { page, limit },
+      facetNames,
+      fields ?? null,
+      include,
+      totalCount,
+      facets ?? null,
+      warnings ?? null,
+      advocatesList.map(advocate => [advocate.id, advocate.updatedAt]),
+    ]);
+    const ifNoneMatch = request.headers.get("if-none-match");
+    if (ifNoneMatch && ifNoneMatchSatisfied(ifNoneMatch, etag)) {
+      return notModifiedResponse(etag);
     }
     
-    // Convert map to array for response
-    const data = Array.from(advocatesMap.values());
+    // Load the requested relations for the advocates on this page only
+    const advocatesWithRelations = await attachAdvocateRelations(advocatesList, {
+      include,
+      primaryLocation: needsPrimaryLocation(fields),
+    });
+    const data = advocatesWithRelations.map((advocate, index) => pickAdvocateFields(
+      distance ? { ...advocate, distance: roundDistance(currentRows[index].distance ?? 0) } : advocate,
+      fields,
+      include
+    ));
     
-    // If no data is returned from the database (likely because DATABASE_URL is not set),
-    // If no data is returned from the database, return an empty array
+    // If no data is returned for this page, return an empty array with the real count,
+    // e.g. for a page past the last one
     if (data.length === 0) {
-      console.warn("No data returned from database");
-      
-      return Response.json({ 
+      const emptyResponse = Response.json({ 
         success: true,
         data: [],
         pagination: {
-          totalCount: 0,
-          pageSize: paginationParams.limit || DEFAULT_PAGE_SIZE,
-          currentPage: paginationParams.page || 1,
-          totalPages: 0,
+          totalCount,
+          pageSize: limit,
+          currentPage: page,
+          totalPages: Math.ceil(totalCount / limit),
           hasNextPage: false,
           hasPreviousPage: false
         },
-
+        facets,
+        warnings,
       });
+      setRevalidationHeaders(emptyResponse.headers, etag);
+      return emptyResponse;
     }
     
     // Generate pagination metadata
-    // For offset-based pagination, calculate if there are more pages
-    const hasNextPage = advocatesList.length < totalCount && 
-      (cursor ? true : (page - 1) * limit + advocatesList.length < totalCount);
-    const hasPreviousPage = cursor ? true : page > 1;
+    // For cursor-based pagination, the extra row tells whether the walk can continue;
+    // for offset-based pagination, calculate if there are more pages
+    let hasNextPage: boolean;
+    let hasPreviousPage: boolean;
+    
+    if (cursorData) {
+      hasNextPage = isBackward ? true : hasMoreRows;
+      hasPreviousPage = isBackward ? hasMoreRows : true;
+    } else {
+      hasNextPage = advocatesList.length < totalCount &&
+        (page - 1) * limit + advocatesList.length < totalCount;
+      hasPreviousPage = page > 1;
+    }
     
-    // Generate cursors for next/prev pages
+    // Generate cursors for next/prev pages from the sort key values of the boundary rows
     let nextCursor, prevCursor;
     
-    if (advocatesList.length > 0) {
-      // For next cursor, use the last item's ID
+    if (currentRows.length > 0) {
+      // For next cursor, use the last item
       if (hasNextPage) {
-        const lastItem = advocatesList[advocatesList.length - 1];
-        nextCursor = encodeCursor('id', lastItem.id, 'forward');
+        const lastRow = currentRows[currentRows.length - 1];
+        nextCursor = encodeCursor(cursorFields, lastRow.cursorValues, 'forward', cursorScope);
       }
       
-      // For previous cursor, use the first item's ID
+      // For previous cursor, use the first item
       if (hasPreviousPage) {
-        const firstItem = advocatesList[0];
-        prevCursor = encodeCursor('id', firstItem.id, 'backward');
+        const firstRow = currentRows[0];
+        prevCursor = encodeCursor(cursorFields, firstRow.cursorValues, 'backward', cursorScope);
       }
     }
     
@@ -275,7 +377,7 @@ export async function GET(request: NextRequest) {
       hasPreviousPage,
       nextCursor,
       prevCursor,
-      cursorField: 'id'
+      cursorField: cursorFields.join(',')
     };
     
     // Create response with pagination headers
@@ -283,19 +385,20 @@ export async function GET(request: NextRequest) {
       success: true,
       data,
       pagination: paginationMeta,
+      facets,
+      warnings,
     });
     
     // Add Link header for navigation (RFC 5988)
     const linkHeader = getLinkHeader(request, paginationMeta);
     response.headers.set('Link', linkHeader);
     
-    // Add ETag for caching
-    const etag = `W/"${totalCount}-${page}-${limit}-${sortParams.field}-${sortParams.direction}-${filterParams.length}"`;
-    response.headers.set('ETag', etag);
+    // Add ETag and caching headers so clients can revalidate with If-None-Match
+    setRevalidationHeaders(response.headers, etag);
     
     return response;
   } catch (error) {
-    console.error("Error fetching advocates:", error);
+    getRequestLogger(request).error("Error fetching advocates", { error });
     return Response.json(
       {
         success: false,
@@ -305,4 +408,73 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}), { v2Data: toV2Advocate }));
+
+
+/**
+ * POST /api/advocates
+ * Creates an advocate together with its locations and specialties
+ * 
+ * Request body:
+ * {
+ *   "firstName": "Jane",              (required, max 100 characters)
+ *   "lastName": "Smith",              (required, max 100 characters)
+ *   "degree": "PhD",                  (required, max 50 characters)
+ *   "yearsOfExperience": 8,           (required, non-negative integer)
+ *   "phoneNumber": "(555) 987-6543",  (required, 10 digit US number, formatting ignored)
+ *   "specialties": ["Trauma & PTSD"], (names of existing specialties, matched case-insensitively)
+ *   "location": { "city": "Chicago", "state": "IL", "country": "United States" }
+ * }
+ * 
+ * An advocate who practices in several cities can be given "locations" instead of
+ * "location", e.g. [{ "city": "Chicago", "isPrimary": true }, { "city": "Evanston" }].
+ * At most one location may be primary; without a flag the first one is primary.
+ * 
+ * Responds with 201 and the created advocate, or 400 with per-field errors in
+ * error.details when validation fails or a specialty does not exist
+ */
+export const POST = withRequestLog(withApiVersion(withScope("advocates:write", async (request: NextRequest) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, "Request body must be valid JSON", "INVALID_JSON");
+  }
+  
+  const { data: input, errors } = validateAdvocateInput(body);
+  if (!input) {
+    return errorResponse(400, "Validation failed", "VALIDATION_ERROR", errors);
+  }
+  
+  try {
+    // Resolve specialty names to IDs and reject any that do not exist
+    const specialtyIds = await findSpecialtyIdsByName(input.specialties);
+    const unknownSpecialties = input.specialties.filter(
+      name => !specialtyIds.has(name.toLowerCase())
+    );
+    
+    if (unknownSpecialties.length > 0) {
+      return errorResponse(400, "Validation failed", "VALIDATION_ERROR", {
+        specialties: `Unknown specialties: ${unknownSpecialties.join(", ")}`,
+      });
+    }
+    
+    const advocate = await insertAdvocate(
+      input,
+      Array.from(new Set(specialtyIds.values())),
+      getAuditContext(request)
+    );
+    const created = await getAdvocateDetail(advocate.id);
+    
+    const response = Response.json({ success: true, data: created }, { status: 201 });
+    response.headers.set("Location", `${request.nextUrl.pathname}/${advocate.id}`);
+    return response;
+  } catch (error) {
+    getRequestLogger(request).error("Error creating advocate", { error });
+    return errorResponse(
+      500,
+      error instanceof Error ? error.message : "Failed to create advocate",
+      "INTERNAL_ERROR"
+    );
+  }
+}), { v2Data: toV2Advocate }));
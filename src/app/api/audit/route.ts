@@ -0,0 +1,58 @@
+import { NextRequest } from "next/server";
+import { listAuditEntries } from "../../../db/queries/audit";
+import { errorResponse } from "../../../utils/errors";
+import { withApiVersion } from "../../../utils/apiVersion";
+import { withScope } from "../../../utils/apiKeys";
+import { addRequestLogFields, getRequestLogger, withRequestLog } from "../../../utils/requestLog";
+import { getAuditFilterParams } from "../../../utils/audit";
+import {
+  applyPagination,
+  getLinkHeader,
+  getPaginationMeta,
+  getPaginationParams
+} from "../../../utils/pagination";
+
+/**
+ * GET /api/audit
+ * Lists the audit log of every advocate and specialty, newest first
+ *
+ * Supports the following query parameters, each matching exactly:
+ * - actor: anonymous, admin-token, api-key:<key id> or seed
+ * - action: create, update, delete, restore, import, seed or merge
+ * - entityType: advocate or specialty
+ * - entityId: ID of the advocate or specialty
+ * - requestId: X-Request-Id of the request that made the writes
+ * - from, to: ISO 8601 dates; entries made at or after from and before to
+ *
+ * Paginated with page and limit like GET /api/advocates. Invalid filters are
+ * rejected with 400 INVALID_QUERY, listing each one in details
+ *
+ * Example usage:
+ * - /api/audit?actor=api-key:0b6f...&from=2026-10-01
+ * - /api/audit?entityType=specialty&action=merge
+ */
+export const GET = withRequestLog(withApiVersion(withScope("admin", async (request: NextRequest) => {
+  const { filters, issues } = getAuditFilterParams(request);
+  if (issues.length > 0) {
+    return errorResponse(400, "Invalid query parameters", "INVALID_QUERY", issues);
+  }
+
+  try {
+    const paginationParams = { ...getPaginationParams(request), cursor: undefined };
+    const { entries, totalCount } = await listAuditEntries(filters, applyPagination(paginationParams));
+    addRequestLogFields(request, { filters, rowCount: entries.length, totalCount });
+
+    const { cursorField: _cursorField, ...pagination } = getPaginationMeta(totalCount, paginationParams, entries);
+
+    const response = Response.json({ success: true, data: entries, pagination });
+    response.headers.set("Link", getLinkHeader(request, pagination));
+    return response;
+  } catch (error) {
+    getRequestLogger(request).error("Error fetching audit log", { error });
+    return errorResponse(
+      500,
+      error instanceof Error ? error.message : "Failed to fetch audit log",
+      "INTERNAL_ERROR"
+    );
+  }
+})));
@@ -0,0 +1,40 @@
+import { NextRequest } from "next/server";
+import { revokeApiKey } from "../../../../db/queries/apiKeys";
+import { errorResponse } from "../../../../utils/errors";
+import { withApiVersion } from "../../../../utils/apiVersion";
+import { withScope } from "../../../../utils/apiKeys";
+import { getRequestLogger, withRequestLog } from "../../../../utils/requestLog";
+import { isValidUuid } from "../../../../utils/validation";
+
+/**
+ * DELETE /api/keys/[id]
+ * Revokes an API key; requests with it are rejected with 401 from then on.
+ * The key stays listed with its revokedAt, and revoking it again changes nothing
+ */
+export const DELETE = withRequestLog(withApiVersion(withScope("admin", async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const { id } = params;
+
+  if (!isValidUuid(id)) {
+    return errorResponse(404, `API key ${id} not found`, "NOT_FOUND");
+  }
+
+  try {
+    const apiKey = await revokeApiKey(id);
+
+    if (!apiKey) {
+      return errorResponse(404, `API key ${id} not found`, "NOT_FOUND");
+    }
+
+    return Response.json({ success: true, data: apiKey });
+  } catch (error) {
+    getRequestLogger(request).error("Error revoking API key", { error });
+    return errorResponse(
+      500,
+      error instanceof Error ? error.message : "Failed to revoke API key",
+      "INTERNAL_ERROR"
+    );
+  }
+})));
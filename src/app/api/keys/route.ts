@@ -0,0 +1,71 @@
+import { NextRequest } from "next/server";
+import { listApiKeys } from "../../../db/queries/apiKeys";
+import { errorResponse } from "../../../utils/errors";
+import { withApiVersion } from "../../../utils/apiVersion";
+import { createApiKey, withScope } from "../../../utils/apiKeys";
+import { getRequestLogger, withRequestLog } from "../../../utils/requestLog";
+import { validateApiKeyInput } from "../../../utils/apiKeyValidation";
+
+/**
+ * GET /api/keys
+ * Lists every API key, newest first, including revoked and expired ones;
+ * keys are identified by their prefix and never returned in full
+ */
+export const GET = withRequestLog(withApiVersion(withScope("admin", async (request: NextRequest) => {
+  try {
+    const data = await listApiKeys();
+
+    return Response.json({ success: true, data });
+  } catch (error) {
+    getRequestLogger(request).error("Error fetching API keys", { error });
+    return errorResponse(
+      500,
+      error instanceof Error ? error.message : "Failed to fetch API keys",
+      "INTERNAL_ERROR"
+    );
+  }
+})));
+
+/**
+ * POST /api/keys
+ * Mints an API key
+ *
+ * Request body:
+ * {
+ *   "name": "Partner directory",
+ *   "scopes": ["advocates:read"],
+ *   "expiresAt": "2027-01-01T00:00:00Z"   // optional; without it the key does not expire
+ * }
+ *
+ * Responds with 201, the stored key in data and the key itself in key. The key
+ * is only shown in this response; only its hash is stored
+ */
+export const POST = withRequestLog(withApiVersion(withScope("admin", async (request: NextRequest) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, "Request body must be valid JSON", "INVALID_JSON");
+  }
+
+  const { data: input, errors } = validateApiKeyInput(body);
+  if (!input) {
+    return errorResponse(400, "Validation failed", "VALIDATION_ERROR", errors);
+  }
+
+  try {
+    const { apiKey, key } = await createApiKey(input);
+
+    const response = Response.json({ success: true, data: apiKey, key }, { status: 201 });
+    response.headers.set("Location", `${request.nextUrl.pathname}/${apiKey.id}`);
+    response.headers.set("Cache-Control", "no-store");
+    return response;
+  } catch (error) {
+    getRequestLogger(request).error("Error creating API key", { error });
+    return errorResponse(
+      500,
+      error instanceof Error ? error.message : "Failed to create API key",
+      "INTERNAL_ERROR"
+    );
+  }
+})));
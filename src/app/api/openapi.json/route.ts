@@ -0,0 +1,13 @@
+import { buildOpenApiDocument } from "../../../utils/openapi";
+
+/**
+ * GET /api/openapi.json
+ * Serves the OpenAPI 3.1 document of the advocates API
+ *
+ * The document is generated from the filter registry, the allowed sort fields and
+ * page sizes and the API types, so it always describes the running code.
+ * A readable version is served at /docs
+ */
+export async function GET() {
+  return Response.json(buildOpenApiDocument());
+}
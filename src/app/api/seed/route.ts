@@ -1,22 +1,39 @@
+import { NextRequest } from "next/server";
 import db from "../../../db";
 import { seedDatabase } from "../../../db/seed/advocates";
+import { isUniqueViolation } from "../../../db/queries/specialties";
+import { withScope } from "../../../utils/apiKeys";
+import { addRequestLogFields, getRequestLogger, withRequestLog } from "../../../utils/requestLog";
+import { getAuditContext } from "../../../utils/audit";
+import { errorResponse } from "../../../utils/errors";
 
-export async function POST() {
+/**
+ * POST /api/seed
+ * Insert the seed data into an empty database; requires an API key with the admin scope
+ * Nothing is written if seeding fails. Responds with 409 if the database is already seeded
+ */
+export const POST = withRequestLog(withScope("admin", async (request: NextRequest) => {
   try {
-    const result = await seedDatabase();
+    const result = await seedDatabase(getAuditContext(request));
+    const counts = {
+      advocates: result.advocates.length,
+      specialties: result.specialties.length,
+      locations: result.locations.length,
+      relationships: result.advocateSpecialties.length,
+    };
+    addRequestLogFields(request, counts);
     
     return Response.json({
       success: true,
-      data: {
-        advocates: result.advocates.length,
-        specialties: result.specialties.length,
-        locations: result.locations.length,
-        relationships: result.advocateSpecialties.length,
-      },
+      data: counts,
       message: "Database seeded successfully",
     });
   } catch (error) {
-    console.error("Error in seed API route:", error);
+    if (isUniqueViolation(error)) {
+      return errorResponse(409, "The database is already seeded", "ALREADY_SEEDED");
+    }
+    
+    getRequestLogger(request).error("Error in seed API route", { error });
     return Response.json(
       {
         success: false,
@@ -26,4 +43,4 @@ export async function POST() {
       { status: 500 }
     );
   }
-}
+}));
@@ -0,0 +1,69 @@
+import { NextRequest } from "next/server";
+import { mergeSpecialties } from "../../../../../db/queries/specialties";
+import { errorResponse } from "../../../../../utils/errors";
+import { withApiVersion } from "../../../../../utils/apiVersion";
+import { withScope } from "../../../../../utils/apiKeys";
+import { getRequestLogger, withRequestLog } from "../../../../../utils/requestLog";
+import { getAuditContext } from "../../../../../utils/audit";
+import { isValidUuid } from "../../../../../utils/validation";
+import { validateSpecialtyMerge } from "../../../../../utils/specialtyValidation";
+
+/**
+ * POST /api/specialties/[id]/merge
+ * Merges this specialty into another one and deletes it
+ *
+ * Request body: { "targetId": "<specialty ID>" }
+ *
+ * Every advocate with this specialty is given the target specialty instead.
+ * Responds with the target specialty and its new advocate count, plus the number
+ * of advocates that gained it in movedCount
+ */
+export const POST = withRequestLog(withApiVersion(withScope("advocates:write", async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const { id } = params;
+
+  if (!isValidUuid(id)) {
+    return errorResponse(404, `Specialty ${id} not found`, "NOT_FOUND");
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, "Request body must be valid JSON", "INVALID_JSON");
+  }
+
+  const { data: input, errors } = validateSpecialtyMerge(body, id);
+  if (!input) {
+    return errorResponse(400, "Validation failed", "VALIDATION_ERROR", errors);
+  }
+
+  try {
+    const result = await mergeSpecialties(id, input.targetId, getAuditContext(request));
+
+    if (result.status === "source_not_found") {
+      return errorResponse(404, `Specialty ${id} not found`, "NOT_FOUND");
+    }
+
+    if (result.status === "target_not_found") {
+      return errorResponse(400, "Validation failed", "VALIDATION_ERROR", {
+        targetId: `Specialty ${input.targetId} not found`,
+      });
+    }
+
+    return Response.json({
+      success: true,
+      data: result.specialty,
+      movedCount: result.movedCount,
+    });
+  } catch (error) {
+    getRequestLogger(request).error("Error merging specialties", { error });
+    return errorResponse(
+      500,
+      error instanceof Error ? error.message : "Failed to merge specialties",
+      "INTERNAL_ERROR"
+    );
+  }
+})));
@@ -0,0 +1,152 @@
+import { NextRequest } from "next/server";
+import {
+  deleteSpecialty,
+  findSpecialtyByName,
+  getSpecialty,
+  isUniqueViolation,
+  updateSpecialty
+} from "../../../../db/queries/specialties";
+import { errorResponse } from "../../../../utils/errors";
+import { withApiVersion } from "../../../../utils/apiVersion";
+import { withScope } from "../../../../utils/apiKeys";
+import { getRequestLogger, withRequestLog } from "../../../../utils/requestLog";
+import { getAuditContext } from "../../../../utils/audit";
+import { isValidUuid } from "../../../../utils/validation";
+import { validateSpecialtyPatch } from "../../../../utils/specialtyValidation";
+
+/**
+ * GET /api/specialties/[id]
+ * Retrieves a single specialty with its advocate count
+ */
+export const GET = withRequestLog(withApiVersion(withScope("advocates:read", async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const { id } = params;
+
+  if (!isValidUuid(id)) {
+    return errorResponse(404, `Specialty ${id} not found`, "NOT_FOUND");
+  }
+
+  try {
+    const specialty = await getSpecialty(id);
+
+    if (!specialty) {
+      return errorResponse(404, `Specialty ${id} not found`, "NOT_FOUND");
+    }
+
+    return Response.json({ success: true, data: specialty });
+  } catch (error) {
+    getRequestLogger(request).error("Error fetching specialty", { error });
+    return errorResponse(
+      500,
+      error instanceof Error ? error.message : "Failed to fetch specialty",
+      "INTERNAL_ERROR"
+    );
+  }
+})));
+
+/**
+ * PATCH /api/specialties/[id]
+ * Renames a specialty or changes its description
+ *
+ * Request body: { "name": "PTSD" }, { "description": "..." } or both;
+ * a null description clears it. Advocates keep the specialty under its new name.
+ * Responds with 409 if another specialty already has the new name
+ */
+export const PATCH = withRequestLog(withApiVersion(withScope("advocates:write", async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const { id } = params;
+
+  if (!isValidUuid(id)) {
+    return errorResponse(404, `Specialty ${id} not found`, "NOT_FOUND");
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, "Request body must be valid JSON", "INVALID_JSON");
+  }
+
+  const { data: changes, errors } = validateSpecialtyPatch(body);
+  if (!changes) {
+    return errorResponse(400, "Validation failed", "VALIDATION_ERROR", errors);
+  }
+
+  try {
+    if (changes.name && await findSpecialtyByName(changes.name, id)) {
+      return errorResponse(409, `Specialty "${changes.name}" already exists`, "SPECIALTY_EXISTS");
+    }
+
+    const specialty = await updateSpecialty(id, changes, getAuditContext(request));
+
+    if (!specialty) {
+      return errorResponse(404, `Specialty ${id} not found`, "NOT_FOUND");
+    }
+
+    return Response.json({ success: true, data: specialty });
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return errorResponse(409, `Specialty "${changes.name}" already exists`, "SPECIALTY_EXISTS");
+    }
+
+    getRequestLogger(request).error("Error updating specialty", { error });
+    return errorResponse(
+      500,
+      error instanceof Error ? error.message : "Failed to update specialty",
+      "INTERNAL_ERROR"
+    );
+  }
+})));
+
+/**
+ * DELETE /api/specialties/[id]
+ * Deletes a specialty
+ *
+ * Responds with 409 while advocates still have the specialty; pass force=true to
+ * delete it anyway and remove it from those advocates. To move the advocates to
+ * another specialty instead, use POST /api/specialties/[id]/merge
+ */
+export const DELETE = withRequestLog(withApiVersion(withScope("advocates:write", async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const { id } = params;
+
+  if (!isValidUuid(id)) {
+    return errorResponse(404, `Specialty ${id} not found`, "NOT_FOUND");
+  }
+
+  const force = request.nextUrl.searchParams.get("force") === "true";
+
+  try {
+    const result = await deleteSpecialty(id, getAuditContext(request), { force });
+
+    if (result.status === "not_found") {
+      return errorResponse(404, `Specialty ${id} not found`, "NOT_FOUND");
+    }
+
+    if (result.status === "in_use") {
+      const { advocateCount } = result.specialty;
+      return errorResponse(
+        409,
+        `Specialty is assigned to ${advocateCount} ${advocateCount === 1 ? "advocate" : "advocates"}; ` +
+          "merge it into another specialty or pass force=true",
+        "SPECIALTY_IN_USE",
+        { advocateCount }
+      );
+    }
+
+    return Response.json({ success: true, data: result.specialty });
+  } catch (error) {
+    getRequestLogger(request).error("Error deleting specialty", { error });
+    return errorResponse(
+      500,
+      error instanceof Error ? error.message : "Failed to delete specialty",
+      "INTERNAL_ERROR"
+    );
+  }
+})));
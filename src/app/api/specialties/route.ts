@@ -0,0 +1,85 @@
+import { NextRequest } from "next/server";
+import {
+  findSpecialtyByName,
+  insertSpecialty,
+  isUniqueViolation,
+  listSpecialties
+} from "../../../db/queries/specialties";
+import { errorResponse } from "../../../utils/errors";
+import { withApiVersion } from "../../../utils/apiVersion";
+import { withScope } from "../../../utils/apiKeys";
+import { addRequestLogFields, getRequestLogger, withRequestLog } from "../../../utils/requestLog";
+import { getAuditContext } from "../../../utils/audit";
+import { validateSpecialtyInput } from "../../../utils/specialtyValidation";
+
+/**
+ * GET /api/specialties
+ * Lists every specialty, ordered by name, with the number of advocates linked to it
+ * in advocateCount
+ */
+export const GET = withRequestLog(withApiVersion(withScope("advocates:read", async (request: NextRequest) => {
+  try {
+    const data = await listSpecialties();
+    addRequestLogFields(request, { rowCount: data.length });
+
+    return Response.json({ success: true, data });
+  } catch (error) {
+    getRequestLogger(request).error("Error fetching specialties", { error });
+    return errorResponse(
+      500,
+      error instanceof Error ? error.message : "Failed to fetch specialties",
+      "INTERNAL_ERROR"
+    );
+  }
+})));
+
+/**
+ * POST /api/specialties
+ * Creates a specialty
+ *
+ * Request body:
+ * {
+ *   "name": "Eating Disorders",            (required, max 100 characters, unique ignoring case)
+ *   "description": "Anorexia, bulimia..."  (optional)
+ * }
+ *
+ * Responds with 201 and the created specialty, with 400 and per-field errors if
+ * validation fails, and with 409 if a specialty with the same name exists
+ */
+export const POST = withRequestLog(withApiVersion(withScope("advocates:write", async (request: NextRequest) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, "Request body must be valid JSON", "INVALID_JSON");
+  }
+
+  const { data: input, errors } = validateSpecialtyInput(body);
+  if (!input) {
+    return errorResponse(400, "Validation failed", "VALIDATION_ERROR", errors);
+  }
+
+  try {
+    if (await findSpecialtyByName(input.name)) {
+      return errorResponse(409, `Specialty "${input.name}" already exists`, "SPECIALTY_EXISTS");
+    }
+
+    const specialty = await insertSpecialty(input, getAuditContext(request));
+
+    const response = Response.json({ success: true, data: specialty }, { status: 201 });
+    response.headers.set("Location", `${request.nextUrl.pathname}/${specialty.id}`);
+    return response;
+  } catch (error) {
+    // A concurrent create with the same name loses on the unique index
+    if (isUniqueViolation(error)) {
+      return errorResponse(409, `Specialty "${input.name}" already exists`, "SPECIALTY_EXISTS");
+    }
+
+    getRequestLogger(request).error("Error creating specialty", { error });
+    return errorResponse(
+      500,
+      error instanceof Error ? error.message : "Failed to create specialty",
+      "INTERNAL_ERROR"
+    );
+  }
+})));
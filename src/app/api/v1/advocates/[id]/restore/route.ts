@@ -0,0 +1,5 @@
+/**
+ * /api/v1/advocates/[id]/restore
+ * Version 1 of /api/advocates/[id]/restore; the handlers read the version from the path
+ */
+export { POST } from "../../../../advocates/[id]/restore/route";
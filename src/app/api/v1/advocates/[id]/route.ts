@@ -0,0 +1,5 @@
+/**
+ * /api/v1/advocates/[id]
+ * Version 1 of /api/advocates/[id]; the handlers read the version from the path
+ */
+export { GET, PATCH, DELETE } from "../../../advocates/[id]/route";
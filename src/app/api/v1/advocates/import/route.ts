@@ -0,0 +1,5 @@
+/**
+ * /api/v1/advocates/import
+ * Version 1 of /api/advocates/import; the handlers read the version from the path
+ */
+export { POST } from "../../../advocates/import/route";
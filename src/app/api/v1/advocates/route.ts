@@ -0,0 +1,5 @@
+/**
+ * /api/v1/advocates
+ * Version 1 of /api/advocates; the handlers read the version from the path
+ */
+export { GET, POST } from "../../advocates/route";
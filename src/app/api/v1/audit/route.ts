@@ -0,0 +1,5 @@
+/**
+ * /api/v1/audit
+ * Version 1 of /api/audit; the handlers read the version from the path
+ */
+export { GET } from "../../audit/route";
@@ -0,0 +1,5 @@
+/**
+ * /api/v1/keys
+ * Version 1 of /api/keys; the handlers read the version from the path
+ */
+export { GET, POST } from "../../keys/route";
@@ -0,0 +1,5 @@
+/**
+ * /api/v1/specialties
+ * Version 1 of /api/specialties; the handlers read the version from the path
+ */
+export { GET, POST } from "../../specialties/route";
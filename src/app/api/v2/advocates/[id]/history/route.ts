@@ -0,0 +1,5 @@
+/**
+ * /api/v2/advocates/[id]/history
+ * Version 2 of /api/advocates/[id]/history; the handlers read the version from the path
+ */
+export { GET } from "../../../../advocates/[id]/history/route";
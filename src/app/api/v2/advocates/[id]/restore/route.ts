@@ -0,0 +1,5 @@
+/**
+ * /api/v2/advocates/[id]/restore
+ * Version 2 of /api/advocates/[id]/restore; the handlers read the version from the path
+ */
+export { POST } from "../../../../advocates/[id]/restore/route";
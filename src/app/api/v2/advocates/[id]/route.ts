@@ -0,0 +1,5 @@
+/**
+ * /api/v2/advocates/[id]
+ * Version 2 of /api/advocates/[id]; the handlers read the version from the path
+ */
+export { GET, PATCH, DELETE } from "../../../advocates/[id]/route";
@@ -0,0 +1,5 @@
+/**
+ * /api/v2/advocates/export
+ * Version 2 of /api/advocates/export; the handlers read the version from the path
+ */
+export { GET } from "../../../advocates/export/route";
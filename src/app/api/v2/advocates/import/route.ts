@@ -0,0 +1,5 @@
+/**
+ * /api/v2/advocates/import
+ * Version 2 of /api/advocates/import; the handlers read the version from the path
+ */
+export { POST } from "../../../advocates/import/route";
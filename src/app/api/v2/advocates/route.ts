@@ -0,0 +1,5 @@
+/**
+ * /api/v2/advocates
+ * Version 2 of /api/advocates; the handlers read the version from the path
+ */
+export { GET, POST } from "../../advocates/route";
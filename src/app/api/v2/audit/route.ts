@@ -0,0 +1,5 @@
+/**
+ * /api/v2/audit
+ * Version 2 of /api/audit; the handlers read the version from the path
+ */
+export { GET } from "../../audit/route";
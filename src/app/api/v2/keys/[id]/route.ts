@@ -0,0 +1,5 @@
+/**
+ * /api/v2/keys/[id]
+ * Version 2 of /api/keys/[id]; the handlers read the version from the path
+ */
+export { DELETE } from "../../../keys/[id]/route";
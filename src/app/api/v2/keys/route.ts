@@ -0,0 +1,5 @@
+/**
+ * /api/v2/keys
+ * Version 2 of /api/keys; the handlers read the version from the path
+ */
+export { GET, POST } from "../../keys/route";
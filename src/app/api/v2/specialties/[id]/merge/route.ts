@@ -0,0 +1,5 @@
+/**
+ * /api/v2/specialties/[id]/merge
+ * Version 2 of /api/specialties/[id]/merge; the handlers read the version from the path
+ */
+export { POST } from "../../../../specialties/[id]/merge/route";
@@ -0,0 +1,5 @@
+/**
+ * /api/v2/specialties/[id]
+ * Version 2 of /api/specialties/[id]; the handlers read the version from the path
+ */
+export { GET, PATCH, DELETE } from "../../../specialties/[id]/route";
@@ -0,0 +1,5 @@
+/**
+ * /api/v2/specialties
+ * Version 2 of /api/specialties; the handlers read the version from the path
+ */
+export { GET, POST } from "../../specialties/route";
@@ -0,0 +1,20 @@
+import type { Metadata } from "next";
+import { ApiDocs } from "../../components/docs";
+import { buildOpenApiDocument } from "../../utils/openapi";
+
+export const metadata: Metadata = {
+  title: "Advocates API Reference",
+};
+
+/**
+ * API reference page, rendered on the server from the same OpenAPI document
+ * as /api/openapi.json, so it needs no external viewer
+ * @returns API reference
+ */
+export default function DocsPage() {
+  return (
+    <main>
+      <ApiDocs document={buildOpenApiDocument()} specUrl="/api/openapi.json" />
+    </main>
+  );
+}
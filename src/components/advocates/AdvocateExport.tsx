@@ -0,0 +1,48 @@
+/**
+ * AdvocateExport component for downloading the current list of advocates
+ */
+import { useState } from 'react';
+import { ExportFormat } from '../../api/types/advocate';
+import { AdvocateExportProps } from './types';
+
+/**
+ * Labels of the formats offered in the format picker
+ */
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (XLSX)',
+  ndjson: 'NDJSON'
+};
+
+/**
+ * Export control with a format picker and an Export button
+ * @param props Component props
+ * @returns Export control
+ */
+export function AdvocateExport({ onExport, disabled = false }: AdvocateExportProps) {
+  const [format, setFormat] = useState<ExportFormat>('csv');
+
+  return (
+    <div className="advocate-export flex items-center justify-end gap-2 mb-4">
+      <select
+        value={format}
+        onChange={(e) => setFormat(e.target.value as ExportFormat)}
+        className="w-auto"
+        aria-label="Export format"
+        disabled={disabled}
+      >
+        {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map(value => (
+          <option key={value} value={value}>{FORMAT_LABELS[value]}</option>
+        ))}
+      </select>
+      <button
+        type="button"
+        className="button button-outline"
+        onClick={() => onExport(format)}
+        disabled={disabled}
+      >
+        Export
+      </button>
+    </div>
+  );
+}
@@ -15,6 +15,7 @@ export function AdvocateList({
   error,
   sortField,
   sortDirection,
+  sortFields,
   onSortChange 
 }: AdvocateListProps) {
   // Render loading state
@@ -39,6 +40,7 @@ export function AdvocateList({
         advocates={advocates} 
         sortField={sortField}
         sortDirection={sortDirection}
+        sortFields={sortFields}
         onSortChange={onSortChange}
       />
     </div>
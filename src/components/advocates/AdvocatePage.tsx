@@ -4,7 +4,10 @@
 import { AdvocatePageProps } from './types';
 import { AdvocateSearch } from './AdvocateSearch';
 import { AdvocateList } from './AdvocateList';
+import { AdvocateExport } from './AdvocateExport';
 import { useAdvocates } from '../../hooks/useAdvocates';
+import { advocateService } from '../../api';
+import { ExportFormat } from '../../api/types/advocate';
 import { Pagination } from '../pagination';
 import '../../styles/main.css';
 
@@ -16,7 +19,7 @@ import '../../styles/main.css';
 export function AdvocatePage({ initialData }: AdvocatePageProps) {
   // Use our custom hook to manage advocates data and search functionality
   const {
-    filteredAdvocates,
+    advocates,
     pagination,
     isLoading,
     error,
@@ -36,6 +39,18 @@ export function AdvocatePage({ initialData }: AdvocatePageProps) {
     syncWithUrl: true // Sync pagination state with URL parameters
   });
 
+  // Download every advocate matching the search, not just the visible page
+  // Search results are exported in relevance order, as they are listed
+  const handleExport = (format: ExportFormat) => {
+    const isSearching = searchTerm.trim() !== '';
+    window.location.assign(advocateService.getExportUrl(
+      format,
+      isSearching ? undefined : sortParams,
+      undefined,
+      searchTerm
+    ));
+  };
+
   return (
     <div className="bg-gray-50 flex flex-col min-h-screen">
       {/* Header with Solace branding */}
@@ -60,23 +75,27 @@ export function AdvocatePage({ initialData }: AdvocatePageProps) {
             searchTerm={searchTerm}
             onSearchChange={setSearchTerm}
             onReset={resetSearch}
-            resultCount={filteredAdvocates.length}
+            resultCount={pagination?.totalCount ?? advocates.length}
           />
         </div>
         
+        {/* Export component */}
+        <AdvocateExport onExport={handleExport} disabled={isLoading} />
+        
         {/* List component */}
         <div className="list-container bg-white rounded-lg shadow-md mb-8">
           <AdvocateList
-            advocates={filteredAdvocates}
+            advocates={advocates}
             isLoading={isLoading}
             error={error}
             sortField={sortParams.sort}
             sortDirection={sortParams.order}
+            sortFields={sortParams.sortFields}
             onSortChange={handleSortChange}
           />
           
           {/* Pagination component */}
-          {pagination && !isLoading && !error && filteredAdvocates.length > 0 && (
+          {pagination && !isLoading && !error && advocates.length > 0 && (
             <Pagination
               pagination={pagination}
               onPageChange={handlePageChange}
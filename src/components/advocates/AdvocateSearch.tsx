@@ -76,7 +76,7 @@ export function AdvocateSearch({ searchTerm, onSearchChange, onReset, resultCoun
       {/* Search results info */}
       {isSearching && resultCount !== undefined && (
         <div className="mt-3 text-center text-gray-500">
-          <span className="font-medium">{resultCount}</span> {resultCount === 1 ? 'advocate' : 'advocates'} found for <span className="font-medium">"{searchTerm}"</span>
+          <span className="font-medium">{resultCount}</span> {resultCount === 1 ? 'advocate' : 'advocates'} found for <span className="font-medium">&quot;{searchTerm}&quot;</span>
         </div>
       )}
     </div>
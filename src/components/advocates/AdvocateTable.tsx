@@ -3,10 +3,11 @@
  */
 import { AdvocateTableProps } from './types';
 import { Advocate } from '../../api/types/advocate';
-import { AdvocateSortField } from '../../api/types/params';
+import { AdvocateSortField, SortField } from '../../api/types/params';
 
 /**
  * Table component for displaying advocates
+ * Clicking a column header sorts by it; shift-clicking adds it as the next sort key
  * @param props Component props
  * @returns Table component with advocate data
  */
@@ -14,34 +15,71 @@ export function AdvocateTable({
   advocates, 
   sortField, 
   sortDirection = 'asc',
+  sortFields,
   onSortChange 
 }: AdvocateTableProps) {
+  // Sort keys, most significant first; a single sortField is a one-key sort
+  const activeSortFields: SortField[] = sortFields
+    ?? (sortField ? [{ field: sortField as AdvocateSortField, direction: sortDirection }] : []);
+  const primarySort = activeSortFields[0];
+  
   // Handle column header click for sorting
-  const handleSortClick = (field: string) => {
+  const handleSortClick = (field: string, addKey: boolean) => {
     if (!onSortChange) return;
     
+    // Shift-click adds the field as the next key, or toggles it if already sorted by
+    if (addKey) {
+      const existing = activeSortFields.find(sort => sort.field === field);
+      onSortChange(field, existing?.direction === 'asc' ? 'desc' : 'asc', true);
+      return;
+    }
+    
     // If clicking the same field, toggle direction
-    const newDirection = sortField === field && sortDirection === 'asc' ? 'desc' : 'asc';
+    const newDirection = primarySort?.field === field && primarySort.direction === 'asc' ? 'desc' : 'asc';
     onSortChange(field, newDirection);
   };
   
   // Render sort indicator with CSS classes instead of inline styles
+  // With several sort keys each arrow is numbered by its position
   const renderSortIndicator = (field: string) => {
-    if (sortField !== field) return null;
+    const index = activeSortFields.findIndex(sort => sort.field === field);
+    if (index === -1) return null;
     
     return (
       <span className="ml-1">
-        {sortDirection === 'asc' ? '↑' : '↓'}
+        {activeSortFields[index].direction === 'asc' ? '↑' : '↓'}
+        {activeSortFields.length > 1 && <sup className="text-xs">{index + 1}</sup>}
       </span>
     );
   };
   
+  // Render the primary city, with the other locations summarized in a tooltip
+  const renderCity = (advocate: Advocate) => {
+    const otherLocations = (advocate.locations ?? []).filter(location => !location.isPrimary);
+    if (otherLocations.length === 0) return advocate.city;
+    
+    const tooltip = otherLocations
+      .map(location => [location.city, location.state].filter(Boolean).join(', '))
+      .join('\n');
+    
+    return (
+      <>
+        {advocate.city}
+        <span className="ml-1 text-xs text-gray-500 cursor-help" title={tooltip}>
+          +{otherLocations.length} more
+        </span>
+      </>
+    );
+  };
+  
   // Define sortable columns
   const sortableColumns: {field: AdvocateSortField, label: string}[] = [
     { field: 'firstName', label: 'First Name' },
     { field: 'lastName', label: 'Last Name' },
     { field: 'degree', label: 'Degree' },
-    { field: 'yearsOfExperience', label: 'Years of Experience' }
+    { field: 'yearsOfExperience', label: 'Years of Experience' },
+    { field: 'city', label: 'City' },
+    { field: 'specialtyCount', label: 'Specialties' }
   ];
   
   return (
@@ -51,23 +89,24 @@ export function AdvocateTable({
           <tr>
             {sortableColumns.map(column => {
               // Determine if this column should be hidden on mobile
-              const isMobileHidden = column.field === 'yearsOfExperience';
+              const isMobileHidden = column.field === 'yearsOfExperience' || column.field === 'specialtyCount';
               const columnClass = isMobileHidden ? 'hide-on-mobile' : '';
+              const isSorted = activeSortFields.some(sort => sort.field === column.field);
+              const isPrimary = primarySort?.field === column.field;
               
               return (
                 <th 
                   key={column.field}
-                  onClick={() => handleSortClick(column.field)}
-                  className={`text-left p-3 border-b-2 ${sortField === column.field ? 'bg-gray-50 font-bold' : ''} ${onSortChange ? 'cursor-pointer' : ''} ${columnClass}`}
-                  aria-sort={sortField === column.field ? (sortDirection === 'asc' ? 'ascending' : 'descending') : undefined}
+                  onClick={event => handleSortClick(column.field, event.shiftKey)}
+                  className={`text-left p-3 border-b-2 ${isSorted ? 'bg-gray-50 font-bold' : ''} ${onSortChange ? 'cursor-pointer select-none' : ''} ${columnClass}`}
+                  aria-sort={isPrimary ? (primarySort.direction === 'asc' ? 'ascending' : 'descending') : undefined}
+                  title={onSortChange ? 'Click to sort, shift-click to add a sort key' : undefined}
                 >
                   {column.label}
                   {renderSortIndicator(column.field)}
                 </th>
               );
             })}
-            <th className="text-left p-3 border-b-2">City</th>
-            <th className="text-left p-3 border-b-2 hide-on-mobile">Specialties</th>
             <th className="text-left p-3 border-b-2">Phone</th>
           </tr>
         </thead>
@@ -78,7 +117,7 @@ export function AdvocateTable({
               <td className="p-3 border-b">{advocate.lastName}</td>
               <td className="p-3 border-b">{advocate.degree}</td>
               <td className="p-3 border-b hide-on-mobile">{advocate.yearsOfExperience}</td>
-              <td className="p-3 border-b">{advocate.city}</td>
+              <td className="p-3 border-b">{renderCity(advocate)}</td>
               <td className="p-3 border-b hide-on-mobile">
                 <div className="flex flex-wrap gap-1">
                   {advocate.specialties.map((specialty, index) => (
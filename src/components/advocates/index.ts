@@ -2,6 +2,7 @@
  * Export all advocate components
  */
 export * from './AdvocateSearch';
+export * from './AdvocateExport';
 export * from './AdvocateList';
 export * from './AdvocateTable';
 export * from './AdvocatePage';
@@ -1,7 +1,8 @@
 /**
  * TypeScript interfaces for Advocate components
  */
-import { Advocate, PaginationMeta } from '../../api/types/advocate';
+import { Advocate, AdvocateDetail, ExportFormat, PaginationMeta } from '../../api/types/advocate';
+import { SortField } from '../../api/types/params';
 
 /**
  * Props for the AdvocateSearch component
@@ -17,6 +18,16 @@ export interface AdvocateSearchProps {
   resultCount?: number;
 }
 
+/**
+ * Props for the AdvocateExport component
+ */
+export interface AdvocateExportProps {
+  /** Callback when the Export button is clicked, with the chosen format */
+  onExport: (format: ExportFormat) => void;
+  /** Disable the control, e.g. while advocates are loading (optional) */
+  disabled?: boolean;
+}
+
 /**
  * Props for the AdvocateList component
  */
@@ -31,8 +42,10 @@ export interface AdvocateListProps {
   sortField?: string;
   /** Current sort direction */
   sortDirection?: 'asc' | 'desc';
-  /** Callback when sort changes */
-  onSortChange?: (field: string, direction: 'asc' | 'desc') => void;
+  /** Current sort keys, most significant first; takes precedence over sortField */
+  sortFields?: SortField[];
+  /** Callback when sort changes; addKey is set when the field is added to the current sort */
+  onSortChange?: (field: string, direction: 'asc' | 'desc', addKey?: boolean) => void;
 }
 
 /**
@@ -45,8 +58,10 @@ export interface AdvocateTableProps {
   sortField?: string;
   /** Current sort direction */
   sortDirection?: 'asc' | 'desc';
-  /** Callback when sort changes */
-  onSortChange?: (field: string, direction: 'asc' | 'desc') => void;
+  /** Current sort keys, most significant first; takes precedence over sortField */
+  sortFields?: SortField[];
+  /** Callback when sort changes; addKey is set when the field is added to the current sort */
+  onSortChange?: (field: string, direction: 'asc' | 'desc', addKey?: boolean) => void;
 }
 
 /**
@@ -54,7 +69,7 @@ export interface AdvocateTableProps {
  */
 export interface AdvocateDetailsProps {
   /** Advocate to display details for */
-  advocate: Advocate;
+  advocate: AdvocateDetail;
 }
 
 /**
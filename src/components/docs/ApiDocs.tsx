@@ -0,0 +1,211 @@
+/**
+ * ApiDocs component for reading an OpenAPI document
+ */
+import { OpenApiDocument, OperationObject, ParameterObject, SchemaObject } from '../../utils/openapi';
+
+/**
+ * Props for the ApiDocs component
+ */
+export interface ApiDocsProps {
+  document: OpenApiDocument;
+  /** URL of the raw document, linked from the header */
+  specUrl?: string;
+}
+
+/**
+ * Name of the schema a $ref points at
+ */
+const schemaName = (ref: string) => ref.split('/').pop() ?? ref;
+
+/**
+ * Render a schema as a short type, linking referenced schemas
+ * @param schema Schema to render
+ * @returns Type label
+ */
+function SchemaType({ schema }: { schema?: SchemaObject }) {
+  if (!schema) return null;
+  if (schema.$ref) {
+    const name = schemaName(schema.$ref);
+    return <a href={`#schema-${name}`} className="text-blue-600 hover:underline">{name}</a>;
+  }
+  if (schema.allOf) {
+    return <>{schema.allOf.map((part, index) => <span key={index}>{index > 0 && ' & '}<SchemaType schema={part} /></span>)}</>;
+  }
+  if (schema.type === 'array') {
+    return <><SchemaType schema={schema.items} />[]</>;
+  }
+
+  const type = Array.isArray(schema.type) ? schema.type.join(' | ') : schema.type ?? 'any';
+  return <>{schema.format ? `${type} (${schema.format})` : type}</>;
+}
+
+/**
+ * Render the constraints of a schema: allowed values, default and pattern
+ * @param schema Schema to describe
+ * @returns Constraint notes, or null if there are none
+ */
+function SchemaConstraints({ schema }: { schema: SchemaObject }) {
+  const values = schema.enum ?? schema.items?.enum;
+  const notes = [
+    values && `One of: ${values.join(', ')}`,
+    schema.default !== undefined && `Default: ${String(schema.default)}`,
+    schema.minimum !== undefined && `Min: ${schema.minimum}`,
+    schema.maximum !== undefined && `Max: ${schema.maximum}`,
+    schema.pattern && `Pattern: ${schema.pattern}`,
+  ].filter(Boolean);
+
+  if (notes.length === 0) return null;
+  return <div className="text-xs text-gray-500">{notes.join(' · ')}</div>;
+}
+
+/**
+ * Table of an operation's parameters
+ * @param props Component props
+ * @returns Parameter table
+ */
+function ParameterTable({ parameters }: { parameters: ParameterObject[] }) {
+  return (
+    <table className="w-full text-sm mb-3">
+      <thead>
+        <tr className="text-left border-b">
+          <th className="p-2">Parameter</th>
+          <th className="p-2">In</th>
+          <th className="p-2">Type</th>
+          <th className="p-2">Description</th>
+        </tr>
+      </thead>
+      <tbody>
+        {parameters.map(parameter => (
+          <tr key={`${parameter.in}:${parameter.name}`} className="border-b align-top">
+            <td className="p-2 font-mono">
+              {parameter.name}
+              {parameter.required && <span className="text-red-600"> *</span>}
+            </td>
+            <td className="p-2">{parameter.in}</td>
+            <td className="p-2"><SchemaType schema={parameter.schema} /></td>
+            <td className="p-2">
+              {parameter.description}
+              {parameter.example && <div className="text-xs text-gray-500">Example: {parameter.example}</div>}
+              <SchemaConstraints schema={parameter.schema} />
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * One operation with its parameters, body and responses
+ * @param props Component props
+ * @returns Operation section
+ */
+function Operation({ method, path, operation }: { method: string; path: string; operation: OperationObject }) {
+  return (
+    <section id={operation.operationId} className="mb-8">
+      <h3 className="text-lg font-bold mb-1">
+        <span className="uppercase font-mono mr-2">{method}</span>
+        <span className="font-mono">{path}</span>
+      </h3>
+      <p className="mb-2">{operation.summary}</p>
+      {operation.description && <p className="mb-2 text-gray-600">{operation.description}</p>}
+
+      {operation.parameters && operation.parameters.length > 0 && (
+        <ParameterTable parameters={operation.parameters} />
+      )}
+
+      {operation.requestBody && (
+        <p className="mb-2 text-sm">
+          Body:{' '}
+          {Object.entries(operation.requestBody.content).map(([mediaType, { schema }], index) => (
+            <span key={mediaType}>
+              {index > 0 && ', '}
+              <span className="font-mono">{mediaType}</span> <SchemaType schema={schema} />
+            </span>
+          ))}
+        </p>
+      )}
+
+      <ul className="text-sm">
+        {Object.entries(operation.responses).map(([status, response]) => (
+          <li key={status}>
+            <span className="font-mono font-bold mr-2">{status}</span>
+            {response.description}
+            {Object.entries(response.content ?? {}).map(([mediaType, { schema }]) => (
+              <span key={mediaType} className="text-gray-500">
+                {' '}· <span className="font-mono">{mediaType}</span> <SchemaType schema={schema} />
+              </span>
+            ))}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+/**
+ * One component schema with its properties
+ * @param props Component props
+ * @returns Schema section
+ */
+function Schema({ name, schema }: { name: string; schema: SchemaObject }) {
+  const objects = schema.allOf ?? [schema];
+
+  return (
+    <section id={`schema-${name}`} className="mb-6">
+      <h3 className="text-lg font-bold mb-1 font-mono">{name}</h3>
+      {schema.description && <p className="mb-2 text-gray-600">{schema.description}</p>}
+      {objects.map((part, index) => part.$ref
+        ? <p key={index} className="text-sm">Everything in <SchemaType schema={part} />, plus:</p>
+        : (
+          <table key={index} className="w-full text-sm">
+            <tbody>
+              {Object.entries(part.properties ?? {}).map(([property, propertySchema]) => (
+                <tr key={property} className="border-b align-top">
+                  <td className="p-2 font-mono">
+                    {property}
+                    {part.required?.includes(property) && <span className="text-red-600"> *</span>}
+                  </td>
+                  <td className="p-2"><SchemaType schema={propertySchema} /></td>
+                  <td className="p-2">
+                    {propertySchema.description}
+                    <SchemaConstraints schema={propertySchema} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ))}
+    </section>
+  );
+}
+
+/**
+ * Readable rendering of an OpenAPI document: every operation, then every schema
+ * Required parameters and properties are marked with an asterisk
+ * @param props Component props
+ * @returns API reference page
+ */
+export function ApiDocs({ document, specUrl }: ApiDocsProps) {
+  return (
+    <div className="container my-6">
+      <h1 className="text-2xl font-bold mb-1">{document.info.title}</h1>
+      <p className="mb-6 text-gray-600">
+        {document.info.description} · version {document.info.version}
+        {specUrl && <> · <a href={specUrl} className="text-blue-600 hover:underline">OpenAPI {document.openapi} document</a></>}
+      </p>
+
+      <h2 className="text-xl font-bold mb-4">Operations</h2>
+      {Object.entries(document.paths).flatMap(([path, operations]) =>
+        Object.entries(operations).map(([method, operation]) => (
+          <Operation key={`${method} ${path}`} method={method} path={path} operation={operation} />
+        ))
+      )}
+
+      <h2 className="text-xl font-bold mb-4">Schemas</h2>
+      {Object.entries(document.components.schemas).map(([name, schema]) => (
+        <Schema key={name} name={name} schema={schema} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,4 @@
+/**
+ * Export all docs components
+ */
+export * from './ApiDocs';
@@ -1,14 +1,15 @@
-import { drizzle } from "drizzle-orm/postgres-js";
+import { drizzle, PostgresJsDatabase } from "drizzle-orm/postgres-js";
 import postgres from "postgres";
 import { advocates, specialties, advocateSpecialties, locations } from "./schema";
+import { logger } from "../utils/logger";
 
 /**
  * Setup database connection or return a mock DB object if DATABASE_URL is not set
  * The mock object implements all necessary methods to prevent runtime errors
  */
-const setup = () => {
+const setup = (): PostgresJsDatabase => {
   if (!process.env.DATABASE_URL) {
-    console.warn("DATABASE_URL is not set. Using mock database implementation.");
+    logger.warn("DATABASE_URL is not set. Using mock database implementation.");
     // Return a mock DB object that implements all necessary methods
     return {
       select: () => ({
@@ -31,7 +32,7 @@ const setup = () => {
       query: {  
         // Add any other query methods you might need
       },
-    };
+    } as unknown as PostgresJsDatabase;
   }
 
   // For query purposes with real database connection
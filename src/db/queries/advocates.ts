@@ -0,0 +1,814 @@
+import { SQL, and, asc, desc, eq, getTableColumns, inArray, isNotNull, isNull, sql } from "drizzle-orm";
+import { randomUUID } from "crypto";
+import db from "..";
+import { advocates, specialties, advocateSpecialties, locations } from "../schema";
+import { ValidatedAdvocateInput, ValidatedLocation } from "../../utils/advocateValidation";
+import { AdvocateCsvRowError } from "../../utils/advocateCsv";
+import { AuditContext } from "../../utils/audit";
+import { geocodeLocation } from "../../utils/geo";
+import { buildSearchVector } from "../../utils/search";
+import { SortKey } from "../../utils/sorting";
+import { CursorValue, buildKeysetCondition, selectCursorValues } from "../../utils/pagination";
+import {
+  AdvocateFieldName,
+  AdvocateIncludeName,
+  DEFAULT_ADVOCATE_INCLUDES
+} from "../../utils/fieldSelection";
+import { auditAdvocateWrite } from "./audit";
+
+/**
+ * Advocate row as stored in the advocates table, without its search document
+ */
+export type AdvocateRow = Omit<typeof advocates.$inferSelect, "searchDocument">;
+
+/**
+ * Columns of the advocates table that are read and returned
+ * The search document is only matched against by full-text search, never returned
+ */
+const { searchDocument: _searchDocument, ...advocateColumns } = getTableColumns(advocates);
+
+/**
+ * Location row as stored in the locations table
+ */
+export type LocationRow = typeof locations.$inferSelect;
+
+/**
+ * Advocate row combined with its specialty names and locations
+ * city, state and country are flattened from the primary location
+ */
+export type AdvocateWithRelations = AdvocateRow & {
+  specialties: string[];
+  city: string;
+  state: string;
+  country: string;
+  /** Every location, primary first and the rest oldest first */
+  locations: LocationRow[];
+};
+
+/**
+ * Specialty of an advocate, including its description
+ */
+export type AdvocateSpecialtyDetail = Pick<
+  typeof specialties.$inferSelect,
+  "id" | "name" | "description"
+>;
+
+/**
+ * Advocate with every specialty and location row, as returned by the detail endpoint
+ */
+export type AdvocateDetailRow = AdvocateWithRelations & {
+  specialtyDetails: AdvocateSpecialtyDetail[];
+};
+
+/**
+ * Put an advocate's primary location first
+ * Advocates created before locations had a primary flag may have none flagged;
+ * their most recent location is treated as primary, as it was shown before
+ *
+ * @param locationRows Locations of one advocate, oldest first
+ * @returns The same locations, primary first, with exactly one flagged isPrimary
+ */
+function orderLocations(locationRows: LocationRow[]): LocationRow[] {
+  if (locationRows.length === 0) return [];
+
+  const primaryIndex = locationRows.findIndex(location => location.isPrimary);
+  if (primaryIndex === -1) {
+    const latest = locationRows[locationRows.length - 1];
+    return [{ ...latest, isPrimary: true }, ...locationRows.slice(0, -1)];
+  }
+
+  return [
+    locationRows[primaryIndex],
+    ...locationRows.filter((_, index) => index !== primaryIndex),
+  ];
+}
+
+/**
+ * Flattened city, state and country of an advocate's primary location
+ *
+ * @param orderedLocations Locations from orderLocations
+ */
+function flattenPrimaryLocation(orderedLocations: LocationRow[]) {
+  const [primary] = orderedLocations;
+
+  return {
+    city: primary?.city ?? "",
+    state: primary?.state ?? "",
+    country: primary?.country ?? "",
+  };
+}
+
+/**
+ * Relations attachAdvocateRelations can load
+ */
+export interface AdvocateRelationOptions {
+  /** Relations to load; the queries of the others are skipped */
+  include?: readonly AdvocateIncludeName[];
+  /** Flatten city, state and country from the primary location */
+  primaryLocation?: boolean;
+}
+
+/**
+ * Relations merged into an advocate by attachAdvocateRelations
+ */
+export type AdvocateRelations = Omit<AdvocateWithRelations, keyof AdvocateRow> & {
+  specialtyDetails: AdvocateSpecialtyDetail[];
+};
+
+/**
+ * Load specialties and locations for the given advocates and merge them in
+ * Only the relation rows belonging to these advocates are read, so the cost
+ * grows with the page size rather than with the size of the tables. Relations
+ * that are not requested are not queried at all
+ *
+ * @param advocateRows Advocate rows in the order they should be returned
+ * @param options Relations to load; by default specialties, locations and the
+ * primary location's city, state and country
+ * @returns Advocates with their relations, in the same order
+ */
+export async function attachAdvocateRelations(
+  advocateRows: AdvocateRow[]
+): Promise<AdvocateWithRelations[]>;
+export async function attachAdvocateRelations<T extends { id: string }>(
+  advocateRows: T[],
+  options: AdvocateRelationOptions
+): Promise<(T & Partial<AdvocateRelations>)[]>;
+export async function attachAdvocateRelations<T extends { id: string }>(
+  advocateRows: T[],
+  { include = DEFAULT_ADVOCATE_INCLUDES, primaryLocation = true }: AdvocateRelationOptions = {}
+): Promise<(T & Partial<AdvocateRelations>)[]> {
+  if (advocateRows.length === 0) return [];
+
+  const advocateIds = advocateRows.map(advocate => advocate.id);
+  const loadLocations = primaryLocation || include.includes("locations");
+  const loadSpecialties = include.includes("specialties") || include.includes("specialtyDetails");
+
+  const [locationsList, specialtyRows] = await Promise.all([
+    loadLocations
+      ? db
+          .select()
+          .from(locations)
+          .where(inArray(locations.advocateId, advocateIds))
+          .orderBy(asc(locations.createdAt), asc(locations.id))
+      : [],
+    loadSpecialties
+      ? db
+          .select({
+            advocateId: advocateSpecialties.advocateId,
+            id: specialties.id,
+            name: specialties.name,
+            description: specialties.description,
+          })
+          .from(advocateSpecialties)
+          .innerJoin(specialties, eq(advocateSpecialties.specialtyId, specialties.id))
+          .where(inArray(advocateSpecialties.advocateId, advocateIds))
+          .orderBy(asc(specialties.name))
+      : [],
+  ]);
+
+  // Group locations and specialties by advocate, keeping locations oldest first
+  const locationsByAdvocate = new Map<string, LocationRow[]>();
+  for (const location of locationsList) {
+    const advocateLocations = locationsByAdvocate.get(location.advocateId) ?? [];
+    advocateLocations.push(location);
+    locationsByAdvocate.set(location.advocateId, advocateLocations);
+  }
+
+  const specialtiesByAdvocate = new Map<string, AdvocateSpecialtyDetail[]>();
+  for (const { advocateId, ...specialty } of specialtyRows) {
+    const advocateSpecialtyList = specialtiesByAdvocate.get(advocateId) ?? [];
+    advocateSpecialtyList.push(specialty);
+    specialtiesByAdvocate.set(advocateId, advocateSpecialtyList);
+  }
+
+  return advocateRows.map(advocate => {
+    const advocateLocations = orderLocations(locationsByAdvocate.get(advocate.id) ?? []);
+    const specialtyDetails = specialtiesByAdvocate.get(advocate.id) ?? [];
+
+    return {
+      ...advocate,
+      ...(include.includes("specialties") ? { specialties: specialtyDetails.map(specialty => specialty.name) } : {}),
+      ...(primaryLocation ? flattenPrimaryLocation(advocateLocations) : {}),
+      ...(include.includes("locations") ? { locations: advocateLocations } : {}),
+      ...(include.includes("specialtyDetails") ? { specialtyDetails } : {}),
+    };
+  });
+}
+
+/**
+ * Columns of the advocates table to read for a set of selected fields
+ * id and updatedAt are always read, as pagination and ETags depend on them
+ *
+ * @param fields Selected fields, or undefined for every column
+ * @param options.deletedAt Read deletedAt along with every column
+ * @returns Columns to select; typed as the columns that are always read
+ */
+export function getAdvocateColumns(
+  fields?: readonly AdvocateFieldName[],
+  { deletedAt = true }: { deletedAt?: boolean } = {}
+): Pick<ReturnType<typeof getTableColumns<typeof advocates>>, "id" | "updatedAt"> {
+  const { deletedAt: _deletedAt, ...liveColumns } = advocateColumns;
+  const columns = deletedAt ? advocateColumns : liveColumns;
+  if (!fields) return columns;
+
+  return {
+    ...Object.fromEntries(
+      Object.entries(columns).filter(([name]) => (fields as readonly string[]).includes(name))
+    ),
+    id: columns.id,
+    updatedAt: columns.updatedAt,
+  };
+}
+
+/**
+ * Number of advocates read per query while streaming
+ */
+export const STREAM_BATCH_SIZE = 500;
+
+/**
+ * Read every advocate matching a query, one batch at a time
+ * Batches are walked with the same keyset condition as cursor pagination, so each
+ * query seeks straight to where the previous batch ended and memory use stays flat
+ * however many advocates match
+ *
+ * @param query.where Filter conditions
+ * @param query.sortKeys Sort keys of the result set, ending with a unique tiebreaker
+ * @param query.orderBy Order expressions matching the sort keys
+ * @param batchSize Advocates per batch
+ * @returns Batches of advocates with their relations, in sort order
+ */
+export async function* streamAdvocates(
+  { where, sortKeys, orderBy }: { where?: SQL; sortKeys: SortKey[]; orderBy: SQL[] },
+  batchSize = STREAM_BATCH_SIZE
+): AsyncGenerator<AdvocateWithRelations[]> {
+  let lastValues: CursorValue[] | undefined;
+
+  while (true) {
+    const rows = await db
+      .select({
+        advocate: advocateColumns,
+        cursorValues: selectCursorValues(sortKeys),
+      })
+      .from(advocates)
+      .where(and(where, lastValues ? buildKeysetCondition(sortKeys, lastValues, "forward") : undefined))
+      .orderBy(...orderBy)
+      .limit(batchSize);
+
+    if (rows.length === 0) return;
+
+    yield attachAdvocateRelations(rows.map(row => row.advocate));
+
+    if (rows.length < batchSize) return;
+    lastValues = rows[rows.length - 1].cursorValues;
+  }
+}
+
+/**
+ * Load a single advocate with all of its specialties and locations
+ *
+ * @param id Advocate ID
+ * @param options.includeDeleted Also return the advocate if it is soft-deleted
+ * @returns The advocate, or undefined if no advocate has this ID
+ */
+export async function getAdvocateDetail(
+  id: string,
+  { includeDeleted = false }: { includeDeleted?: boolean } = {}
+): Promise<AdvocateDetailRow | undefined> {
+  const [advocate] = await db
+    .select(advocateColumns)
+    .from(advocates)
+    .where(includeDeleted ? eq(advocates.id, id) : and(eq(advocates.id, id), isNull(advocates.deletedAt)))
+    .limit(1);
+
+  if (!advocate) return undefined;
+
+  const [locationsList, specialtyDetails] = await Promise.all([
+    db
+      .select()
+      .from(locations)
+      .where(eq(locations.advocateId, id))
+      .orderBy(asc(locations.createdAt), asc(locations.id)),
+    db
+      .select({
+        id: specialties.id,
+        name: specialties.name,
+        description: specialties.description,
+      })
+      .from(advocateSpecialties)
+      .innerJoin(specialties, eq(advocateSpecialties.specialtyId, specialties.id))
+      .where(eq(advocateSpecialties.advocateId, id))
+      .orderBy(asc(specialties.name)),
+  ]);
+
+  // Flatten the primary location the same way the list endpoint does
+  const orderedLocations = orderLocations(locationsList);
+
+  return {
+    ...advocate,
+    specialties: specialtyDetails.map(specialty => specialty.name),
+    ...flattenPrimaryLocation(orderedLocations),
+    specialtyDetails,
+    locations: orderedLocations,
+  };
+}
+
+/**
+ * Look up specialties by name, ignoring case
+ *
+ * @param names Specialty names
+ * @returns Map of lower-cased specialty name to specialty ID, for the names that exist
+ */
+export async function findSpecialtyIdsByName(names: string[]): Promise<Map<string, string>> {
+  const specialtyIds = new Map<string, string>();
+  if (names.length === 0) return specialtyIds;
+
+  const rows = await db
+    .select({ id: specialties.id, name: specialties.name })
+    .from(specialties)
+    .where(inArray(sql`lower(${specialties.name})`, names.map(name => name.toLowerCase())));
+
+  for (const row of rows) {
+    specialtyIds.set(row.name.toLowerCase(), row.id);
+  }
+
+  return specialtyIds;
+}
+
+/**
+ * Insert an advocate with its locations and specialties in a single transaction
+ *
+ * @param input Validated advocate payload
+ * @param specialtyIds IDs of the advocate's specialties
+ * @param audit Actor and request, recorded in the audit log
+ * @returns The inserted advocate row
+ */
+export async function insertAdvocate(
+  input: ValidatedAdvocateInput,
+  specialtyIds: string[],
+  audit: AuditContext
+): Promise<AdvocateRow> {
+  // Generate the ID up front so the audit log can snapshot the new advocate
+  const id = randomUUID();
+
+  return db.transaction(async (tx) => auditAdvocateWrite(tx, [id], "create", audit, async () => {
+    const [advocate] = await tx
+      .insert(advocates)
+      .values({
+        id,
+        firstName: input.firstName,
+        lastName: input.lastName,
+        degree: input.degree,
+        yearsOfExperience: input.yearsOfExperience,
+        phoneNumber: input.phoneNumber,
+      })
+      .returning(advocateColumns);
+
+    await tx.insert(locations).values(toLocationValues(advocate.id, input));
+
+    if (specialtyIds.length > 0) {
+      await tx
+        .insert(advocateSpecialties)
+        .values(specialtyIds.map(specialtyId => ({ advocateId: advocate.id, specialtyId })));
+    }
+
+    await refreshSearchDocuments(tx, [advocate.id]);
+    return advocate;
+  }));
+}
+
+/**
+ * New updatedAt value for a write
+ * Always moves forward, even within the same millisecond, so the record version changes
+ */
+const nextUpdatedAt = sql`greatest(clock_timestamp(), ${advocates.updatedAt} + interval '1 millisecond')`;
+
+/**
+ * Transaction handle passed to db.transaction callbacks
+ */
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Move the version of every advocate linked to a specialty forward
+ * Advocates embed their specialties, so changing or removing a specialty changes
+ * them too, and their ETags must change with them. Run it before the links are removed
+ *
+ * @param tx Open transaction
+ * @param specialtyId Specialty ID
+ */
+export async function touchAdvocatesWithSpecialty(tx: Transaction, specialtyId: string): Promise<void> {
+  await tx
+    .update(advocates)
+    .set({ updatedAt: nextUpdatedAt })
+    .where(inArray(
+      advocates.id,
+      tx
+        .select({ id: advocateSpecialties.advocateId })
+        .from(advocateSpecialties)
+        .where(eq(advocateSpecialties.specialtyId, specialtyId))
+    ));
+}
+
+/**
+ * Rebuild the stored search document of advocates from their current names,
+ * specialties and locations
+ * Run it after every write that changes any of them, once the write is done
+ *
+ * @param executor Database or open transaction
+ * @param advocateIds Advocate IDs
+ */
+export async function refreshSearchDocuments(
+  executor: typeof db | Transaction,
+  advocateIds: string[]
+): Promise<void> {
+  if (advocateIds.length === 0) return;
+
+  await executor
+    .update(advocates)
+    .set({ searchDocument: buildSearchVector({ advocates, specialties, advocateSpecialties, locations }) })
+    .where(inArray(advocates.id, advocateIds));
+}
+
+/**
+ * Replace the whole specialty set of an advocate
+ *
+ * @param tx Open transaction
+ * @param advocateId Advocate ID
+ * @param specialtyIds IDs of the advocate's new specialties
+ */
+async function replaceAdvocateSpecialties(
+  tx: Transaction,
+  advocateId: string,
+  specialtyIds: string[]
+): Promise<void> {
+  await tx.delete(advocateSpecialties).where(eq(advocateSpecialties.advocateId, advocateId));
+  if (specialtyIds.length > 0) {
+    await tx
+      .insert(advocateSpecialties)
+      .values(specialtyIds.map(specialtyId => ({ advocateId, specialtyId })));
+  }
+}
+
+/**
+ * Postal code and coordinates of a location, geocoded with the bundled ZIP code dataset
+ * Locations that cannot be geocoded are stored without coordinates, so radius
+ * searches leave them out
+ *
+ * @param location Validated location
+ * @returns Column values for the postal code and coordinates
+ */
+function toGeoValues(location: ValidatedLocation) {
+  const point = geocodeLocation(location);
+
+  return {
+    postalCode: location.postalCode ?? null,
+    latitude: point?.latitude ?? null,
+    longitude: point?.longitude ?? null,
+  };
+}
+
+/**
+ * Location rows to insert for a new advocate, or to replace an advocate's locations with
+ * A payload with a single location gives one primary location
+ *
+ * @param advocateId Advocate ID
+ * @param input Validated advocate payload
+ * @returns Location rows
+ */
+function toLocationValues(
+  advocateId: string,
+  input: Pick<ValidatedAdvocateInput, "location" | "locations">
+): (typeof locations.$inferInsert)[] {
+  const advocateLocations = input.locations ?? [{ ...input.location, isPrimary: true }];
+
+  return advocateLocations.map(location => ({
+    advocateId,
+    city: location.city,
+    state: location.state,
+    ...(location.country ? { country: location.country } : {}),
+    ...toGeoValues(location),
+    isPrimary: location.isPrimary,
+  }));
+}
+
+/**
+ * Replace every location of an advocate
+ *
+ * @param tx Open transaction
+ * @param advocateId Advocate ID
+ * @param input Validated payload holding the new locations
+ */
+async function replaceAdvocateLocations(
+  tx: Transaction,
+  advocateId: string,
+  input: Pick<ValidatedAdvocateInput, "location" | "locations">
+): Promise<void> {
+  await tx.delete(locations).where(eq(locations.advocateId, advocateId));
+  await tx.insert(locations).values(toLocationValues(advocateId, input));
+}
+
+/**
+ * Edit the advocate's primary location rather than adding another one
+ * Without a flagged primary the latest location is edited and flagged, matching how
+ * reads pick the primary location. A location is inserted if the advocate has none yet
+ *
+ * @param tx Open transaction
+ * @param advocateId Advocate ID
+ * @param location New location values; a missing country keeps the stored one
+ */
+async function setPrimaryLocation(
+  tx: Transaction,
+  advocateId: string,
+  location: ValidatedAdvocateInput["location"]
+): Promise<void> {
+  const [primaryLocation] = await tx
+    .select({ id: locations.id })
+    .from(locations)
+    .where(eq(locations.advocateId, advocateId))
+    .orderBy(desc(locations.isPrimary), desc(locations.createdAt))
+    .limit(1);
+
+  const locationValues = {
+    city: location.city,
+    state: location.state ?? null,
+    ...(location.country ? { country: location.country } : {}),
+    ...toGeoValues(location),
+    isPrimary: true,
+  };
+
+  if (primaryLocation) {
+    await tx.update(locations).set(locationValues).where(eq(locations.id, primaryLocation.id));
+  } else {
+    await tx.insert(locations).values({ advocateId, ...locationValues });
+  }
+}
+
+/**
+ * Outcome of a versioned advocate update
+ */
+export type AdvocateUpdateResult =
+  | { status: "updated"; advocate: AdvocateRow }
+  | { status: "not_found" }
+  | { status: "version_mismatch"; advocate: AdvocateRow };
+
+/**
+ * Update an advocate in place, guarded by a version check
+ * The row is locked while the check runs, so two concurrent updates that were
+ * made against the same version cannot both succeed
+ *
+ * @param id Advocate ID
+ * @param changes Validated fields to change; specialties replace the whole set
+ * @param specialtyIds IDs for changes.specialties, when specialties are being replaced
+ * @param isCurrentVersion Callback deciding whether the caller edited the current version
+ * @param audit Actor and request, recorded in the audit log
+ * @returns Update outcome with the updated (or current) advocate row
+ */
+export async function updateAdvocate(
+  id: string,
+  changes: Partial<ValidatedAdvocateInput>,
+  specialtyIds: string[] | undefined,
+  isCurrentVersion: (advocate: AdvocateRow) => boolean,
+  audit: AuditContext
+): Promise<AdvocateUpdateResult> {
+  return db.transaction(async (tx) => {
+    const [current] = await tx
+      .select(advocateColumns)
+      .from(advocates)
+      .where(and(eq(advocates.id, id), isNull(advocates.deletedAt)))
+      .for("update");
+
+    if (!current) return { status: "not_found" };
+    if (!isCurrentVersion(current)) return { status: "version_mismatch", advocate: current };
+
+    const { specialties: _specialties, location, locations: locationList, ...fields } = changes;
+
+    return auditAdvocateWrite(tx, [id], "update", audit, async () => {
+      const [advocate] = await tx
+        .update(advocates)
+        .set({ ...fields, updatedAt: nextUpdatedAt })
+        .where(eq(advocates.id, id))
+        .returning(advocateColumns);
+
+      if (specialtyIds) {
+        await replaceAdvocateSpecialties(tx, id, specialtyIds);
+      }
+
+      if (locationList && location) {
+        await replaceAdvocateLocations(tx, id, { location, locations: locationList });
+      } else if (location) {
+        await setPrimaryLocation(tx, id, location);
+      }
+
+      await refreshSearchDocuments(tx, [id]);
+
+      return { status: "updated", advocate };
+    });
+  });
+}
+
+/**
+ * Soft-delete an advocate
+ * The row and its relations stay in place so the advocate can be restored
+ *
+ * @param id Advocate ID
+ * @param audit Actor and request, recorded in the audit log
+ * @returns The deleted advocate row, or undefined if no active advocate has this ID
+ */
+export async function softDeleteAdvocate(id: string, audit: AuditContext): Promise<AdvocateRow | undefined> {
+  return db.transaction(async (tx) => auditAdvocateWrite(tx, [id], "delete", audit, async () => {
+    const [advocate] = await tx
+      .update(advocates)
+      .set({ deletedAt: sql`CURRENT_TIMESTAMP`, updatedAt: nextUpdatedAt })
+      .where(and(eq(advocates.id, id), isNull(advocates.deletedAt)))
+      .returning(advocateColumns);
+
+    return advocate;
+  }));
+}
+
+/**
+ * Restore a soft-deleted advocate
+ *
+ * @param id Advocate ID
+ * @param audit Actor and request, recorded in the audit log
+ * @returns The restored advocate row, or undefined if no soft-deleted advocate has this ID
+ */
+export async function restoreAdvocate(id: string, audit: AuditContext): Promise<AdvocateRow | undefined> {
+  return db.transaction(async (tx) => auditAdvocateWrite(tx, [id], "restore", audit, async () => {
+    const [advocate] = await tx
+      .update(advocates)
+      .set({ deletedAt: null, updatedAt: nextUpdatedAt })
+      .where(and(eq(advocates.id, id), isNotNull(advocates.deletedAt)))
+      .returning(advocateColumns);
+
+    return advocate;
+  }));
+}
+
+/**
+ * Number of rows written per batch during an import
+ */
+export const IMPORT_BATCH_SIZE = 100;
+
+/**
+ * Advocate to import, with its specialty names already resolved to IDs
+ */
+export interface AdvocateImportItem {
+  /** Row number in the file; the header is row 1 */
+  row: number;
+  input: ValidatedAdvocateInput;
+  specialtyIds: string[];
+}
+
+/**
+ * Writes an import would make, worked out against the current data
+ */
+export interface AdvocateImportPlan {
+  inserts: AdvocateImportItem[];
+  updates: (AdvocateImportItem & { id: string })[];
+  /** Rows that match an existing advocate exactly */
+  unchanged: number;
+  /** Rows repeating the phone number of an earlier row, which are not imported */
+  errors: AdvocateCsvRowError[];
+}
+
+/**
+ * Check whether an existing advocate already holds the imported values
+ */
+function isUnchanged(existing: AdvocateWithRelations, input: ValidatedAdvocateInput): boolean {
+  const existingSpecialties = new Set(existing.specialties.map(name => name.toLowerCase()));
+
+  return (
+    existing.firstName === input.firstName &&
+    existing.lastName === input.lastName &&
+    existing.degree === input.degree &&
+    existing.yearsOfExperience === input.yearsOfExperience &&
+    existing.city === input.location.city &&
+    existing.state === (input.location.state ?? "") &&
+    existing.specialties.length === input.specialties.length &&
+    input.specialties.every(name => existingSpecialties.has(name.toLowerCase()))
+  );
+}
+
+/**
+ * Work out which imported advocates are new and which update an existing advocate
+ * Advocates are matched on phone number; soft-deleted advocates are not matched.
+ * Only the first row with a phone number is imported, as later ones would insert
+ * a duplicate advocate or overwrite its update. Nothing is written, so this also
+ * backs dry runs
+ *
+ * @param items Advocates to import
+ * @returns Rows to insert, rows to update and the number of unchanged rows
+ */
+export async function planAdvocateImport(items: AdvocateImportItem[]): Promise<AdvocateImportPlan> {
+  const plan: AdvocateImportPlan = { inserts: [], updates: [], unchanged: 0, errors: [] };
+  if (items.length === 0) return plan;
+
+  const existingRows = await db
+    .select(advocateColumns)
+    .from(advocates)
+    .where(
+      and(
+        inArray(advocates.phoneNumber, items.map(item => item.input.phoneNumber)),
+        isNull(advocates.deletedAt)
+      )
+    )
+    .orderBy(asc(advocates.createdAt));
+
+  // When several advocates share a phone number the oldest one is updated
+  const existingByPhone = new Map<number, AdvocateWithRelations>();
+  for (const advocate of await attachAdvocateRelations(existingRows)) {
+    if (!existingByPhone.has(advocate.phoneNumber)) {
+      existingByPhone.set(advocate.phoneNumber, advocate);
+    }
+  }
+
+  const phoneRows = new Map<number, number>();
+  for (const item of items) {
+    const firstRow = phoneRows.get(item.input.phoneNumber);
+    if (firstRow !== undefined) {
+      plan.errors.push({ row: item.row, errors: { phone: `phone duplicates row ${firstRow}` } });
+      continue;
+    }
+    phoneRows.set(item.input.phoneNumber, item.row);
+
+    const existing = existingByPhone.get(item.input.phoneNumber);
+    if (!existing) {
+      plan.inserts.push(item);
+    } else if (isUnchanged(existing, item.input)) {
+      plan.unchanged++;
+    } else {
+      plan.updates.push({ ...item, id: existing.id });
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Split a list into batches
+ */
+function toBatches<T>(items: T[], size: number): T[][] {
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    batches.push(items.slice(i, i + size));
+  }
+  return batches;
+}
+
+/**
+ * Write an import plan in batches inside a single transaction
+ * Either every row is written or, if any batch fails, none is. Each inserted or
+ * updated advocate gets an import entry in the audit log
+ *
+ * @param plan Plan from planAdvocateImport
+ * @param audit Actor and request, recorded in the audit log
+ */
+export async function applyAdvocateImport(plan: AdvocateImportPlan, audit: AuditContext): Promise<void> {
+  await db.transaction(async (tx) => {
+    for (const batch of toBatches(plan.inserts, IMPORT_BATCH_SIZE)) {
+      // Generate IDs up front so location, specialty and audit rows can reference them
+      const rows = batch.map(item => ({ ...item, id: randomUUID() }));
+
+      await auditAdvocateWrite(tx, rows.map(row => row.id), "import", audit, async () => {
+        await tx.insert(advocates).values(
+          rows.map(({ id, input }) => ({
+            id,
+            firstName: input.firstName,
+            lastName: input.lastName,
+            degree: input.degree,
+            yearsOfExperience: input.yearsOfExperience,
+            phoneNumber: input.phoneNumber,
+          }))
+        );
+
+        await tx.insert(locations).values(rows.flatMap(({ id, input }) => toLocationValues(id, input)));
+
+        const specialtyRows = rows.flatMap(({ id, specialtyIds }) =>
+          specialtyIds.map(specialtyId => ({ advocateId: id, specialtyId }))
+        );
+        if (specialtyRows.length > 0) {
+          await tx.insert(advocateSpecialties).values(specialtyRows);
+        }
+
+        await refreshSearchDocuments(tx, rows.map(row => row.id));
+      });
+    }
+
+    for (const batch of toBatches(plan.updates, IMPORT_BATCH_SIZE)) {
+      await auditAdvocateWrite(tx, batch.map(item => item.id), "import", audit, async () => {
+        for (const { id, input, specialtyIds } of batch) {
+          const { specialties: _specialties, location, locations: _locations, ...fields } = input;
+
+          await tx
+            .update(advocates)
+            .set({ ...fields, updatedAt: nextUpdatedAt })
+            .where(eq(advocates.id, id));
+          await replaceAdvocateSpecialties(tx, id, specialtyIds);
+          await setPrimaryLocation(tx, id, location);
+        }
+
+        await refreshSearchDocuments(tx, batch.map(item => item.id));
+      });
+    }
+  });
+}
@@ -0,0 +1,106 @@
+import { and, desc, eq, getTableColumns, gt, isNull, lt, or, sql } from "drizzle-orm";
+import db from "..";
+import { apiKeys } from "../schema";
+
+/**
+ * API key row as stored in the api_keys table
+ */
+export type ApiKeyRow = typeof apiKeys.$inferSelect;
+
+/**
+ * API key without its hash, as listed to admins
+ */
+export type ApiKeyRecord = Omit<ApiKeyRow, "keyHash">;
+
+/**
+ * Columns of an API key, leaving out the hash
+ */
+const { keyHash: _keyHash, ...apiKeyColumns } = getTableColumns(apiKeys);
+
+/**
+ * List every API key, newest first, including revoked and expired keys
+ *
+ * @returns API keys without their hashes
+ */
+export async function listApiKeys(): Promise<ApiKeyRecord[]> {
+  return db.select(apiKeyColumns).from(apiKeys).orderBy(desc(apiKeys.createdAt));
+}
+
+/**
+ * Insert an API key
+ *
+ * @param input Name, display prefix, hash and scopes of the key, and when it expires
+ * @returns The inserted key without its hash
+ */
+export async function insertApiKey(input: {
+  name: string;
+  prefix: string;
+  keyHash: string;
+  scopes: string[];
+  expiresAt?: Date | null;
+}): Promise<ApiKeyRecord> {
+  const [apiKey] = await db
+    .insert(apiKeys)
+    .values({ ...input, expiresAt: input.expiresAt ?? null })
+    .returning(apiKeyColumns);
+
+  return apiKey;
+}
+
+/**
+ * Find the key with a hash that is neither revoked nor expired
+ *
+ * @param keyHash SHA-256 of the key, hex encoded
+ * @returns The key, or undefined if no usable key has this hash
+ */
+export async function findActiveApiKeyByHash(keyHash: string): Promise<ApiKeyRecord | undefined> {
+  const [apiKey] = await db
+    .select(apiKeyColumns)
+    .from(apiKeys)
+    .where(
+      and(
+        eq(apiKeys.keyHash, keyHash),
+        isNull(apiKeys.revokedAt),
+        or(isNull(apiKeys.expiresAt), gt(apiKeys.expiresAt, sql`now()`))
+      )
+    )
+    .limit(1);
+
+  return apiKey;
+}
+
+/**
+ * Record that a key was used
+ * Skipped when the key was already used in the last minute, so busy keys do not
+ * write on every request
+ *
+ * @param id API key ID
+ */
+export async function touchApiKey(id: string): Promise<void> {
+  await db
+    .update(apiKeys)
+    .set({ lastUsedAt: sql`now()` })
+    .where(
+      and(
+        eq(apiKeys.id, id),
+        or(isNull(apiKeys.lastUsedAt), lt(apiKeys.lastUsedAt, sql`now() - interval '1 minute'`))
+      )
+    );
+}
+
+/**
+ * Revoke an API key
+ * Revoking a revoked key keeps its original revocation time
+ *
+ * @param id API key ID
+ * @returns The revoked key, or undefined if no key has this ID
+ */
+export async function revokeApiKey(id: string): Promise<ApiKeyRecord | undefined> {
+  const [apiKey] = await db
+    .update(apiKeys)
+    .set({ revokedAt: sql`coalesce(${apiKeys.revokedAt}, now())` })
+    .where(eq(apiKeys.id, id))
+    .returning(apiKeyColumns);
+
+  return apiKey;
+}
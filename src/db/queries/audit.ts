@@ -0,0 +1,226 @@
+import { SQL, and, asc, count, desc, eq, gte, inArray, lt } from "drizzle-orm";
+import db from "..";
+import { advocates, advocateSpecialties, auditLog, locations, specialties } from "../schema";
+import { AuditAction, AuditEntityType } from "../../api/types/audit";
+import { AuditContext, AuditFilters, diffSnapshots } from "../../utils/audit";
+
+/**
+ * Audit log row as stored in the audit_log table
+ */
+export type AuditLogRow = typeof auditLog.$inferSelect;
+
+/**
+ * Database or open transaction to read and write with
+ */
+type Executor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Fields of an advocate the audit log compares before and after a write
+ * Relations are included by value, so replacing a location with an identical one is no change
+ */
+export type AdvocateSnapshot = {
+  firstName: string;
+  lastName: string;
+  degree: string;
+  yearsOfExperience: number;
+  phoneNumber: number;
+  /** Specialty names, sorted */
+  specialties: string[];
+  /** Locations without their IDs and coordinates, primary first */
+  locations: {
+    city: string;
+    state: string | null;
+    country: string;
+    postalCode: string | null;
+    isPrimary: boolean;
+  }[];
+  deletedAt: string | null;
+};
+
+/**
+ * Fields of a specialty the audit log compares before and after a write
+ */
+export type SpecialtySnapshot = {
+  name: string;
+  description: string | null;
+};
+
+/**
+ * Audit log entry to record
+ */
+export interface NewAuditEntry {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+}
+
+/**
+ * Load the audited fields of advocates, including soft-deleted ones
+ *
+ * @param executor Database or open transaction, so snapshots see the transaction's writes
+ * @param ids Advocate IDs
+ * @returns Snapshots keyed by advocate ID; advocates that do not exist are left out
+ */
+export async function loadAdvocateSnapshots(
+  executor: Executor,
+  ids: string[]
+): Promise<Map<string, AdvocateSnapshot>> {
+  const snapshots = new Map<string, AdvocateSnapshot>();
+  if (ids.length === 0) return snapshots;
+
+  const [advocateRows, specialtyRows, locationRows] = await Promise.all([
+    executor.select().from(advocates).where(inArray(advocates.id, ids)),
+    executor
+      .select({ advocateId: advocateSpecialties.advocateId, name: specialties.name })
+      .from(advocateSpecialties)
+      .innerJoin(specialties, eq(advocateSpecialties.specialtyId, specialties.id))
+      .where(inArray(advocateSpecialties.advocateId, ids))
+      .orderBy(asc(specialties.name)),
+    executor
+      .select()
+      .from(locations)
+      .where(inArray(locations.advocateId, ids))
+      .orderBy(desc(locations.isPrimary), asc(locations.city), asc(locations.state), asc(locations.postalCode)),
+  ]);
+
+  for (const advocate of advocateRows) {
+    snapshots.set(advocate.id, {
+      firstName: advocate.firstName,
+      lastName: advocate.lastName,
+      degree: advocate.degree,
+      yearsOfExperience: advocate.yearsOfExperience,
+      phoneNumber: advocate.phoneNumber,
+      specialties: specialtyRows.filter(row => row.advocateId === advocate.id).map(row => row.name),
+      locations: locationRows
+        .filter(location => location.advocateId === advocate.id)
+        .map(({ city, state, country, postalCode, isPrimary }) => ({ city, state, country, postalCode, isPrimary })),
+      deletedAt: advocate.deletedAt?.toISOString() ?? null,
+    });
+  }
+
+  return snapshots;
+}
+
+/**
+ * Record audit log entries, keeping only the changed fields of each
+ * Entries whose record did not change are dropped
+ *
+ * @param executor Database or open transaction, so the entries commit with the write
+ * @param entries Entries with the full record before and after the write
+ * @param context Actor and request of the write
+ */
+export async function recordAuditEntries(
+  executor: Executor,
+  entries: NewAuditEntry[],
+  context: AuditContext
+): Promise<void> {
+  const values = entries.flatMap(({ before, after, ...entry }) => {
+    const changes = diffSnapshots(before, after);
+    return changes ? [{ ...entry, ...changes, actor: context.actor, requestId: context.requestId ?? null }] : [];
+  });
+
+  if (values.length > 0) {
+    await executor.insert(auditLog).values(values);
+  }
+}
+
+/**
+ * Run a write to advocates and record what it changed for each of them
+ * The advocates are snapshotted before and after the write, in the same transaction,
+ * so the entries hold exactly the committed changes. IDs of advocates the write
+ * creates can be given up front; they are recorded with no before
+ *
+ * @param tx Open transaction the write runs in
+ * @param ids Advocates the write may change or create
+ * @param action Action to record
+ * @param context Actor and request of the write
+ * @param write The write
+ * @returns Result of the write
+ */
+export async function auditAdvocateWrite<T>(
+  tx: Executor,
+  ids: string[],
+  action: AuditAction,
+  context: AuditContext,
+  write: () => Promise<T>
+): Promise<T> {
+  const before = await loadAdvocateSnapshots(tx, ids);
+  const result = await write();
+  const after = await loadAdvocateSnapshots(tx, ids);
+
+  await recordAuditEntries(
+    tx,
+    ids.map(id => ({ action, entityType: "advocate", entityId: id, before: before.get(id), after: after.get(id) })),
+    context
+  );
+
+  return result;
+}
+
+/**
+ * Record a write to a specialty
+ *
+ * @param executor Database or open transaction
+ * @param id Specialty ID
+ * @param action Action to record
+ * @param context Actor and request of the write
+ * @param before Specialty before the write; undefined if it was created
+ * @param after Specialty after the write; undefined if it was deleted
+ */
+export async function recordSpecialtyChange(
+  executor: Executor,
+  id: string,
+  action: AuditAction,
+  context: AuditContext,
+  before?: SpecialtySnapshot,
+  after?: SpecialtySnapshot
+): Promise<void> {
+  await recordAuditEntries(executor, [{ action, entityType: "specialty", entityId: id, before, after }], context);
+}
+
+/**
+ * Build the conditions of an audit log query
+ *
+ * @param filters Audit log filters
+ * @returns Condition matching every filter
+ */
+function buildAuditConditions(filters: AuditFilters): SQL | undefined {
+  return and(
+    filters.actor ? eq(auditLog.actor, filters.actor) : undefined,
+    filters.action ? eq(auditLog.action, filters.action) : undefined,
+    filters.entityType ? eq(auditLog.entityType, filters.entityType) : undefined,
+    filters.entityId ? eq(auditLog.entityId, filters.entityId) : undefined,
+    filters.requestId ? eq(auditLog.requestId, filters.requestId) : undefined,
+    filters.from ? gte(auditLog.createdAt, filters.from) : undefined,
+    filters.to ? lt(auditLog.createdAt, filters.to) : undefined
+  );
+}
+
+/**
+ * List audit log entries, newest first
+ *
+ * @param filters Audit log filters
+ * @param page Page size and offset
+ * @returns A page of entries and the number of matching entries
+ */
+export async function listAuditEntries(
+  filters: AuditFilters,
+  { limit, offset = 0 }: { limit: number; offset?: number }
+): Promise<{ entries: AuditLogRow[]; totalCount: number }> {
+  const conditions = buildAuditConditions(filters);
+
+  const [entries, [{ total }]] = await Promise.all([
+    db
+      .select()
+      .from(auditLog)
+      .where(conditions)
+      .orderBy(desc(auditLog.createdAt), desc(auditLog.id))
+      .limit(limit)
+      .offset(offset),
+    db.select({ total: count() }).from(auditLog).where(conditions),
+  ]);
+
+  return { entries, totalCount: total };
+}
@@ -0,0 +1,88 @@
+import { SQL, and, asc, desc, eq, sql } from "drizzle-orm";
+import db from "..";
+import { advocates, advocateSpecialties, locations, specialties } from "../schema";
+import {
+  FACET_FILTER_FIELDS,
+  FacetCount,
+  FacetCounts,
+  FacetName,
+  MAX_FACET_VALUES,
+  buildExperienceBandExpression,
+  fillExperienceBands
+} from "../../utils/facets";
+
+/**
+ * Count the advocates matching the conditions for each value of one facet
+ * Advocates are counted once per value, even with several locations in one city
+ *
+ * @param facet Facet to count
+ * @param where Conditions the advocates must match
+ * @returns Values with their counts, most common first
+ */
+async function countFacet(facet: FacetName, where: SQL | undefined): Promise<FacetCount[]> {
+  const advocateCount = sql<number>`count(DISTINCT ${advocates.id})`.mapWith(Number);
+
+  switch (facet) {
+    case "degree":
+      return db
+        .select({ value: advocates.degree, count: advocateCount })
+        .from(advocates)
+        .where(where)
+        .groupBy(advocates.degree)
+        .orderBy(desc(advocateCount), asc(advocates.degree))
+        .limit(MAX_FACET_VALUES);
+    case "specialty":
+      return db
+        .select({ value: specialties.name, count: advocateCount })
+        .from(advocates)
+        .innerJoin(advocateSpecialties, eq(advocateSpecialties.advocateId, advocates.id))
+        .innerJoin(specialties, eq(specialties.id, advocateSpecialties.specialtyId))
+        .where(where)
+        .groupBy(specialties.name)
+        .orderBy(desc(advocateCount), asc(specialties.name))
+        .limit(MAX_FACET_VALUES);
+    case "city":
+      return db
+        .select({ value: locations.city, count: advocateCount })
+        .from(advocates)
+        .innerJoin(locations, eq(locations.advocateId, advocates.id))
+        .where(where)
+        .groupBy(locations.city)
+        .orderBy(desc(advocateCount), asc(locations.city))
+        .limit(MAX_FACET_VALUES);
+    case "experience": {
+      const band = buildExperienceBandExpression(advocates.yearsOfExperience);
+      const counts = await db
+        .select({ value: band, count: advocateCount })
+        .from(advocates)
+        .where(where)
+        .groupBy(band);
+
+      return fillExperienceBands(counts);
+    }
+  }
+}
+
+/**
+ * Count the advocates matching the current search and filters for every value of
+ * each requested facet
+ * Each facet is counted with the filters on its own field left out, so the counts
+ * show what selecting another value would return
+ *
+ * @param facets Facets to count
+ * @param conditionsWithout Builds the request's conditions without the filters on a field
+ * @returns Counts keyed by facet name
+ */
+export async function countAdvocateFacets(
+  facets: FacetName[],
+  conditionsWithout: (field: string) => SQL[]
+): Promise<FacetCounts> {
+  const counts = await Promise.all(
+    facets.map(facet => {
+      const conditions = conditionsWithout(FACET_FILTER_FIELDS[facet]);
+      return countFacet(facet, conditions.length > 0 ? and(...conditions) : undefined);
+    })
+  );
+
+  return Object.fromEntries(facets.map((facet, index) => [facet, counts[index]]));
+}
@@ -0,0 +1,303 @@
+import { and, asc, eq, getTableColumns, inArray, ne, sql } from "drizzle-orm";
+import db from "..";
+import { specialties, advocateSpecialties } from "../schema";
+import { refreshSearchDocuments, touchAdvocatesWithSpecialty } from "./advocates";
+import { auditAdvocateWrite, recordSpecialtyChange } from "./audit";
+import { AuditContext } from "../../utils/audit";
+
+/**
+ * Specialty row as stored in the specialties table
+ */
+export type SpecialtyRow = typeof specialties.$inferSelect;
+
+/**
+ * Specialty with the number of advocates linked to it
+ */
+export type SpecialtyWithCount = SpecialtyRow & {
+  advocateCount: number;
+};
+
+/**
+ * Columns of a specialty plus its advocate count from the junction table
+ */
+const specialtyWithCountColumns = {
+  ...getTableColumns(specialties),
+  advocateCount: sql<number>`(
+    select count(*) from ${advocateSpecialties}
+    where ${advocateSpecialties.specialtyId} = ${specialties.id}
+  )`.mapWith(Number),
+};
+
+/**
+ * Transaction handle passed to db.transaction callbacks
+ */
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Find the advocates linked to a specialty, including soft-deleted ones
+ *
+ * @param tx Open transaction
+ * @param specialtyId Specialty ID
+ * @returns Advocate IDs
+ */
+async function findAdvocateIdsWithSpecialty(tx: Transaction, specialtyId: string): Promise<string[]> {
+  const rows = await tx
+    .select({ id: advocateSpecialties.advocateId })
+    .from(advocateSpecialties)
+    .where(eq(advocateSpecialties.specialtyId, specialtyId));
+
+  return rows.map(row => row.id);
+}
+
+/**
+ * List every specialty with its advocate count, ordered by name
+ *
+ * @returns Specialties with counts
+ */
+export async function listSpecialties(): Promise<SpecialtyWithCount[]> {
+  return db
+    .select(specialtyWithCountColumns)
+    .from(specialties)
+    .orderBy(asc(specialties.name));
+}
+
+/**
+ * Load a single specialty with its advocate count
+ *
+ * @param id Specialty ID
+ * @returns The specialty, or undefined if no specialty has this ID
+ */
+export async function getSpecialty(id: string): Promise<SpecialtyWithCount | undefined> {
+  const [specialty] = await db
+    .select(specialtyWithCountColumns)
+    .from(specialties)
+    .where(eq(specialties.id, id))
+    .limit(1);
+
+  return specialty;
+}
+
+/**
+ * Find a specialty by name, ignoring case
+ *
+ * @param name Specialty name
+ * @param excludeId Specialty to leave out, e.g. the one being renamed
+ * @returns The matching specialty, or undefined
+ */
+export async function findSpecialtyByName(
+  name: string,
+  excludeId?: string
+): Promise<SpecialtyRow | undefined> {
+  const [specialty] = await db
+    .select()
+    .from(specialties)
+    .where(
+      and(
+        eq(sql`lower(${specialties.name})`, name.toLowerCase()),
+        excludeId ? ne(specialties.id, excludeId) : undefined
+      )
+    )
+    .limit(1);
+
+  return specialty;
+}
+
+/**
+ * Insert a specialty
+ *
+ * @param input Name and optional description
+ * @param audit Actor and request, recorded in the audit log
+ * @returns The inserted specialty with an advocate count of zero
+ */
+export async function insertSpecialty(
+  input: { name: string; description?: string | null },
+  audit: AuditContext
+): Promise<SpecialtyWithCount> {
+  return db.transaction(async (tx) => {
+    const [specialty] = await tx
+      .insert(specialties)
+      .values({ name: input.name, description: input.description ?? null })
+      .returning();
+
+    await recordSpecialtyChange(tx, specialty.id, "create", audit, undefined, {
+      name: specialty.name,
+      description: specialty.description,
+    });
+
+    return { ...specialty, advocateCount: 0 };
+  });
+}
+
+/**
+ * Rename a specialty or change its description
+ * Advocates with the specialty get a new version, since they list it by name, and
+ * a rename is recorded in the audit log of each of them
+ *
+ * @param id Specialty ID
+ * @param changes Fields to change; a null description clears it
+ * @param audit Actor and request, recorded in the audit log
+ * @returns The updated specialty, or undefined if no specialty has this ID
+ */
+export async function updateSpecialty(
+  id: string,
+  changes: { name?: string; description?: string | null },
+  audit: AuditContext
+): Promise<SpecialtyWithCount | undefined> {
+  const updated = await db.transaction(async (tx) => {
+    const [current] = await tx
+      .select({ name: specialties.name, description: specialties.description })
+      .from(specialties)
+      .where(eq(specialties.id, id))
+      .for("update");
+
+    if (!current) return undefined;
+
+    const advocateIds = await findAdvocateIdsWithSpecialty(tx, id);
+    const specialty = await auditAdvocateWrite(tx, advocateIds, "update", audit, async () => {
+      const [row] = await tx
+        .update(specialties)
+        .set(changes)
+        .where(eq(specialties.id, id))
+        .returning({ id: specialties.id, name: specialties.name, description: specialties.description });
+
+      await touchAdvocatesWithSpecialty(tx, id);
+      await refreshSearchDocuments(tx, advocateIds);
+      return row;
+    });
+
+    await recordSpecialtyChange(tx, id, "update", audit, current, {
+      name: specialty.name,
+      description: specialty.description,
+    });
+    return specialty;
+  });
+
+  return updated ? getSpecialty(id) : undefined;
+}
+
+/**
+ * Outcome of deleting a specialty
+ */
+export type SpecialtyDeleteResult =
+  | { status: "deleted"; specialty: SpecialtyWithCount }
+  | { status: "not_found" }
+  | { status: "in_use"; specialty: SpecialtyWithCount };
+
+/**
+ * Delete a specialty
+ * A specialty linked to advocates is only deleted when forced; the links are then
+ * removed by the ON DELETE CASCADE on advocate_specialties
+ *
+ * @param id Specialty ID
+ * @param audit Actor and request, recorded in the audit log of the specialty and its advocates
+ * @param options.force Delete even if advocates still have the specialty
+ * @returns Delete outcome with the specialty as it was before the delete
+ */
+export async function deleteSpecialty(
+  id: string,
+  audit: AuditContext,
+  { force = false }: { force?: boolean } = {}
+): Promise<SpecialtyDeleteResult> {
+  return db.transaction(async (tx) => {
+    // Lock the row so no advocate can be linked between the check and the delete
+    const [locked] = await tx
+      .select({ id: specialties.id })
+      .from(specialties)
+      .where(eq(specialties.id, id))
+      .for("update");
+
+    if (!locked) return { status: "not_found" };
+
+    const [specialty] = await tx
+      .select(specialtyWithCountColumns)
+      .from(specialties)
+      .where(eq(specialties.id, id));
+
+    if (specialty.advocateCount > 0 && !force) return { status: "in_use", specialty };
+
+    const advocateIds = await findAdvocateIdsWithSpecialty(tx, id);
+    await auditAdvocateWrite(tx, advocateIds, "update", audit, async () => {
+      await touchAdvocatesWithSpecialty(tx, id);
+      await tx.delete(specialties).where(eq(specialties.id, id));
+      await refreshSearchDocuments(tx, advocateIds);
+    });
+    await recordSpecialtyChange(tx, id, "delete", audit, {
+      name: specialty.name,
+      description: specialty.description,
+    });
+
+    return { status: "deleted", specialty };
+  });
+}
+
+/**
+ * Outcome of merging two specialties
+ */
+export type SpecialtyMergeResult =
+  | { status: "merged"; specialty: SpecialtyWithCount; movedCount: number }
+  | { status: "source_not_found" }
+  | { status: "target_not_found" };
+
+/**
+ * Merge one specialty into another
+ * Every advocate with the source specialty gets the target specialty instead, and
+ * the source is deleted. Advocates that already had both keep a single link
+ *
+ * @param sourceId Specialty to merge away
+ * @param targetId Specialty to keep
+ * @param audit Actor and request, recorded in the audit log of the source and the moved advocates
+ * @returns Merge outcome with the target specialty and the number of advocates moved to it
+ */
+export async function mergeSpecialties(
+  sourceId: string,
+  targetId: string,
+  audit: AuditContext
+): Promise<SpecialtyMergeResult> {
+  return db.transaction(async (tx) => {
+    const locked = await tx
+      .select({ id: specialties.id, name: specialties.name, description: specialties.description })
+      .from(specialties)
+      .where(inArray(specialties.id, [sourceId, targetId]))
+      .for("update");
+
+    const source = locked.find(row => row.id === sourceId);
+    if (!source) return { status: "source_not_found" };
+    if (!locked.some(row => row.id === targetId)) return { status: "target_not_found" };
+
+    const advocateIds = await findAdvocateIdsWithSpecialty(tx, sourceId);
+    const moved = await auditAdvocateWrite(tx, advocateIds, "merge", audit, async () => {
+      await touchAdvocatesWithSpecialty(tx, sourceId);
+
+      const moved = await tx.execute(sql`
+        insert into ${advocateSpecialties} (advocate_id, specialty_id)
+        select ${advocateSpecialties.advocateId}, ${targetId}::uuid
+        from ${advocateSpecialties}
+        where ${advocateSpecialties.specialtyId} = ${sourceId}
+        on conflict do nothing
+      `);
+
+      // Deleting the source also removes its remaining junction rows
+      await tx.delete(specialties).where(eq(specialties.id, sourceId));
+      await refreshSearchDocuments(tx, advocateIds);
+      return moved;
+    });
+    await recordSpecialtyChange(tx, sourceId, "merge", audit, { name: source.name, description: source.description });
+
+    const [specialty] = await tx
+      .select(specialtyWithCountColumns)
+      .from(specialties)
+      .where(eq(specialties.id, targetId));
+
+    return { status: "merged", specialty, movedCount: moved.count };
+  });
+}
+
+/**
+ * Check whether a database error is a unique constraint violation
+ *
+ * @param error Error thrown by a query
+ * @returns True for Postgres error code 23505
+ */
+export function isUniqueViolation(error: unknown): boolean {
+  return typeof error === "object" && error !== null && (error as { code?: string }).code === "23505";
+}
@@ -9,23 +9,50 @@ import {
   primaryKey,
   varchar,
   uuid,
+  boolean,
+  doublePrecision,
+  index,
+  jsonb,
+  uniqueIndex,
+  customType,
 } from "drizzle-orm/pg-core";
 
 /**
- * Advocates table - stores basic information about healthcare advocates
+ * Postgres tsvector, for stored full-text search documents
  */
-export const advocates = pgTable("advocates", {
-  id: uuid("id").primaryKey().defaultRandom(),
-  firstName: varchar("first_name", { length: 100 }).notNull(),
-  lastName: varchar("last_name", { length: 100 }).notNull(),
-  // Moved city to locations table
-  degree: varchar("degree", { length: 50 }).notNull(),
-  yearsOfExperience: integer("years_of_experience").notNull(),
-  phoneNumber: bigint("phone_number", { mode: "number" }).notNull(),
-  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
-  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`),
+const tsvector = customType<{ data: string }>({
+  dataType: () => "tsvector",
 });
 
+/**
+ * Advocates table - stores basic information about healthcare advocates
+ */
+export const advocates = pgTable(
+  "advocates",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    firstName: varchar("first_name", { length: 100 }).notNull(),
+    lastName: varchar("last_name", { length: 100 }).notNull(),
+    // Moved city to locations table
+    degree: varchar("degree", { length: 50 }).notNull(),
+    yearsOfExperience: integer("years_of_experience").notNull(),
+    phoneNumber: bigint("phone_number", { mode: "number" }).notNull(),
+    createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+    updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`),
+    // Set when the advocate is soft-deleted; deleted rows keep their relations so they can be restored
+    deletedAt: timestamp("deleted_at"),
+    // Full-text search document built from the advocate, its specialties and locations;
+    // rewritten by every write that changes any of them
+    searchDocument: tsvector("search_document"),
+  },
+  (t) => ({
+    // Trigram indexes for fuzzy name filters; they need the pg_trgm extension
+    firstNameTrgm: index("advocates_first_name_trgm_idx").using("gin", t.firstName.op("gin_trgm_ops")),
+    lastNameTrgm: index("advocates_last_name_trgm_idx").using("gin", t.lastName.op("gin_trgm_ops")),
+    searchDocument: index("advocates_search_document_idx").using("gin", t.searchDocument),
+  })
+);
+
 /**
  * Specialties table - stores all available specialties
  */
@@ -57,17 +84,76 @@ export const advocateSpecialties = pgTable(
 /**
  * Locations table - stores advocate locations
  */
-export const locations = pgTable("locations", {
+export const locations = pgTable(
+  "locations",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    advocateId: uuid("advocate_id")
+      .notNull()
+      .references(() => advocates.id, { onDelete: "cascade" }),
+    city: varchar("city", { length: 100 }).notNull(),
+    state: varchar("state", { length: 50 }),
+    country: varchar("country", { length: 100 }).default("United States").notNull(),
+    postalCode: varchar("postal_code", { length: 10 }),
+    // Geocoded from the postal code, or from the city when it has none
+    latitude: doublePrecision("latitude"),
+    longitude: doublePrecision("longitude"),
+    // The location shown as the advocate's city/state/country; at most one per advocate
+    isPrimary: boolean("is_primary").default(false).notNull(),
+    createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+  },
+  (t) => ({
+    onePrimary: uniqueIndex("locations_one_primary_idx")
+      .on(t.advocateId)
+      .where(sql`${t.isPrimary}`),
+    cityTrgm: index("locations_city_trgm_idx").using("gin", t.city.op("gin_trgm_ops")),
+    coordinates: index("locations_coordinates_idx").on(t.latitude, t.longitude),
+  })
+);
+
+/**
+ * API keys table - stores hashed API keys and the scopes they grant
+ */
+export const apiKeys = pgTable("api_keys", {
   id: uuid("id").primaryKey().defaultRandom(),
-  advocateId: uuid("advocate_id")
-    .notNull()
-    .references(() => advocates.id, { onDelete: "cascade" }),
-  city: varchar("city", { length: 100 }).notNull(),
-  state: varchar("state", { length: 50 }),
-  country: varchar("country", { length: 100 }).default("United States").notNull(),
+  name: varchar("name", { length: 100 }).notNull(),
+  // First characters of the key, shown so callers can tell their keys apart
+  prefix: varchar("prefix", { length: 12 }).notNull(),
+  // SHA-256 of the key, hex encoded; the key itself is only shown when it is created
+  keyHash: varchar("key_hash", { length: 64 }).notNull().unique(),
+  scopes: text("scopes").array().notNull(),
+  expiresAt: timestamp("expires_at"),
+  // Updated at most once a minute so authenticated requests rarely write
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
 });
 
+/**
+ * Audit log table - records every write to advocates and specialties
+ */
+export const auditLog = pgTable(
+  "audit_log",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    // anonymous, admin-token, api-key:<key id> or seed
+    actor: varchar("actor", { length: 100 }).notNull(),
+    action: varchar("action", { length: 20 }).notNull(),
+    entityType: varchar("entity_type", { length: 20 }).notNull(),
+    // Not a foreign key, so entries outlive the rows they describe
+    entityId: uuid("entity_id").notNull(),
+    // Changed fields only: their values before and after the write; null before a create
+    before: jsonb("before"),
+    after: jsonb("after"),
+    requestId: varchar("request_id", { length: 100 }),
+    createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  },
+  (t) => ({
+    entity: index("audit_log_entity_idx").on(t.entityType, t.entityId, t.createdAt),
+    createdAt: index("audit_log_created_at_idx").on(t.createdAt),
+  })
+);
+
 // Export all tables
 export { advocateSpecialties as advocateToSpecialty };
 
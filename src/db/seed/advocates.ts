@@ -1,5 +1,10 @@
 import db from "..";
 import { advocates, specialties, advocateSpecialties, locations } from "../schema";
+import { geocodeLocation } from "../../utils/geo";
+import { AuditContext } from "../../utils/audit";
+import { logger } from "../../utils/logger";
+import { loadAdvocateSnapshots, recordAuditEntries } from "../queries/audit";
+import { refreshSearchDocuments } from "../queries/advocates";
 
 /**
  * List of all available specialties
@@ -55,6 +60,8 @@ const advocateBaseData = [
     yearsOfExperience: 10,
     phoneNumber: 5551234567,
     city: "New York",
+    state: "NY",
+    postalCode: "10001",
     specialties: specialtiesList.slice(...getRandomSpecialtyIndices()),
   },
   {
@@ -64,6 +71,8 @@ const advocateBaseData = [
     yearsOfExperience: 8,
     phoneNumber: 5559876543,
     city: "Los Angeles",
+    state: "CA",
+    postalCode: "90012",
     specialties: specialtiesList.slice(...getRandomSpecialtyIndices()),
   },
   {
@@ -73,6 +82,8 @@ const advocateBaseData = [
     yearsOfExperience: 5,
     phoneNumber: 5554567890,
     city: "Chicago",
+    state: "IL",
+    postalCode: "60601",
     specialties: specialtiesList.slice(...getRandomSpecialtyIndices()),
   },
   {
@@ -82,6 +93,8 @@ const advocateBaseData = [
     yearsOfExperience: 12,
     phoneNumber: 5556543210,
     city: "Houston",
+    state: "TX",
+    postalCode: "77002",
     specialties: specialtiesList.slice(...getRandomSpecialtyIndices()),
   },
   {
@@ -91,6 +104,8 @@ const advocateBaseData = [
     yearsOfExperience: 7,
     phoneNumber: 5553210987,
     city: "Phoenix",
+    state: "AZ",
+    postalCode: "85004",
     specialties: specialtiesList.slice(...getRandomSpecialtyIndices()),
   },
   {
@@ -100,6 +115,8 @@ const advocateBaseData = [
     yearsOfExperience: 9,
     phoneNumber: 5557890123,
     city: "Philadelphia",
+    state: "PA",
+    postalCode: "19107",
     specialties: specialtiesList.slice(...getRandomSpecialtyIndices()),
   },
   {
@@ -109,6 +126,8 @@ const advocateBaseData = [
     yearsOfExperience: 11,
     phoneNumber: 5554561234,
     city: "San Antonio",
+    state: "TX",
+    postalCode: "78205",
     specialties: specialtiesList.slice(...getRandomSpecialtyIndices()),
   },
   {
@@ -118,6 +137,8 @@ const advocateBaseData = [
     yearsOfExperience: 6,
     phoneNumber: 5557896543,
     city: "San Diego",
+    state: "CA",
+    postalCode: "92101",
     specialties: specialtiesList.slice(...getRandomSpecialtyIndices()),
   },
   {
@@ -127,6 +148,8 @@ const advocateBaseData = [
     yearsOfExperience: 4,
     phoneNumber: 5550123456,
     city: "Dallas",
+    state: "TX",
+    postalCode: "75201",
     specialties: specialtiesList.slice(...getRandomSpecialtyIndices()),
   },
   {
@@ -136,6 +159,8 @@ const advocateBaseData = [
     yearsOfExperience: 13,
     phoneNumber: 5553217654,
     city: "San Jose",
+    state: "CA",
+    postalCode: "95113",
     specialties: specialtiesList.slice(...getRandomSpecialtyIndices()),
   },
   {
@@ -145,6 +170,8 @@ const advocateBaseData = [
     yearsOfExperience: 10,
     phoneNumber: 5551238765,
     city: "Austin",
+    state: "TX",
+    postalCode: "78701",
     specialties: specialtiesList.slice(...getRandomSpecialtyIndices()),
   },
   {
@@ -154,6 +181,8 @@ const advocateBaseData = [
     yearsOfExperience: 5,
     phoneNumber: 5556540987,
     city: "Jacksonville",
+    state: "FL",
+    postalCode: "32202",
     specialties: specialtiesList.slice(...getRandomSpecialtyIndices()),
   },
   {
@@ -163,6 +192,8 @@ const advocateBaseData = [
     yearsOfExperience: 14,
     phoneNumber: 5559873456,
     city: "San Francisco",
+    state: "CA",
+    postalCode: "94103",
     specialties: specialtiesList.slice(...getRandomSpecialtyIndices()),
   },
   {
@@ -172,6 +203,8 @@ const advocateBaseData = [
     yearsOfExperience: 9,
     phoneNumber: 5556781234,
     city: "Columbus",
+    state: "OH",
+    postalCode: "43215",
     specialties: specialtiesList.slice(...getRandomSpecialtyIndices()),
   },
   {
@@ -181,99 +214,133 @@ const advocateBaseData = [
     yearsOfExperience: 3,
     phoneNumber: 5559872345,
     city: "Fort Worth",
+    state: "TX",
+    postalCode: "76102",
     specialties: specialtiesList.slice(...getRandomSpecialtyIndices()),
   },
 ];
 
 /**
  * Function to seed the database with normalized data
+ * The seed data is inserted in one transaction, so a failed seed leaves nothing behind;
+ * seeding an already seeded database fails with a unique violation on the specialty names
+ * Every seeded specialty and advocate gets a seed entry in the audit log
+ *
+ * @param audit Actor and request, recorded in the audit log
  */
-async function seedDatabase() {
+async function seedDatabase(audit: AuditContext = { actor: "seed" }) {
+  const log = logger.child({ requestId: audit.requestId });
   try {
-    // 1. Insert specialties
-    const insertedSpecialties = await db
-      .insert(specialties)
-      .values(specialtiesList.map(name => ({ name })))
-      .returning();
+    return await db.transaction(async (tx) => {
+      // 1. Insert specialties
+      const insertedSpecialties = await tx
+        .insert(specialties)
+        .values(specialtiesList.map(name => ({ name })))
+        .returning();
     
 
     
-    // Create a map of specialty names to their IDs for easy lookup
-    const specialtyMap = new Map();
-    insertedSpecialties.forEach(specialty => {
-      specialtyMap.set(specialty.name, specialty.id);
-    });
+      // Create a map of specialty names to their IDs for easy lookup
+      const specialtyMap = new Map();
+      insertedSpecialties.forEach(specialty => {
+        specialtyMap.set(specialty.name, specialty.id);
+      });
     
-    // 2. Insert advocates
-    const advocateValues = advocateBaseData.map(advocate => ({
-      firstName: advocate.firstName,
-      lastName: advocate.lastName,
-      degree: advocate.degree,
-      yearsOfExperience: advocate.yearsOfExperience,
-      phoneNumber: advocate.phoneNumber,
-    }));
+      // 2. Insert advocates
+      const advocateValues = advocateBaseData.map(advocate => ({
+        firstName: advocate.firstName,
+        lastName: advocate.lastName,
+        degree: advocate.degree,
+        yearsOfExperience: advocate.yearsOfExperience,
+        phoneNumber: advocate.phoneNumber,
+      }));
     
-    const insertedAdvocates = await db
-      .insert(advocates)
-      .values(advocateValues)
-      .returning();
+      const insertedAdvocates = await tx
+        .insert(advocates)
+        .values(advocateValues)
+        .returning();
     
 
     
-    // 3. Insert locations
-    const locationsData = advocateBaseData.map((advocate, index) => ({
-      advocateId: insertedAdvocates[index].id,
-      city: advocate.city,
-      state: "",  // Could be expanded with real state data
-      country: "United States",
-    }));
+      // 3. Insert locations
+      const locationsData = advocateBaseData.map((advocate, index) => ({
+        advocateId: insertedAdvocates[index].id,
+        city: advocate.city,
+        state: advocate.state,
+        country: "United States",
+        postalCode: advocate.postalCode,
+        // Geocoded offline from the bundled ZIP code dataset
+        ...geocodeLocation(advocate),
+        isPrimary: true,
+      }));
     
-    const insertedLocations = await db
-      .insert(locations)
-      .values(locationsData)
-      .returning();
+      const insertedLocations = await tx
+        .insert(locations)
+        .values(locationsData)
+        .returning();
     
 
     
-    // 4. Create advocate-specialty relationships using the original specialties
-    const advocateSpecialtiesData = [];
+      // 4. Create advocate-specialty relationships using the original specialties
+      const advocateSpecialtiesData = [];
     
-    // For each advocate, use their assigned specialties from the data
-    for (let i = 0; i < advocateBaseData.length; i++) {
-      const advocate = advocateBaseData[i];
-      const advocateId = insertedAdvocates[i].id;
+      // For each advocate, use their assigned specialties from the data
+      for (let i = 0; i < advocateBaseData.length; i++) {
+        const advocate = advocateBaseData[i];
+        const advocateId = insertedAdvocates[i].id;
       
-      // For each specialty in the advocate's specialties array, create a relationship
-      for (const specialtyName of advocate.specialties) {
-        // Find the specialty ID from our map
-        const specialtyId = specialtyMap.get(specialtyName);
+        // For each specialty in the advocate's specialties array, create a relationship
+        for (const specialtyName of advocate.specialties) {
+          // Find the specialty ID from our map
+          const specialtyId = specialtyMap.get(specialtyName);
         
-        if (specialtyId) {
-          advocateSpecialtiesData.push({
-            advocateId,
-            specialtyId,
-          });
-        } else {
-          console.warn(`Specialty "${specialtyName}" not found in database`);
+          if (specialtyId) {
+            advocateSpecialtiesData.push({
+              advocateId,
+              specialtyId,
+            });
+          } else {
+            log.warn("Specialty not found in database", { specialty: specialtyName });
+          }
         }
       }
-    }
     
-    const insertedAdvocateSpecialties = await db
-      .insert(advocateSpecialties)
-      .values(advocateSpecialtiesData)
-      .returning();
+      const insertedAdvocateSpecialties = await tx
+        .insert(advocateSpecialties)
+        .values(advocateSpecialtiesData)
+        .returning();
+    
+      // 5. Build the full-text search documents from the seeded rows
+      await refreshSearchDocuments(tx, insertedAdvocates.map(advocate => advocate.id));
+    
+      // 6. Record the seeded rows in the audit log
+      const advocateSnapshots = await loadAdvocateSnapshots(tx, insertedAdvocates.map(advocate => advocate.id));
+      await recordAuditEntries(tx, [
+        ...insertedSpecialties.map(specialty => ({
+          action: "seed" as const,
+          entityType: "specialty" as const,
+          entityId: specialty.id,
+          after: { name: specialty.name, description: specialty.description },
+        })),
+        ...insertedAdvocates.map(advocate => ({
+          action: "seed" as const,
+          entityType: "advocate" as const,
+          entityId: advocate.id,
+          after: advocateSnapshots.get(advocate.id),
+        })),
+      ], audit);
     
 
     
-    return {
-      advocates: insertedAdvocates,
-      specialties: insertedSpecialties,
-      locations: insertedLocations,
-      advocateSpecialties: insertedAdvocateSpecialties,
-    };
+      return {
+        advocates: insertedAdvocates,
+        specialties: insertedSpecialties,
+        locations: insertedLocations,
+        advocateSpecialties: insertedAdvocateSpecialties,
+      };
+    });
   } catch (error) {
-    console.error("Error seeding database:", error);
+    log.error("Error seeding database", { error });
     throw error;
   }
 }
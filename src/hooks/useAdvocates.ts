@@ -5,11 +5,12 @@ import { useState, useEffect, useCallback } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { advocateService } from '../api';
 import { Advocate, PaginationMeta } from '../api/types/advocate';
-import { PaginationParams, SortParams } from '../api/types/params';
+import { FieldSelectionParams, PaginationParams, SortDirection, SortField, SortParams } from '../api/types/params';
+import { formatSortFields, parseSortFields } from '../api/utils/paramBuilders';
+import { logger } from '../utils/logger';
 
 interface UseAdvocatesResult {
   advocates: Advocate[];
-  filteredAdvocates: Advocate[];
   pagination: PaginationMeta | null;
   isLoading: boolean;
   error: string | null;
@@ -22,7 +23,8 @@ interface UseAdvocatesResult {
   // Cursor-based pagination
   handleCursorNavigation: (direction: 'next' | 'prev') => void;
   // Sorting
-  handleSortChange: (field: string, direction?: 'asc' | 'desc') => void;
+  /** Sort by a field; with addKey the field is added to the current sort, or its direction changed */
+  handleSortChange: (field: string, direction?: 'asc' | 'desc', addKey?: boolean) => void;
   sortParams: SortParams;
   // Flags
   useCursorPagination: boolean;
@@ -37,6 +39,41 @@ interface UseAdvocatesOptions {
   syncWithUrl?: boolean;
 }
 
+/**
+ * Relations shown in the advocates table; locations list an advocate's other cities
+ */
+const TABLE_FIELD_SELECTION: FieldSelectionParams = { include: ['specialties', 'locations'] };
+
+/**
+ * Sort parameters for a list of sort fields
+ * sort and order mirror the most significant field
+ * @param fields Sort fields, most significant first
+ * @returns Sort parameters
+ */
+function toSortParams(fields: SortField[]): SortParams {
+  return {
+    sort: fields[0]?.field,
+    order: fields[0]?.direction,
+    sortFields: fields
+  };
+}
+
+/**
+ * Write sort fields to URL parameters
+ * A single field keeps the sort and order parameters; several are listed in sort
+ * @param params URL parameters to update
+ * @param fields Sort fields, most significant first
+ */
+function setSortUrlParams(params: URLSearchParams, fields: SortField[]) {
+  if (fields.length === 1) {
+    params.set('sort', fields[0].field);
+    params.set('order', fields[0].direction);
+  } else if (fields.length > 1) {
+    params.set('sort', formatSortFields(fields));
+    params.delete('order');
+  }
+}
+
 /**
  * Custom hook for fetching and managing advocate data with pagination
  * @param options Hook options
@@ -58,8 +95,6 @@ export function useAdvocates(options: UseAdvocatesOptions = {}): UseAdvocatesRes
 
   // State for advocates data
   const [advocates, setAdvocates] = useState<Advocate[]>([]);
-  // State for filtered advocates
-  const [filteredAdvocates, setFilteredAdvocates] = useState<Advocate[]>([]);
   // State for pagination metadata
   const [pagination, setPagination] = useState<PaginationMeta | null>(null);
   const [currentPage, setCurrentPage] = useState(initialPage);
@@ -68,13 +103,16 @@ export function useAdvocates(options: UseAdvocatesOptions = {}): UseAdvocatesRes
   // State for loading and error
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
-  // State for search term
+  // State for search term, and the settled value that is sent to the server
   const [searchTerm, setSearchTerm] = useState<string>('');
+  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState<string>('');
   // State for sorting parameters
-  const [sortParams, setSortParams] = useState<SortParams>({
-    sort: initialSortField as any,
-    order: initialSortDirection
-  });
+  const [sortParams, setSortParams] = useState<SortParams>(
+    toSortParams([{ field: initialSortField as SortField['field'], direction: initialSortDirection }])
+  );
+  // Whether the sort was chosen by the user (or the URL) rather than left at the default;
+  // searches are ranked by relevance unless a sort was chosen
+  const [isSortChosen, setIsSortChosen] = useState<boolean>(false);
 
   // We're using the advocateService imported at the top of the file
   
@@ -98,12 +136,10 @@ export function useAdvocates(options: UseAdvocatesOptions = {}): UseAdvocatesRes
       if (cursorParam) setCursor(cursorParam);
       if (searchParam) setSearchTerm(searchParam);
       
-      // Update sort params
+      // Update sort params; sort may list several fields, e.g. -yearsOfExperience,lastName
       if (sortParam) {
-        setSortParams({
-          sort: sortParam as any,
-          order: orderParam as any || 'asc'
-        });
+        setSortParams(toSortParams(parseSortFields(sortParam, (orderParam as SortDirection) || 'asc')));
+        setIsSortChosen(true);
       }
     }
   }, [searchParams, syncWithUrl]);
@@ -126,10 +162,7 @@ export function useAdvocates(options: UseAdvocatesOptions = {}): UseAdvocatesRes
     params.set('limit', pageSize.toString());
     
     // Add sort params
-    if (sortParams.sort) {
-      params.set('sort', sortParams.sort);
-      if (sortParams.order) params.set('order', sortParams.order);
-    }
+    setSortUrlParams(params, sortParams.sortFields ?? []);
     
     // Add search term
     if (searchTerm) params.set('search', searchTerm);
@@ -148,32 +181,39 @@ export function useAdvocates(options: UseAdvocatesOptions = {}): UseAdvocatesRes
     try {
       let result;
       
-      if (useCursorPagination && cursor) {
+      if (debouncedSearchTerm !== '') {
+        // Search on the server; results come back ranked by relevance unless a sort was chosen
+        result = await advocateService.searchAdvocates(
+          debouncedSearchTerm,
+          { page: currentPage, limit: pageSize },
+          isSortChosen ? sortParams : undefined,
+          undefined,
+          TABLE_FIELD_SELECTION
+        );
+      } else if (useCursorPagination && cursor) {
         // Use cursor-based pagination
         result = await advocateService.getAdvocatesByCursor(
           cursor,
           'next',
           pageSize,
-          sortParams
-        );
-      } else if (searchTerm.trim() !== '') {
-        // Use search with pagination
-        result = await advocateService.searchAdvocates(
-          searchTerm,
-          { page: currentPage, limit: pageSize }
+          sortParams,
+          undefined,
+          TABLE_FIELD_SELECTION
         );
       } else {
         // Use regular pagination
         result = await advocateService.getAdvocates(
           { page: currentPage, limit: pageSize },
-          sortParams
+          sortParams,
+          undefined,
+          undefined,
+          TABLE_FIELD_SELECTION
         );
       }
       
       // Verify that we have valid data before updating state
       if (result && Array.isArray(result.data)) {
         setAdvocates(result.data);
-        setFilteredAdvocates(result.data);
         
         if (result.pagination) {
           setPagination(result.pagination);
@@ -187,17 +227,20 @@ export function useAdvocates(options: UseAdvocatesOptions = {}): UseAdvocatesRes
         // Update URL params
         updateUrl();
       } else {
-        console.error('Invalid response format:', result);
+        logger.error('Invalid response format', { response: result });
         setError('Received invalid data format from the server.');
       }
     } catch (error: any) {
-      console.error('Error fetching advocates:', error);
+      logger.error('Error fetching advocates', { error });
       
       // Provide more specific error messages based on the error type
       if (error.status === 404) {
         setError('The requested resource was not found.');
       } else if (error.status === 500) {
-        setError('Server error. Please try again later.');
+        // The request id lets support find the failure in the server logs
+        setError(error.requestId
+          ? `Server error. Please try again later. (Request ID: ${error.requestId})`
+          : 'Server error. Please try again later.');
       } else if (error.message) {
         setError(`Error: ${error.message}`);
       } else {
@@ -206,11 +249,10 @@ export function useAdvocates(options: UseAdvocatesOptions = {}): UseAdvocatesRes
       
       // Set empty data to prevent displaying stale data
       setAdvocates([]);
-      setFilteredAdvocates([]);
     } finally {
       setIsLoading(false);
     }
-  }, [currentPage, pageSize, cursor, sortParams, searchTerm, useCursorPagination, updateUrl]);
+  }, [currentPage, pageSize, cursor, sortParams, isSortChosen, debouncedSearchTerm, useCursorPagination, updateUrl]);
   
   /**
    * Handle page change
@@ -242,19 +284,26 @@ export function useAdvocates(options: UseAdvocatesOptions = {}): UseAdvocatesRes
   
   /**
    * Handle sort change
+   * Without addKey the field replaces the current sort; with it the field is
+   * appended as the least significant key, or its direction changed if already sorted by
    */
-  const handleSortChange = useCallback((field: string, direction?: 'asc' | 'desc') => {
+  const handleSortChange = useCallback((field: string, direction?: 'asc' | 'desc', addKey = false) => {
+    const sortField: SortField = { field: field as SortField['field'], direction: direction || 'asc' };
+    const currentFields = sortParams.sortFields ?? [];
+    const fields = !addKey
+      ? [sortField]
+      : currentFields.some(existing => existing.field === sortField.field)
+        ? currentFields.map(existing => existing.field === sortField.field ? sortField : existing)
+        : [...currentFields, sortField];
+    
     // Update sort params state
-    setSortParams({
-      sort: field as any,
-      order: direction || 'asc'
-    });
+    setSortParams(toSortParams(fields));
+    setIsSortChosen(true);
     
     // Immediately update URL if sync is enabled
     if (syncWithUrl) {
       const params = new URLSearchParams(searchParams.toString());
-      params.set('sort', field);
-      params.set('order', direction || 'asc');
+      setSortUrlParams(params, fields);
       
       // Keep other params intact
       if (!useCursorPagination) {
@@ -265,7 +314,7 @@ export function useAdvocates(options: UseAdvocatesOptions = {}): UseAdvocatesRes
       // Update URL without refreshing the page
       router.push(`?${params.toString()}`, { scroll: false });
     }
-  }, [router, searchParams, syncWithUrl, useCursorPagination, currentPage, pageSize]);
+  }, [router, searchParams, syncWithUrl, useCursorPagination, currentPage, pageSize, sortParams]);
   
   /**
    * Reset search
@@ -286,53 +335,15 @@ export function useAdvocates(options: UseAdvocatesOptions = {}): UseAdvocatesRes
     fetchAdvocates();
   }, [fetchAdvocates]);
   
-  // Debounce search term changes to improve performance
+  // Debounce search term changes so the server is not queried on every keystroke
   useEffect(() => {
-    // Skip if search term is empty
-    if (searchTerm.trim() === '') {
-      setFilteredAdvocates(advocates);
-      return;
-    }
-    
-    // Set a debounce timer to avoid filtering on every keystroke
     const debounceTimer = setTimeout(() => {
-      const searchLower = searchTerm.toLowerCase();
-      
-      const filtered = advocates.filter(advocate => {
-        // Search across multiple fields for better results
-        return (
-          // Name fields
-          `${advocate.firstName} ${advocate.lastName}`.toLowerCase().includes(searchLower) ||
-          advocate.firstName.toLowerCase().includes(searchLower) ||
-          advocate.lastName.toLowerCase().includes(searchLower) ||
-          // Professional fields
-          advocate.degree.toLowerCase().includes(searchLower) ||
-          // Location fields
-          advocate.city.toLowerCase().includes(searchLower) ||
-          (advocate.state && advocate.state.toLowerCase().includes(searchLower)) ||
-          advocate.country.toLowerCase().includes(searchLower) ||
-          // Specialty fields (search within array)
-          advocate.specialties.some(specialty => 
-            specialty.toLowerCase().includes(searchLower)
-          ) ||
-          // Phone number search
-          String(advocate.phoneNumber).includes(searchLower.replace(/[^0-9]/g, ''))
-        );
-      });
-      
-      setFilteredAdvocates(filtered);
-      
-      // Update URL with search term if URL sync is enabled
-      if (syncWithUrl) {
-        const params = new URLSearchParams(searchParams.toString());
-        params.set('search', searchTerm);
-        router.push(`?${params.toString()}`, { scroll: false });
-      }
+      setDebouncedSearchTerm(searchTerm.trim());
     }, 300); // 300ms debounce delay
     
     // Clean up the timer on component unmount or when search term changes
     return () => clearTimeout(debounceTimer);
-  }, [advocates, searchTerm, syncWithUrl, router, searchParams]);
+  }, [searchTerm]);
 
   // Custom setSearchTerm function that also resets to the first page
   const handleSearchTermChange = useCallback((term: string) => {
@@ -354,7 +365,6 @@ export function useAdvocates(options: UseAdvocatesOptions = {}): UseAdvocatesRes
   // Return the hook result
   return {
     advocates,
-    filteredAdvocates,
     pagination,
     isLoading,
     error,
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  RateLimitApiKey,
+  getRateLimit,
+  getRateLimitStore,
+  setRateLimitHeaders,
+  takeTokens
+} from './utils/rateLimit';
+import { API_KEY_PREFIX, getBearerToken, hashApiKey, isAdminToken } from './utils/auth';
+import { withApiVersion } from './utils/apiVersion';
+import { errorResponse } from './utils/errors';
+import { REQUEST_ID_HEADER, getRequestId } from './utils/requestLog';
+
+/**
+ * Identify the API key of a request for rate limiting, without a database lookup
+ * Keys are told apart by a prefix of their hash. Only the admin token can be
+ * verified here; other keys are checked by the routes, which reject unknown keys
+ * with 401, so until then they are also limited by IP address
+ *
+ * @param request NextRequest object
+ * @returns Key identity, or undefined for requests without an API key
+ */
+async function getApiKey(request: NextRequest): Promise<RateLimitApiKey | undefined> {
+  const token = getBearerToken(request);
+  if (!token) return undefined;
+  if (isAdminToken(token)) return { id: 'admin', verified: true };
+  if (!token.startsWith(API_KEY_PREFIX)) return undefined;
+
+  return { id: (await hashApiKey(token)).slice(0, 16), verified: false };
+}
+
+/**
+ * Rate limit every API request with a token bucket per API key or IP address
+ * Allowed requests continue to the route with RateLimit headers; limited ones are
+ * answered with 429 RATE_LIMITED and Retry-After, in the requested API version.
+ * Every request is forwarded with an X-Request-Id, the caller's or a generated one,
+ * which the routes log and echo; 429 responses echo it here
+ *
+ * @param request NextRequest object
+ * @returns Response continuing to the route, or the 429 response
+ */
+export async function middleware(request: NextRequest) {
+  const { policy, keys } = getRateLimit(request, await getApiKey(request));
+  const result = await takeTokens(getRateLimitStore(), keys, policy, Date.now());
+
+  const requestId = getRequestId(request);
+  const requestHeaders = new Headers(request.headers);
+  requestHeaders.set(REQUEST_ID_HEADER, requestId);
+
+  const response = result.allowed
+    ? NextResponse.next({ request: { headers: requestHeaders } })
+    : await withApiVersion(async () => errorResponse(
+      429,
+      `Too many requests; retry in ${result.retryAfterSeconds} seconds`,
+      'RATE_LIMITED'
+    ))(request, undefined);
+
+  if (!result.allowed) {
+    response.headers.set(REQUEST_ID_HEADER, requestId);
+  }
+
+  setRateLimitHeaders(response.headers, policy, result);
+  return response;
+}
+
+export const config = {
+  matcher: '/api/:path*',
+};
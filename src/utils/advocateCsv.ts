@@ -0,0 +1,212 @@
+import { parseCsv, stripFormulaGuard } from './csv';
+import { ValidatedAdvocateInput, validateAdvocateInput } from './advocateValidation';
+import { ValidationErrors } from './validation';
+
+/**
+ * Maximum number of data rows accepted in a single import
+ */
+export const MAX_IMPORT_ROWS = 5000;
+
+/**
+ * Import columns and the header names they are recognized by
+ * Headers are matched case-insensitively, ignoring spaces and punctuation
+ */
+export const ADVOCATE_CSV_COLUMNS = {
+  name: ['name', 'fullname'],
+  firstName: ['firstname'],
+  lastName: ['lastname'],
+  degree: ['degree'],
+  experience: ['experience', 'yearsofexperience'],
+  phone: ['phone', 'phonenumber'],
+  city: ['city'],
+  state: ['state'],
+  postalCode: ['zip', 'zipcode', 'postalcode'],
+  specialties: ['specialties', 'specialty'],
+} as const;
+
+type AdvocateCsvColumn = keyof typeof ADVOCATE_CSV_COLUMNS;
+
+/**
+ * Columns that must be present in every import, besides a name
+ */
+const REQUIRED_COLUMNS: AdvocateCsvColumn[] = ['degree', 'experience', 'phone', 'city'];
+
+/**
+ * Valid CSV row, mapped to an advocate payload
+ */
+export interface AdvocateCsvRow {
+  /** Row number in the file; the header is row 1 */
+  row: number;
+  input: ValidatedAdvocateInput;
+}
+
+/**
+ * Errors of a single CSV row, keyed by column name
+ */
+export interface AdvocateCsvRowError {
+  /** Row number in the file; the header is row 1 */
+  row: number;
+  errors: ValidationErrors;
+}
+
+/**
+ * Result of parsing an advocate import file
+ */
+export interface ParsedAdvocateCsv {
+  /** Rows that passed validation */
+  rows: AdvocateCsvRow[];
+  /** Rows that failed validation */
+  errors: AdvocateCsvRowError[];
+  /** Number of data rows in the file */
+  totalRows: number;
+  /** Required columns missing from the header; when set no rows are parsed */
+  missingColumns: string[];
+}
+
+/**
+ * Normalize a header name for matching against the known columns
+ */
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Map header names to the index of their column
+ *
+ * @param header Header row of the file
+ * @returns Column index per known column
+ */
+function getColumnIndexes(header: string[]): Partial<Record<AdvocateCsvColumn, number>> {
+  const indexes: Partial<Record<AdvocateCsvColumn, number>> = {};
+  const normalized = header.map(normalizeHeader);
+
+  for (const [column, aliases] of Object.entries(ADVOCATE_CSV_COLUMNS)) {
+    const index = normalized.findIndex(name => (aliases as readonly string[]).includes(name));
+    if (index !== -1) {
+      indexes[column as AdvocateCsvColumn] = index;
+    }
+  }
+
+  return indexes;
+}
+
+/**
+ * Split a full name into first and last name
+ * Everything before the last word is the first name, so "Mary Ann Lee" becomes "Mary Ann" / "Lee"
+ */
+function splitName(name: string): { firstName?: string; lastName?: string } {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  if (words.length < 2) return {};
+
+  return {
+    firstName: words.slice(0, -1).join(' '),
+    lastName: words[words.length - 1],
+  };
+}
+
+/**
+ * Get the CSV column a validation error belongs to
+ *
+ * @param field Field path reported by the advocate validator
+ * @param hasNameColumn Whether names come from a single name column
+ * @returns Column name to report the error under
+ */
+function getErrorColumn(field: string, hasNameColumn: boolean): string {
+  if (field === 'firstName' || field === 'lastName') {
+    return hasNameColumn ? 'name' : field;
+  }
+  if (field.startsWith('specialties')) return 'specialties';
+  if (field === 'yearsOfExperience') return 'experience';
+  if (field === 'phoneNumber') return 'phone';
+  if (field.startsWith('location.')) return field.slice('location.'.length);
+  return field;
+}
+
+/**
+ * Parse and validate an advocate import file
+ * The file needs a header row with a name column (or firstName and lastName),
+ * degree, experience, phone and city; state, ZIP code and specialties are optional.
+ * Specialties are separated by semicolons, and the apostrophe CSV exports put before
+ * formula-like values is removed. Each row is validated with the same rules as
+ * POST /api/advocates, and a phone number may only appear once per file
+ *
+ * @param text CSV text
+ * @returns Valid rows and per-row errors
+ */
+export function parseAdvocateCsv(text: string): ParsedAdvocateCsv {
+  const [header = [], ...records] = parseCsv(text);
+  const indexes = getColumnIndexes(header);
+  const hasNameColumn = indexes.name !== undefined;
+
+  const missingColumns: string[] = REQUIRED_COLUMNS.filter(column => indexes[column] === undefined);
+  if (!hasNameColumn) {
+    if (indexes.firstName === undefined) missingColumns.unshift('name');
+    else if (indexes.lastName === undefined) missingColumns.unshift('lastName');
+  }
+
+  if (missingColumns.length > 0) {
+    return { rows: [], errors: [], totalRows: records.length, missingColumns };
+  }
+
+  const rows: AdvocateCsvRow[] = [];
+  const errors: AdvocateCsvRowError[] = [];
+  const phoneRows = new Map<number, number>();
+
+  records.forEach((record, index) => {
+    const row = index + 2;
+    const get = (column: AdvocateCsvColumn) => {
+      const columnIndex = indexes[column];
+      return columnIndex === undefined ? '' : stripFormulaGuard(record[columnIndex] ?? '').trim();
+    };
+
+    const rowErrors: ValidationErrors = {};
+    let name: { firstName?: string; lastName?: string };
+    if (hasNameColumn) {
+      name = splitName(get('name'));
+      if (!name.lastName) {
+        rowErrors.name = get('name')
+          ? 'name must include a first and last name'
+          : 'name is required';
+      }
+    } else {
+      name = { firstName: get('firstName'), lastName: get('lastName') };
+    }
+
+    const experience = get('experience');
+    const { data, errors: fieldErrors } = validateAdvocateInput({
+      ...name,
+      degree: get('degree'),
+      // Pass unparseable values through so the validator reports them
+      yearsOfExperience: /^\d+$/.test(experience) ? Number(experience) : experience || undefined,
+      phoneNumber: get('phone'),
+      specialties: get('specialties').split(';').map(name => name.trim()).filter(Boolean),
+      location: {
+        city: get('city'),
+        state: get('state') || undefined,
+        postalCode: get('postalCode') || undefined
+      },
+    });
+
+    for (const [field, message] of Object.entries(fieldErrors)) {
+      const column = getErrorColumn(field, hasNameColumn);
+      rowErrors[column] ??= message;
+    }
+
+    if (data) {
+      const firstRow = phoneRows.get(data.phoneNumber);
+      if (firstRow !== undefined) {
+        rowErrors.phone = `phone duplicates row ${firstRow}`;
+      } else {
+        phoneRows.set(data.phoneNumber, row);
+      }
+    }
+
+    if (data && Object.keys(rowErrors).length === 0) {
+      rows.push({ row, input: data });
+    } else {
+      errors.push({ row, errors: rowErrors });
+    }
+  });
+
+  return { rows, errors, totalRows: records.length, missingColumns };
+}
@@ -0,0 +1,183 @@
+import { NextRequest } from 'next/server';
+import { SQL, sql } from 'drizzle-orm';
+import { advocates, specialties, advocateSpecialties, locations } from '../db/schema';
+import { DEFAULT_SORT, SortKey, SortParams, getRankSortKeys, getSortKeys, getSortParams } from './sorting';
+import {
+  FilterOperation,
+  FilterValue,
+  buildFilterConditions,
+  buildFuzzyRank,
+  getFilterParams,
+  getFuzzyThresholdParam
+} from './filtering';
+import { buildSearchClause, getSearchParam } from './search';
+import {
+  FilterNode,
+  buildFilterExpressionCondition,
+  collectFilters,
+  getFilterExpressionParam,
+  hasFuzzyFilter
+} from './filterExpression';
+import { NearFilter, buildAdvocateDistance } from './geo';
+
+/**
+ * Advocate fields that sort case-insensitively
+ */
+export const ADVOCATE_TEXT_SORT_FIELDS = ['firstName', 'lastName', 'degree', 'city', 'state'];
+
+/**
+ * Search, filter and sort of an advocate list request, resolved into SQL
+ */
+export interface AdvocateQuery {
+  sortParams: SortParams;
+  filterParams: FilterValue[];
+  /** Filter expression from the filter parameter, when a valid one was given */
+  filterExpression?: FilterNode;
+  /** Full-text search query, when one was given */
+  searchTerm?: string;
+  /** Distance from a radius search's point to each advocate's nearest location, in the radius unit */
+  distance?: SQL<number>;
+  /** WHERE conditions, including the soft-delete exclusion */
+  conditions: SQL[];
+  /**
+   * WHERE conditions with the filters on one field left out, e.g. for that field's facet
+   * The filter expression is always kept, since its parts cannot be separated by field
+   */
+  conditionsWithout: (field: string) => SQL[];
+  /** Sort keys of the result set, ending with id as the unique tiebreaker */
+  sortKeys: SortKey[];
+  /** Identifies the result set, so cursors can be bound to it */
+  scope: string;
+}
+
+/**
+ * Drop the sort fields a request cannot be sorted by, such as distance without a
+ * radius search; the default sort is used if none is left
+ *
+ * @param params Sort parameters
+ * @param columns Sortable columns and expressions, by field
+ * @returns Sort parameters that only use available fields
+ */
+function withAvailableSortFields(params: SortParams, columns: Record<string, unknown>): SortParams {
+  const fields = params.fields.filter(({ field }) => field in columns);
+  return fields.length > 0 ? { fields } : { ...DEFAULT_SORT };
+}
+
+/**
+ * Column of an advocate's primary location, for sorting
+ * Without a flagged primary the latest location is used, as reads do; advocates
+ * without a location sort as an empty string so keyset comparisons never meet NULL
+ *
+ * @param tables Table objects from schema
+ * @param column Location column
+ * @returns SQL expression for the column
+ */
+function buildPrimaryLocationColumn(
+  tables: { advocates: Record<string, any>; locations: Record<string, any> },
+  column: string
+): SQL<string> {
+  return sql<string>`coalesce((
+    SELECT ${tables.locations[column]}
+    FROM ${tables.locations}
+    WHERE ${tables.locations.advocateId} = ${tables.advocates.id}
+    ORDER BY ${tables.locations.isPrimary} DESC, ${tables.locations.createdAt} DESC
+    LIMIT 1
+  ), '')`;
+}
+
+/**
+ * Number of specialties of an advocate, for sorting
+ *
+ * @param tables Table objects from schema
+ * @returns SQL expression for the count
+ */
+function buildSpecialtyCount(
+  tables: { advocates: Record<string, any>; advocateSpecialties: Record<string, any> }
+): SQL<number> {
+  return sql<number>`(
+    SELECT count(*)::int
+    FROM ${tables.advocateSpecialties}
+    WHERE ${tables.advocateSpecialties.advocateId} = ${tables.advocates.id}
+  )`;
+}
+
+/**
+ * Resolve the search, filter and sort parameters shared by the advocate list and export
+ * Without an explicit sort parameter, full-text search results are ordered by
+ * relevance and fuzzy filter results by similarity. Sorting by distance is only
+ * honored with a radius search from the near parameter, and by relevance with a
+ * full-text search. An invalid filter expression is ignored here; routes reject it first
+ *
+ * @param request NextRequest object
+ * @param options.includeDeleted Include soft-deleted advocates; callers must check admin access
+ * @param options.strict Throw instead of skipping filters whose conditions cannot be built
+ * @returns The resolved query
+ */
+export function buildAdvocateQuery(
+  request: NextRequest,
+  { includeDeleted = false, strict = false }: { includeDeleted?: boolean; strict?: boolean } = {}
+): AdvocateQuery {
+  const tables = { advocates, specialties, advocateSpecialties, locations };
+
+  const filterParams = getFilterParams(request);
+  const near = filterParams.find(filter => filter.operation === FilterOperation.WITHIN)?.value as NearFilter | undefined;
+  const distance = near ? buildAdvocateDistance(tables, near) : undefined;
+  const searchTerm = getSearchParam(request);
+  const filterExpression = getFilterExpressionParam(request)?.expression;
+  const isFuzzy = filterParams.some(filter => filter.operation === FilterOperation.FUZZY) ||
+    (filterExpression !== undefined && hasFuzzyFilter(filterExpression));
+  const fuzzyThreshold = isFuzzy ? getFuzzyThresholdParam(request) : undefined;
+
+  const search = searchTerm ? buildSearchClause(advocates, searchTerm) : undefined;
+  const sortColumns: Record<string, unknown> = {
+    ...advocates,
+    city: buildPrimaryLocationColumn(tables, 'city'),
+    state: buildPrimaryLocationColumn(tables, 'state'),
+    specialtyCount: buildSpecialtyCount(tables),
+    ...(distance ? { distance } : {}),
+    ...(search ? { relevance: search.rank } : {})
+  };
+  const sortParams = withAvailableSortFields(getSortParams(request), sortColumns);
+  const expressionCondition = filterExpression
+    ? buildFilterExpressionCondition(tables, filterExpression, fuzzyThreshold)
+    : undefined;
+  const buildConditions = (filters: FilterValue[]): SQL[] => [
+    ...buildFilterConditions(tables, filters, { includeDeleted, fuzzyThreshold, strict }),
+    ...(expressionCondition ? [expressionCondition] : []),
+    ...(search ? [search.condition] : [])
+  ];
+
+  const ranks: { field: string; rank: SQL }[] = [];
+  if (search) {
+    ranks.push({ field: 'relevance', rank: search.rank });
+  }
+  // Fuzzy filters of the expression rank too, except negated ones, which only exclude
+  const expressionFilters = filterExpression ? collectFilters(filterExpression, { negated: false }) : [];
+  const fuzzyRank = buildFuzzyRank(tables, [...filterParams, ...expressionFilters]);
+  if (fuzzyRank) {
+    ranks.push({ field: 'similarity', rank: fuzzyRank });
+  }
+
+  const sortKeys = ranks.length > 0 && !request.nextUrl.searchParams.has('sort')
+    ? getRankSortKeys(advocates, ranks, 'id')
+    : getSortKeys(sortColumns, sortParams, ADVOCATE_TEXT_SORT_FIELDS, 'id');
+
+  return {
+    sortParams,
+    filterParams,
+    filterExpression,
+    searchTerm,
+    distance,
+    conditions: buildConditions(filterParams),
+    conditionsWithout: field => buildConditions(filterParams.filter(filter => filter.field !== field)),
+    sortKeys,
+    scope: JSON.stringify({
+      sort: sortParams,
+      filters: filterParams,
+      filter: filterExpression,
+      q: searchTerm,
+      fuzzyThreshold,
+      includeDeleted
+    })
+  };
+}
@@ -0,0 +1,260 @@
+import { advocates, locations, specialties } from '../db/schema';
+import { AdvocateInput } from '../api/types/advocate';
+import {
+  ValidationErrors,
+  ValidationResult,
+  getMaxLength,
+  parsePhoneNumber,
+  validateString
+} from './validation';
+import { ZIP_CODE_PATTERN } from './geo';
+
+/**
+ * Validated location; a missing country falls back to the column default
+ */
+export interface ValidatedLocation {
+  city: string;
+  state?: string;
+  country?: string;
+  /** US ZIP code, used to geocode the location */
+  postalCode?: string;
+}
+
+/**
+ * Validated advocate payload, ready to be written to the database
+ */
+export interface ValidatedAdvocateInput {
+  firstName: string;
+  lastName: string;
+  degree: string;
+  yearsOfExperience: number;
+  phoneNumber: number;
+  specialties: string[];
+  /** Primary location */
+  location: ValidatedLocation;
+  /**
+   * Every location of the advocate, exactly one of them primary
+   * Only set when the payload gave a locations array, which replaces the whole set
+   */
+  locations?: (ValidatedLocation & { isPrimary: boolean })[];
+}
+
+/**
+ * Validate an advocate payload for creation
+ * String lengths are checked against the varchar limits declared in the schema
+ *
+ * @param input Untrusted payload, e.g. a parsed request body
+ * @returns Normalized payload, or per-field errors
+ */
+export function validateAdvocateInput(input: unknown): ValidationResult<ValidatedAdvocateInput> {
+  return validateAdvocateFields(input, false) as ValidationResult<ValidatedAdvocateInput>;
+}
+
+/**
+ * Validate a partial advocate payload for an update
+ * Only the fields present are validated; at least one field must be given.
+ * When specialties are given they replace the advocate's whole specialty set
+ *
+ * @param input Untrusted payload, e.g. a parsed request body
+ * @returns Normalized payload containing only the given fields, or per-field errors
+ */
+export function validateAdvocatePatch(
+  input: unknown
+): ValidationResult<Partial<ValidatedAdvocateInput>> {
+  return validateAdvocateFields(input, true);
+}
+
+/**
+ * Shared validation for create and update payloads
+ *
+ * @param input Untrusted payload
+ * @param partial Whether missing fields are allowed
+ * @returns Normalized payload, or per-field errors
+ */
+function validateAdvocateFields(
+  input: unknown,
+  partial: boolean
+): ValidationResult<Partial<ValidatedAdvocateInput>> {
+  const errors: ValidationErrors = {};
+
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { errors: { body: 'body must be a JSON object' } };
+  }
+
+  const body = input as Partial<Record<keyof AdvocateInput, unknown>>;
+  const data: Partial<ValidatedAdvocateInput> = {};
+
+  // In partial mode a field is only validated when it is present
+  const isGiven = (field: keyof AdvocateInput) => !partial || body[field] !== undefined;
+
+  if (isGiven('firstName')) {
+    data.firstName = validateString(body.firstName, 'firstName', errors, {
+      maxLength: getMaxLength(advocates.firstName)
+    });
+  }
+  if (isGiven('lastName')) {
+    data.lastName = validateString(body.lastName, 'lastName', errors, {
+      maxLength: getMaxLength(advocates.lastName)
+    });
+  }
+  if (isGiven('degree')) {
+    data.degree = validateString(body.degree, 'degree', errors, {
+      maxLength: getMaxLength(advocates.degree)
+    });
+  }
+
+  if (isGiven('yearsOfExperience')) {
+    const yearsOfExperience = body.yearsOfExperience;
+    if (yearsOfExperience === undefined || yearsOfExperience === null) {
+      errors.yearsOfExperience = 'yearsOfExperience is required';
+    } else if (
+      typeof yearsOfExperience !== 'number' ||
+      !Number.isInteger(yearsOfExperience) ||
+      yearsOfExperience < 0
+    ) {
+      errors.yearsOfExperience = 'yearsOfExperience must be a non-negative integer';
+    } else {
+      data.yearsOfExperience = yearsOfExperience;
+    }
+  }
+
+  if (isGiven('phoneNumber')) {
+    const phoneNumber = parsePhoneNumber(body.phoneNumber);
+    if (body.phoneNumber === undefined || body.phoneNumber === null || body.phoneNumber === '') {
+      errors.phoneNumber = 'phoneNumber is required';
+    } else if (phoneNumber === undefined) {
+      errors.phoneNumber = 'phoneNumber must be a 10 digit US phone number';
+    } else {
+      data.phoneNumber = phoneNumber;
+    }
+  }
+
+  if (!partial || body.specialties !== undefined) {
+    const specialtyNames: string[] = [];
+    if (body.specialties !== undefined && !Array.isArray(body.specialties)) {
+      errors.specialties = 'specialties must be an array of specialty names';
+    } else {
+      (body.specialties as unknown[] | undefined)?.forEach((name, index) => {
+        const specialty = validateString(name, `specialties[${index}]`, errors, {
+          maxLength: getMaxLength(specialties.name)
+        });
+        if (specialty && !specialtyNames.includes(specialty)) {
+          specialtyNames.push(specialty);
+        }
+      });
+    }
+    data.specialties = specialtyNames;
+  }
+
+  if (body.location !== undefined && body.locations !== undefined) {
+    errors.location = 'give either location or locations, not both';
+  } else if (body.locations !== undefined) {
+    const validatedLocations = validateLocations(body.locations, errors);
+    if (validatedLocations) {
+      const { isPrimary: _isPrimary, ...primaryLocation } =
+        validatedLocations.find(location => location.isPrimary)!;
+      data.locations = validatedLocations;
+      data.location = primaryLocation;
+    }
+  } else if (isGiven('location')) {
+    const location = validateLocation(body.location, 'location', errors);
+    if (location) {
+      data.location = location;
+    }
+  }
+
+  if (partial && Object.keys(data).length === 0 && Object.keys(errors).length === 0) {
+    errors.body = 'at least one field must be given';
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { errors };
+  }
+
+  return { data, errors };
+}
+
+/**
+ * Validate a single location object
+ *
+ * @param input Untrusted location
+ * @param field Field path used in error keys, e.g. location or locations[1]
+ * @param errors Collected validation errors
+ * @returns The location, or undefined if it is invalid
+ */
+function validateLocation(
+  input: unknown,
+  field: string,
+  errors: ValidationErrors
+): ValidatedLocation | undefined {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    errors[field] = `${field} is required`;
+    return undefined;
+  }
+
+  const rawLocation = input as Record<string, unknown>;
+  const city = validateString(rawLocation.city, `${field}.city`, errors, {
+    maxLength: getMaxLength(locations.city)
+  });
+  const state = validateString(rawLocation.state, `${field}.state`, errors, {
+    maxLength: getMaxLength(locations.state),
+    required: false
+  });
+  const country = validateString(rawLocation.country, `${field}.country`, errors, {
+    maxLength: getMaxLength(locations.country),
+    required: false
+  });
+  const postalCode = validateString(rawLocation.postalCode, `${field}.postalCode`, errors, {
+    maxLength: getMaxLength(locations.postalCode),
+    required: false
+  });
+  if (postalCode && !ZIP_CODE_PATTERN.test(postalCode)) {
+    errors[`${field}.postalCode`] = `${field}.postalCode must be a 5 digit ZIP code or ZIP+4`;
+  }
+
+  return city ? { city, state, country, postalCode } : undefined;
+}
+
+/**
+ * Validate a list of locations
+ * At most one location may be flagged isPrimary; when none is, the first one becomes primary
+ *
+ * @param input Untrusted locations
+ * @param errors Collected validation errors
+ * @returns Locations with exactly one of them primary, or undefined if any is invalid
+ */
+function validateLocations(
+  input: unknown,
+  errors: ValidationErrors
+): ValidatedAdvocateInput['locations'] {
+  if (!Array.isArray(input) || input.length === 0) {
+    errors.locations = 'locations must be a non-empty array of locations';
+    return undefined;
+  }
+
+  const errorCount = Object.keys(errors).length;
+  const validated = input.map((rawLocation, index) => {
+    const field = `locations[${index}]`;
+    const location = validateLocation(rawLocation, field, errors);
+    const isPrimary = (rawLocation as { isPrimary?: unknown } | null)?.isPrimary ?? false;
+    if (typeof isPrimary !== 'boolean') {
+      errors[`${field}.isPrimary`] = `${field}.isPrimary must be a boolean`;
+    }
+    return location && { ...location, isPrimary: isPrimary === true };
+  });
+
+  const primaryCount = validated.filter(location => location?.isPrimary).length;
+  if (primaryCount > 1) {
+    errors.locations = 'only one location can be primary';
+  }
+
+  if (Object.keys(errors).length > errorCount) {
+    return undefined;
+  }
+
+  const result = validated as NonNullable<ValidatedAdvocateInput['locations']>;
+  if (primaryCount === 0) {
+    result[0].isPrimary = true;
+  }
+  return result;
+}
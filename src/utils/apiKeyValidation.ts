@@ -0,0 +1,69 @@
+import { apiKeys } from '../db/schema';
+import { API_SCOPES, ApiScope } from './auth';
+import {
+  ValidationErrors,
+  ValidationResult,
+  getMaxLength,
+  validateString
+} from './validation';
+
+/**
+ * Validated API key payload, ready to be minted
+ */
+export interface ValidatedApiKeyInput {
+  name: string;
+  /** Distinct scopes, in the order given */
+  scopes: ApiScope[];
+  /** Null when the key does not expire */
+  expiresAt: Date | null;
+}
+
+/**
+ * Validate an API key payload for minting
+ * expiresAt is an ISO 8601 date in the future, or null or missing for a key that does not expire
+ *
+ * @param input Untrusted payload, e.g. a parsed request body
+ * @param now Current time, against which expiresAt is checked
+ * @returns Normalized payload, or per-field errors
+ */
+export function validateApiKeyInput(
+  input: unknown,
+  now: Date = new Date()
+): ValidationResult<ValidatedApiKeyInput> {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { errors: { body: 'body must be a JSON object' } };
+  }
+
+  const body = input as Partial<Record<keyof ValidatedApiKeyInput, unknown>>;
+  const errors: ValidationErrors = {};
+
+  const name = validateString(body.name, 'name', errors, { maxLength: getMaxLength(apiKeys.name) });
+
+  let scopes: ApiScope[] = [];
+  if (!Array.isArray(body.scopes) || body.scopes.length === 0) {
+    errors.scopes = 'scopes must be a non-empty array';
+  } else {
+    const invalid = body.scopes.find(scope => !(API_SCOPES as readonly unknown[]).includes(scope));
+    if (invalid !== undefined) {
+      errors.scopes = `"${String(invalid)}" must be one of ${API_SCOPES.join(', ')}`;
+    } else {
+      scopes = Array.from(new Set(body.scopes as ApiScope[]));
+    }
+  }
+
+  let expiresAt: Date | null = null;
+  if (body.expiresAt !== undefined && body.expiresAt !== null) {
+    expiresAt = typeof body.expiresAt === 'string' ? new Date(body.expiresAt) : new Date(NaN);
+    if (Number.isNaN(expiresAt.getTime())) {
+      errors.expiresAt = 'expiresAt must be an ISO 8601 date';
+    } else if (expiresAt <= now) {
+      errors.expiresAt = 'expiresAt must be in the future';
+    }
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { errors };
+  }
+
+  return { data: { name: name as string, scopes, expiresAt }, errors };
+}
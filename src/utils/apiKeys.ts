@@ -0,0 +1,105 @@
+import { NextRequest } from 'next/server';
+import { ApiKeyRecord, findActiveApiKeyByHash, insertApiKey, touchApiKey } from '../db/queries/apiKeys';
+import {
+  ADMIN_TOKEN_CALLER,
+  ANONYMOUS_CALLER,
+  API_SCOPES,
+  ApiScope,
+  Caller,
+  generateApiKey,
+  getBearerToken,
+  hasScope,
+  hashApiKey,
+  isAdminToken,
+  setCaller
+} from './auth';
+import { errorResponse } from './errors';
+
+/**
+ * Number of characters of a key kept as its display prefix, including "sk_"
+ */
+const DISPLAY_PREFIX_LENGTH = 8;
+
+/**
+ * Resolve the caller of a request from its bearer token
+ * No token makes the caller anonymous, the ADMIN_API_TOKEN an admin, and any other
+ * token is looked up by its hash among the keys that are neither revoked nor expired
+ *
+ * @param request NextRequest object
+ * @returns Caller, or undefined if the token is not a usable key
+ */
+export async function resolveCaller(request: NextRequest): Promise<Caller | undefined> {
+  const token = getBearerToken(request);
+  if (!token) return ANONYMOUS_CALLER;
+  if (isAdminToken(token)) return ADMIN_TOKEN_CALLER;
+
+  const apiKey = await findActiveApiKeyByHash(await hashApiKey(token));
+  if (!apiKey) return undefined;
+
+  await touchApiKey(apiKey.id);
+  return {
+    type: 'api-key',
+    keyId: apiKey.id,
+    scopes: apiKey.scopes.filter((scope): scope is ApiScope => (API_SCOPES as readonly string[]).includes(scope)),
+  };
+}
+
+/**
+ * Create an API key
+ * The key is returned once and only its hash is stored
+ *
+ * @param input Name, scopes and optional expiry of the key
+ * @returns The stored key without its hash, and the key itself
+ */
+export async function createApiKey(input: {
+  name: string;
+  scopes: ApiScope[];
+  expiresAt?: Date | null;
+}): Promise<{ apiKey: ApiKeyRecord; key: string }> {
+  const key = generateApiKey();
+  const apiKey = await insertApiKey({
+    ...input,
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    keyHash: await hashApiKey(key),
+  });
+
+  return { apiKey, key };
+}
+
+/**
+ * Require a scope for a route handler
+ * Resolves and records the caller before the handler runs, so isAdminRequest and
+ * isApiKeyRequest see keys from the database. Unknown, revoked or expired keys are
+ * rejected with 401 INVALID_API_KEY, anonymous callers without the scope with
+ * 401 UNAUTHORIZED and keys without it with 403 FORBIDDEN
+ *
+ * @param scope Scope the caller needs
+ * @param handler Route handler
+ * @returns Route handler that checks the scope first
+ */
+export function withScope<C>(
+  scope: ApiScope,
+  handler: (request: NextRequest, context: C) => Promise<Response>
+): (request: NextRequest, context: C) => Promise<Response> {
+  return async (request, context) => {
+    const caller = await resolveCaller(request);
+
+    if (!caller) {
+      const response = errorResponse(401, 'Invalid, revoked or expired API key', 'INVALID_API_KEY');
+      response.headers.set('WWW-Authenticate', 'Bearer error="invalid_token"');
+      return response;
+    }
+
+    if (!hasScope(caller, scope)) {
+      if (caller.type === 'anonymous') {
+        const response = errorResponse(401, `An API key with the ${scope} scope is required`, 'UNAUTHORIZED');
+        response.headers.set('WWW-Authenticate', `Bearer scope="${scope}"`);
+        return response;
+      }
+      return errorResponse(403, `The API key lacks the ${scope} scope`, 'FORBIDDEN', { requiredScope: scope });
+    }
+
+    setCaller(request, caller);
+    return handler(request, context);
+  };
+}
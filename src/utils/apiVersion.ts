@@ -0,0 +1,260 @@
+import { NextRequest } from 'next/server';
+import {
+  Advocate,
+  AdvocateV2,
+  ApiErrorResponse,
+  ApiErrorResponseV2,
+  CursorMeta,
+  PaginationMeta
+} from '../api/types/advocate';
+import { errorResponse } from './errors';
+
+/**
+ * Versions of the API
+ * Version 1 is the original API, served without a version in the path; version 2
+ * drops the success flag, gives every error a status and code, groups an advocate's
+ * relations under relations and moves the cursors out of the pagination metadata
+ */
+export const API_VERSIONS = ['1', '2'] as const;
+
+export type ApiVersion = typeof API_VERSIONS[number];
+
+/**
+ * Version of requests that name none in the path or Accept-Version header
+ */
+export const DEFAULT_API_VERSION: ApiVersion = '1';
+
+/**
+ * Version that deprecated responses point to as their successor
+ */
+export const LATEST_API_VERSION: ApiVersion = '2';
+
+/**
+ * Date version 1 was deprecated, sent in the Deprecation header of its responses
+ */
+export const V1_DEPRECATION_DATE = new Date('2026-10-19T00:00:00Z');
+
+/**
+ * Date after which version 1 may be removed, sent in the Sunset header of its responses
+ */
+export const V1_SUNSET_DATE = new Date('2027-04-19T00:00:00Z');
+
+/**
+ * Matches the version prefix of /api/v1/... and /api/v2/... paths
+ */
+const VERSION_PATH_PATTERN = /^\/api\/v(\d+)(?=\/|$)/;
+
+/**
+ * Machine readable codes for errors that were sent without one
+ */
+const DEFAULT_ERROR_CODES: Record<number, string> = {
+  400: 'BAD_REQUEST',
+  401: 'UNAUTHORIZED',
+  403: 'FORBIDDEN',
+  404: 'NOT_FOUND',
+  409: 'CONFLICT',
+  412: 'PRECONDITION_FAILED',
+  413: 'PAYLOAD_TOO_LARGE',
+  415: 'UNSUPPORTED_MEDIA_TYPE',
+  428: 'PRECONDITION_REQUIRED',
+  500: 'INTERNAL_ERROR',
+};
+
+/**
+ * Parse an API version, with or without a leading v
+ *
+ * @param value Version from the path or Accept-Version header
+ * @returns API version, or undefined if it is not supported
+ */
+export function parseApiVersion(value: string): ApiVersion | undefined {
+  const version = value.trim().replace(/^v/i, '');
+  return (API_VERSIONS as readonly string[]).includes(version) ? version as ApiVersion : undefined;
+}
+
+/**
+ * Check the requested API version
+ * A version in the path takes precedence over the Accept-Version header
+ *
+ * @param request NextRequest object
+ * @returns Error message if the Accept-Version header names an unsupported version
+ */
+export function getApiVersionError(request: NextRequest): string | undefined {
+  if (VERSION_PATH_PATTERN.test(request.nextUrl.pathname)) return undefined;
+
+  const header = request.headers.get('accept-version');
+  if (header === null || parseApiVersion(header)) return undefined;
+
+  return `Unsupported API version "${header}"; use one of ${API_VERSIONS.join(', ')}`;
+}
+
+/**
+ * Get the API version of a request, from the path (/api/v2/...) or the Accept-Version header
+ * Unsupported versions fall back to the default, see getApiVersionError
+ *
+ * @param request NextRequest object
+ * @returns API version to respond with
+ */
+export function getApiVersion(request: NextRequest): ApiVersion {
+  const pathVersion = request.nextUrl.pathname.match(VERSION_PATH_PATTERN);
+  const requested = pathVersion ? pathVersion[1] : request.headers.get('accept-version');
+
+  return (requested && parseApiVersion(requested)) || DEFAULT_API_VERSION;
+}
+
+/**
+ * Path of the same resource in another API version
+ *
+ * @param pathname Request path, with or without a version
+ * @param version Version to point to
+ * @returns Versioned path
+ */
+export function getVersionedPath(pathname: string, version: ApiVersion): string {
+  return pathname.replace(VERSION_PATH_PATTERN, '/api').replace(/^\/api(?=\/|$)/, `/api/v${version}`);
+}
+
+/**
+ * Set the version headers of a response
+ * Version 1 responses announce their deprecation and sunset dates and link to
+ * the version 2 resource; Vary lets caches tell the negotiated versions apart
+ *
+ * @param headers Response headers to set
+ * @param version API version of the response
+ * @param pathname Request path
+ */
+export function setApiVersionHeaders(headers: Headers, version: ApiVersion, pathname: string): void {
+  headers.set('API-Version', version);
+  headers.append('Vary', 'Accept-Version');
+
+  if (version === '1') {
+    headers.set('Deprecation', `@${Math.floor(V1_DEPRECATION_DATE.getTime() / 1000)}`);
+    headers.set('Sunset', V1_SUNSET_DATE.toUTCString());
+    headers.append('Link', `<${getVersionedPath(pathname, LATEST_API_VERSION)}>; rel="successor-version"`);
+  }
+}
+
+/**
+ * Convert a version 1 error body to version 2
+ * Besides ApiErrorResponse, version 1 has a few bodies with the error as a string
+ *
+ * @param body Version 1 error body
+ * @param status HTTP status of the response
+ * @returns Version 2 error body
+ */
+export function toV2Error(body: { error?: unknown; message?: unknown }, status: number): ApiErrorResponseV2 {
+  const error = typeof body.error === 'object' && body.error !== null
+    ? body.error as ApiErrorResponse['error']
+    : { message: typeof body.error === 'string' ? body.error : String(body.message ?? 'Request failed') };
+
+  return {
+    error: {
+      status,
+      code: error.code ?? DEFAULT_ERROR_CODES[status] ?? `HTTP_${status}`,
+      message: error.message,
+      ...(error.details !== undefined ? { details: error.details } : {}),
+    },
+  };
+}
+
+/**
+ * Split version 1 pagination metadata into version 2 pagination and cursors
+ *
+ * @param pagination Version 1 pagination metadata
+ * @returns Pagination without cursors, and the cursors with their sort keys
+ */
+export function toV2Pagination(pagination: PaginationMeta & { cursorField?: string }): {
+  pagination: Omit<PaginationMeta, 'nextCursor' | 'prevCursor'>;
+  cursors: CursorMeta;
+} {
+  const { nextCursor, prevCursor, cursorField, ...rest } = pagination;
+
+  return {
+    pagination: rest,
+    cursors: {
+      next: nextCursor ?? null,
+      prev: prevCursor ?? null,
+      sortKeys: cursorField ? cursorField.split(',') : [],
+    },
+  };
+}
+
+/**
+ * Convert an advocate to its version 2 representation
+ * Specialties are the specialty records, taken from specialtyDetails; their names are dropped
+ *
+ * @param advocate Version 1 advocate, possibly with only some fields and relations
+ * @returns Advocate with its loaded relations under relations
+ */
+export function toV2Advocate(advocate: Partial<Advocate>): Partial<AdvocateV2> {
+  const { specialties, specialtyDetails, locations, ...fields } = advocate;
+
+  return {
+    ...fields,
+    relations: {
+      ...(specialtyDetails ? { specialties: specialtyDetails } : {}),
+      ...(locations ? { locations } : {}),
+    },
+  };
+}
+
+/**
+ * Options for withApiVersion
+ */
+export interface ApiVersionOptions {
+  /** Convert each item of a version 1 data property, e.g. toV2Advocate */
+  v2Data?: (item: any) => unknown;
+}
+
+/**
+ * Convert a version 1 JSON body to version 2
+ *
+ * @param body Version 1 body
+ * @param status HTTP status of the response
+ * @param options Conversion options
+ * @returns Version 2 body
+ */
+export function toV2Body(body: any, status: number, options: ApiVersionOptions = {}): unknown {
+  if (typeof body !== 'object' || body === null || typeof body.success !== 'boolean') return body;
+  if (!body.success) return toV2Error(body, status);
+
+  const { success, pagination, data, ...rest } = body;
+  const convert = options.v2Data;
+  return {
+    data: convert && data ? (Array.isArray(data) ? data.map(convert) : convert(data)) : data,
+    ...(pagination ? toV2Pagination(pagination) : {}),
+    ...rest,
+  };
+}
+
+/**
+ * Serve a route handler in every API version
+ * The handler keeps producing version 1 responses; for version 2 requests their
+ * JSON bodies are converted, and every response gets the version headers.
+ * Requests for an unsupported version are rejected with 400 UNSUPPORTED_API_VERSION
+ *
+ * @param handler Route handler producing version 1 responses
+ * @param options Conversion options
+ * @returns Route handler for every version
+ */
+export function withApiVersion<C>(
+  handler: (request: NextRequest, context: C) => Promise<Response>,
+  options: ApiVersionOptions = {}
+): (request: NextRequest, context: C) => Promise<Response> {
+  return async (request, context) => {
+    const version = getApiVersion(request);
+    const versionError = getApiVersionError(request);
+
+    let response = versionError
+      ? errorResponse(400, versionError, 'UNSUPPORTED_API_VERSION')
+      : await handler(request, context);
+
+    if (version === '2' && response.headers.get('content-type')?.includes('application/json')) {
+      const body = toV2Body(await response.json(), response.status, options);
+      const headers = new Headers(response.headers);
+      headers.delete('content-length');
+      response = Response.json(body, { status: response.status, statusText: response.statusText, headers });
+    }
+
+    setApiVersionHeaders(response.headers, version, request.nextUrl.pathname);
+    return response;
+  };
+}
@@ -0,0 +1,170 @@
+import { NextRequest } from 'next/server';
+import { QueryParamIssue } from '../api/types/advocate';
+import { AuditAction, AuditEntityType } from '../api/types/audit';
+import { Caller, getCaller } from './auth';
+import { getRequestId } from './requestLog';
+import { isValidUuid } from './validation';
+
+/**
+ * Actions recorded in the audit log
+ */
+export const AUDIT_ACTIONS: AuditAction[] = ['create', 'update', 'delete', 'restore', 'import', 'seed', 'merge'];
+
+/**
+ * Kinds of records the audit log covers
+ */
+export const AUDIT_ENTITY_TYPES: AuditEntityType[] = ['advocate', 'specialty'];
+
+/**
+ * Who made a write and in which request, recorded with each audit log entry
+ */
+export interface AuditContext {
+  /** anonymous, admin-token, api-key:<key id> or seed */
+  actor: string;
+  requestId?: string;
+}
+
+/**
+ * Changed fields of a record, before and after a write
+ */
+export interface AuditChanges {
+  /** Null when the record was created */
+  before: Record<string, unknown> | null;
+  /** Null when the record was removed */
+  after: Record<string, unknown> | null;
+}
+
+/**
+ * Filters of the audit log endpoint
+ */
+export interface AuditFilters {
+  actor?: string;
+  action?: AuditAction;
+  entityType?: AuditEntityType;
+  entityId?: string;
+  requestId?: string;
+  /** Entries made at or after this time */
+  from?: Date;
+  /** Entries made before this time */
+  to?: Date;
+}
+
+/**
+ * Name a caller in the audit log
+ *
+ * @param caller Caller of the request
+ * @returns anonymous, admin-token or api-key:<key id>
+ */
+export function getAuditActor(caller: Caller): string {
+  return caller.type === 'api-key' ? `api-key:${caller.keyId}` : caller.type;
+}
+
+/**
+ * Get the audit context of a request: its caller and its request id
+ *
+ * @param request NextRequest object
+ * @returns Audit context
+ */
+export function getAuditContext(request: NextRequest): AuditContext {
+  return { actor: getAuditActor(getCaller(request)), requestId: getRequestId(request) };
+}
+
+/**
+ * Work out the changed fields of a record
+ * Values are compared as JSON, so arrays and nested objects compare by content
+ *
+ * @param before Record before the write, or undefined if it did not exist
+ * @param after Record after the write, or undefined if it no longer exists
+ * @returns Changed fields before and after, or undefined if nothing changed
+ */
+export function diffSnapshots(
+  before: Record<string, unknown> | undefined,
+  after: Record<string, unknown> | undefined
+): AuditChanges | undefined {
+  if (!before && !after) return undefined;
+  if (!before || !after) return { before: before ?? null, after: after ?? null };
+
+  const changedBefore: Record<string, unknown> = {};
+  const changedAfter: Record<string, unknown> = {};
+
+  for (const key of Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))) {
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changedBefore[key] = before[key] ?? null;
+      changedAfter[key] = after[key] ?? null;
+    }
+  }
+
+  return Object.keys(changedAfter).length > 0 ? { before: changedBefore, after: changedAfter } : undefined;
+}
+
+/**
+ * Parse a date filter of the audit log endpoint
+ *
+ * @param value ISO 8601 date or date-time
+ * @returns The date, or undefined if the value is not a date
+ */
+function parseDate(value: string): Date | undefined {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Get the filters of an audit log request
+ * actor, action, entityType, entityId and requestId match exactly; from and to
+ * bound the time of the entries
+ *
+ * @param request NextRequest object
+ * @returns Filters, and an issue for every filter with an invalid value
+ */
+export function getAuditFilterParams(request: NextRequest): { filters: AuditFilters; issues: QueryParamIssue[] } {
+  const searchParams = request.nextUrl.searchParams;
+  const filters: AuditFilters = {};
+  const issues: QueryParamIssue[] = [];
+
+  const actor = searchParams.get('actor');
+  if (actor) filters.actor = actor;
+
+  const requestId = searchParams.get('requestId');
+  if (requestId) filters.requestId = requestId;
+
+  const action = searchParams.get('action');
+  if (action) {
+    if ((AUDIT_ACTIONS as string[]).includes(action)) {
+      filters.action = action as AuditAction;
+    } else {
+      issues.push({ parameter: 'action', reason: `must be one of ${AUDIT_ACTIONS.join(', ')}` });
+    }
+  }
+
+  const entityType = searchParams.get('entityType');
+  if (entityType) {
+    if ((AUDIT_ENTITY_TYPES as string[]).includes(entityType)) {
+      filters.entityType = entityType as AuditEntityType;
+    } else {
+      issues.push({ parameter: 'entityType', reason: `must be one of ${AUDIT_ENTITY_TYPES.join(', ')}` });
+    }
+  }
+
+  const entityId = searchParams.get('entityId');
+  if (entityId) {
+    if (isValidUuid(entityId)) {
+      filters.entityId = entityId;
+    } else {
+      issues.push({ parameter: 'entityId', reason: 'must be a UUID' });
+    }
+  }
+
+  for (const parameter of ['from', 'to'] as const) {
+    const value = searchParams.get(parameter);
+    if (!value) continue;
+
+    const date = parseDate(value);
+    if (date) {
+      filters[parameter] = date;
+    } else {
+      issues.push({ parameter, reason: 'must be an ISO 8601 date' });
+    }
+  }
+
+  return { filters, issues };
+}
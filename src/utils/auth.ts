@@ -0,0 +1,167 @@
+import { NextRequest } from 'next/server';
+
+/**
+ * Scopes an API key can grant
+ * advocates:read lists and reads advocates and specialties, advocates:write creates,
+ * updates, deletes and imports them, and admin grants every scope plus seeding,
+ * deleted advocates and managing API keys
+ */
+export const API_SCOPES = ['advocates:read', 'advocates:write', 'admin'] as const;
+
+export type ApiScope = typeof API_SCOPES[number];
+
+/**
+ * Who made a request, and what it may do
+ */
+export interface Caller {
+  /** anonymous without a key, admin-token for ADMIN_API_TOKEN, api-key for a key from the api_keys table */
+  type: 'anonymous' | 'admin-token' | 'api-key';
+  /** ID of the API key, only set for api-key callers */
+  keyId?: string;
+  scopes: ApiScope[];
+}
+
+/**
+ * Caller of requests without an API key, who may read advocates so the directory stays public
+ */
+export const ANONYMOUS_CALLER: Caller = { type: 'anonymous', scopes: ['advocates:read'] };
+
+/**
+ * Caller of requests with the ADMIN_API_TOKEN, the key that exists before any are minted
+ */
+export const ADMIN_TOKEN_CALLER: Caller = { type: 'admin-token', scopes: ['admin'] };
+
+/**
+ * Prefix of minted API keys, so they are recognizable in configuration and logs
+ */
+export const API_KEY_PREFIX = 'sk_';
+
+/**
+ * Callers recorded for requests once their key has been checked
+ */
+const callers = new WeakMap<NextRequest, Caller>();
+
+/**
+ * Compare two strings in time that depends only on their lengths
+ * Written out rather than using crypto.timingSafeEqual so the check also runs in middleware
+ *
+ * @param expected Secret to compare against
+ * @param actual Value given by the caller
+ * @returns True if the strings are equal
+ */
+function safeEqual(expected: string, actual: string): boolean {
+  if (expected.length !== actual.length) return false;
+
+  let difference = 0;
+  for (let index = 0; index < expected.length; index++) {
+    difference |= expected.charCodeAt(index) ^ actual.charCodeAt(index);
+  }
+  return difference === 0;
+}
+
+/**
+ * Get the token of an "Authorization: Bearer <token>" header
+ *
+ * @param request NextRequest object
+ * @returns Token, or undefined if the request has none
+ */
+export function getBearerToken(request: NextRequest): string | undefined {
+  const authorization = request.headers.get('authorization');
+  if (!authorization?.startsWith('Bearer ')) return undefined;
+
+  return authorization.slice('Bearer '.length).trim() || undefined;
+}
+
+/**
+ * Check whether a token is the admin token configured with ADMIN_API_TOKEN
+ * Without a configured token no token matches
+ *
+ * @param token Bearer token
+ * @returns True if the token is the admin token
+ */
+export function isAdminToken(token: string): boolean {
+  const adminToken = process.env.ADMIN_API_TOKEN;
+  return Boolean(adminToken) && safeEqual(adminToken as string, token);
+}
+
+/**
+ * Check whether a caller has a scope; admin implies every scope
+ *
+ * @param caller Caller of the request
+ * @param scope Required scope
+ * @returns True if the caller has the scope
+ */
+export function hasScope(caller: Caller, scope: ApiScope): boolean {
+  return caller.scopes.includes('admin') || caller.scopes.includes(scope);
+}
+
+/**
+ * Hash an API key for storage and lookup
+ * Keys are long and random, so a fast unsalted hash is enough; Web Crypto keeps it usable in middleware
+ *
+ * @param key API key
+ * @returns SHA-256 of the key, hex encoded
+ */
+export async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Generate a new API key: the prefix and 32 random bytes, base64url encoded
+ *
+ * @returns API key
+ */
+export function generateApiKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const base64 = btoa(String.fromCharCode(...Array.from(bytes)));
+  return API_KEY_PREFIX + base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Record the caller of a request once its key has been checked
+ *
+ * @param request NextRequest object
+ * @param caller Caller of the request
+ */
+export function setCaller(request: NextRequest, caller: Caller): void {
+  callers.set(request, caller);
+}
+
+/**
+ * Get the caller of a request
+ * Before the key has been checked, e.g. outside withScope, only the admin token is recognized
+ * and every other request is anonymous
+ *
+ * @param request NextRequest object
+ * @returns Recorded caller, or the caller known without a database lookup
+ */
+export function getCaller(request: NextRequest): Caller {
+  const recorded = callers.get(request);
+  if (recorded) return recorded;
+
+  const token = getBearerToken(request);
+  return token && isAdminToken(token) ? ADMIN_TOKEN_CALLER : ANONYMOUS_CALLER;
+}
+
+/**
+ * Check whether the request is authorized as admin
+ * True for the token configured with ADMIN_API_TOKEN, sent as "Authorization: Bearer <token>",
+ * and for API keys with the admin scope
+ *
+ * @param request NextRequest object
+ * @returns True if the request is authorized as admin
+ */
+export function isAdminRequest(request: NextRequest): boolean {
+  return hasScope(getCaller(request), 'admin');
+}
+
+/**
+ * Check whether the request authenticates with an API key, including the admin token
+ *
+ * @param request NextRequest object
+ * @returns True if the request carries a valid API key
+ */
+export function isApiKeyRequest(request: NextRequest): boolean {
+  return getCaller(request).type !== 'anonymous';
+}
@@ -0,0 +1,105 @@
+/**
+ * Parse CSV text into rows of fields (RFC 4180)
+ * Supports quoted fields with embedded commas, quotes ("") and line breaks,
+ * and both LF and CRLF line endings. Blank lines are skipped
+ *
+ * @param text CSV text
+ * @returns Array of rows, each an array of field values
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip a UTF-8 byte order mark, as written by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  // The last line may not end with a line break
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Value that can be written to a CSV cell
+ */
+export type CsvValue = string | number | null | undefined;
+
+/**
+ * Characters that make a spreadsheet treat a cell as a formula
+ */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Format a single CSV field
+ * Fields containing separators, quotes or line breaks are quoted. Text that a
+ * spreadsheet would run as a formula is prefixed with an apostrophe
+ *
+ * @param value Field value
+ * @returns Escaped field
+ */
+export function formatCsvField(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') return String(value);
+
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Remove the apostrophe formatCsvField puts before text a spreadsheet would run
+ * as a formula, so exported values read back as they were
+ *
+ * @param value Field value
+ * @returns Value without the formula guard
+ */
+export function stripFormulaGuard(value: string): string {
+  return value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value;
+}
+
+/**
+ * Format a row of fields as a CSV line, including the trailing CRLF
+ *
+ * @param values Field values
+ * @returns CSV line
+ */
+export function formatCsvRow(values: CsvValue[]): string {
+  return values.map(formatCsvField).join(',') + '\r\n';
+}
@@ -0,0 +1,28 @@
+import { ApiErrorResponse } from '../api/types/advocate';
+
+/**
+ * Create a JSON error response in the ApiErrorResponse shape
+ *
+ * @param status HTTP status code
+ * @param message Human readable error message
+ * @param code Machine readable error code (optional)
+ * @param details Additional error details, e.g. per-field validation errors (optional)
+ * @returns Response with the error body
+ */
+export function errorResponse(
+  status: number,
+  message: string,
+  code?: string,
+  details?: any
+): Response {
+  const body: ApiErrorResponse = {
+    success: false,
+    error: {
+      message,
+      ...(code ? { code } : {}),
+      ...(details !== undefined ? { details } : {}),
+    },
+  };
+
+  return Response.json(body, { status });
+}
@@ -0,0 +1,86 @@
+import { createHash } from 'crypto';
+
+/**
+ * Build a strong ETag for a record version
+ * The tag is derived from the record's updatedAt timestamp, so it changes on every write
+ * 
+ * @param updatedAt Last modification time of the record
+ * @returns Quoted strong ETag
+ */
+export function getVersionEtag(updatedAt: Date | string | null | undefined): string {
+  const time = updatedAt ? new Date(updatedAt).getTime() : 0;
+  return `"${time.toString(36)}"`;
+}
+
+/**
+ * Check an If-Match header against the current ETag using strong comparison
+ * Weak tags (W/"...") never match, as required for If-Match
+ * 
+ * @param ifMatch Value of the If-Match header
+ * @param etag Current strong ETag of the resource
+ * @returns True if the header matches the current ETag
+ */
+export function ifMatchSatisfied(ifMatch: string, etag: string): boolean {
+  return ifMatch
+    .split(',')
+    .map(tag => tag.trim())
+    .some(tag => tag === '*' || tag === etag);
+}
+
+/**
+ * Cache-Control for API responses that may be cached but must be revalidated
+ * Responses can depend on the Authorization header, so only private caches may keep them
+ */
+export const REVALIDATE_CACHE_CONTROL = 'private, no-cache';
+
+/**
+ * Build a weak ETag from the values a response is made of, e.g. the ids and
+ * updatedAt of its rows plus the normalized query
+ * Equal values always give the same tag, while the body may differ in formatting,
+ * hence the weak tag
+ * 
+ * @param parts JSON-serializable values the response is built from
+ * @returns Quoted weak ETag
+ */
+export function getContentEtag(parts: unknown[]): string {
+  const hash = createHash('sha1').update(JSON.stringify(parts)).digest('base64url');
+  return `W/"${hash}"`;
+}
+
+/**
+ * Check an If-None-Match header against the current ETag using weak comparison
+ * 
+ * @param ifNoneMatch Value of the If-None-Match header
+ * @param etag Current ETag of the resource
+ * @returns True if the client's copy is current, so a 304 can be sent
+ */
+export function ifNoneMatchSatisfied(ifNoneMatch: string, etag: string): boolean {
+  const opaque = (tag: string) => tag.trim().replace(/^W\//, '');
+  return ifNoneMatch
+    .split(',')
+    .some(tag => tag.trim() === '*' || opaque(tag) === opaque(etag));
+}
+
+/**
+ * Set the headers that let clients revalidate a cached response
+ * 
+ * @param headers Response headers to set
+ * @param etag ETag of the response
+ */
+export function setRevalidationHeaders(headers: Headers, etag: string): void {
+  headers.set('ETag', etag);
+  headers.set('Cache-Control', REVALIDATE_CACHE_CONTROL);
+  headers.set('Vary', 'Authorization');
+}
+
+/**
+ * Build a 304 Not Modified response for a request whose If-None-Match matched
+ * 
+ * @param etag Current ETag of the resource
+ * @returns Response without a body
+ */
+export function notModifiedResponse(etag: string): Response {
+  const response = new Response(null, { status: 304 });
+  setRevalidationHeaders(response.headers, etag);
+  return response;
+}
@@ -0,0 +1,177 @@
+import { NextRequest } from 'next/server';
+import type { AdvocateWithRelations } from '../db/queries/advocates';
+import { CsvValue, formatCsvRow } from './csv';
+import { XLSX_CONTENT_TYPE, writeXlsx } from './xlsx';
+
+/**
+ * Supported export formats
+ */
+export type ExportFormat = 'csv' | 'ndjson' | 'xlsx';
+
+/**
+ * Response content type and file extension per export format
+ */
+export const EXPORT_FORMATS: Record<ExportFormat, { contentType: string; extension: string }> = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  ndjson: { contentType: 'application/x-ndjson', extension: 'ndjson' },
+  xlsx: { contentType: XLSX_CONTENT_TYPE, extension: 'xlsx' },
+};
+
+/**
+ * Media types accepted in the Accept header, mapped to their export format
+ */
+const ACCEPT_FORMATS: Record<string, ExportFormat> = {
+  'text/csv': 'csv',
+  'application/x-ndjson': 'ndjson',
+  'application/ndjson': 'ndjson',
+  [XLSX_CONTENT_TYPE]: 'xlsx',
+};
+
+/**
+ * Columns of CSV and XLSX exports
+ * The headers are recognized by the advocate import, so a CSV export can be
+ * imported again; the columns the import does not know are ignored
+ */
+export const ADVOCATE_EXPORT_COLUMNS = [
+  'id',
+  'firstName',
+  'lastName',
+  'degree',
+  'yearsOfExperience',
+  'phoneNumber',
+  'specialties',
+  'city',
+  'state',
+  'postalCode',
+  'country',
+  'createdAt',
+  'updatedAt',
+  'deletedAt',
+] as const;
+
+/**
+ * Pick the export format for a request
+ * The format parameter wins over the Accept header; media types in the header are
+ * tried in order of their quality value. CSV is used when neither names a format
+ *
+ * @param request NextRequest object
+ * @returns Export format, or undefined if the format parameter is not supported
+ */
+export function getExportFormat(request: NextRequest): ExportFormat | undefined {
+  const format = request.nextUrl.searchParams.get('format');
+  if (format !== null) {
+    const normalized = format.toLowerCase();
+    return normalized in EXPORT_FORMATS ? normalized as ExportFormat : undefined;
+  }
+
+  const accepted = (request.headers.get('accept') || '')
+    .split(',')
+    .map(part => {
+      const [mediaType, ...params] = part.trim().split(';');
+      const quality = params.find(param => param.trim().startsWith('q='));
+      return {
+        mediaType: mediaType.trim().toLowerCase(),
+        quality: quality ? parseFloat(quality.trim().slice(2)) : 1,
+      };
+    })
+    .filter(({ mediaType, quality }) => mediaType in ACCEPT_FORMATS && quality > 0)
+    .sort((a, b) => b.quality - a.quality);
+
+  return accepted.length > 0 ? ACCEPT_FORMATS[accepted[0].mediaType] : 'csv';
+}
+
+/**
+ * Flatten an advocate into the export columns
+ * Specialties are joined with semicolons, the separator the import expects, and
+ * the location columns hold the primary location
+ *
+ * @param advocate Advocate with relations
+ * @returns Cell values in ADVOCATE_EXPORT_COLUMNS order
+ */
+export function toExportRow(advocate: AdvocateWithRelations): CsvValue[] {
+  const formatDate = (date: Date | null) => date ? new Date(date).toISOString() : null;
+
+  return [
+    advocate.id,
+    advocate.firstName,
+    advocate.lastName,
+    advocate.degree,
+    advocate.yearsOfExperience,
+    advocate.phoneNumber,
+    advocate.specialties.join('; '),
+    advocate.city,
+    advocate.state,
+    advocate.locations[0]?.postalCode ?? null,
+    advocate.country,
+    formatDate(advocate.createdAt),
+    formatDate(advocate.updatedAt),
+    formatDate(advocate.deletedAt),
+  ];
+}
+
+/**
+ * Map each batch of advocates to export rows
+ */
+async function* toExportRows(
+  batches: AsyncIterable<AdvocateWithRelations[]>
+): AsyncGenerator<CsvValue[][]> {
+  for await (const batch of batches) {
+    yield batch.map(toExportRow);
+  }
+}
+
+/**
+ * Serialize batches of advocates in an export format
+ * NDJSON keeps the specialties and locations arrays; CSV and XLSX flatten them
+ * to the specialty names and the primary location
+ *
+ * @param format Export format
+ * @param batches Batches of advocates
+ * @returns Encoded file contents
+ */
+export async function* serializeAdvocates(
+  format: ExportFormat,
+  batches: AsyncIterable<AdvocateWithRelations[]>
+): AsyncGenerator<Uint8Array> {
+  const encoder = new TextEncoder();
+
+  if (format === 'xlsx') {
+    yield* writeXlsx('Advocates', [...ADVOCATE_EXPORT_COLUMNS], toExportRows(batches));
+    return;
+  }
+
+  if (format === 'csv') {
+    yield encoder.encode(formatCsvRow([...ADVOCATE_EXPORT_COLUMNS]));
+    for await (const rows of toExportRows(batches)) {
+      yield encoder.encode(rows.map(formatCsvRow).join(''));
+    }
+    return;
+  }
+
+  for await (const batch of batches) {
+    yield encoder.encode(batch.map(advocate => JSON.stringify(advocate) + '\n').join(''));
+  }
+}
+
+/**
+ * Wrap an async generator in a ReadableStream that pulls one chunk at a time
+ * Cancelling the stream, e.g. when the client disconnects, stops the generator
+ *
+ * @param chunks Chunk generator
+ * @returns Readable stream of the chunks
+ */
+export function toReadableStream(chunks: AsyncGenerator<Uint8Array>): ReadableStream<Uint8Array> {
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await chunks.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
@@ -0,0 +1,109 @@
+import { NextRequest } from 'next/server';
+import { SQL, sql } from 'drizzle-orm';
+
+/**
+ * Facets that can be requested with the facets parameter
+ */
+export const ADVOCATE_FACETS = ['degree', 'specialty', 'city', 'experience'] as const;
+
+export type FacetName = typeof ADVOCATE_FACETS[number];
+
+/**
+ * Filter field each facet counts, whose filters are left out of the facet's own counts
+ * so a multi-select filter still shows the alternatives to the selected values
+ */
+export const FACET_FILTER_FIELDS: Record<FacetName, string> = {
+  degree: 'degree',
+  specialty: 'specialties',
+  city: 'city',
+  experience: 'yearsOfExperience'
+};
+
+/**
+ * Maximum number of values returned for a facet, most common first
+ */
+export const MAX_FACET_VALUES = 50;
+
+/**
+ * Years of experience band; max is inclusive and missing on the open-ended last band
+ */
+export interface ExperienceBand {
+  label: string;
+  min: number;
+  max?: number;
+}
+
+/**
+ * Bands the experience facet counts advocates in
+ * The labels can be turned into filters, e.g. 5-9 is experience[between]=5,9
+ */
+export const EXPERIENCE_BANDS: ExperienceBand[] = [
+  { label: '0-4', min: 0, max: 4 },
+  { label: '5-9', min: 5, max: 9 },
+  { label: '10-14', min: 10, max: 14 },
+  { label: '15-19', min: 15, max: 19 },
+  { label: '20+', min: 20 }
+];
+
+/**
+ * Number of matching advocates with a facet value
+ */
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+/**
+ * Counts of every requested facet, keyed by facet name
+ */
+export type FacetCounts = Partial<Record<FacetName, FacetCount[]>>;
+
+/**
+ * Parse the requested facets from request
+ * Unknown names are ignored and duplicates are dropped
+ *
+ * @param request NextRequest object
+ * @returns Facet names in the order they were requested
+ */
+export function getFacetsParam(request: NextRequest): FacetName[] {
+  const param = request.nextUrl.searchParams.get('facets');
+  if (!param) return [];
+
+  const names = param
+    .split(',')
+    .map(name => name.trim())
+    .filter((name): name is FacetName => (ADVOCATE_FACETS as readonly string[]).includes(name));
+
+  return Array.from(new Set(names));
+}
+
+/**
+ * Build the expression that puts a years of experience value in its band
+ * The bounds and labels are inlined rather than bound, so the same expression can
+ * be repeated in GROUP BY
+ *
+ * @param column Years of experience column
+ * @returns SQL CASE expression evaluating to the band label
+ */
+export function buildExperienceBandExpression(column: unknown): SQL<string> {
+  const cases = EXPERIENCE_BANDS.map(({ label, min, max }) =>
+    max === undefined
+      ? sql`WHEN ${column} >= ${sql.raw(String(min))} THEN ${sql.raw(`'${label}'`)}`
+      : sql`WHEN ${column} BETWEEN ${sql.raw(String(min))} AND ${sql.raw(String(max))} THEN ${sql.raw(`'${label}'`)}`
+  );
+
+  return sql<string>`CASE ${sql.join(cases, sql` `)} END`;
+}
+
+/**
+ * List every experience band with its count, including empty bands, in band order
+ *
+ * @param counts Counts of the bands that have advocates
+ * @returns Counts of all bands
+ */
+export function fillExperienceBands(counts: FacetCount[]): FacetCount[] {
+  return EXPERIENCE_BANDS.map(({ label }) => ({
+    value: label,
+    count: counts.find(count => count.value === label)?.count ?? 0
+  }));
+}
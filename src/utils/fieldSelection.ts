@@ -0,0 +1,132 @@
+import { NextRequest } from 'next/server';
+import { ApiVersion, DEFAULT_API_VERSION } from './apiVersion';
+
+/**
+ * Advocate fields that can be selected with the fields parameter
+ * city, state and country are flattened from the primary location; id is always returned
+ */
+export const ADVOCATE_FIELDS = [
+  'id',
+  'firstName',
+  'lastName',
+  'degree',
+  'yearsOfExperience',
+  'phoneNumber',
+  'city',
+  'state',
+  'country',
+  'createdAt',
+  'updatedAt'
+] as const;
+
+export type AdvocateFieldName = typeof ADVOCATE_FIELDS[number];
+
+/**
+ * Fields read from the primary location rather than the advocates table
+ */
+export const LOCATION_FIELDS: readonly AdvocateFieldName[] = ['city', 'state', 'country'];
+
+/**
+ * Relations that can be loaded with the include parameter
+ */
+export const ADVOCATE_INCLUDES = ['specialties', 'locations', 'specialtyDetails'] as const;
+
+export type AdvocateIncludeName = typeof ADVOCATE_INCLUDES[number];
+
+/**
+ * Relations loaded when the include parameter is not given
+ */
+export const DEFAULT_ADVOCATE_INCLUDES: readonly AdvocateIncludeName[] = ['specialties', 'locations'];
+
+/**
+ * Relations loaded in version 1 when the include parameter is not given
+ * Version 1 keeps its original response shape, with locations only when requested
+ */
+export const V1_DEFAULT_ADVOCATE_INCLUDES: readonly AdvocateIncludeName[] = ['specialties'];
+
+/**
+ * Split a comma-separated parameter into the known values, dropping duplicates
+ *
+ * @param param Parameter value
+ * @param known Allowed values
+ * @returns Known values in the order they were given
+ */
+function parseList<T extends string>(param: string, known: readonly T[]): T[] {
+  const values = param
+    .split(',')
+    .map(value => value.trim())
+    .filter((value): value is T => (known as readonly string[]).includes(value));
+
+  return Array.from(new Set(values));
+}
+
+/**
+ * Parse the selected fields from request
+ * Unknown names are ignored; id is always selected
+ *
+ * @param request NextRequest object
+ * @returns Selected fields, or undefined to return every field
+ */
+export function getFieldsParam(request: NextRequest): AdvocateFieldName[] | undefined {
+  const param = request.nextUrl.searchParams.get('fields');
+  if (!param) return undefined;
+
+  const fields = parseList(param, ADVOCATE_FIELDS);
+  if (fields.length === 0) return undefined;
+
+  return fields.includes('id') ? fields : ['id', ...fields];
+}
+
+/**
+ * Parse the relations to load from request
+ * An empty include parameter loads no relations; unknown names are ignored.
+ * Version 1 loads only specialties by default, version 2 specialties and locations.
+ * Version 2 returns specialties as records, so there specialties loads specialtyDetails
+ *
+ * @param request NextRequest object
+ * @param version API version of the request
+ * @returns Relations to load
+ */
+export function getIncludeParam(request: NextRequest, version: ApiVersion = DEFAULT_API_VERSION): AdvocateIncludeName[] {
+  const param = request.nextUrl.searchParams.get('include');
+  if (version === '1') {
+    return param === null ? [...V1_DEFAULT_ADVOCATE_INCLUDES] : parseList(param, ADVOCATE_INCLUDES);
+  }
+
+  const include = param === null ? [...DEFAULT_ADVOCATE_INCLUDES] : parseList(param, ADVOCATE_INCLUDES);
+
+  return Array.from(new Set(include.map(name => name === 'specialties' ? 'specialtyDetails' : name)));
+}
+
+/**
+ * Check whether the selected fields need the primary location
+ *
+ * @param fields Selected fields, or undefined for every field
+ * @returns True if city, state or country is selected
+ */
+export function needsPrimaryLocation(fields?: readonly AdvocateFieldName[]): boolean {
+  return !fields || fields.some(field => LOCATION_FIELDS.includes(field));
+}
+
+/**
+ * Keep only the selected fields and loaded relations of an advocate
+ * Properties that are neither, such as columns read for the ETag, are dropped;
+ * the distance of a radius search is always kept
+ *
+ * @param advocate Advocate with its loaded relations
+ * @param fields Selected fields, or undefined for every field
+ * @param include Loaded relations
+ * @returns Advocate with the selected properties
+ */
+export function pickAdvocateFields<T extends { id: string }>(
+  advocate: T,
+  fields: readonly AdvocateFieldName[] | undefined,
+  include: readonly AdvocateIncludeName[]
+): Partial<T> & { id: string } {
+  if (!fields) return advocate;
+
+  const keys = new Set<string>([...fields, ...include, 'distance']);
+  return Object.fromEntries(
+    Object.entries(advocate).filter(([key]) => keys.has(key))
+  ) as Partial<T> & { id: string };
+}
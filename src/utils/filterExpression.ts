@@ -0,0 +1,469 @@
+import { NextRequest } from 'next/server';
+import { SQL, and, not, or } from 'drizzle-orm';
+import {
+  ADVOCATE_FILTERS,
+  FilterDefinition,
+  FilterOperation,
+  FilterType,
+  FilterValue,
+  buildFilterConditions
+} from './filtering';
+import { parseNearParam } from './geo';
+
+/**
+ * Longest filter expression accepted, which also bounds how deeply it can nest
+ */
+export const MAX_FILTER_EXPRESSION_LENGTH = 2000;
+
+/**
+ * Validated filter expression: filters combined with and, or and not
+ */
+export type FilterNode =
+  | { type: 'and'; operands: FilterNode[] }
+  | { type: 'or'; operands: FilterNode[] }
+  | { type: 'not'; operand: FilterNode }
+  | { type: 'filter'; filter: FilterValue };
+
+/**
+ * Why a filter expression was rejected, and where
+ */
+export interface FilterExpressionError {
+  message: string;
+  /** 1-based column of the offending character */
+  column: number;
+}
+
+/**
+ * Result of parsing a filter expression
+ */
+export type FilterExpressionResult =
+  | { expression: FilterNode; error?: undefined }
+  | { expression?: undefined; error: FilterExpressionError };
+
+/**
+ * Token of a filter expression
+ */
+interface Token {
+  kind: 'word' | 'string' | 'symbol' | '(' | ')' | ',' | 'end';
+  text: string;
+  column: number;
+}
+
+/**
+ * Value of a comparison before it is checked against the filter definition
+ */
+type RawValue = Token | { kind: 'list'; items: Token[]; column: number };
+
+/**
+ * Comparison operators that can be written as symbols
+ */
+const SYMBOL_OPERATIONS: Record<string, FilterOperation> = {
+  '=': FilterOperation.EQUALS,
+  '!=': FilterOperation.NOT_EQUALS,
+  '>': FilterOperation.GREATER_THAN,
+  '>=': FilterOperation.GREATER_THAN_OR_EQUAL,
+  '<': FilterOperation.LESS_THAN,
+  '<=': FilterOperation.LESS_THAN_OR_EQUAL,
+};
+
+/**
+ * Operations that take a list of values
+ */
+const LIST_OPERATIONS = [FilterOperation.IN, FilterOperation.ANY, FilterOperation.ALL];
+
+/**
+ * Error raised while parsing, caught by parseFilterExpression
+ */
+class FilterSyntaxError extends Error {
+  constructor(message: string, readonly column: number) {
+    super(message);
+  }
+}
+
+/**
+ * Describe a token for error messages
+ */
+function describeToken(token: Token): string {
+  return token.kind === 'end' ? 'the end of the expression' : `"${token.text}"`;
+}
+
+/**
+ * Split a filter expression into tokens
+ * Words run until whitespace, a parenthesis, a comma, a quote or a comparison symbol;
+ * quoted strings may contain anything, with \" and \\ escapes
+ *
+ * @param text Filter expression
+ * @returns Tokens, ending with an end token
+ */
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < text.length) {
+    const char = text[index];
+    const column = index + 1;
+
+    if (/\s/.test(char)) {
+      index++;
+    } else if (char === '(' || char === ')' || char === ',') {
+      tokens.push({ kind: char, text: char, column });
+      index++;
+    } else if (char === '"' || char === '\'') {
+      let value = '';
+      index++;
+      while (index < text.length && text[index] !== char) {
+        if (text[index] === '\\' && index + 1 < text.length) index++;
+        value += text[index++];
+      }
+      if (index >= text.length) {
+        throw new FilterSyntaxError('Unterminated string', column);
+      }
+      index++;
+      tokens.push({ kind: 'string', text: value, column });
+    } else if ('=!<>'.includes(char)) {
+      const symbol = text.startsWith('=', index + 1) ? `${char}=` : char;
+      if (!(symbol in SYMBOL_OPERATIONS)) {
+        throw new FilterSyntaxError(`Unknown operator "${symbol}"`, column);
+      }
+      tokens.push({ kind: 'symbol', text: symbol, column });
+      index += symbol.length;
+    } else {
+      const match = /^[^\s(),"'=!<>]+/.exec(text.slice(index)) as RegExpExecArray;
+      tokens.push({ kind: 'word', text: match[0], column });
+      index += match[0].length;
+    }
+  }
+
+  tokens.push({ kind: 'end', text: '', column: text.length + 1 });
+  return tokens;
+}
+
+/**
+ * Parse tokens into a filter expression with a recursive descent parser
+ * not binds tighter than and, which binds tighter than or
+ *
+ * @param tokens Tokens from tokenize
+ * @param filters Filter definitions the comparisons are checked against
+ * @returns Filter expression
+ */
+function parseTokens(tokens: Token[], filters: FilterDefinition[]): FilterNode {
+  let position = 0;
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const isKeyword = (keyword: string) => peek().kind === 'word' && peek().text.toLowerCase() === keyword;
+
+  const expect = (kind: Token['kind'], expected: string): Token => {
+    const token = next();
+    if (token.kind !== kind) {
+      throw new FilterSyntaxError(`Expected ${expected} but found ${describeToken(token)}`, token.column);
+    }
+    return token;
+  };
+
+  const expectScalar = (): Token => {
+    const token = next();
+    if (token.kind !== 'word' && token.kind !== 'string') {
+      throw new FilterSyntaxError(`Expected a value but found ${describeToken(token)}`, token.column);
+    }
+    return token;
+  };
+
+  const parseValue = (): RawValue => {
+    if (peek().kind !== '(') return expectScalar();
+
+    const open = next();
+    const items = [expectScalar()];
+    while (peek().kind === ',') {
+      next();
+      items.push(expectScalar());
+    }
+    expect(')', '"," or ")"');
+    return { kind: 'list', items, column: open.column };
+  };
+
+  const parseComparison = (): FilterNode => {
+    const fieldToken = expect('word', 'a field name');
+    const definition = filters.find(filter => (filter.paramName || filter.field) === fieldToken.text);
+    if (!definition) {
+      const fields = filters.map(filter => filter.paramName || filter.field);
+      throw new FilterSyntaxError(
+        `Unknown field "${fieldToken.text}"; use one of ${fields.join(', ')}`,
+        fieldToken.column
+      );
+    }
+
+    const operatorToken = next();
+    const operation = operatorToken.kind === 'symbol'
+      ? SYMBOL_OPERATIONS[operatorToken.text]
+      : operatorToken.kind === 'word'
+        ? Object.values(FilterOperation).find(op => op.toLowerCase() === operatorToken.text.toLowerCase())
+        : undefined;
+    if (!operation) {
+      throw new FilterSyntaxError(
+        `Expected an operator after ${fieldToken.text} but found ${describeToken(operatorToken)}`,
+        operatorToken.column
+      );
+    }
+
+    // neq is the negation of eq, wherever eq is supported
+    const supported = definition.operations.includes(FilterOperation.EQUALS)
+      ? [...definition.operations, FilterOperation.NOT_EQUALS]
+      : definition.operations;
+    if (!supported.includes(operation)) {
+      throw new FilterSyntaxError(
+        `${fieldToken.text} does not support ${operation}; use one of ${supported.join(', ')}`,
+        operatorToken.column
+      );
+    }
+
+    const value = parseValue();
+    if (operation === FilterOperation.NOT_EQUALS) {
+      return {
+        type: 'not',
+        operand: { type: 'filter', filter: toFilterValue(definition, FilterOperation.EQUALS, value) },
+      };
+    }
+    return { type: 'filter', filter: toFilterValue(definition, operation, value) };
+  };
+
+  const parseNot = (): FilterNode => {
+    if (isKeyword('not')) {
+      next();
+      return { type: 'not', operand: parseNot() };
+    }
+    if (peek().kind === '(') {
+      next();
+      const expression = parseOr();
+      expect(')', '")"');
+      return expression;
+    }
+    return parseComparison();
+  };
+
+  const parseAnd = (): FilterNode => {
+    const operands = [parseNot()];
+    while (isKeyword('and')) {
+      next();
+      operands.push(parseNot());
+    }
+    return operands.length === 1 ? operands[0] : { type: 'and', operands };
+  };
+
+  const parseOr = (): FilterNode => {
+    const operands = [parseAnd()];
+    while (isKeyword('or')) {
+      next();
+      operands.push(parseAnd());
+    }
+    return operands.length === 1 ? operands[0] : { type: 'or', operands };
+  };
+
+  const expression = parseOr();
+  const token = peek();
+  if (token.kind !== 'end') {
+    throw new FilterSyntaxError(
+      `Expected "and", "or" or the end of the expression but found ${describeToken(token)}` +
+        (token.kind === 'word' ? '; quote values that contain spaces' : ''),
+      token.column
+    );
+  }
+  return expression;
+}
+
+/**
+ * Read a number from a value token
+ */
+function toNumber(token: Token): number {
+  const number = Number(token.text);
+  if (!token.text.trim() || !Number.isFinite(number)) {
+    throw new FilterSyntaxError(`Expected a number but found "${token.text}"`, token.column);
+  }
+  return number;
+}
+
+/**
+ * Check a comparison's value against its field and operation, and build the filter
+ *
+ * @param definition Filter definition of the field
+ * @param operation Filter operation
+ * @param value Value as written
+ * @returns Filter value in the shape getFilterParams produces
+ */
+function toFilterValue(definition: FilterDefinition, operation: FilterOperation, value: RawValue): FilterValue {
+  const { field } = definition;
+  const items = value.kind === 'list' ? value.items : [value];
+
+  if (operation === FilterOperation.WITHIN) {
+    const near = items.length <= 2 ? parseNearParam(items[0].text, items[1]?.text ?? null) : undefined;
+    if (!near) {
+      throw new FilterSyntaxError(
+        'Expected a point ("lat,lng" or zip:<ZIP code>) and an optional radius, e.g. (zip:60601, 10mi)',
+        value.column
+      );
+    }
+    return { field, operation, value: near };
+  }
+
+  if (LIST_OPERATIONS.includes(operation)) {
+    return { field, operation, value: items.map(item => item.text) };
+  }
+
+  if (operation === FilterOperation.BETWEEN) {
+    if (items.length !== 2) {
+      throw new FilterSyntaxError('Expected two bounds, e.g. (5, 10)', value.column);
+    }
+    return { field, operation, value: items.map(toNumber) };
+  }
+
+  if (value.kind === 'list') {
+    throw new FilterSyntaxError(`${operation} takes a single value, not a list`, value.column);
+  }
+  return {
+    field,
+    operation,
+    value: definition.type === FilterType.RANGE ? toNumber(value) : value.text,
+  };
+}
+
+/**
+ * Parse a filter expression and check it against a filter registry
+ * e.g. (degree in (MD, PhD)) and specialty any (Trauma, Anxiety) and not city eq Chicago
+ *
+ * Fields are the query parameter names of the filters, and operators are the filter
+ * operations (eq, contains, gte, in, ...) or the symbols =, !=, >, >=, < and <=.
+ * Values are words or quoted strings; in, any, all and between take a parenthesized
+ * list, and within takes a point and an optional radius
+ *
+ * @param text Filter expression
+ * @param filters Filter definitions (default: ADVOCATE_FILTERS)
+ * @returns The expression, or an error pointing at the offending column
+ */
+export function parseFilterExpression(
+  text: string,
+  filters: FilterDefinition[] = ADVOCATE_FILTERS
+): FilterExpressionResult {
+  if (text.length > MAX_FILTER_EXPRESSION_LENGTH) {
+    return {
+      error: {
+        message: `Filter expression is longer than ${MAX_FILTER_EXPRESSION_LENGTH} characters`,
+        column: MAX_FILTER_EXPRESSION_LENGTH + 1,
+      },
+    };
+  }
+
+  try {
+    return { expression: parseTokens(tokenize(text), filters) };
+  } catch (error) {
+    if (error instanceof FilterSyntaxError) {
+      return { error: { message: error.message, column: error.column } };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Parse the filter expression from request
+ *
+ * @param request NextRequest object
+ * @returns Parse result, or undefined when the filter parameter is missing or blank
+ */
+export function getFilterExpressionParam(request: NextRequest): FilterExpressionResult | undefined {
+  const filter = request.nextUrl.searchParams.get('filter');
+  return filter?.trim() ? parseFilterExpression(filter) : undefined;
+}
+
+/**
+ * Explain why the filter expression of a request is invalid
+ * Routes reject invalid expressions, since ignoring one would widen the results
+ *
+ * @param request NextRequest object
+ * @returns Message, and details with the expression and a caret under the offending
+ *   column; undefined if the filter parameter is missing or valid
+ */
+export function getFilterExpressionError(
+  request: NextRequest
+): { message: string; details: { column: number; expression: string; pointer: string } } | undefined {
+  const error = getFilterExpressionParam(request)?.error;
+  if (!error) return undefined;
+
+  return {
+    message: `Invalid filter expression at column ${error.column}: ${error.message}`,
+    details: {
+      column: error.column,
+      expression: request.nextUrl.searchParams.get('filter') ?? '',
+      pointer: `${' '.repeat(error.column - 1)}^`,
+    },
+  };
+}
+
+/**
+ * Collect the filters of a filter expression
+ *
+ * @param node Filter expression
+ * @param options.negated Also collect filters under a not (default: true)
+ * @returns Filters in the expression, in order
+ */
+export function collectFilters(node: FilterNode, { negated = true }: { negated?: boolean } = {}): FilterValue[] {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return node.operands.flatMap(operand => collectFilters(operand, { negated }));
+    case 'not':
+      return negated ? collectFilters(node.operand, { negated }) : [];
+    case 'filter':
+      return [node.filter];
+  }
+}
+
+/**
+ * Check whether a filter expression contains a fuzzy filter
+ *
+ * @param node Filter expression
+ * @returns True if any filter uses the fuzzy operation
+ */
+export function hasFuzzyFilter(node: FilterNode): boolean {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return node.operands.some(hasFuzzyFilter);
+    case 'not':
+      return hasFuzzyFilter(node.operand);
+    case 'filter':
+      return node.filter.operation === FilterOperation.FUZZY;
+  }
+}
+
+/**
+ * Compile a filter expression to a SQL condition
+ * Each filter is built by the same condition builders as the query parameter filters
+ *
+ * @param tables Object containing all required tables
+ * @param node Filter expression
+ * @param fuzzyThreshold Minimum similarity for fuzzy filters
+ * @returns SQL condition
+ */
+export function buildFilterExpressionCondition(
+  tables: Parameters<typeof buildFilterConditions>[0],
+  node: FilterNode,
+  fuzzyThreshold?: number
+): SQL {
+  switch (node.type) {
+    case 'and':
+      return and(...node.operands.map(operand => buildFilterExpressionCondition(tables, operand, fuzzyThreshold))) as SQL;
+    case 'or':
+      return or(...node.operands.map(operand => buildFilterExpressionCondition(tables, operand, fuzzyThreshold))) as SQL;
+    case 'not':
+      return not(buildFilterExpressionCondition(tables, node.operand, fuzzyThreshold));
+    case 'filter': {
+      const [condition] = buildFilterConditions(tables, [node.filter], {
+        includeDeleted: true,
+        fuzzyThreshold,
+        strict: true,
+      });
+      if (!condition) {
+        throw new Error(`No condition builder for ${node.filter.field} ${node.filter.operation}`);
+      }
+      return condition;
+    }
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest } from 'next/server';
-import { SQL, and, eq, gt, gte, ilike, inArray, lt, lte, or, sql } from 'drizzle-orm';
+import { SQL, between, eq, gt, gte, ilike, inArray, isNull, lt, lte, sql } from 'drizzle-orm';
+import { NearFilter, buildNearCondition, parseNearParam } from './geo';
+import { logger } from './logger';
 
 /**
  * Filter types for different field types
@@ -28,7 +30,9 @@ export enum FilterOperation {
   BETWEEN = 'between',
   IN = 'in',
   ANY = 'any',
-  ALL = 'all'
+  ALL = 'all',
+  FUZZY = 'fuzzy',
+  WITHIN = 'within'
 }
 
 /**
@@ -47,7 +51,7 @@ export interface FilterDefinition {
 export interface FilterValue {
   field: string;
   operation: FilterOperation;
-  value: string | string[] | number | number[] | boolean;
+  value: string | string[] | number | number[] | boolean | NearFilter;
 }
 
 /**
@@ -61,7 +65,8 @@ export const ADVOCATE_FILTERS: FilterDefinition[] = [
       FilterOperation.EQUALS,
       FilterOperation.CONTAINS,
       FilterOperation.STARTS_WITH,
-      FilterOperation.ENDS_WITH
+      FilterOperation.ENDS_WITH,
+      FilterOperation.FUZZY
     ],
     paramName: 'firstName'
   },
@@ -72,7 +77,8 @@ export const ADVOCATE_FILTERS: FilterDefinition[] = [
       FilterOperation.EQUALS,
       FilterOperation.CONTAINS,
       FilterOperation.STARTS_WITH,
-      FilterOperation.ENDS_WITH
+      FilterOperation.ENDS_WITH,
+      FilterOperation.FUZZY
     ],
     paramName: 'lastName'
   },
@@ -112,10 +118,19 @@ export const ADVOCATE_FILTERS: FilterDefinition[] = [
     type: FilterType.TEXT,
     operations: [
       FilterOperation.EQUALS,
-      FilterOperation.CONTAINS
+      FilterOperation.CONTAINS,
+      FilterOperation.FUZZY
     ],
     paramName: 'city'
   },
+  {
+    field: 'distance',
+    type: FilterType.LOCATION,
+    operations: [
+      FilterOperation.WITHIN
+    ],
+    paramName: 'near'
+  },
   {
     field: 'createdAt',
     type: FilterType.RANGE,
@@ -145,6 +160,19 @@ export function getFilterParams(request: NextRequest): FilterValue[] {
     const { field, operations, paramName } = filterDef;
     const paramKey = paramName || field;
     
+    // Radius search (e.g., near=zip:60601&radius=10mi)
+    if (filterDef.type === FilterType.LOCATION) {
+      const near = parseNearParam(searchParams.get(paramKey), searchParams.get('radius'));
+      if (near) {
+        filters.push({
+          field,
+          operation: FilterOperation.WITHIN,
+          value: near
+        });
+      }
+      continue;
+    }
+    
     // Check for basic equality filter (e.g., firstName=John)
     const basicValue = searchParams.get(paramKey);
     if (basicValue && operations.includes(FilterOperation.EQUALS)) {
@@ -212,6 +240,59 @@ export function getFilterParams(request: NextRequest): FilterValue[] {
   return filters;
 }
 
+/**
+ * Default minimum trigram similarity, between 0 and 1, for fuzzy filters
+ * Can be overridden with the FUZZY_MATCH_THRESHOLD environment variable
+ */
+export const DEFAULT_FUZZY_THRESHOLD = 0.3;
+
+/**
+ * Similarity threshold pg_trgm's % operator uses unless the session changes it
+ */
+const PG_TRGM_THRESHOLD = 0.3;
+
+/**
+ * Parse a similarity threshold
+ * 
+ * @param value Raw threshold
+ * @returns The threshold, or undefined unless it is a number in (0, 1]
+ */
+function parseThreshold(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const threshold = Number(value);
+  return threshold > 0 && threshold <= 1 ? threshold : undefined;
+}
+
+/**
+ * Parse the fuzzy match threshold from request
+ * Falls back to FUZZY_MATCH_THRESHOLD and then to DEFAULT_FUZZY_THRESHOLD
+ * 
+ * @param request NextRequest object
+ * @returns Minimum similarity, between 0 and 1, for fuzzy filters to match
+ */
+export function getFuzzyThresholdParam(request: NextRequest): number {
+  return parseThreshold(request.nextUrl.searchParams.get('fuzzyThreshold')) ??
+    parseThreshold(process.env.FUZZY_MATCH_THRESHOLD) ??
+    DEFAULT_FUZZY_THRESHOLD;
+}
+
+/**
+ * Build a trigram similarity condition
+ * The % operator lets Postgres use the trigram index, but it applies the session
+ * threshold, so it is only added when that threshold is no stricter than ours
+ * 
+ * @param column Column to compare
+ * @param value Filter value
+ * @param threshold Minimum similarity, between 0 and 1
+ * @returns SQL condition
+ */
+export function buildSimilarityCondition(column: unknown, value: string, threshold: number): SQL {
+  const similar = sql`similarity(${column}, ${value}) >= ${threshold}`;
+  return threshold >= PG_TRGM_THRESHOLD
+    ? sql`(${column} % ${value} AND ${similar})`
+    : similar;
+}
+
 /**
  * Build SQL conditions for text search
  * 
@@ -219,13 +300,15 @@ export function getFilterParams(request: NextRequest): FilterValue[] {
  * @param field Field name
  * @param operation Filter operation
  * @param value Filter value
+ * @param fuzzyThreshold Minimum similarity for the fuzzy operation
  * @returns SQL condition
  */
 export function buildTextCondition<T extends Record<string, any>>(
   table: T,
   field: string,
   operation: FilterOperation,
-  value: string
+  value: string,
+  fuzzyThreshold: number = DEFAULT_FUZZY_THRESHOLD
 ): SQL {
   const columnRef = table[field as keyof T];
   
@@ -238,6 +321,8 @@ export function buildTextCondition<T extends Record<string, any>>(
       return ilike(columnRef, `${value}%`);
     case FilterOperation.ENDS_WITH:
       return ilike(columnRef, `%${value}`);
+    case FilterOperation.FUZZY:
+      return buildSimilarityCondition(columnRef, value, fuzzyThreshold);
     default:
       throw new Error(`Unsupported operation ${operation} for text field ${field}`);
   }
@@ -300,10 +385,7 @@ export function buildRangeCondition<T extends Record<string, any>>(
       return lte(columnRef, value as number);
     case FilterOperation.BETWEEN:
       const [min, max] = value as number[];
-      return and(
-        gte(columnRef, min),
-        lte(columnRef, max)
-      );
+      return between(columnRef, min, max);
     default:
       throw new Error(`Unsupported operation ${operation} for range field ${field}`);
   }
@@ -311,40 +393,41 @@ export function buildRangeCondition<T extends Record<string, any>>(
 
 /**
  * Build SQL conditions for array field filtering
+ * Specialties are matched by exact name
  * 
  * @param specialtyTable Specialty table object from schema
  * @param advocateSpecialtyTable Advocate-specialty junction table object from schema
+ * @param advocateTable Advocate table object from schema
  * @param operation Filter operation
  * @param value Filter value
  * @returns SQL condition
  */
-export function buildArrayCondition<T extends Record<string, any>, J extends Record<string, any>>(
+export function buildArrayCondition<
+  T extends Record<string, any>,
+  J extends Record<string, any>,
+  A extends Record<string, any>
+>(
   specialtyTable: T,
   advocateSpecialtyTable: J,
+  advocateTable: A,
   operation: FilterOperation,
   value: string[]
 ): SQL {
-  // For specialty filtering, we need to use subqueries
-  // This is a simplified version - in a real app, this would be more complex
+  const names = Array.from(new Set(value));
+  const matchingSpecialties = sql`
+    FROM ${advocateSpecialtyTable}
+    JOIN ${specialtyTable} ON ${advocateSpecialtyTable.specialtyId} = ${specialtyTable.id}
+    WHERE ${advocateSpecialtyTable.advocateId} = ${advocateTable.id}
+    AND ${inArray(specialtyTable.name, names)}
+  `;
   
   switch (operation) {
     case FilterOperation.ANY:
       // At least one of the specialties matches
-      return sql`EXISTS (
-        SELECT 1 FROM ${advocateSpecialtyTable} AS as_junction
-        JOIN ${specialtyTable} AS s ON as_junction.specialty_id = s.id
-        WHERE as_junction.advocate_id = ${advocateSpecialtyTable}.advocate_id
-        AND s.name IN (${value.join(',')})
-      )`;
+      return sql`EXISTS (SELECT 1 ${matchingSpecialties})`;
     case FilterOperation.ALL:
       // All of the specified specialties match
-      return sql`(
-        SELECT COUNT(DISTINCT s.name)
-        FROM ${advocateSpecialtyTable} AS as_junction
-        JOIN ${specialtyTable} AS s ON as_junction.specialty_id = s.id
-        WHERE as_junction.advocate_id = ${advocateSpecialtyTable}.advocate_id
-        AND s.name IN (${value.join(',')})
-      ) = ${value.length}`;
+      return sql`(SELECT COUNT(DISTINCT ${specialtyTable.name}) ${matchingSpecialties}) = ${names.length}`;
     default:
       throw new Error(`Unsupported operation ${operation} for array field specialties`);
   }
@@ -352,34 +435,77 @@ export function buildArrayCondition<T extends Record<string, any>, J extends Rec
 
 /**
  * Build SQL conditions for location-based filtering
+ * An advocate matches when any of their locations matches, not only the primary one
  * 
  * @param locationTable Location table object from schema
+ * @param advocateTable Advocate table object from schema
  * @param operation Filter operation
  * @param value Filter value
+ * @param fuzzyThreshold Minimum similarity for the fuzzy operation
  * @returns SQL condition
  */
-export function buildLocationCondition<T extends Record<string, any>>(
+export function buildLocationCondition<T extends Record<string, any>, A extends Record<string, any>>(
   locationTable: T,
+  advocateTable: A,
   operation: FilterOperation,
-  value: string
+  value: string,
+  fuzzyThreshold: number = DEFAULT_FUZZY_THRESHOLD
 ): SQL {
   const cityColumn = locationTable['city' as keyof T];
+  let cityCondition: SQL;
   
   switch (operation) {
     case FilterOperation.EQUALS:
-      return eq(cityColumn, value);
+      cityCondition = eq(cityColumn, value);
+      break;
     case FilterOperation.CONTAINS:
-      return ilike(cityColumn, `%${value}%`);
+      cityCondition = ilike(cityColumn, `%${value}%`);
+      break;
+    case FilterOperation.FUZZY:
+      cityCondition = buildSimilarityCondition(cityColumn, value, fuzzyThreshold);
+      break;
     default:
       throw new Error(`Unsupported operation ${operation} for location field`);
   }
+  
+  return sql`EXISTS (
+    SELECT 1 FROM ${locationTable}
+    WHERE ${locationTable['advocateId' as keyof T]} = ${advocateTable['id' as keyof A]}
+    AND ${cityCondition}
+  )`;
+}
+
+/**
+ * Options for building filter conditions
+ */
+export interface FilterConditionOptions {
+  /** Include soft-deleted advocates (admin only) */
+  includeDeleted?: boolean;
+  /** Minimum similarity for fuzzy filters (default: DEFAULT_FUZZY_THRESHOLD) */
+  fuzzyThreshold?: number;
+  /** Throw when a condition cannot be built, instead of skipping the filter */
+  strict?: boolean;
+}
+
+/**
+ * Parse the includeDeleted flag from request
+ * Callers must check that the requester is an admin before honouring it
+ * 
+ * @param request NextRequest object
+ * @returns True if soft-deleted advocates were requested
+ */
+export function getIncludeDeletedParam(request: NextRequest): boolean {
+  return request.nextUrl.searchParams.get('includeDeleted') === 'true';
 }
 
 /**
  * Generate SQL conditions for all filters
+ * Soft-deleted advocates are excluded unless options.includeDeleted is set.
+ * A filter whose condition cannot be built is skipped, or throws in strict mode
  * 
  * @param tables Object containing all required tables
  * @param filters Array of filter values
+ * @param options Filter options
  * @returns Array of SQL conditions
  */
 export function buildFilterConditions(
@@ -389,10 +515,16 @@ export function buildFilterConditions(
     advocateSpecialties: Record<string, any>;
     locations: Record<string, any>;
   },
-  filters: FilterValue[]
+  filters: FilterValue[],
+  options: FilterConditionOptions = {}
 ): SQL[] {
   const conditions: SQL[] = [];
   
+  // Exclude soft-deleted advocates by default
+  if (!options.includeDeleted) {
+    conditions.push(isNull(tables.advocates.deletedAt));
+  }
+  
   for (const filter of filters) {
     const { field, operation, value } = filter;
     
@@ -408,15 +540,18 @@ export function buildFilterConditions(
           if (field === 'city') {
             condition = buildLocationCondition(
               tables.locations,
+              tables.advocates,
               operation,
-              value as string
+              value as string,
+              options.fuzzyThreshold
             );
           } else {
             condition = buildTextCondition(
               tables.advocates,
               field,
               operation,
-              value as string
+              value as string,
+              options.fuzzyThreshold
             );
           }
           break;
@@ -441,21 +576,64 @@ export function buildFilterConditions(
             condition = buildArrayCondition(
               tables.specialties,
               tables.advocateSpecialties,
+              tables.advocates,
               operation,
               value as string[]
             );
           }
           break;
+        case FilterType.LOCATION:
+          condition = buildNearCondition(
+            tables.locations,
+            tables.advocates,
+            value as NearFilter
+          );
+          break;
       }
       
       if (condition) {
         conditions.push(condition);
       }
     } catch (error) {
-      console.error(`Error building condition for ${field} with operation ${operation}:`, error);
+      if (options.strict) throw error;
+      logger.error('Error building filter condition', { field, operation, error });
       // Skip this filter if there's an error
     }
   }
   
   return conditions;
 }
+
+/**
+ * Build the similarity rank of the fuzzy filters
+ * City similarity is taken from the advocate's best matching location; when
+ * several fuzzy filters are given their similarities are added up
+ * 
+ * @param tables Object containing the advocates and locations tables
+ * @param filters Array of filter values
+ * @returns SQL expression for the rank, or undefined if no fuzzy filter is given
+ */
+export function buildFuzzyRank(
+  tables: {
+    advocates: Record<string, any>;
+    locations: Record<string, any>;
+  },
+  filters: FilterValue[]
+): SQL | undefined {
+  const similarities = filters
+    .filter(filter => filter.operation === FilterOperation.FUZZY)
+    .map(({ field, value }) => {
+      if (field === 'city') {
+        return sql`coalesce((
+          SELECT max(similarity(${tables.locations.city}, ${value}))
+          FROM ${tables.locations}
+          WHERE ${tables.locations.advocateId} = ${tables.advocates.id}
+        ), 0)`;
+      }
+      return sql`similarity(${tables.advocates[field]}, ${value})`;
+    });
+  
+  if (similarities.length === 0) return undefined;
+  
+  return sql`(${sql.join(similarities, sql` + `)})`;
+}
@@ -0,0 +1,287 @@
+import { NextRequest } from 'next/server';
+import { SQL, sql } from 'drizzle-orm';
+
+/**
+ * Unit of a search radius and of the distances returned with it
+ */
+export type DistanceUnit = 'mi' | 'km';
+
+/**
+ * Point on the earth's surface, in decimal degrees
+ */
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Radius search around a point
+ */
+export interface NearFilter extends GeoPoint {
+  radius: number;
+  unit: DistanceUnit;
+}
+
+/**
+ * Matches a US ZIP code or ZIP+4 code
+ */
+export const ZIP_CODE_PATTERN = /^\d{5}(-\d{4})?$/;
+
+/**
+ * Radius used when near is given without one
+ */
+export const DEFAULT_RADIUS = 25;
+
+/**
+ * Largest radius accepted, in miles (or the same distance in km)
+ */
+export const MAX_RADIUS_MILES = 500;
+
+/**
+ * Mean radius of the earth in each unit
+ */
+const EARTH_RADIUS: Record<DistanceUnit, number> = { mi: 3958.8, km: 6371.0 };
+
+/**
+ * Bundled ZIP code centroid: latitude, longitude and, when known, the USPS city and state
+ */
+type ZipCentroid = [number, number, string?, string?];
+
+let zipCentroids: Record<string, ZipCentroid> | undefined;
+
+/**
+ * Get the bundled ZIP code centroids, loading the dataset on first use
+ * The file has one entry per Census ZCTA, about 34,000 in all, so it is only
+ * parsed once a location is geocoded or a radius search is made
+ *
+ * @returns ZIP code to centroid
+ */
+function getZipCentroids(): Record<string, ZipCentroid> {
+  zipCentroids ??= require('../db/data/us-zip-centroids.json') as Record<string, ZipCentroid>;
+  return zipCentroids;
+}
+
+/**
+ * Normalize a city name for comparison, spelling out "St." as USPS does
+ */
+function normalizeCityName(city: string): string {
+  return city.trim().toLowerCase().replace(/^st\.?\s+/, 'saint ');
+}
+
+/**
+ * Look up the centroid of a US ZIP code in the bundled dataset
+ * A ZIP+4 code is looked up by its first five digits
+ *
+ * @param zip ZIP code
+ * @returns Centroid, or undefined if the ZIP code is not in the dataset
+ */
+export function lookupZipCentroid(zip: string): GeoPoint | undefined {
+  const centroid = getZipCentroids()[zip.trim().slice(0, 5)];
+  return centroid ? { latitude: centroid[0], longitude: centroid[1] } : undefined;
+}
+
+/**
+ * Geocode a location offline with the bundled dataset
+ * The postal code is used when it is known; otherwise the centroids of the city's
+ * ZIP codes are averaged. A city without a state only matches when its name is
+ * unique in the dataset
+ *
+ * @param location Postal code, city and state of the location
+ * @returns Coordinates, or undefined if the location cannot be geocoded
+ */
+export function geocodeLocation(location: {
+  postalCode?: string | null;
+  city: string;
+  state?: string | null;
+}): GeoPoint | undefined {
+  const byZip = location.postalCode ? lookupZipCentroid(location.postalCode) : undefined;
+  if (byZip) return byZip;
+
+  const city = normalizeCityName(location.city);
+  const state = location.state?.trim().toUpperCase();
+  const matches = Object.values(getZipCentroids()).filter(
+    ([, , zipCity, zipState]) => zipCity !== undefined && normalizeCityName(zipCity) === city &&
+      (!state || zipState === state)
+  );
+  if (matches.length === 0 || new Set(matches.map(([, , , zipState]) => zipState)).size > 1) {
+    return undefined;
+  }
+
+  const average = (values: number[]) =>
+    Math.round(values.reduce((sum, value) => sum + value, 0) / values.length * 10000) / 10000;
+  return {
+    latitude: average(matches.map(([latitude]) => latitude)),
+    longitude: average(matches.map(([, longitude]) => longitude))
+  };
+}
+
+/**
+ * Parse the point of a radius search: "lat,lng" or "zip:<ZIP code>"
+ *
+ * @param near Raw near parameter
+ * @returns Point, or undefined if the value is invalid or the ZIP code is unknown
+ */
+function parseNearPoint(near: string): GeoPoint | undefined {
+  if (near.startsWith('zip:')) {
+    const zip = near.slice('zip:'.length).trim();
+    return ZIP_CODE_PATTERN.test(zip) ? lookupZipCentroid(zip) : undefined;
+  }
+
+  const parts = near.split(',').map(part => part.trim());
+  const [latitude, longitude] = parts.map(Number);
+  if (parts.length === 2 && parts.every(Boolean) &&
+      Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180) {
+    return { latitude, longitude };
+  }
+  return undefined;
+}
+
+/**
+ * Parse the radius of a radius search: a number of miles, optionally suffixed with
+ * mi or km, e.g. "25", "25mi" or "40km"
+ *
+ * @param radius Raw radius parameter; DEFAULT_RADIUS miles when missing
+ * @returns Radius and unit, or undefined if the value is invalid or too large
+ */
+function parseRadius(radius: string | null): Pick<NearFilter, 'radius' | 'unit'> | undefined {
+  const match = /^(\d+(?:\.\d+)?)\s*(mi|km)?$/i.exec(radius?.trim() || String(DEFAULT_RADIUS));
+  if (!match) return undefined;
+
+  const unit = (match[2]?.toLowerCase() ?? 'mi') as DistanceUnit;
+  const value = Number(match[1]);
+  const maxRadius = MAX_RADIUS_MILES * EARTH_RADIUS[unit] / EARTH_RADIUS.mi;
+  return value > 0 && value <= maxRadius ? { radius: value, unit } : undefined;
+}
+
+/**
+ * Parse a radius search from the near and radius parameters
+ *
+ * @param near Raw near parameter
+ * @param radius Raw radius parameter
+ * @returns Radius search, or undefined if near is missing or either value is invalid
+ */
+export function parseNearParam(near: string | null, radius: string | null): NearFilter | undefined {
+  const point = near ? parseNearPoint(near) : undefined;
+  const range = parseRadius(radius);
+  return point && range ? { ...point, ...range } : undefined;
+}
+
+/**
+ * Explain why the radius search parameters of a request are invalid
+ * Filters built from an invalid radius search would be silently dropped, so
+ * routes reject them instead
+ *
+ * @param request NextRequest object
+ * @returns Error message, or undefined if near is missing or valid
+ */
+export function getNearParamError(request: NextRequest): string | undefined {
+  const near = request.nextUrl.searchParams.get('near');
+  if (!near) return undefined;
+
+  if (!parseNearPoint(near)) {
+    const zip = near.startsWith('zip:') ? near.slice('zip:'.length).trim() : undefined;
+    return zip && ZIP_CODE_PATTERN.test(zip)
+      ? `ZIP code ${zip} is not in the ZIP code dataset`
+      : 'near must be "lat,lng" or "zip:<ZIP code>"';
+  }
+  if (!parseRadius(request.nextUrl.searchParams.get('radius'))) {
+    return `radius must be a positive number of miles, or of km with a km suffix, up to ${MAX_RADIUS_MILES} miles`;
+  }
+  return undefined;
+}
+
+/**
+ * Build the great-circle distance from a point to a location, using the haversine formula
+ * The earth radius is cast because Postgres would otherwise read it as an integer
+ *
+ * @param locationTable Location table object from schema
+ * @param near Radius search giving the point and the unit
+ * @returns SQL expression for the distance, null for locations without coordinates
+ */
+export function buildDistanceExpression<T extends Record<string, any>>(
+  locationTable: T,
+  near: NearFilter
+): SQL<number> {
+  const { latitude, longitude } = locationTable;
+
+  return sql<number>`(${EARTH_RADIUS[near.unit]}::float8 * 2 * asin(sqrt(
+    power(sin(radians(${latitude} - ${near.latitude}) / 2), 2) +
+    cos(radians(${near.latitude})) * cos(radians(${latitude})) *
+    power(sin(radians(${longitude} - ${near.longitude}) / 2), 2)
+  )))`;
+}
+
+/**
+ * Build a bounding box around the search circle, which the coordinates index can serve
+ * Longitude is left unbounded near the poles and across the antimeridian
+ *
+ * @param locationTable Location table object from schema
+ * @param near Radius search
+ * @returns SQL condition matching every location the circle may contain
+ */
+function buildBoundingBox<T extends Record<string, any>>(locationTable: T, near: NearFilter): SQL {
+  const latitudeDelta = near.radius / EARTH_RADIUS[near.unit] * 180 / Math.PI;
+  const latitudeRange = sql`${locationTable.latitude} BETWEEN ${near.latitude - latitudeDelta} AND ${near.latitude + latitudeDelta}`;
+
+  if (Math.abs(near.latitude) + latitudeDelta >= 90) return latitudeRange;
+
+  const longitudeDelta = latitudeDelta / Math.cos(near.latitude * Math.PI / 180);
+  const west = near.longitude - longitudeDelta;
+  const east = near.longitude + longitudeDelta;
+  if (west < -180 || east > 180) return latitudeRange;
+
+  return sql`${latitudeRange} AND ${locationTable.longitude} BETWEEN ${west} AND ${east}`;
+}
+
+/**
+ * Build SQL conditions for a radius search
+ * An advocate matches when any of their geocoded locations is within the radius
+ *
+ * @param locationTable Location table object from schema
+ * @param advocateTable Advocate table object from schema
+ * @param near Radius search
+ * @returns SQL condition
+ */
+export function buildNearCondition<T extends Record<string, any>, A extends Record<string, any>>(
+  locationTable: T,
+  advocateTable: A,
+  near: NearFilter
+): SQL {
+  return sql`EXISTS (
+    SELECT 1 FROM ${locationTable}
+    WHERE ${locationTable.advocateId} = ${advocateTable.id}
+    AND ${buildBoundingBox(locationTable, near)}
+    AND ${buildDistanceExpression(locationTable, near)} <= ${near.radius}
+  )`;
+}
+
+/**
+ * Build the distance from the search point to an advocate's nearest location
+ *
+ * @param tables Object containing the advocates and locations tables
+ * @param near Radius search
+ * @returns SQL expression for the distance, correlated to the advocates table
+ */
+export function buildAdvocateDistance(
+  tables: {
+    advocates: Record<string, any>;
+    locations: Record<string, any>;
+  },
+  near: NearFilter
+): SQL<number> {
+  return sql<number>`(
+    SELECT min(${buildDistanceExpression(tables.locations, near)})
+    FROM ${tables.locations}
+    WHERE ${tables.locations.advocateId} = ${tables.advocates.id}
+  )`;
+}
+
+/**
+ * Round a distance for display
+ *
+ * @param distance Distance from the database
+ * @returns Distance rounded to a tenth of a unit
+ */
+export function roundDistance(distance: number): number {
+  return Math.round(distance * 10) / 10;
+}
@@ -0,0 +1,111 @@
+/**
+ * Severities of log lines, lowest first
+ */
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+
+export type LogLevel = typeof LOG_LEVELS[number];
+
+/**
+ * Structured fields of a log line
+ * Errors among them are written with their name, message and stack
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Level below which lines are dropped, unless LOG_LEVEL sets another one
+ */
+export const DEFAULT_LOG_LEVEL: LogLevel = 'info';
+
+/**
+ * Logger writing one JSON object per line
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  /** Logger adding the given fields to every line */
+  child(fields: LogFields): Logger;
+}
+
+/**
+ * Options for createLogger
+ */
+export interface LoggerOptions {
+  /** Lowest level written; defaults to LOG_LEVEL or DEFAULT_LOG_LEVEL */
+  level?: LogLevel | 'silent';
+  /** Write a line; defaults to the console method of the level */
+  write?: (level: LogLevel, line: string) => void;
+}
+
+/**
+ * Get the lowest level to write from the LOG_LEVEL environment variable
+ * Unknown values fall back to DEFAULT_LOG_LEVEL
+ *
+ * @returns Lowest level to write, or silent to write nothing
+ */
+export function getLogLevel(): LogLevel | 'silent' {
+  const level = typeof process !== 'undefined' ? process.env.LOG_LEVEL?.toLowerCase() : undefined;
+  if (level === 'silent') return level;
+  return (LOG_LEVELS as readonly string[]).includes(level ?? '') ? level as LogLevel : DEFAULT_LOG_LEVEL;
+}
+
+/**
+ * Write a line to the console method of its level
+ */
+function writeToConsole(level: LogLevel, line: string): void {
+  console[level](line);
+}
+
+/**
+ * Turn an error into plain fields, keeping properties such as status and requestId
+ *
+ * @param error Error to serialize
+ * @returns Name, message, own properties and stack of the error
+ */
+export function serializeError(error: Error): LogFields {
+  return { ...error, name: error.name, message: error.message, stack: error.stack };
+}
+
+/**
+ * Serialize a log line, writing errors with their details instead of as {}
+ *
+ * @param entry Fields of the line
+ * @returns JSON line
+ */
+function formatLine(entry: LogFields): string {
+  return JSON.stringify(entry, (_key, value) => (value instanceof Error ? serializeError(value) : value));
+}
+
+/**
+ * Create a logger
+ * Every line has the time, level and message, then the logger's fields and the
+ * fields of the call; later fields override earlier ones
+ *
+ * @param fields Fields added to every line
+ * @param options Level and destination of the lines
+ * @returns Logger
+ */
+export function createLogger(fields: LogFields = {}, options: LoggerOptions = {}): Logger {
+  const write = options.write ?? writeToConsole;
+
+  const log = (level: LogLevel, message: string, lineFields: LogFields = {}) => {
+    const threshold = options.level ?? getLogLevel();
+    if (threshold === 'silent' || LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(threshold)) return;
+
+    write(level, formatLine({ time: new Date().toISOString(), level, message, ...fields, ...lineFields }));
+  };
+
+  return {
+    debug: (message, lineFields) => log('debug', message, lineFields),
+    info: (message, lineFields) => log('info', message, lineFields),
+    warn: (message, lineFields) => log('warn', message, lineFields),
+    error: (message, lineFields) => log('error', message, lineFields),
+    child: childFields => createLogger({ ...fields, ...childFields }, options),
+  };
+}
+
+/**
+ * Logger of the application
+ */
+export const logger = createLogger();
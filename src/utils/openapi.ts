@@ -0,0 +1,887 @@
+import packageJson from '../../package.json';
+import {
+  Advocate,
+  AdvocateDetail,
+  AdvocateDetailResponse,
+  AdvocateInput,
+  AdvocateResponse,
+  ApiErrorResponse,
+  Location,
+  LocationInput,
+  QueryParamIssue,
+  Specialty
+} from '../api/types/advocate';
+import { AuditEntry, AuditLogResponse } from '../api/types/audit';
+import { ADVOCATE_FILTERS, DEFAULT_FUZZY_THRESHOLD, FilterDefinition, FilterOperation, FilterType } from './filtering';
+import { ALLOWED_ADVOCATE_SORT_FIELDS, DEFAULT_SORT, formatSortParam } from './sorting';
+import { ALLOWED_PAGE_SIZES, DEFAULT_PAGE_SIZE, PaginationMeta } from './pagination';
+import { ADVOCATE_FACETS, EXPERIENCE_BANDS, FacetCount, MAX_FACET_VALUES } from './facets';
+import { ADVOCATE_FIELDS, ADVOCATE_INCLUDES, V1_DEFAULT_ADVOCATE_INCLUDES } from './fieldSelection';
+import { DEFAULT_RADIUS, MAX_RADIUS_MILES } from './geo';
+import { EXPORT_FORMATS } from './export';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from './audit';
+import { MAX_FILTER_CONDITIONS, MAX_FILTER_LIST_LENGTH } from './queryCost';
+import { API_SCOPES, ApiScope } from './auth';
+
+/**
+ * JSON Schema object, as used by OpenAPI 3.1
+ */
+export interface SchemaObject {
+  $ref?: string;
+  type?: string | string[];
+  format?: string;
+  description?: string;
+  enum?: readonly (string | number)[];
+  const?: unknown;
+  default?: unknown;
+  minimum?: number;
+  exclusiveMinimum?: number;
+  maximum?: number;
+  pattern?: string;
+  items?: SchemaObject;
+  properties?: Record<string, SchemaObject>;
+  required?: string[];
+  additionalProperties?: boolean | SchemaObject;
+  allOf?: SchemaObject[];
+}
+
+/**
+ * Query, path or header parameter of an operation
+ * Filter parameters name the filter they are parsed into in x-filter
+ */
+export interface ParameterObject {
+  name: string;
+  in: 'query' | 'path' | 'header';
+  description?: string;
+  required?: boolean;
+  schema: SchemaObject;
+  /** Arrays are sent comma-separated, as style form without explode */
+  style?: 'form';
+  explode?: boolean;
+  /** The parameter may be given without a value */
+  allowEmptyValue?: boolean;
+  example?: string;
+  'x-filter'?: { field: string; operation: FilterOperation };
+}
+
+/**
+ * Body or response content, keyed by media type
+ */
+type ContentObject = Record<string, { schema?: SchemaObject }>;
+
+/**
+ * Response of an operation
+ */
+export interface ResponseObject {
+  description: string;
+  headers?: Record<string, { description: string; schema: SchemaObject }>;
+  content?: ContentObject;
+}
+
+/**
+ * Operation on a path
+ */
+export interface OperationObject {
+  operationId: string;
+  summary: string;
+  description?: string;
+  tags: string[];
+  parameters?: ParameterObject[];
+  requestBody?: { required: boolean; content: ContentObject };
+  responses: Record<string, ResponseObject>;
+  /** Alternative security requirements; an empty requirement allows anonymous callers */
+  security?: Record<string, string[]>[];
+}
+
+/**
+ * OpenAPI 3.1 document
+ */
+export interface OpenApiDocument {
+  openapi: '3.1.0';
+  info: { title: string; version: string; description: string };
+  paths: Record<string, Partial<Record<'get' | 'post' | 'patch' | 'delete', OperationObject>>>;
+  components: {
+    schemas: Record<string, SchemaObject>;
+    securitySchemes: Record<string, { type: 'http'; scheme: 'bearer'; description: string }>;
+  };
+}
+
+/**
+ * Keys of T that are not optional
+ */
+type RequiredKeys<T> = { [K in keyof T]-?: {} extends Pick<T, K> ? never : K }[keyof T];
+
+/**
+ * Build the schema of an object type
+ * Both arguments are checked against T, so adding, removing or making optional a
+ * field of T without updating its schema fails to compile
+ *
+ * @param properties Schema of every field of T
+ * @param required Every field of T that is not optional
+ * @param description Description of the object (optional)
+ * @returns Object schema
+ */
+function objectSchema<T>(
+  properties: { [K in keyof T]-?: SchemaObject },
+  required: { [K in RequiredKeys<T>]: true },
+  description?: string
+): SchemaObject {
+  const requiredKeys = Object.keys(required);
+  return {
+    type: 'object',
+    ...(description ? { description } : {}),
+    properties: properties as Record<string, SchemaObject>,
+    ...(requiredKeys.length > 0 ? { required: requiredKeys } : {}),
+  };
+}
+
+/**
+ * Reference a schema in components.schemas
+ */
+function ref(name: string): SchemaObject {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+/**
+ * Array of a referenced schema
+ */
+function arrayOf(name: string): SchemaObject {
+  return { type: 'array', items: ref(name) };
+}
+
+/**
+ * What each filter operation matches, shown on its query parameters
+ */
+const OPERATION_DESCRIPTIONS: Record<FilterOperation, string> = {
+  [FilterOperation.EQUALS]: 'Equal to the value',
+  [FilterOperation.NOT_EQUALS]: 'Not equal to the value',
+  [FilterOperation.CONTAINS]: 'Contains the value, case-insensitively',
+  [FilterOperation.STARTS_WITH]: 'Starts with the value, case-insensitively',
+  [FilterOperation.ENDS_WITH]: 'Ends with the value, case-insensitively',
+  [FilterOperation.GREATER_THAN]: 'Greater than the value',
+  [FilterOperation.GREATER_THAN_OR_EQUAL]: 'Greater than or equal to the value',
+  [FilterOperation.LESS_THAN]: 'Less than the value',
+  [FilterOperation.LESS_THAN_OR_EQUAL]: 'Less than or equal to the value',
+  [FilterOperation.BETWEEN]: 'Between two comma-separated bounds, inclusive',
+  [FilterOperation.IN]: 'Equal to any of the comma-separated values',
+  [FilterOperation.ANY]: 'Has any of the comma-separated values',
+  [FilterOperation.ALL]: 'Has all of the comma-separated values',
+  [FilterOperation.FUZZY]: 'Similar to the value, tolerating typos (see fuzzyThreshold)',
+  [FilterOperation.WITHIN]: 'Within the radius of a point',
+};
+
+/**
+ * Schema of the value of a filter query parameter
+ *
+ * @param type Type of the filtered field
+ * @param operation Filter operation
+ * @returns Parameter schema
+ */
+function getFilterValueSchema(type: FilterType, operation: FilterOperation): SchemaObject {
+  if (operation === FilterOperation.BETWEEN) {
+    return { type: 'string', pattern: '^-?\\d+(\\.\\d+)?,\\s*-?\\d+(\\.\\d+)?$' };
+  }
+  if ([FilterOperation.IN, FilterOperation.ANY, FilterOperation.ALL].includes(operation)) {
+    return { type: 'array', items: { type: 'string' } };
+  }
+  return type === FilterType.RANGE ? { type: 'number' } : { type: 'string' };
+}
+
+/**
+ * Build a query parameter, sending arrays comma-separated
+ *
+ * @param parameter Parameter without its style
+ * @returns Query parameter
+ */
+function queryParameter(parameter: Omit<ParameterObject, 'in'>): ParameterObject {
+  return parameter.schema.type === 'array'
+    ? { ...parameter, in: 'query', style: 'form', explode: false }
+    : { ...parameter, in: 'query' };
+}
+
+/**
+ * Build the query parameters of every filter in a filter registry
+ * Each field accepts field[operation]=value for each of its operations, plus the
+ * field=value shorthand when it supports equality; a location filter takes a point
+ * and a radius
+ *
+ * @param filters Filter definitions (default: ADVOCATE_FILTERS)
+ * @returns Query parameters in registry order
+ */
+export function getFilterParameters(filters: FilterDefinition[] = ADVOCATE_FILTERS): ParameterObject[] {
+  return filters.flatMap(({ field, type, operations, paramName }): ParameterObject[] => {
+    const paramKey = paramName || field;
+
+    if (type === FilterType.LOCATION) {
+      return [
+        {
+          name: paramKey,
+          in: 'query',
+          description: 'Point to search around: "lat,lng", or "zip:<ZIP code>" from the bundled ZIP code dataset. ' +
+            'Matches advocates with any location within the radius, and adds their distance to the response',
+          schema: { type: 'string' },
+          example: 'zip:60601',
+          'x-filter': { field, operation: FilterOperation.WITHIN },
+        },
+        {
+          name: 'radius',
+          in: 'query',
+          description: `Radius of the search around ${paramKey}, in miles, or in km with a km suffix; ` +
+            `at most ${MAX_RADIUS_MILES} miles`,
+          schema: { type: 'string', pattern: '^\\d+(\\.\\d+)?\\s*(mi|km)?$', default: String(DEFAULT_RADIUS) },
+          example: '40km',
+        },
+      ];
+    }
+
+    const shorthand: ParameterObject[] = operations.includes(FilterOperation.EQUALS)
+      ? [queryParameter({
+          name: paramKey,
+          description: `Shorthand for ${paramKey}[${FilterOperation.EQUALS}]; takes precedence over the other ${paramKey} filters`,
+          schema: getFilterValueSchema(type, FilterOperation.EQUALS),
+          'x-filter': { field, operation: FilterOperation.EQUALS },
+        })]
+      : [];
+
+    return [
+      ...shorthand,
+      ...operations.map(operation => queryParameter({
+        name: `${paramKey}[${operation}]`,
+        description: OPERATION_DESCRIPTIONS[operation],
+        schema: getFilterValueSchema(type, operation),
+        ...(operation === FilterOperation.BETWEEN ? { example: '5,10' } : {}),
+        'x-filter': { field, operation },
+      })),
+    ];
+  });
+}
+
+/**
+ * Full-text and fuzzy search parameters
+ */
+const SEARCH_PARAMETERS: ParameterObject[] = [
+  {
+    name: 'q',
+    in: 'query',
+    description: 'Words to look for in names, degrees, cities, states and specialty names. ' +
+      'Every word must match, partially typed words match as prefixes, and a phone number ' +
+      'matches regardless of its formatting. Results are ordered by relevance unless sort is given',
+    schema: { type: 'string' },
+  },
+  {
+    name: 'fuzzyThreshold',
+    in: 'query',
+    description: 'Minimum trigram similarity for fuzzy filters to match; defaults to the ' +
+      'FUZZY_MATCH_THRESHOLD environment variable',
+    schema: { type: 'number', exclusiveMinimum: 0, maximum: 1, default: DEFAULT_FUZZY_THRESHOLD },
+  },
+];
+
+/**
+ * Boolean filter expression parameter
+ */
+const FILTER_EXPRESSION_PARAMETER: ParameterObject = {
+  name: 'filter',
+  in: 'query',
+  description: 'Filters combined with and, or, not and parentheses; combined with the other filters by and. ' +
+    'Fields are the filter parameter names and operators the filter operations, or =, !=, >, >=, < and <=. ' +
+    'in, any, all and between take a parenthesized list, and near within takes a point and an optional radius. ' +
+    'Quote values that contain spaces. A malformed expression is rejected with 400 INVALID_FILTER',
+  schema: { type: 'string' },
+  example: 'degree in (MD, PhD) and specialty any (Trauma, Anxiety) and not city eq "New York"',
+};
+
+/**
+ * Sort parameters
+ */
+const SORT_PARAMETERS: ParameterObject[] = [
+  queryParameter({
+    name: 'sort',
+    description: 'Fields to sort by, most significant first; a leading - sorts a field descending and + ascending. ' +
+      'Send + encoded as %2B, since an unencoded + is read as a space. Fields without a prefix sort in the order ' +
+      'direction; without order, a single field sorts descending, as sort=lastName always has, and a list of ' +
+      'fields sorts ascending. city and state are those of the primary location. distance is only available ' +
+      'with a radius search, and relevance with q',
+    schema: {
+      type: 'array',
+      items: { type: 'string', enum: ALLOWED_ADVOCATE_SORT_FIELDS.flatMap(field => [field, `-${field}`, `+${field}`]) },
+      default: [formatSortParam(DEFAULT_SORT)],
+    },
+    example: '-yearsOfExperience,lastName,city',
+  }),
+  {
+    name: 'order',
+    in: 'query',
+    description: 'Direction of the sort fields without a prefix, or of the default sort. Without it, ' +
+      'a single sort field is sorted descending and a list of fields ascending',
+    schema: { type: 'string', enum: ['asc', 'desc'] },
+  },
+  {
+    name: 'secondarySort',
+    in: 'query',
+    description: 'Field to sort by when the sort fields are equal; prefer listing it in sort',
+    schema: { type: 'string', enum: ALLOWED_ADVOCATE_SORT_FIELDS },
+  },
+  {
+    name: 'secondaryOrder',
+    in: 'query',
+    schema: { type: 'string', enum: ['asc', 'desc'], default: 'asc' },
+  },
+];
+
+/**
+ * Pagination parameters
+ */
+const PAGINATION_PARAMETERS: ParameterObject[] = [
+  {
+    name: 'page',
+    in: 'query',
+    schema: { type: 'integer', minimum: 1, default: 1 },
+  },
+  {
+    name: 'limit',
+    in: 'query',
+    description: 'Page size; in lenient mode other values fall back to the default',
+    schema: { type: 'integer', enum: ALLOWED_PAGE_SIZES, default: DEFAULT_PAGE_SIZE },
+  },
+  {
+    name: 'cursor',
+    in: 'query',
+    description: 'nextCursor or prevCursor of a previous response, which must have been issued ' +
+      'for the same search, filter and sort parameters',
+    schema: { type: 'string' },
+  },
+  {
+    name: 'cursorField',
+    in: 'query',
+    description: 'Accepted for compatibility and ignored; cursors carry their own sort keys',
+    schema: { type: 'string' },
+  },
+];
+
+/**
+ * Admin-only flag to include soft-deleted advocates
+ */
+const INCLUDE_DELETED_PARAMETER: ParameterObject = {
+  name: 'includeDeleted',
+  in: 'query',
+  description: 'Include soft-deleted advocates; requires an API key with the admin scope',
+  schema: { type: 'boolean', default: false },
+};
+
+/**
+ * Strict query validation switch
+ */
+const STRICT_PARAMETER: ParameterObject = {
+  name: 'strict',
+  in: 'query',
+  description: 'Reject the request with 400 INVALID_QUERY when any query parameter is unknown or malformed, ' +
+    'instead of ignoring it. Defaults to true for API key callers; with strict=false the ignored parameters ' +
+    'are reported in warnings',
+  schema: { type: 'boolean' },
+};
+
+/**
+ * Advocate id path parameter
+ */
+const ID_PARAMETER: ParameterObject = {
+  name: 'id',
+  in: 'path',
+  required: true,
+  schema: { type: 'string', format: 'uuid' },
+};
+
+/**
+ * Error responses shared by the operations, by status code
+ */
+const ERROR_RESPONSES: Record<string, ResponseObject> = {
+  400: {
+    description: 'Invalid parameters or body; INVALID_QUERY lists every rejected query parameter in details, ' +
+      `and QUERY_TOO_COMPLEX is sent for lists of more than ${MAX_FILTER_LIST_LENGTH} values or more than ${MAX_FILTER_CONDITIONS} filters`,
+    content: { 'application/json': { schema: ref('Error') } },
+  },
+  401: {
+    description: 'The API key is invalid, revoked or expired (INVALID_API_KEY), or the operation needs a key and none was sent',
+    headers: { 'WWW-Authenticate': { description: 'Bearer challenge', schema: { type: 'string' } } },
+    content: { 'application/json': { schema: ref('Error') } },
+  },
+  403: { description: 'The API key lacks the required scope', content: { 'application/json': { schema: ref('Error') } } },
+  404: { description: 'Advocate not found', content: { 'application/json': { schema: ref('Error') } } },
+  429: {
+    description: 'Rate limit exceeded (RATE_LIMITED); retry after the Retry-After header',
+    headers: { 'Retry-After': { description: 'Seconds until a request is allowed again', schema: { type: 'integer' } } },
+    content: { 'application/json': { schema: ref('Error') } },
+  },
+  500: { description: 'Unexpected server error' },
+};
+
+/**
+ * Pick shared error responses
+ * Every API request is rate limited and may send an invalid API key, so 401 and 429 are always included
+ */
+function errorResponses(...statuses: number[]): Record<string, ResponseObject> {
+  return Object.fromEntries([401, ...statuses, 429].map(status => [status, ERROR_RESPONSES[status]]));
+}
+
+/**
+ * Security requirements of an operation that needs a scope
+ * Reading is open to anonymous callers, every other scope needs an API key
+ *
+ * @param scope Scope the operation needs
+ * @returns Security requirements
+ */
+function scopeSecurity(scope: ApiScope): Record<string, string[]>[] {
+  return scope === 'advocates:read' ? [{}, { apiKey: [scope] }] : [{ apiKey: [scope] }];
+}
+
+/**
+ * Single advocate response
+ */
+function advocateResponse(description: string): ResponseObject {
+  return {
+    description,
+    headers: { ETag: { description: 'Version of the advocate, for If-Match and If-None-Match', schema: { type: 'string' } } },
+    content: { 'application/json': { schema: ref('AdvocateDetailResponse') } },
+  };
+}
+
+/**
+ * Fields of a location given when creating or updating an advocate
+ */
+const LOCATION_INPUT_PROPERTIES = {
+  city: { type: 'string' },
+  state: { type: 'string' },
+  country: { type: 'string', default: 'United States' },
+  postalCode: { type: 'string', pattern: '^\\d{5}(-\\d{4})?$', description: 'US ZIP code, used to place the location for radius searches' },
+  isPrimary: { type: 'boolean', description: 'At most one location may be primary; without a flag the first one is' },
+};
+
+/**
+ * Fields of an advocate given when creating or updating one
+ */
+const ADVOCATE_INPUT_PROPERTIES = {
+  firstName: { type: 'string' },
+  lastName: { type: 'string' },
+  degree: { type: 'string' },
+  yearsOfExperience: { type: 'integer', minimum: 0 },
+  phoneNumber: { type: ['string', 'integer'], description: 'Ten digit US phone number; formatting characters are ignored' },
+  specialties: { type: 'array', items: { type: 'string' }, description: 'Names of existing specialties' },
+  location: objectSchema<Omit<LocationInput, 'isPrimary'>>(
+    {
+      city: LOCATION_INPUT_PROPERTIES.city,
+      state: LOCATION_INPUT_PROPERTIES.state,
+      country: LOCATION_INPUT_PROPERTIES.country,
+      postalCode: LOCATION_INPUT_PROPERTIES.postalCode,
+    },
+    { city: true },
+    'Single location of the advocate; give either location or locations'
+  ),
+  locations: { type: 'array', items: ref('LocationInput'), description: 'Every location of the advocate' },
+};
+
+/**
+ * Component schemas, built from the API types
+ */
+function buildSchemas(): Record<string, SchemaObject> {
+  return {
+    Advocate: objectSchema<Advocate>(
+      {
+        id: { type: 'string', format: 'uuid' },
+        firstName: { type: 'string' },
+        lastName: { type: 'string' },
+        degree: { type: 'string' },
+        yearsOfExperience: { type: 'integer' },
+        phoneNumber: { type: 'integer' },
+        specialties: { type: 'array', items: { type: 'string' } },
+        specialtyDetails: { ...arrayOf('Specialty'), description: 'Only loaded with include=specialtyDetails' },
+        city: { type: 'string', description: 'City of the primary location' },
+        state: { type: 'string' },
+        country: { type: 'string' },
+        locations: { ...arrayOf('Location'), description: 'Every location of the advocate, primary first; only loaded with include=locations' },
+        distance: { type: 'number', description: 'Distance to the nearest location, in the radius unit; only set for radius searches' },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' },
+        deletedAt: { type: ['string', 'null'], format: 'date-time', description: 'When the advocate was soft-deleted; only returned with includeDeleted=true' },
+      },
+      { id: true, firstName: true, lastName: true, degree: true, yearsOfExperience: true, phoneNumber: true, specialties: true, city: true, country: true }
+    ),
+    AdvocateDetail: {
+      allOf: [
+        ref('Advocate'),
+        objectSchema<Pick<AdvocateDetail, 'specialtyDetails' | 'locations'>>(
+          { specialtyDetails: arrayOf('Specialty'), locations: arrayOf('Location') },
+          { specialtyDetails: true, locations: true }
+        ),
+      ],
+    },
+    Location: objectSchema<Location>(
+      {
+        id: { type: 'string', format: 'uuid' },
+        advocateId: { type: 'string', format: 'uuid' },
+        city: { type: 'string' },
+        state: { type: 'string' },
+        country: { type: 'string' },
+        postalCode: { type: ['string', 'null'] },
+        latitude: { type: ['number', 'null'], description: 'Geocoded from the postal code or city; null when unknown' },
+        longitude: { type: ['number', 'null'] },
+        isPrimary: { type: 'boolean' },
+      },
+      { id: true, advocateId: true, city: true, country: true, isPrimary: true }
+    ),
+    Specialty: objectSchema<Specialty>(
+      { id: { type: 'string', format: 'uuid' }, name: { type: 'string' }, description: { type: 'string' } },
+      { id: true, name: true }
+    ),
+    PaginationMeta: objectSchema<PaginationMeta>(
+      {
+        totalCount: { type: 'integer' },
+        pageSize: { type: 'integer' },
+        currentPage: { type: 'integer' },
+        totalPages: { type: 'integer' },
+        hasNextPage: { type: 'boolean' },
+        hasPreviousPage: { type: 'boolean' },
+        nextCursor: { type: 'string' },
+        prevCursor: { type: 'string' },
+        cursorField: { type: 'string', description: 'Comma-separated sort keys the cursors are built from' },
+      },
+      { totalCount: true, pageSize: true, hasNextPage: true }
+    ),
+    FacetCount: objectSchema<FacetCount>(
+      { value: { type: 'string' }, count: { type: 'integer' } },
+      { value: true, count: true }
+    ),
+    Facets: {
+      type: 'object',
+      description: `Up to ${MAX_FACET_VALUES} values per requested facet, most common first; ` +
+        `experience is counted in the bands ${EXPERIENCE_BANDS.map(band => band.label).join(', ')}`,
+      properties: Object.fromEntries(ADVOCATE_FACETS.map(facet => [facet, arrayOf('FacetCount')])),
+    },
+    AdvocateListResponse: objectSchema<AdvocateResponse>(
+      {
+        success: { type: 'boolean' },
+        data: arrayOf('Advocate'),
+        pagination: ref('PaginationMeta'),
+        facets: { ...ref('Facets'), description: 'Only present when facets were requested' },
+        warnings: {
+          ...arrayOf('QueryParamIssue'),
+          description: 'Query parameters ignored in lenient mode; only present when there are any and strict=false was given',
+        },
+      },
+      { success: true, data: true, pagination: true }
+    ),
+    AuditEntry: objectSchema<AuditEntry>(
+      {
+        id: { type: 'string', format: 'uuid' },
+        actor: { type: 'string', description: 'anonymous, admin-token, api-key:<key id> or seed' },
+        action: { type: 'string', enum: AUDIT_ACTIONS },
+        entityType: { type: 'string', enum: AUDIT_ENTITY_TYPES },
+        entityId: { type: 'string', format: 'uuid' },
+        before: { type: ['object', 'null'], description: 'Changed fields before the write; null for creates' },
+        after: { type: ['object', 'null'], description: 'Changed fields after the write' },
+        requestId: { type: ['string', 'null'], description: 'X-Request-Id of the request that made the write' },
+        createdAt: { type: 'string', format: 'date-time' },
+      },
+      { id: true, actor: true, action: true, entityType: true, entityId: true, before: true, after: true, requestId: true, createdAt: true }
+    ),
+    AuditLogResponse: objectSchema<AuditLogResponse>(
+      { success: { type: 'boolean' }, data: arrayOf('AuditEntry'), pagination: ref('PaginationMeta') },
+      { success: true, data: true, pagination: true }
+    ),
+    QueryParamIssue: objectSchema<QueryParamIssue>(
+      { parameter: { type: 'string' }, reason: { type: 'string' } },
+      { parameter: true, reason: true }
+    ),
+    AdvocateDetailResponse: objectSchema<AdvocateDetailResponse>(
+      { success: { type: 'boolean' }, data: ref('AdvocateDetail') },
+      { success: true, data: true }
+    ),
+    LocationInput: objectSchema<LocationInput>(LOCATION_INPUT_PROPERTIES, { city: true }),
+    AdvocateInput: objectSchema<AdvocateInput>(
+      ADVOCATE_INPUT_PROPERTIES,
+      { firstName: true, lastName: true, degree: true, yearsOfExperience: true, phoneNumber: true, specialties: true }
+    ),
+    AdvocatePatch: objectSchema<Partial<AdvocateInput>>(
+      ADVOCATE_INPUT_PROPERTIES,
+      {},
+      'Any subset of the advocate fields; given specialties or locations replace the whole set'
+    ),
+    Error: objectSchema<ApiErrorResponse>(
+      {
+        success: { type: 'boolean', const: false },
+        error: objectSchema<ApiErrorResponse['error']>(
+          { message: { type: 'string' }, code: { type: 'string' }, details: { description: 'e.g. per-field validation errors' } },
+          { message: true }
+        ),
+      },
+      { success: true, error: true }
+    ),
+  };
+}
+
+/**
+ * Build the OpenAPI document of the advocates API
+ * Query parameters are generated from the filter registry, the allowed sort fields
+ * and page sizes, and schemas from the API types, so the document follows the code
+ *
+ * @returns OpenAPI 3.1 document
+ */
+export function buildOpenApiDocument(): OpenApiDocument {
+  const queryParameters = [
+    ...SEARCH_PARAMETERS,
+    ...getFilterParameters(),
+    FILTER_EXPRESSION_PARAMETER,
+    INCLUDE_DELETED_PARAMETER,
+    STRICT_PARAMETER,
+  ];
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Solace Advocates API',
+      version: packageJson.version,
+      description: 'Search, manage, import and export advocates. Describes version 1 of the API; ' +
+        'version 2 is served at /api/v2 or with an Accept-Version: 2 header',
+    },
+    paths: {
+      '/api/advocates': {
+        get: {
+          operationId: 'listAdvocates',
+          security: scopeSecurity('advocates:read'),
+          summary: 'List advocates',
+          description: 'Search, filter, sort and page through advocates. Unknown query parameters are ignored',
+          tags: ['Advocates'],
+          parameters: [
+            ...queryParameters,
+            ...SORT_PARAMETERS,
+            ...PAGINATION_PARAMETERS,
+            queryParameter({
+              name: 'facets',
+              description: 'Facets to count. Each facet is counted with the filters on its own field left out',
+              schema: { type: 'array', items: { type: 'string', enum: ADVOCATE_FACETS } },
+              example: 'degree,specialty',
+            }),
+            queryParameter({
+              name: 'fields',
+              description: 'Advocate fields to return; id is always returned. Only the selected columns are read',
+              schema: { type: 'array', items: { type: 'string', enum: ADVOCATE_FIELDS } },
+              example: 'firstName,lastName,city',
+            }),
+            queryParameter({
+              name: 'include',
+              description: 'Relations to load with each advocate; relations left out are not queried. ' +
+                'Give an empty value to load none. Version 2 loads specialties and locations by default',
+              schema: { type: 'array', items: { type: 'string', enum: ADVOCATE_INCLUDES }, default: [...V1_DEFAULT_ADVOCATE_INCLUDES] },
+              allowEmptyValue: true,
+              example: 'specialties,specialtyDetails',
+            }),
+            { name: 'If-None-Match', in: 'header', description: 'ETag of a previous response', schema: { type: 'string' } },
+          ],
+          responses: {
+            200: {
+              description: 'A page of advocates',
+              headers: {
+                ETag: { description: 'Changes whenever the response would', schema: { type: 'string' } },
+                Link: { description: 'first, prev, next and last page links (RFC 5988)', schema: { type: 'string' } },
+              },
+              content: { 'application/json': { schema: ref('AdvocateListResponse') } },
+            },
+            304: { description: 'The response matching If-None-Match is still current' },
+            ...errorResponses(400, 403, 500),
+          },
+        },
+        post: {
+          operationId: 'createAdvocate',
+          security: scopeSecurity('advocates:write'),
+          summary: 'Create an advocate',
+          tags: ['Advocates'],
+          requestBody: { required: true, content: { 'application/json': { schema: ref('AdvocateInput') } } },
+          responses: {
+            201: advocateResponse('The created advocate'),
+            ...errorResponses(400, 403, 500),
+          },
+        },
+      },
+      '/api/advocates/{id}': {
+        get: {
+          operationId: 'getAdvocate',
+          security: scopeSecurity('advocates:read'),
+          summary: 'Get an advocate with all of its specialties and locations',
+          tags: ['Advocates'],
+          parameters: [
+            ID_PARAMETER,
+            INCLUDE_DELETED_PARAMETER,
+            { name: 'If-None-Match', in: 'header', description: 'ETag of a previous response', schema: { type: 'string' } },
+          ],
+          responses: {
+            200: advocateResponse('The advocate'),
+            304: { description: 'The advocate is unchanged since the ETag in If-None-Match' },
+            ...errorResponses(403, 404, 500),
+          },
+        },
+        patch: {
+          operationId: 'updateAdvocate',
+          security: scopeSecurity('advocates:write'),
+          summary: 'Update an advocate',
+          tags: ['Advocates'],
+          parameters: [
+            ID_PARAMETER,
+            { name: 'If-Match', in: 'header', required: true, description: 'ETag from a previous GET', schema: { type: 'string' } },
+          ],
+          requestBody: { required: true, content: { 'application/json': { schema: ref('AdvocatePatch') } } },
+          responses: {
+            200: advocateResponse('The updated advocate'),
+            ...errorResponses(400, 403, 404, 500),
+            412: { description: 'The advocate changed since the ETag in If-Match', content: { 'application/json': { schema: ref('Error') } } },
+            428: { description: 'If-Match is missing', content: { 'application/json': { schema: ref('Error') } } },
+          },
+        },
+        delete: {
+          operationId: 'deleteAdvocate',
+          security: scopeSecurity('advocates:write'),
+          summary: 'Soft-delete an advocate',
+          tags: ['Advocates'],
+          parameters: [ID_PARAMETER],
+          responses: {
+            200: {
+              description: 'The advocate was deleted',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: {
+                        type: 'object',
+                        properties: { id: { type: 'string', format: 'uuid' }, deletedAt: { type: 'string', format: 'date-time' } },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            ...errorResponses(403, 404, 500),
+          },
+        },
+      },
+      '/api/advocates/{id}/restore': {
+        post: {
+          operationId: 'restoreAdvocate',
+          security: scopeSecurity('advocates:write'),
+          summary: 'Restore a soft-deleted advocate',
+          tags: ['Advocates'],
+          parameters: [ID_PARAMETER],
+          responses: {
+            200: advocateResponse('The restored advocate'),
+            ...errorResponses(403, 404, 500),
+            409: { description: 'The advocate is not deleted', content: { 'application/json': { schema: ref('Error') } } },
+          },
+        },
+      },
+      '/api/advocates/{id}/history': {
+        get: {
+          operationId: 'getAdvocateHistory',
+          security: scopeSecurity('advocates:write'),
+          summary: 'List the audit log entries of an advocate, newest first',
+          tags: ['Advocates'],
+          parameters: [ID_PARAMETER, ...PAGINATION_PARAMETERS.filter(parameter => parameter.name !== 'cursor')],
+          responses: {
+            200: { description: 'A page of audit log entries', content: { 'application/json': { schema: ref('AuditLogResponse') } } },
+            ...errorResponses(403, 404, 500),
+          },
+        },
+      },
+      '/api/advocates/export': {
+        get: {
+          operationId: 'exportAdvocates',
+          security: scopeSecurity('advocates:read'),
+          summary: 'Download every matching advocate',
+          description: 'Takes the same search, filter and sort parameters as listAdvocates, without pagination',
+          tags: ['Advocates'],
+          parameters: [
+            {
+              name: 'format',
+              in: 'query',
+              description: 'File format; defaults to the Accept header, then to csv',
+              schema: { type: 'string', enum: Object.keys(EXPORT_FORMATS) },
+            },
+            ...queryParameters,
+            ...SORT_PARAMETERS,
+          ],
+          responses: {
+            200: {
+              description: 'The advocates as a file download',
+              content: Object.fromEntries(
+                Object.values(EXPORT_FORMATS).map(({ contentType }) => [contentType.split(';')[0], {}])
+              ),
+            },
+            ...errorResponses(400, 403, 500),
+          },
+        },
+      },
+      '/api/advocates/import': {
+        post: {
+          operationId: 'importAdvocates',
+          security: scopeSecurity('advocates:write'),
+          summary: 'Import advocates from a CSV file',
+          description: 'Advocates are matched on phone number: new ones are inserted and existing ones updated',
+          tags: ['Advocates'],
+          parameters: [
+            {
+              name: 'dryRun',
+              in: 'query',
+              description: 'Validate and count without writing',
+              schema: { type: 'boolean', default: false },
+            },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'text/csv': { schema: { type: 'string' } },
+              'multipart/form-data': {
+                schema: { type: 'object', properties: { file: { type: 'string', format: 'binary' } } },
+              },
+            },
+          },
+          responses: {
+            200: {
+              description: 'Counts of the rows inserted, updated and skipped, and the errors of each rejected row',
+              content: { 'application/json': {} },
+            },
+            ...errorResponses(400, 403, 500),
+            413: { description: 'Too many rows', content: { 'application/json': { schema: ref('Error') } } },
+          },
+        },
+      },
+    },
+    components: {
+      schemas: buildSchemas(),
+      securitySchemes: {
+        apiKey: {
+          type: 'http',
+          scheme: 'bearer',
+          description: `API key sent as "Authorization: Bearer <key>", with the scopes ${API_SCOPES.join(', ')}; ` +
+            'admin grants every scope',
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Document served by getOpenApiOperation, built on first use
+ */
+let cachedDocument: OpenApiDocument | undefined;
+
+/**
+ * Find an operation of the OpenAPI document, e.g. to validate a request against it
+ *
+ * @param operationId Operation id, e.g. listAdvocates
+ * @returns Operation, or undefined if the document has no such operation
+ */
+export function getOpenApiOperation(operationId: string): OperationObject | undefined {
+  cachedDocument ??= buildOpenApiDocument();
+
+  return Object.values(cachedDocument.paths)
+    .flatMap(operations => Object.values(operations))
+    .find(operation => operation.operationId === operationId);
+}
@@ -1,4 +1,8 @@
 import { NextRequest } from 'next/server';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { SQL, sql } from 'drizzle-orm';
+import { SortKey, getSortKeyExpression } from './sorting';
+import { logger } from './logger';
 
 /**
  * Default pagination values
@@ -17,12 +21,19 @@ export interface PaginationParams {
   cursorField?: string;
 }
 
+/**
+ * Value of a single sort key stored in a cursor
+ */
+export type CursorValue = string | number | null;
+
 /**
  * Interface for cursor data
  */
 export interface CursorData {
-  field: string;
-  value: string | number | Date;
+  /** Sort key fields, ending with the unique tiebreaker */
+  fields: string[];
+  /** Values of the sort keys for the row the cursor points at */
+  values: CursorValue[];
   direction: 'forward' | 'backward';
 }
 
@@ -81,44 +92,161 @@ export function getPaginationParams(request: NextRequest): PaginationParams {
   return { page, limit, cursor, cursorField };
 }
 
+/**
+ * Secret used to sign cursors when CURSOR_SECRET is not set outside production
+ */
+const DEVELOPMENT_CURSOR_SECRET = 'development-cursor-secret';
+
+/**
+ * Get the secret used to sign cursors
+ * Production throws instead of falling back to the development secret, which is
+ * public and would let anyone forge cursors
+ * 
+ * @returns CURSOR_SECRET, or the development secret outside production
+ */
+export function getCursorSecret(): string {
+  const secret = process.env.CURSOR_SECRET;
+  if (secret) return secret;
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('CURSOR_SECRET must be set in production');
+  }
+  return DEVELOPMENT_CURSOR_SECRET;
+}
+
+/**
+ * Sign a cursor payload together with the scope it was issued for
+ * 
+ * @param payload Encoded cursor payload
+ * @param scope Normalized sort and filter state the cursor belongs to
+ * @param secret Secret from getCursorSecret
+ * @returns Base64url encoded signature
+ */
+function signCursor(payload: string, scope: string, secret: string): string {
+  return createHmac('sha256', secret)
+    .update(`${payload}.${scope}`)
+    .digest('base64url');
+}
+
 /**
  * Decode a cursor string into cursor data
+ * Cursors whose signature does not match the given scope are rejected, so a
+ * cursor issued under one sort/filter combination cannot be replayed under another
  * 
  * @param cursor Encoded cursor string
+ * @param scope Normalized sort and filter state of the current request
  * @returns Decoded cursor data or undefined if invalid
  */
-export function decodeCursor(cursor?: string): CursorData | undefined {
+export function decodeCursor(cursor?: string, scope: string = ''): CursorData | undefined {
   if (!cursor) return undefined;
   
+  // Read outside the try, so a missing secret fails the request rather than the cursor
+  const secret = getCursorSecret();
   try {
-    // Base64 decode and parse the cursor
-    const decoded = Buffer.from(cursor, 'base64').toString('utf-8');
+    const [payload, signature] = cursor.split('.');
+    if (!payload || !signature) {
+      return undefined;
+    }
+    
+    // Verify the signature before trusting anything in the payload
+    const expected = Buffer.from(signCursor(payload, scope, secret));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return undefined;
+    }
+    
+    const decoded = Buffer.from(payload, 'base64url').toString('utf-8');
     const cursorData = JSON.parse(decoded) as CursorData;
     
     // Validate cursor data
-    if (!cursorData.field || cursorData.direction === undefined) {
+    if (
+      !Array.isArray(cursorData.fields) ||
+      !Array.isArray(cursorData.values) ||
+      cursorData.fields.length === 0 ||
+      cursorData.fields.length !== cursorData.values.length ||
+      !['forward', 'backward'].includes(cursorData.direction)
+    ) {
       return undefined;
     }
     
     return cursorData;
   } catch (error) {
-    console.error('Error decoding cursor:', error);
+    logger.error('Error decoding cursor', { error });
     return undefined;
   }
 }
 
 /**
- * Encode cursor data into a cursor string
+ * Encode cursor data into a signed cursor string
  * 
- * @param field Field name to use as cursor
- * @param value Field value
+ * @param fields Sort key fields, ending with the unique tiebreaker
+ * @param values Values of the sort keys for the boundary row
  * @param direction Pagination direction
+ * @param scope Normalized sort and filter state the cursor is valid for
  * @returns Encoded cursor string
  */
-export function encodeCursor(field: string, value: string | number | Date, direction: 'forward' | 'backward'): string {
-  const cursorData: CursorData = { field, value, direction };
-  const encoded = Buffer.from(JSON.stringify(cursorData)).toString('base64');
-  return encoded;
+export function encodeCursor(
+  fields: string[],
+  values: CursorValue[],
+  direction: 'forward' | 'backward',
+  scope: string = ''
+): string {
+  const cursorData: CursorData = { fields, values, direction };
+  const payload = Buffer.from(JSON.stringify(cursorData)).toString('base64url');
+  return `${payload}.${signCursor(payload, scope, getCursorSecret())}`;
+}
+
+/**
+ * Build the keyset (seek) condition that selects rows after or before a cursor
+ * When every key sorts in the same direction this is a single row comparison,
+ * e.g. (sort_col, id) > (value, id); mixed directions are expanded into the
+ * equivalent OR of prefix equalities
+ * 
+ * @param keys Sort keys of the current ORDER BY, ending with a unique tiebreaker
+ * @param values Cursor values for the keys
+ * @param direction Whether to seek past the cursor (forward) or before it (backward)
+ * @returns SQL condition for the WHERE clause
+ */
+export function buildKeysetCondition(
+  keys: SortKey[],
+  values: CursorValue[],
+  direction: 'forward' | 'backward'
+): SQL {
+  // Compare values the same way the keys are ordered
+  const left = keys.map(key => getSortKeyExpression(key));
+  const right = keys.map((key, index) =>
+    key.caseInsensitive ? sql`LOWER(${values[index]}::text)` : sql`${values[index]}`
+  );
+  const operator = (key: SortKey) =>
+    (key.direction === 'asc') === (direction === 'forward') ? sql`>` : sql`<`;
+  
+  if (keys.every(key => key.direction === keys[0].direction)) {
+    return sql`(${sql.join(left, sql`, `)}) ${operator(keys[0])} (${sql.join(right, sql`, `)})`;
+  }
+  
+  const branches = keys.map((key, index) => {
+    const conditions = left
+      .slice(0, index)
+      .map((expression, prefixIndex) => sql`${expression} = ${right[prefixIndex]}`);
+    conditions.push(sql`${left[index]} ${operator(key)} ${right[index]}`);
+    return sql`(${sql.join(conditions, sql` AND `)})`;
+  });
+  
+  return sql`(${sql.join(branches, sql` OR `)})`;
+}
+
+/**
+ * Select the sort key values of a row as a text array, for building its cursor
+ * Values are read as text so timestamps keep their full precision
+ * 
+ * @param keys Sort keys of the result set
+ * @returns SQL expression for the key values
+ */
+export function selectCursorValues(keys: SortKey[]): SQL<CursorValue[]> {
+  return sql<CursorValue[]>`array[${sql.join(
+    keys.map(key => sql`${key.column}::text`),
+    sql`, `
+  )}]`;
 }
 
 /**
@@ -138,16 +266,20 @@ export function getOffset(page: number, limit: number): number {
  * @param totalCount Total number of items
  * @param params Pagination parameters
  * @param currentItems Current page items
- * @param getItemCursorValue Function to extract cursor value from an item
+ * @param getItemCursorValues Function to extract sort key values from an item
+ * @param cursorFields Sort key fields the cursor values belong to
+ * @param scope Normalized sort and filter state the cursors are valid for
  * @returns Pagination metadata
  */
 export function getPaginationMeta<T>(
   totalCount: number,
   params: PaginationParams,
   currentItems: T[],
-  getItemCursorValue?: (item: T) => string | number | Date
+  getItemCursorValues?: (item: T) => CursorValue[],
+  cursorFields: string[] = ['id'],
+  scope: string = ''
 ): PaginationMeta {
-  const { page = 1, limit = DEFAULT_PAGE_SIZE, cursor, cursorField = 'id' } = params;
+  const { page = 1, limit = DEFAULT_PAGE_SIZE, cursor } = params;
   
   // Calculate total pages for offset-based pagination
   const totalPages = Math.ceil(totalCount / limit);
@@ -161,19 +293,17 @@ export function getPaginationMeta<T>(
   let prevCursor: string | undefined;
   
   // Generate cursors if we have a function to extract cursor values
-  if (getItemCursorValue && currentItems.length > 0) {
+  if (getItemCursorValues && currentItems.length > 0) {
     // For next cursor, use the last item
     if (hasNextPage) {
       const lastItem = currentItems[currentItems.length - 1];
-      const lastValue = getItemCursorValue(lastItem);
-      nextCursor = encodeCursor(cursorField, lastValue, 'forward');
+      nextCursor = encodeCursor(cursorFields, getItemCursorValues(lastItem), 'forward', scope);
     }
     
     // For previous cursor, use the first item
     if (page > 1 || cursor) {
       const firstItem = currentItems[0];
-      const firstValue = getItemCursorValue(firstItem);
-      prevCursor = encodeCursor(cursorField, firstValue, 'backward');
+      prevCursor = encodeCursor(cursorFields, getItemCursorValues(firstItem), 'backward', scope);
     }
   }
   
@@ -186,7 +316,7 @@ export function getPaginationMeta<T>(
     hasPreviousPage: cursor ? !!prevCursor : page > 1,
     nextCursor,
     prevCursor,
-    cursorField
+    cursorField: cursorFields.join(',')
   };
 }
 
@@ -276,8 +406,7 @@ export function applyPagination(params: PaginationParams): {
 } {
   const { page = 1, limit = DEFAULT_PAGE_SIZE } = params;
   
-  // For cursor-based pagination, we would add a WHERE condition here
-  // but for now, we're implementing offset-based pagination
+  // Cursor-based pagination seeks with buildKeysetCondition instead of an offset
   
   return {
     limit,
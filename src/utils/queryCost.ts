@@ -0,0 +1,93 @@
+import { NextRequest } from 'next/server';
+import { ADVOCATE_FILTERS, FilterOperation, FilterValue, getFilterParams } from './filtering';
+import { collectFilters, getFilterExpressionParam } from './filterExpression';
+
+/**
+ * Most values an in, any or all filter may list
+ * Each value becomes a bind parameter, and specialty lists an EXISTS subquery each
+ */
+export const MAX_FILTER_LIST_LENGTH = 50;
+
+/**
+ * Most filters a request may combine, from the query parameters and the filter expression
+ */
+export const MAX_FILTER_CONDITIONS = 20;
+
+/**
+ * Operations that take a list of values
+ */
+const LIST_OPERATIONS = [FilterOperation.IN, FilterOperation.ANY, FilterOperation.ALL];
+
+/**
+ * Estimated cost of the filters of a request
+ */
+export interface QueryCost {
+  /** Number of filter conditions */
+  conditions: number;
+  /** Longest in, any or all list, named like its query parameter */
+  longestList?: { filter: string; length: number };
+}
+
+/**
+ * Name a filter like its query parameter, e.g. specialty[any]
+ *
+ * @param filter Parsed filter
+ * @returns Query parameter name
+ */
+function getFilterName(filter: FilterValue): string {
+  const definition = ADVOCATE_FILTERS.find(candidate => candidate.field === filter.field);
+  return `${definition?.paramName ?? filter.field}[${filter.operation}]`;
+}
+
+/**
+ * Estimate the cost of a set of filters
+ *
+ * @param filters Parsed filters
+ * @returns Number of conditions and the longest list
+ */
+export function estimateQueryCost(filters: FilterValue[]): QueryCost {
+  let longestList: QueryCost['longestList'];
+
+  for (const filter of filters) {
+    if (!LIST_OPERATIONS.includes(filter.operation) || !Array.isArray(filter.value)) continue;
+    if (!longestList || filter.value.length > longestList.length) {
+      longestList = { filter: getFilterName(filter), length: filter.value.length };
+    }
+  }
+
+  return { conditions: filters.length, longestList };
+}
+
+/**
+ * Explain why the filters of a request are too expensive to run
+ * Counts the filters of the query parameters and of the filter expression together
+ *
+ * @param request NextRequest object
+ * @returns Message, and details with the estimate and the budgets; undefined if within budget
+ */
+export function getQueryCostError(
+  request: NextRequest
+): { message: string; details: QueryCost & { maxListLength: number; maxConditions: number } } | undefined {
+  const expression = getFilterExpressionParam(request)?.expression;
+  const cost = estimateQueryCost([
+    ...getFilterParams(request),
+    ...(expression ? collectFilters(expression) : []),
+  ]);
+  const details = { ...cost, maxListLength: MAX_FILTER_LIST_LENGTH, maxConditions: MAX_FILTER_CONDITIONS };
+
+  if (cost.longestList && cost.longestList.length > MAX_FILTER_LIST_LENGTH) {
+    return {
+      message: `${cost.longestList.filter} lists ${cost.longestList.length} values; at most ${MAX_FILTER_LIST_LENGTH} are allowed`,
+      details,
+    };
+  }
+
+  if (cost.conditions > MAX_FILTER_CONDITIONS) {
+    return {
+      message: `The request combines ${cost.conditions} filters; at most ${MAX_FILTER_CONDITIONS} are allowed`,
+      details,
+    };
+  }
+
+  return undefined;
+}
@@ -0,0 +1,219 @@
+import { NextRequest } from 'next/server';
+import { QueryParamIssue } from '../api/types/advocate';
+import { ParameterObject, SchemaObject, getOpenApiOperation } from './openapi';
+import { isApiKeyRequest } from './auth';
+
+/**
+ * Matches an operation-specific filter parameter, e.g. experience[gte]
+ */
+const FILTER_PARAM_PATTERN = /^([^[\]]+)\[([^[\]]*)\]$/;
+
+/**
+ * Largest edit distance at which an unknown parameter is taken for a typo of a known one
+ */
+const MAX_SUGGESTION_DISTANCE = 2;
+
+/**
+ * Parse the strict flag from request
+ * Strict mode is on by default for API key callers and opt-in for everyone else
+ *
+ * @param request NextRequest object
+ * @returns True if unknown or malformed query parameters should be rejected
+ */
+export function getStrictParam(request: NextRequest): boolean {
+  const strict = request.nextUrl.searchParams.get('strict');
+  return strict === 'true' || (strict !== 'false' && isApiKeyRequest(request));
+}
+
+/**
+ * Number of single-character edits that turn one string into another
+ *
+ * @param a First string
+ * @param b Second string
+ * @returns Levenshtein distance
+ */
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(above + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+
+  return row[b.length];
+}
+
+/**
+ * Explain why a parameter is not known, suggesting what was probably meant
+ *
+ * @param name Parameter name
+ * @param parameters Known query parameters
+ * @returns Reason
+ */
+function getUnknownParamReason(name: string, parameters: ParameterObject[]): string {
+  const match = FILTER_PARAM_PATTERN.exec(name);
+  const key = match ? match[1] : name;
+  const operations = parameters
+    .filter(parameter => parameter['x-filter'] && FILTER_PARAM_PATTERN.exec(parameter.name)?.[1] === key)
+    .map(parameter => parameter['x-filter']?.operation);
+
+  if (operations.length > 0) {
+    return match
+      ? `${key} does not support the operation "${match[2]}"; use one of ${operations.join(', ')}`
+      : `${key} needs an operation, e.g. ${key}[${operations[0]}]`;
+  }
+
+  const maxDistance = Math.min(MAX_SUGGESTION_DISTANCE, Math.floor(name.length / 3));
+  const suggestion = parameters
+    .map(parameter => ({
+      name: parameter.name,
+      distance: editDistance(name.toLowerCase(), parameter.name.toLowerCase())
+    }))
+    .filter(candidate => candidate.distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance)[0];
+
+  return suggestion
+    ? `is not a known parameter; did you mean ${suggestion.name}?`
+    : 'is not a known parameter';
+}
+
+/**
+ * Check a parameter value against its schema
+ * Arrays are comma-separated and each item is checked against the item schema
+ *
+ * @param value Raw value
+ * @param schema Parameter schema
+ * @param example Example value, shown when the value does not match the pattern
+ * @returns Reason the value is invalid, or undefined if it is valid
+ */
+function getValueError(value: string, schema: SchemaObject, example?: string): string | undefined {
+  if (schema.type === 'array') {
+    const items = value.split(',').map(item => item.trim());
+    if (items.some(item => !item)) return 'must be a comma-separated list without empty values';
+
+    for (const item of items) {
+      const error = getValueError(item, schema.items ?? {});
+      if (error) return `"${item}" ${error}`;
+    }
+    return undefined;
+  }
+
+  if (schema.enum && !schema.enum.map(String).includes(value)) {
+    return `must be one of ${schema.enum.join(', ')}`;
+  }
+
+  if (schema.type === 'boolean' && value !== 'true' && value !== 'false') {
+    return 'must be true or false';
+  }
+
+  if (schema.type === 'number' || schema.type === 'integer') {
+    const number = Number(value);
+    if (!Number.isFinite(number)) return 'must be a number';
+    if (schema.type === 'integer' && !Number.isInteger(number)) return 'must be an integer';
+    if (schema.minimum !== undefined && number < schema.minimum) return `must be at least ${schema.minimum}`;
+    if (schema.exclusiveMinimum !== undefined && number <= schema.exclusiveMinimum) {
+      return `must be greater than ${schema.exclusiveMinimum}`;
+    }
+    if (schema.maximum !== undefined && number > schema.maximum) return `must be at most ${schema.maximum}`;
+  }
+
+  if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+    return example ? `must be formatted like ${example}` : `must match ${schema.pattern}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Check every query parameter of a request against the documented parameters
+ * Reports the parameters the parsers would ignore or fall back from: unknown names,
+ * unsupported filter operations, malformed or empty values, repeated parameters and
+ * filters overridden by their field=value shorthand
+ *
+ * @param request NextRequest object
+ * @param parameters Documented parameters of the operation
+ * @returns Issues in the order the parameters were given
+ */
+export function validateQueryParams(request: NextRequest, parameters: ParameterObject[]): QueryParamIssue[] {
+  const searchParams = request.nextUrl.searchParams;
+  const queryParameters = parameters.filter(parameter => parameter.in === 'query');
+  const issues: QueryParamIssue[] = [];
+  const seen = new Set<string>();
+
+  searchParams.forEach((value, name) => {
+    if (seen.has(name)) {
+      issues.push({ parameter: name, reason: 'is given more than once; only the first value is used' });
+      return;
+    }
+    seen.add(name);
+
+    const parameter = queryParameters.find(candidate => candidate.name === name);
+    if (!parameter) {
+      issues.push({ parameter: name, reason: getUnknownParamReason(name, queryParameters) });
+      return;
+    }
+
+    const error = value.trim()
+      ? getValueError(value.trim(), parameter.schema, parameter.example)
+      : parameter.allowEmptyValue ? undefined : 'is empty';
+    if (error) {
+      issues.push({ parameter: name, reason: error });
+    }
+  });
+
+  // field=value takes precedence over every other filter on the same field
+  for (const shorthand of queryParameters) {
+    const filter = shorthand['x-filter'];
+    if (!filter || FILTER_PARAM_PATTERN.test(shorthand.name) || !searchParams.get(shorthand.name)) continue;
+
+    for (const parameter of queryParameters) {
+      if (parameter !== shorthand && parameter['x-filter']?.field === filter.field && searchParams.has(parameter.name)) {
+        issues.push({ parameter: parameter.name, reason: `is ignored because ${shorthand.name} is given` });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Check the query parameters of an advocate list or export request
+ * On top of the documented parameters, a radius and a distance sort need a radius
+ * search, and a relevance sort needs a full-text search
+ *
+ * @param request NextRequest object
+ * @param operationId listAdvocates or exportAdvocates
+ * @returns Issues with the query parameters
+ */
+export function validateAdvocateQuery(
+  request: NextRequest,
+  operationId: 'listAdvocates' | 'exportAdvocates'
+): QueryParamIssue[] {
+  const searchParams = request.nextUrl.searchParams;
+  const issues = validateQueryParams(request, getOpenApiOperation(operationId)?.parameters ?? []);
+
+  if (!searchParams.get('near') && searchParams.get('radius')) {
+    issues.push({ parameter: 'radius', reason: 'is ignored without near' });
+  }
+
+  // Sort fields that need another parameter are dropped without it
+  const sortRequirements = [
+    { field: 'distance', parameter: 'near' },
+    { field: 'relevance', parameter: 'q' }
+  ];
+  for (const name of ['sort', 'secondarySort']) {
+    const fields = (searchParams.get(name) ?? '').split(',').map(field => field.trim().replace(/^[-+]/, ''));
+    for (const { field, parameter } of sortRequirements) {
+      if (fields.includes(field) && !searchParams.get(parameter)?.trim()) {
+        issues.push({ parameter: name, reason: `${field} is only available with ${parameter}` });
+      }
+    }
+  }
+
+  return issues;
+}
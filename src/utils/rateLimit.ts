@@ -0,0 +1,280 @@
+import { NextRequest } from 'next/server';
+
+/**
+ * Token bucket rate limit
+ * A bucket holds up to capacity tokens and refills continuously; every request takes one
+ */
+export interface RateLimitPolicy {
+  /** Name of the policy, part of the bucket key so policies do not share buckets */
+  name: string;
+  /** Most requests that can be made in a burst */
+  capacity: number;
+  /** Tokens added back per second */
+  refillPerSecond: number;
+}
+
+/**
+ * Limit for anonymous callers, keyed by IP address
+ */
+export const ANONYMOUS_RATE_LIMIT: RateLimitPolicy = { name: 'anonymous', capacity: 60, refillPerSecond: 1 };
+
+/**
+ * Limit for callers authenticated with an API key, keyed by the key
+ */
+export const API_KEY_RATE_LIMIT: RateLimitPolicy = { name: 'api-key', capacity: 300, refillPerSecond: 5 };
+
+/**
+ * Limit for POST /api/seed, which rewrites the whole database
+ */
+export const SEED_RATE_LIMIT: RateLimitPolicy = { name: 'seed', capacity: 2, refillPerSecond: 1 / 300 };
+
+/**
+ * State of a token bucket
+ */
+export interface TokenBucket {
+  tokens: number;
+  /** Time of the last update, in milliseconds since the epoch */
+  updatedAt: number;
+}
+
+/**
+ * Outcome of taking a token, with the values of the RateLimit headers
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  /** Whole tokens left in the bucket */
+  remaining: number;
+  /** Seconds until the bucket is full again */
+  resetSeconds: number;
+  /** Seconds until a token is available; only set when the request was not allowed */
+  retryAfterSeconds?: number;
+}
+
+/**
+ * Storage for token buckets
+ * Stores shared between server instances, e.g. Redis, should take the token atomically
+ */
+export interface RateLimitStore {
+  /**
+   * Take a token from the bucket of a key
+   * @param key Bucket key
+   * @param policy Policy of the bucket
+   * @param now Current time in milliseconds since the epoch
+   * @returns Whether the request is allowed, and the state of the bucket
+   */
+  take(key: string, policy: RateLimitPolicy, now: number): Promise<RateLimitResult>;
+}
+
+/**
+ * Refill a bucket for the time since its last update and take a token from it
+ * Shared by the stores, so they only differ in where buckets are kept
+ *
+ * @param bucket Current bucket, or undefined for a new, full one
+ * @param policy Policy of the bucket
+ * @param now Current time in milliseconds since the epoch
+ * @returns The updated bucket and the outcome
+ */
+export function takeToken(
+  bucket: TokenBucket | undefined,
+  policy: RateLimitPolicy,
+  now: number
+): { bucket: TokenBucket; result: RateLimitResult } {
+  const elapsedSeconds = bucket ? Math.max(0, now - bucket.updatedAt) / 1000 : 0;
+  const available = bucket
+    ? Math.min(policy.capacity, bucket.tokens + elapsedSeconds * policy.refillPerSecond)
+    : policy.capacity;
+  const allowed = available >= 1;
+  const tokens = allowed ? available - 1 : available;
+
+  return {
+    bucket: { tokens, updatedAt: now },
+    result: {
+      allowed,
+      limit: policy.capacity,
+      remaining: Math.floor(tokens),
+      resetSeconds: Math.ceil((policy.capacity - tokens) / policy.refillPerSecond),
+      ...(allowed ? {} : { retryAfterSeconds: Math.ceil((1 - tokens) / policy.refillPerSecond) }),
+    },
+  };
+}
+
+/**
+ * Rate limit store that keeps buckets in process memory
+ * Each server instance limits on its own. When more than maxKeys buckets are kept,
+ * full buckets are dropped, since a new bucket starts full anyway, then the least
+ * recently used ones
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, TokenBucket & { fullAt: number }>();
+  private maxKeys: number;
+
+  /**
+   * Create a memory store
+   * @param maxKeys Most buckets to keep
+   */
+  constructor(maxKeys: number = 10000) {
+    this.maxKeys = maxKeys;
+  }
+
+  async take(key: string, policy: RateLimitPolicy, now: number): Promise<RateLimitResult> {
+    const { bucket, result } = takeToken(this.buckets.get(key), policy, now);
+
+    // Re-insert so the map stays ordered from least to most recently used
+    this.buckets.delete(key);
+    this.buckets.set(key, { ...bucket, fullAt: now + result.resetSeconds * 1000 });
+    if (this.buckets.size > this.maxKeys) {
+      this.prune(now);
+    }
+
+    return result;
+  }
+
+  /**
+   * Drop full buckets, then the least recently used ones until maxKeys are left
+   * @param now Current time in milliseconds since the epoch
+   */
+  private prune(now: number): void {
+    this.buckets.forEach((bucket, key) => {
+      if (bucket.fullAt <= now) this.buckets.delete(key);
+    });
+
+    const keys = this.buckets.keys();
+    while (this.buckets.size > this.maxKeys) {
+      this.buckets.delete(keys.next().value as string);
+    }
+  }
+}
+
+let rateLimitStore: RateLimitStore = new MemoryRateLimitStore();
+
+/**
+ * Get the store the middleware keeps its buckets in
+ *
+ * @returns Rate limit store; a MemoryRateLimitStore unless replaced
+ */
+export function getRateLimitStore(): RateLimitStore {
+  return rateLimitStore;
+}
+
+/**
+ * Replace the store the middleware keeps its buckets in, e.g. with one shared by every instance
+ *
+ * @param store Rate limit store
+ */
+export function setRateLimitStore(store: RateLimitStore): void {
+  rateLimitStore = store;
+}
+
+/**
+ * Get the number of proxies in front of the app from the TRUSTED_PROXY_HOPS
+ * environment variable
+ * Unset, zero or invalid values mean no proxy is trusted
+ *
+ * @returns Number of trusted proxies
+ */
+export function getTrustedProxyHops(): number {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS);
+  return Number.isInteger(hops) && hops > 0 ? hops : 0;
+}
+
+/**
+ * Get the IP address of the caller
+ * Taken from the platform when it provides one. Forwarding headers are only read
+ * behind TRUSTED_PROXY_HOPS proxies, since callers can send any value in them: the
+ * X-Forwarded-For entry appended by the outermost trusted proxy is used, or
+ * X-Real-IP when there is no such entry
+ *
+ * @param request NextRequest object
+ * @returns IP address, or "unknown", which every caller without one shares
+ */
+export function getClientIp(request: NextRequest): string {
+  if (request.ip) return request.ip;
+
+  const hops = getTrustedProxyHops();
+  if (hops === 0) return 'unknown';
+
+  const forwardedFor = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+  if (forwardedFor.length >= hops) return forwardedFor[forwardedFor.length - hops];
+
+  return request.headers.get('x-real-ip')?.trim() || 'unknown';
+}
+
+/**
+ * API key of a request, as far as the middleware can tell without a database lookup
+ */
+export interface RateLimitApiKey {
+  /** Identifier of the key */
+  id: string;
+  /** Whether the key is known to be valid, as the admin token is */
+  verified: boolean;
+}
+
+/**
+ * Choose the rate limit policy and bucket keys of a request
+ * API key callers are keyed by their key, everyone else by IP address. Keys the
+ * middleware cannot verify are also charged to a bucket of their IP address, so
+ * sending a new made-up key with every request does not get a fresh bucket each time
+ *
+ * @param request NextRequest object
+ * @param apiKey API key of the request, if it has one
+ * @returns Policy and the keys of every bucket to take a token from
+ */
+export function getRateLimit(request: NextRequest, apiKey?: RateLimitApiKey): { policy: RateLimitPolicy; keys: string[] } {
+  const policy = request.nextUrl.pathname === '/api/seed'
+    ? SEED_RATE_LIMIT
+    : apiKey ? API_KEY_RATE_LIMIT : ANONYMOUS_RATE_LIMIT;
+  const ipKey = `${policy.name}:ip:${getClientIp(request)}`;
+
+  if (!apiKey) return { policy, keys: [ipKey] };
+
+  const keyKey = `${policy.name}:key:${apiKey.id}`;
+  return { policy, keys: apiKey.verified ? [keyKey] : [ipKey, keyKey] };
+}
+
+/**
+ * Take a token from each of several buckets
+ * Stops at the first bucket that is empty; otherwise the outcome of the bucket
+ * with the fewest tokens left is returned, for the RateLimit headers
+ *
+ * @param store Rate limit store
+ * @param keys Bucket keys
+ * @param policy Policy of the buckets
+ * @param now Current time in milliseconds since the epoch
+ * @returns Whether the request is allowed, and the state of the tightest bucket
+ */
+export async function takeTokens(
+  store: RateLimitStore,
+  keys: string[],
+  policy: RateLimitPolicy,
+  now: number
+): Promise<RateLimitResult> {
+  let tightest: RateLimitResult | undefined;
+  for (const key of keys) {
+    const result = await store.take(key, policy, now);
+    if (!result.allowed) return result;
+    if (!tightest || result.remaining < tightest.remaining) tightest = result;
+  }
+  return tightest as RateLimitResult;
+}
+
+/**
+ * Set the RateLimit headers of a response, and Retry-After when the request was limited
+ *
+ * @param headers Response headers to set
+ * @param policy Policy the request was limited by
+ * @param result Outcome of taking a token
+ */
+export function setRateLimitHeaders(headers: Headers, policy: RateLimitPolicy, result: RateLimitResult): void {
+  headers.set('RateLimit-Limit', String(result.limit));
+  headers.set('RateLimit-Remaining', String(result.remaining));
+  headers.set('RateLimit-Reset', String(result.resetSeconds));
+  headers.set('RateLimit-Policy', `${policy.capacity};w=${Math.ceil(policy.capacity / policy.refillPerSecond)}`);
+
+  if (result.retryAfterSeconds !== undefined) {
+    headers.set('Retry-After', String(result.retryAfterSeconds));
+  }
+}
@@ -0,0 +1,125 @@
+import { NextRequest } from 'next/server';
+import { LogFields, Logger, logger } from './logger';
+
+/**
+ * Header carrying the id of a request, propagated from the caller or generated
+ */
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+/**
+ * Request ids a caller may send; others are replaced with a generated one
+ */
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,100}$/;
+
+/**
+ * Matches path segments that are record IDs
+ */
+const UUID_SEGMENT = /\/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}(?=\/|$)/gi;
+
+/**
+ * Request ids generated for requests that arrived without a valid one
+ */
+const generatedRequestIds = new WeakMap<Request, string>();
+
+/**
+ * Fields routes add to the line logged when their request completes
+ */
+const requestLogFields = new WeakMap<Request, LogFields>();
+
+/**
+ * Get the id of a request
+ * The middleware forwards every API request with an X-Request-Id, keeping the
+ * caller's when it is up to 100 letters, digits, dots, colons, dashes or
+ * underscores; otherwise a UUID is generated once per request
+ *
+ * @param request NextRequest object
+ * @returns Request id
+ */
+export function getRequestId(request: NextRequest): string {
+  const header = request.headers.get(REQUEST_ID_HEADER);
+  if (header && REQUEST_ID_PATTERN.test(header)) return header;
+
+  let requestId = generatedRequestIds.get(request);
+  if (!requestId) {
+    requestId = crypto.randomUUID();
+    generatedRequestIds.set(request, requestId);
+  }
+  return requestId;
+}
+
+/**
+ * Get the route of a request path, for grouping log lines
+ * The version prefix is left out and record IDs are replaced with [id], so
+ * /api/v2/advocates/<uuid> is logged as /api/advocates/[id]
+ *
+ * @param pathname Request path
+ * @returns Route pattern
+ */
+export function getRoutePattern(pathname: string): string {
+  return pathname.replace(/^\/api\/v\d+(?=\/|$)/, '/api').replace(UUID_SEGMENT, '/[id]');
+}
+
+/**
+ * Get a logger for a request, adding its id, method and route to every line
+ *
+ * @param request NextRequest object
+ * @returns Logger
+ */
+export function getRequestLogger(request: NextRequest): Logger {
+  return logger.child({
+    requestId: getRequestId(request),
+    method: request.method,
+    route: getRoutePattern(request.nextUrl.pathname),
+  });
+}
+
+/**
+ * Add fields to the line logged when a request completes, e.g. row counts or
+ * the normalized filters
+ *
+ * @param request NextRequest object
+ * @param fields Fields to add
+ */
+export function addRequestLogFields(request: NextRequest, fields: LogFields): void {
+  requestLogFields.set(request, { ...requestLogFields.get(request), ...fields });
+}
+
+/**
+ * Log every request of a route handler
+ * One line is logged per request with its status and duration in milliseconds,
+ * the fields added with addRequestLogFields and the API version; 5xx responses are
+ * logged as errors and 4xx as warnings. The request id is echoed in X-Request-Id.
+ * For streamed responses the duration ends when the headers are ready
+ *
+ * @param handler Route handler
+ * @returns Route handler that logs its requests
+ */
+export function withRequestLog<C>(
+  handler: (request: NextRequest, context: C) => Promise<Response>
+): (request: NextRequest, context: C) => Promise<Response> {
+  return async (request, context) => {
+    const log = getRequestLogger(request);
+    const startedAt = performance.now();
+    const durationMs = () => Math.round(performance.now() - startedAt);
+
+    let response: Response;
+    try {
+      response = await handler(request, context);
+    } catch (error) {
+      log.error('Request failed', { error, durationMs: durationMs(), ...requestLogFields.get(request) });
+      throw error;
+    }
+
+    response.headers.set(REQUEST_ID_HEADER, getRequestId(request));
+
+    const level = response.status >= 500 ? 'error' : response.status >= 400 ? 'warn' : 'info';
+    log[level]('Request completed', {
+      status: response.status,
+      durationMs: durationMs(),
+      version: response.headers.get('API-Version') ?? undefined,
+      ...requestLogFields.get(request),
+    });
+
+    return response;
+  };
+}
@@ -0,0 +1,141 @@
+import { NextRequest } from 'next/server';
+import { SQL, sql } from 'drizzle-orm';
+import { SortKey, getRankSortKeys } from './sorting';
+
+/**
+ * Maximum number of words of a search query that are matched
+ */
+export const MAX_SEARCH_TERMS = 10;
+
+/**
+ * Text search configuration used for both the documents and the queries
+ * 'simple' lower-cases words without stemming them, which suits names and lets
+ * partially typed words match as prefixes
+ */
+const SEARCH_CONFIG = sql.raw(`'simple'`);
+
+/**
+ * Runs of letters and digits in any script
+ * Built with the constructor because the compile target predates the u flag
+ */
+const WORD_PATTERN = new RegExp('[\\p{L}\\p{N}]+', 'gu');
+
+/**
+ * Parse the full-text search query from request
+ *
+ * @param request NextRequest object
+ * @returns Trimmed q parameter, or undefined when it is missing or blank
+ */
+export function getSearchParam(request: NextRequest): string | undefined {
+  const q = request.nextUrl.searchParams.get('q')?.trim();
+  return q ? q : undefined;
+}
+
+/**
+ * Turn free text into a tsquery that matches every word as a prefix
+ * e.g. "Jane Smi" becomes "jane:* & smi:*". Punctuation is dropped, so user input
+ * can never produce tsquery syntax. A query that looks like a phone number is
+ * matched as one run of digits, ignoring its formatting
+ *
+ * @param q Search text
+ * @returns tsquery text, or undefined if the text contains no words
+ */
+export function toPrefixTsQuery(q: string): string | undefined {
+  if (/^[\d\s().+-]+$/.test(q) && /\d/.test(q)) {
+    return `${q.replace(/\D/g, '')}:*`;
+  }
+
+  const terms = q.toLowerCase().match(WORD_PATTERN) ?? [];
+  if (terms.length === 0) return undefined;
+
+  return terms
+    .slice(0, MAX_SEARCH_TERMS)
+    .map(term => `${term}:*`)
+    .join(' & ');
+}
+
+/**
+ * Build the search document of each advocate, as stored in advocates.search_document
+ * Names weigh most, then specialty names, then degree and locations; the phone
+ * number is included with the lowest weight so it can still be searched
+ *
+ * @param tables Object containing all required tables
+ * @returns SQL tsvector expression, correlated to the advocates table
+ */
+export function buildSearchVector(tables: {
+  advocates: Record<string, any>;
+  specialties: Record<string, any>;
+  advocateSpecialties: Record<string, any>;
+  locations: Record<string, any>;
+}): SQL {
+  const { advocates, specialties, advocateSpecialties, locations } = tables;
+
+  const specialtyNames = sql`(
+    SELECT string_agg(${specialties.name}, ' ')
+    FROM ${advocateSpecialties}
+    JOIN ${specialties} ON ${advocateSpecialties.specialtyId} = ${specialties.id}
+    WHERE ${advocateSpecialties.advocateId} = ${advocates.id}
+  )`;
+  const locationNames = sql`(
+    SELECT string_agg(${locations.city} || ' ' || coalesce(${locations.state}, ''), ' ')
+    FROM ${locations}
+    WHERE ${locations.advocateId} = ${advocates.id}
+  )`;
+
+  return sql`(
+    setweight(to_tsvector(${SEARCH_CONFIG}, ${advocates.firstName} || ' ' || ${advocates.lastName}), 'A') ||
+    setweight(to_tsvector(${SEARCH_CONFIG}, coalesce(${specialtyNames}, '')), 'B') ||
+    setweight(to_tsvector(${SEARCH_CONFIG}, ${advocates.degree}), 'C') ||
+    setweight(to_tsvector(${SEARCH_CONFIG}, coalesce(${locationNames}, '')), 'C') ||
+    setweight(to_tsvector(${SEARCH_CONFIG}, ${advocates.phoneNumber}::text), 'D')
+  )`;
+}
+
+/**
+ * SQL pieces for a full-text search
+ */
+export interface SearchClause {
+  /** Matches advocates whose search document contains every word */
+  condition: SQL;
+  /** Relevance of each advocate to the query; higher is better */
+  rank: SQL;
+}
+
+/**
+ * Build the condition and relevance rank for a search query
+ * Both read the stored search document, so the condition can use its GIN index
+ *
+ * @param advocateTable Advocate table object from schema
+ * @param q Search text
+ * @returns Search clause, or undefined if the text contains no words
+ */
+export function buildSearchClause<T extends Record<string, any>>(
+  advocateTable: T,
+  q: string
+): SearchClause | undefined {
+  const tsQuery = toPrefixTsQuery(q);
+  if (!tsQuery) return undefined;
+
+  const vector = advocateTable.searchDocument;
+  const query = sql`to_tsquery(${SEARCH_CONFIG}, ${tsQuery})`;
+
+  return {
+    condition: sql`${vector} @@ ${query}`,
+    rank: sql`ts_rank(${vector}, ${query})`,
+  };
+}
+
+/**
+ * Sort keys that order search results by relevance, best match first
+ * The id breaks ties, so the keys can back keyset pagination like any other sort
+ *
+ * @param advocateTable Advocate table object from schema
+ * @param rank Relevance rank from buildSearchClause
+ * @returns Array of sort keys in ORDER BY order
+ */
+export function getRelevanceSortKeys<T extends Record<string, any>>(
+  advocateTable: T,
+  rank: SQL
+): SortKey[] {
+  return getRankSortKeys(advocateTable, [{ field: 'relevance', rank }], 'id');
+}
@@ -3,6 +3,9 @@ import { SQL, asc, desc, sql } from 'drizzle-orm';
 
 /**
  * Allowed sort fields for advocates
+ * city and state come from the primary location and specialtyCount counts the
+ * advocate's specialties; distance is only available with a radius search and
+ * relevance with a full-text search
  */
 export const ALLOWED_ADVOCATE_SORT_FIELDS = [
   'firstName',
@@ -11,6 +14,11 @@ export const ALLOWED_ADVOCATE_SORT_FIELDS = [
   'yearsOfExperience',
   'createdAt',
   'updatedAt',
+  'city',
+  'state',
+  'specialtyCount',
+  'distance',
+  'relevance',
 ] as const;
 
 /**
@@ -23,26 +31,62 @@ export type AllowedAdvocateSortField = typeof ALLOWED_ADVOCATE_SORT_FIELDS[numbe
  */
 export type SortDirection = 'asc' | 'desc';
 
+/**
+ * A field to sort by, with its direction
+ */
+export interface SortField {
+  field: AllowedAdvocateSortField;
+  direction: SortDirection;
+}
+
 /**
  * Interface for sort parameters
+ * Fields are listed most significant first; each field appears at most once
  */
 export interface SortParams {
-  field: AllowedAdvocateSortField;
+  fields: SortField[];
+}
+
+/**
+ * A single key of an ORDER BY clause
+ */
+export interface SortKey {
+  field: string;
+  column: any;
   direction: SortDirection;
-  secondaryField?: AllowedAdvocateSortField;
-  secondaryDirection?: SortDirection;
+  caseInsensitive: boolean;
 }
 
 /**
  * Default sort parameters
  */
 export const DEFAULT_SORT: SortParams = {
-  field: 'createdAt',
-  direction: 'desc'
+  fields: [{ field: 'createdAt', direction: 'desc' }]
 };
 
+/**
+ * Check whether a value is a sort direction
+ */
+function isSortDirection(value: string | null): value is SortDirection {
+  return value === 'asc' || value === 'desc';
+}
+
+/**
+ * Check whether a value is an allowed sort field
+ */
+function isAllowedSortField(value: string | null): value is AllowedAdvocateSortField {
+  return ALLOWED_ADVOCATE_SORT_FIELDS.includes(value as AllowedAdvocateSortField);
+}
+
 /**
  * Parse sort parameters from request
+ * sort takes any number of comma-separated fields, most significant first, e.g.
+ * sort=-yearsOfExperience,lastName; a leading - sorts a field descending and a
+ * leading + (sent as %2B) ascending; an unencoded + arrives as a space and is
+ * ignored like other whitespace. Fields without a prefix sort in the order direction. Without
+ * order, a single field keeps the direction of the default sort, as sort=lastName
+ * always has, and a list of fields sorts ascending. The older secondarySort and
+ * secondaryOrder parameters add one more field. Unknown and repeated fields are ignored
  * 
  * @param request NextRequest object
  * @returns Parsed sort parameters
@@ -50,41 +94,62 @@ export const DEFAULT_SORT: SortParams = {
 export function getSortParams(request: NextRequest): SortParams {
   const searchParams = request.nextUrl.searchParams;
   
-  // Get sort field and direction
-  const sortField = searchParams.get('sort') || DEFAULT_SORT.field;
-  const sortDirection = searchParams.get('order') || DEFAULT_SORT.direction;
-  
-  // Get secondary sort field and direction
-  const secondarySortField = searchParams.get('secondarySort') || undefined;
-  const secondarySortDirection = searchParams.get('secondaryOrder') || 'asc';
+  const sortParam = searchParams.get('sort');
+  const orderParam = searchParams.get('order');
+  const secondarySortParam = searchParams.get('secondarySort');
+  const secondaryOrderParam = searchParams.get('secondaryOrder');
   
-  // Validate sort field
-  const field = ALLOWED_ADVOCATE_SORT_FIELDS.includes(sortField as AllowedAdvocateSortField)
-    ? sortField as AllowedAdvocateSortField
-    : DEFAULT_SORT.field;
+  // Without a sort field, order still gives the direction of the default field
+  if (!sortParam) {
+    return {
+      fields: DEFAULT_SORT.fields.map(({ field, direction }) => ({
+        field,
+        direction: isSortDirection(orderParam) ? orderParam : direction
+      }))
+    };
+  }
   
-  // Validate sort direction
-  const direction = ['asc', 'desc'].includes(sortDirection as SortDirection)
-    ? sortDirection as SortDirection
-    : DEFAULT_SORT.direction;
+  const fields: SortField[] = [];
+  const addField = (field: string, direction: SortDirection) => {
+    if (isAllowedSortField(field) && !fields.some(existing => existing.field === field)) {
+      fields.push({ field, direction });
+    }
+  };
   
-  // Validate secondary sort field
-  const secondaryField = secondarySortField && 
-    ALLOWED_ADVOCATE_SORT_FIELDS.includes(secondarySortField as AllowedAdvocateSortField)
-    ? secondarySortField as AllowedAdvocateSortField
-    : undefined;
+  // Parse each comma-separated field, descending with a - prefix and ascending with +
+  const items = sortParam.split(',');
+  const defaultDirection = isSortDirection(orderParam)
+    ? orderParam
+    : items.length === 1 ? DEFAULT_SORT.fields[0].direction : 'asc';
+  for (const item of items) {
+    const field = item.trim();
+    if (field.startsWith('-')) {
+      addField(field.slice(1), 'desc');
+    } else if (field.startsWith('+')) {
+      addField(field.slice(1), 'asc');
+    } else {
+      addField(field, defaultDirection);
+    }
+  }
   
-  // Validate secondary sort direction
-  const secondaryDirection = ['asc', 'desc'].includes(secondarySortDirection as SortDirection)
-    ? secondarySortDirection as SortDirection
-    : 'asc';
+  if (secondarySortParam) {
+    addField(secondarySortParam, isSortDirection(secondaryOrderParam) ? secondaryOrderParam : 'asc');
+  }
   
-  return {
-    field,
-    direction,
-    secondaryField,
-    secondaryDirection: secondaryField ? secondaryDirection : undefined
-  };
+  return fields.length > 0 ? { fields } : { ...DEFAULT_SORT };
+}
+
+/**
+ * Format sort parameters in the sort parameter syntax
+ * A single ascending field is prefixed with +, since on its own it would sort descending
+ * 
+ * @param params Sort parameters
+ * @returns Comma-separated fields, descending ones prefixed with -
+ */
+export function formatSortParam(params: SortParams): string {
+  return params.fields
+    .map(({ field, direction }) => direction === 'desc' ? `-${field}` : params.fields.length === 1 ? `+${field}` : field)
+    .join(',');
 }
 
 /**
@@ -98,27 +163,13 @@ export function getSortExpressions<T extends Record<string, any>>(
   table: T,
   params: SortParams
 ): SQL[] {
-  const expressions: SQL[] = [];
-  
-  // Add primary sort expression
-  if (params.field in table) {
-    expressions.push(
-      params.direction === 'asc'
-        ? asc(table[params.field])
-        : desc(table[params.field])
+  return params.fields
+    .filter(({ field }) => field in table)
+    .map(({ field, direction }) =>
+      direction === 'asc'
+        ? asc(table[field])
+        : desc(table[field])
     );
-  }
-  
-  // Add secondary sort expression if provided
-  if (params.secondaryField && params.secondaryField in table) {
-    expressions.push(
-      params.secondaryDirection === 'asc'
-        ? asc(table[params.secondaryField])
-        : desc(table[params.secondaryField])
-    );
-  }
-  
-  return expressions;
 }
 
 /**
@@ -140,45 +191,136 @@ export function getCaseInsensitiveSort<T extends Record<string, any>>(
 }
 
 /**
- * Generate SQL sort expressions with case-insensitive sorting for text fields
+ * Resolve sort parameters into the ordered list of sort keys
+ * Keyset pagination compares rows against these same keys, so they must stay
+ * in step with the ORDER BY clause built from them
  * 
  * @param table Table object from schema
  * @param params Sort parameters
  * @param textFields Array of field names that should use case-insensitive sorting
- * @returns Array of SQL expressions for ORDER BY clause
+ * @param tiebreakerField Unique field appended as the last key, in the primary direction (optional)
+ * @returns Array of sort keys in ORDER BY order
  */
-export function getSortExpressionsWithCaseInsensitive<T extends Record<string, any>>(
+export function getSortKeys<T extends Record<string, any>>(
   table: T,
   params: SortParams,
-  textFields: string[] = []
-): SQL[] {
-  const expressions: SQL[] = [];
+  textFields: string[] = [],
+  tiebreakerField?: string
+): SortKey[] {
+  const keys: SortKey[] = [];
   
-  // Add primary sort expression
-  if (params.field in table) {
-    if (textFields.includes(params.field)) {
-      expressions.push(getCaseInsensitiveSort(table, params.field, params.direction));
-    } else {
-      expressions.push(
-        params.direction === 'asc'
-          ? asc(table[params.field])
-          : desc(table[params.field])
-      );
-    }
+  const addKey = (field: string, direction: SortDirection) => {
+    if (!(field in table)) return;
+    keys.push({
+      field,
+      column: table[field],
+      direction,
+      caseInsensitive: textFields.includes(field)
+    });
+  };
+  
+  // Add a key for each sort field the table has, most significant first
+  for (const { field, direction } of params.fields) {
+    addKey(field, direction);
   }
   
-  // Add secondary sort expression if provided
-  if (params.secondaryField && params.secondaryField in table) {
-    if (textFields.includes(params.secondaryField)) {
-      expressions.push(getCaseInsensitiveSort(table, params.secondaryField, params.secondaryDirection || 'asc'));
-    } else {
-      expressions.push(
-        params.secondaryDirection === 'asc'
-          ? asc(table[params.secondaryField])
-          : desc(table[params.secondaryField])
-      );
-    }
+  // Add tiebreaker so that the key is unique across rows
+  if (tiebreakerField) {
+    addKey(tiebreakerField, params.fields[0]?.direction ?? 'asc');
   }
   
-  return expressions;
+  return keys;
+}
+
+/**
+ * Sort keys that order rows by one or more computed ranks, highest first
+ * 
+ * @param table Table object from schema
+ * @param ranks Named rank expressions, most significant first
+ * @param tiebreakerField Unique field appended as the last key
+ * @returns Array of sort keys in ORDER BY order
+ */
+export function getRankSortKeys<T extends Record<string, any>>(
+  table: T,
+  ranks: { field: string; rank: SQL }[],
+  tiebreakerField: string
+): SortKey[] {
+  return [
+    ...ranks.map(({ field, rank }): SortKey => ({
+      field,
+      column: rank,
+      direction: 'desc',
+      caseInsensitive: false
+    })),
+    { field: tiebreakerField, column: table[tiebreakerField], direction: 'desc', caseInsensitive: false }
+  ];
+}
+
+/**
+ * Get the SQL expression a sort key orders by
+ * 
+ * @param key Sort key
+ * @returns SQL expression for the key
+ */
+export function getSortKeyExpression(key: SortKey): SQL {
+  return key.caseInsensitive ? sql`LOWER(${key.column})` : sql`${key.column}`;
+}
+
+/**
+ * Reverse the direction of every key in the sort parameters
+ * Used to walk a sorted result set backwards from a cursor
+ * 
+ * @param params Sort parameters
+ * @returns Sort parameters with all directions flipped
+ */
+export function reverseSortParams(params: SortParams): SortParams {
+  return {
+    fields: params.fields.map(({ field, direction }) => ({
+      field,
+      direction: direction === 'asc' ? 'desc' : 'asc'
+    }))
+  };
+}
+
+/**
+ * Reverse the direction of every sort key
+ * Used to walk a sorted result set backwards from a cursor
+ * 
+ * @param keys Sort keys
+ * @returns Sort keys with all directions flipped
+ */
+export function reverseSortKeys(keys: SortKey[]): SortKey[] {
+  return keys.map(key => ({ ...key, direction: key.direction === 'asc' ? 'desc' : 'asc' }));
+}
+
+/**
+ * Generate the ORDER BY expressions for a list of sort keys
+ * 
+ * @param keys Sort keys in ORDER BY order
+ * @returns Array of SQL expressions for ORDER BY clause
+ */
+export function getSortKeyOrderBy(keys: SortKey[]): SQL[] {
+  return keys.map(key =>
+    key.direction === 'asc'
+      ? asc(getSortKeyExpression(key))
+      : desc(getSortKeyExpression(key))
+  );
+}
+
+/**
+ * Generate SQL sort expressions with case-insensitive sorting for text fields
+ * 
+ * @param table Table object from schema
+ * @param params Sort parameters
+ * @param textFields Array of field names that should use case-insensitive sorting
+ * @param tiebreakerField Unique field appended as the last key, in the primary direction (optional)
+ * @returns Array of SQL expressions for ORDER BY clause
+ */
+export function getSortExpressionsWithCaseInsensitive<T extends Record<string, any>>(
+  table: T,
+  params: SortParams,
+  textFields: string[] = [],
+  tiebreakerField?: string
+): SQL[] {
+  return getSortKeyOrderBy(getSortKeys(table, params, textFields, tiebreakerField));
 }
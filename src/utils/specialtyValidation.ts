@@ -0,0 +1,114 @@
+import { specialties } from '../db/schema';
+import {
+  ValidationErrors,
+  ValidationResult,
+  getMaxLength,
+  isValidUuid,
+  validateString
+} from './validation';
+
+/**
+ * Validated specialty payload, ready to be written to the database
+ */
+export interface ValidatedSpecialtyInput {
+  name: string;
+  /** Null when the specialty has no description */
+  description: string | null;
+}
+
+/**
+ * Validate a specialty payload for creation
+ *
+ * @param input Untrusted payload, e.g. a parsed request body
+ * @returns Normalized payload, or per-field errors
+ */
+export function validateSpecialtyInput(input: unknown): ValidationResult<ValidatedSpecialtyInput> {
+  return validateSpecialtyFields(input, false) as ValidationResult<ValidatedSpecialtyInput>;
+}
+
+/**
+ * Validate a partial specialty payload, used to rename a specialty or change its description
+ * A null description clears it; at least one field must be given
+ *
+ * @param input Untrusted payload, e.g. a parsed request body
+ * @returns Normalized payload containing only the given fields, or per-field errors
+ */
+export function validateSpecialtyPatch(
+  input: unknown
+): ValidationResult<Partial<ValidatedSpecialtyInput>> {
+  return validateSpecialtyFields(input, true);
+}
+
+/**
+ * Shared validation for create and update payloads
+ *
+ * @param input Untrusted payload
+ * @param partial Whether missing fields are allowed
+ * @returns Normalized payload, or per-field errors
+ */
+function validateSpecialtyFields(
+  input: unknown,
+  partial: boolean
+): ValidationResult<Partial<ValidatedSpecialtyInput>> {
+  const errors: ValidationErrors = {};
+
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { errors: { body: 'body must be a JSON object' } };
+  }
+
+  const body = input as Partial<Record<keyof ValidatedSpecialtyInput, unknown>>;
+  const data: Partial<ValidatedSpecialtyInput> = {};
+
+  if (!partial || body.name !== undefined) {
+    data.name = validateString(body.name, 'name', errors, {
+      maxLength: getMaxLength(specialties.name)
+    });
+  }
+
+  if (!partial || body.description !== undefined) {
+    data.description = validateString(body.description, 'description', errors, {
+      maxLength: getMaxLength(specialties.description),
+      required: false
+    }) ?? null;
+  }
+
+  if (partial && Object.keys(data).length === 0 && Object.keys(errors).length === 0) {
+    errors.body = 'at least one of name or description must be given';
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { errors };
+  }
+
+  return { data, errors };
+}
+
+/**
+ * Validate the payload of a specialty merge
+ *
+ * @param input Untrusted payload, e.g. a parsed request body
+ * @param sourceId ID of the specialty being merged away
+ * @returns The target specialty ID, or per-field errors
+ */
+export function validateSpecialtyMerge(
+  input: unknown,
+  sourceId: string
+): ValidationResult<{ targetId: string }> {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { errors: { body: 'body must be a JSON object' } };
+  }
+
+  const { targetId } = input as { targetId?: unknown };
+
+  if (targetId === undefined || targetId === null || targetId === '') {
+    return { errors: { targetId: 'targetId is required' } };
+  }
+  if (!isValidUuid(targetId)) {
+    return { errors: { targetId: 'targetId must be a specialty ID' } };
+  }
+  if (targetId.toLowerCase() === sourceId.toLowerCase()) {
+    return { errors: { targetId: 'a specialty cannot be merged into itself' } };
+  }
+
+  return { data: { targetId }, errors: {} };
+}
@@ -0,0 +1,97 @@
+import { PgColumn, PgVarchar } from 'drizzle-orm/pg-core';
+
+/**
+ * Matches a canonical UUID string (any version)
+ */
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Check whether a value is a well-formed UUID
+ * 
+ * @param value Value to check
+ * @returns True if the value is a UUID string
+ */
+export function isValidUuid(value: unknown): value is string {
+  return typeof value === 'string' && UUID_PATTERN.test(value);
+}
+
+/**
+ * Validation errors keyed by field path (e.g. "location.city")
+ */
+export type ValidationErrors = Record<string, string>;
+
+/**
+ * Result of validating a payload
+ */
+export interface ValidationResult<T> {
+  /** Normalized payload, only set when there are no errors */
+  data?: T;
+  errors: ValidationErrors;
+}
+
+/**
+ * Get the declared length limit of a varchar column
+ * 
+ * @param column Column from the schema
+ * @returns Maximum length, or undefined for unbounded columns
+ */
+export function getMaxLength(column: PgColumn): number | undefined {
+  return column instanceof PgVarchar ? column.length : undefined;
+}
+
+/**
+ * Validate a required or optional string against a maximum length
+ * 
+ * @param value Value to validate
+ * @param field Field path used in error messages
+ * @param errors Error collection to add to
+ * @param options Maximum length and whether the value is required
+ * @returns Trimmed string, or undefined if missing or invalid
+ */
+export function validateString(
+  value: unknown,
+  field: string,
+  errors: ValidationErrors,
+  { maxLength, required = true }: { maxLength?: number; required?: boolean } = {}
+): string | undefined {
+  if (value === undefined || value === null || value === '') {
+    if (required) errors[field] = `${field} is required`;
+    return undefined;
+  }
+  
+  if (typeof value !== 'string') {
+    errors[field] = `${field} must be a string`;
+    return undefined;
+  }
+  
+  const trimmed = value.trim();
+  if (required && trimmed === '') {
+    errors[field] = `${field} is required`;
+    return undefined;
+  }
+  
+  if (maxLength !== undefined && trimmed.length > maxLength) {
+    errors[field] = `${field} must be at most ${maxLength} characters`;
+    return undefined;
+  }
+  
+  return trimmed;
+}
+
+/**
+ * Parse a US phone number given as digits or a formatted string
+ * Spaces, dots, dashes, parentheses and a leading +1 are ignored
+ * 
+ * @param value Phone number as number or string
+ * @returns Ten digit phone number, or undefined if the format is invalid
+ */
+export function parsePhoneNumber(value: unknown): number | undefined {
+  if (typeof value !== 'number' && typeof value !== 'string') return undefined;
+  
+  let digits = String(value).replace(/[\s().+-]/g, '');
+  if (digits.length === 11 && digits.startsWith('1')) {
+    digits = digits.slice(1);
+  }
+  
+  return /^[2-9]\d{9}$/.test(digits) ? Number(digits) : undefined;
+}
@@ -0,0 +1,270 @@
+import { constants, deflateRawSync } from 'zlib';
+
+/**
+ * MIME type of an XLSX workbook
+ */
+export const XLSX_CONTENT_TYPE =
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+/**
+ * Value that can be written to a worksheet cell
+ */
+export type XlsxValue = string | number | null | undefined;
+
+/**
+ * Streamed file inside a zip archive
+ */
+interface ZipEntry {
+  name: string;
+  content: Iterable<string> | AsyncIterable<string>;
+}
+
+/**
+ * Values needed for an entry's central directory record
+ */
+interface ZipEntryRecord {
+  name: Buffer;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+/**
+ * General purpose flags: sizes follow the data (bit 3), names are UTF-8 (bit 11)
+ */
+const ZIP_FLAGS = 0x0808;
+const ZIP_VERSION = 20;
+const ZIP_DEFLATE = 8;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Update a CRC-32 checksum with more data
+ *
+ * @param data Next chunk of data
+ * @param crc Checksum of the data so far
+ * @returns Checksum including this chunk
+ */
+function crc32(data: Uint8Array, crc = 0): number {
+  let c = crc ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Convert a date to the MS-DOS time and date fields used by zip headers
+ */
+function getDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Write a zip archive without holding its contents in memory
+ * Each chunk is deflated on its own and flushed to a byte boundary, so the chunks
+ * join into one valid deflate stream. Sizes and checksums are written after each
+ * entry's data in a data descriptor, as they are only known at the end
+ *
+ * @param entries Files to add, in order
+ * @returns Archive bytes
+ */
+async function* writeZip(entries: ZipEntry[]): AsyncGenerator<Uint8Array> {
+  const records: ZipEntryRecord[] = [];
+  const modified = getDosDateTime(new Date());
+  let offset = 0;
+
+  for (const entry of entries) {
+    const record: ZipEntryRecord = {
+      name: Buffer.from(entry.name, 'utf8'),
+      crc: 0,
+      compressedSize: 0,
+      size: 0,
+      offset,
+    };
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(ZIP_VERSION, 4);
+    header.writeUInt16LE(ZIP_FLAGS, 6);
+    header.writeUInt16LE(ZIP_DEFLATE, 8);
+    header.writeUInt16LE(modified.time, 10);
+    header.writeUInt16LE(modified.date, 12);
+    // Checksum and sizes (14-25) are left at zero and sent in the data descriptor
+    header.writeUInt16LE(record.name.length, 26);
+    yield Buffer.concat([header, record.name]);
+
+    for await (const text of entry.content) {
+      const data = Buffer.from(text, 'utf8');
+      if (data.length === 0) continue;
+
+      record.crc = crc32(data, record.crc);
+      record.size += data.length;
+
+      const compressed = deflateRawSync(data, { finishFlush: constants.Z_SYNC_FLUSH });
+      record.compressedSize += compressed.length;
+      yield compressed;
+    }
+
+    // An empty final block terminates the deflate stream
+    const end = deflateRawSync(Buffer.alloc(0));
+    record.compressedSize += end.length;
+    yield end;
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(record.crc, 4);
+    descriptor.writeUInt32LE(record.compressedSize, 8);
+    descriptor.writeUInt32LE(record.size, 12);
+    yield descriptor;
+
+    offset += header.length + record.name.length + record.compressedSize + descriptor.length;
+    records.push(record);
+  }
+
+  const centralDirectory = records.map(record => {
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(ZIP_VERSION, 4);
+    header.writeUInt16LE(ZIP_VERSION, 6);
+    header.writeUInt16LE(ZIP_FLAGS, 8);
+    header.writeUInt16LE(ZIP_DEFLATE, 10);
+    header.writeUInt16LE(modified.time, 12);
+    header.writeUInt16LE(modified.date, 14);
+    header.writeUInt32LE(record.crc, 16);
+    header.writeUInt32LE(record.compressedSize, 20);
+    header.writeUInt32LE(record.size, 24);
+    header.writeUInt16LE(record.name.length, 28);
+    header.writeUInt32LE(record.offset, 42);
+    return Buffer.concat([header, record.name]);
+  });
+  const centralDirectorySize = centralDirectory.reduce((size, header) => size + header.length, 0);
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(records.length, 8);
+  end.writeUInt16LE(records.length, 10);
+  end.writeUInt32LE(centralDirectorySize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  yield Buffer.concat([...centralDirectory, end]);
+}
+
+/**
+ * Escape text for XML, dropping control characters XML cannot represent
+ */
+function escapeXml(text: string): string {
+  return text
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Format a worksheet row; strings are written inline so no shared string table is needed
+ */
+function formatRow(values: XlsxValue[]): string {
+  const cells = values.map(value => {
+    if (value === null || value === undefined) return '<c/>';
+    if (typeof value === 'number' && Number.isFinite(value)) return `<c><v>${value}</v></c>`;
+    return `<c t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+  });
+  return `<row>${cells.join('')}</row>`;
+}
+
+/**
+ * Worksheet XML, produced batch by batch
+ */
+async function* worksheetXml(
+  header: string[],
+  batches: AsyncIterable<XlsxValue[][]>
+): AsyncGenerator<string> {
+  yield '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>' +
+    formatRow(header);
+
+  for await (const rows of batches) {
+    yield rows.map(formatRow).join('');
+  }
+
+  yield '</sheetData></worksheet>';
+}
+
+/**
+ * Write a single-sheet XLSX workbook as a stream
+ * The workbook holds the header row followed by the rows of each batch, so only
+ * one batch needs to be in memory at a time
+ *
+ * @param sheetName Worksheet name (at most 31 characters)
+ * @param header Column headings
+ * @param batches Batches of rows
+ * @returns Workbook bytes
+ */
+export function writeXlsx(
+  sheetName: string,
+  header: string[],
+  batches: AsyncIterable<XlsxValue[][]>
+): AsyncGenerator<Uint8Array> {
+  const xmlHeader = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+  const relationships = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+  return writeZip([
+    {
+      name: '[Content_Types].xml',
+      content: [
+        xmlHeader +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '</Types>',
+      ],
+    },
+    {
+      name: '_rels/.rels',
+      content: [
+        xmlHeader +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        `<Relationship Id="rId1" Type="${relationships}/officeDocument" Target="xl/workbook.xml"/>` +
+        '</Relationships>',
+      ],
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: [
+        xmlHeader +
+        `<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="${relationships}">` +
+        `<sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>` +
+        '</workbook>',
+      ],
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: [
+        xmlHeader +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        `<Relationship Id="rId1" Type="${relationships}/worksheet" Target="worksheets/sheet1.xml"/>` +
+        '</Relationships>',
+      ],
+    },
+    { name: 'xl/worksheets/sheet1.xml', content: worksheetXml(header, batches) },
+  ]);
+}